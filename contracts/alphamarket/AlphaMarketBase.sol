@@ -2,12 +2,30 @@
 pragma solidity ^0.8.26;
 
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {TimelockedOwnableUpgradeable} from "../governance/TimelockedOwnableUpgradeable.sol";
+import {Utils} from "../Utils.sol";
 
 /// @title AlphaMarketBase
 /// @notice This contract implements a base implementation for the alpha market contracts.
-contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+/// @dev The fee configuration read by every alpha market contract, including the bonding curves and group tokens.
+/// All percentages are in basis points. Contracts pay the default fees unless the owner sets a fee schedule for them,
+/// whose tiers apply from the volume the contract has recorded with `recordVolume`.
+/// Changes to the fees, fee schedules, fee destination and guardian, and upgrades, are timelocked.
+contract AlphaMarketBase is Initializable, TimelockedOwnableUpgradeable, UUPSUpgradeable {
+    /*///////////////////////////////////////////////////////////////
+                            STRUCTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param volumeThreshold The recorded volume from which the tier applies, in the contract's reserve units.
+    /// @param protocolFeePercent The percentage of the transaction value to send to the protocol fee destination.
+    /// @param feeSharePercent The percentage of the collected fees to share with the group contract.
+    struct FeeTier {
+        uint256 volumeThreshold;
+        uint256 protocolFeePercent;
+        uint256 feeSharePercent;
+    }
+
     /*///////////////////////////////////////////////////////////////
                             ERRORS
     ///////////////////////////////////////////////////////////////*/
@@ -15,10 +33,22 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /// Error to be used when an address is the zero address.
     error AlphaMarketBase__AddressCannotBeZero();
 
+    /// Error to be used when the protocol fee percentage exceeds the maximum.
+    error AlphaMarketBase__ProtocolFeePercentTooHigh();
+
+    /// Error to be used when the fee share percentage exceeds 100%.
+    error AlphaMarketBase__FeeSharePercentTooHigh();
+
+    /// Error to be used when the tiers of a fee schedule do not start at zero volume in ascending order.
+    error AlphaMarketBase__InvalidFeeSchedule();
+
     /*///////////////////////////////////////////////////////////////
                             STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
 
+    /// The maximum percentage of the transaction value the protocol fee can be set to. (basis points)
+    uint256 private constant MAX_PROTOCOL_FEE_PERCENT = 1000;
+
     /// The address to send protocol fees to.
     address private protocolFeeDestination;
 
@@ -28,6 +58,15 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /// The percentage of the collected fees to share with the group contract. (basis points)
     uint256 private feeSharePercent;
 
+    /// The fee schedules overriding the default fees, ordered by volume threshold.
+    mapping(address group => FeeTier[] tiers) private feeSchedules;
+
+    /// The volume each contract has recorded, in its reserve units.
+    mapping(address group => uint256 volume) private recordedVolume;
+
+    /// The address allowed to pause and unpause trading in group contracts.
+    address private guardian;
+
     /*///////////////////////////////////////////////////////////////
                             EVENTS
     ///////////////////////////////////////////////////////////////*/
@@ -41,6 +80,17 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /// Emitted when the fee share percentage is updated.
     event FeeSharePercentUpdated(uint256 newPercent);
 
+    /// Emitted when the fee schedule of a contract is set, or removed when it has no tiers.
+    event FeeScheduleUpdated(address indexed group, FeeTier[] tiers);
+
+    /// Emitted when the guardian is updated.
+    event GuardianUpdated(address newGuardian);
+
+    /// Emitted when a contract records volume, with the fee tier that applied to it.
+    event FeeTierApplied(
+        address indexed group, uint256 indexed tier, uint256 volume, uint256 protocolFeePercent, uint256 feeSharePercent
+    );
+
     /*///////////////////////////////////////////////////////////////
                         INITIALIZER FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
@@ -66,7 +116,10 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
             revert AlphaMarketBase__AddressCannotBeZero();
         }
 
-        __Ownable_init(_owner);
+        _validateProtocolFeePercent(_protocolFeePercent);
+        _validateFeeSharePercent(_feeSharePercent);
+
+        __TimelockedOwnable_init(_owner);
         __UUPSUpgradeable_init();
 
         protocolFeeDestination = _protocolFeeDestination;
@@ -79,7 +132,7 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     ///////////////////////////////////////////////////////////////*/
 
     /// @param _destination The address to send protocol fees to.
-    function setProtocolFeeDestination(address _destination) external onlyOwner {
+    function setProtocolFeeDestination(address _destination) external onlyOwner timelocked {
         if (_destination == address(0)) {
             revert AlphaMarketBase__AddressCannotBeZero();
         }
@@ -89,19 +142,71 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     }
 
     /// @param _protocolFeePercent The percentage of the transaction to send to the protocol fee destination represented in basis points.
-    function setProtocolFeePercent(uint256 _protocolFeePercent) external onlyOwner {
+    function setProtocolFeePercent(uint256 _protocolFeePercent) external onlyOwner timelocked {
+        _validateProtocolFeePercent(_protocolFeePercent);
         protocolFeePercent = _protocolFeePercent;
 
         emit ProtocolFeePercentUpdated(_protocolFeePercent);
     }
 
     /// @param _feeSharePercent The collected fee share percentage for selling tokens represented in basis points.
-    function setFeeSharePercent(uint256 _feeSharePercent) external onlyOwner {
+    function setFeeSharePercent(uint256 _feeSharePercent) external onlyOwner timelocked {
+        _validateFeeSharePercent(_feeSharePercent);
         feeSharePercent = _feeSharePercent;
 
         emit FeeSharePercentUpdated(_feeSharePercent);
     }
 
+    /// @dev Setting the zero address makes the owner the guardian.
+    /// @param _guardian The address allowed to pause and unpause trading in group contracts.
+    function setGuardian(address _guardian) external onlyOwner timelocked {
+        guardian = _guardian;
+
+        emit GuardianUpdated(_guardian);
+    }
+
+    /// @notice Sets the fee schedule of a contract, overriding the default fees.
+    /// @dev A single tier overrides the fees for every volume. Passing no tiers removes the schedule.
+    /// @param group The address of the contract charging the fees.
+    /// @param tiers The fee tiers, starting at zero volume and ordered by strictly increasing volume threshold.
+    function setFeeSchedule(address group, FeeTier[] calldata tiers) external onlyOwner timelocked {
+        if (group == address(0)) {
+            revert AlphaMarketBase__AddressCannotBeZero();
+        }
+        delete feeSchedules[group];
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (i == 0 ? tiers[i].volumeThreshold != 0 : tiers[i].volumeThreshold <= tiers[i - 1].volumeThreshold) {
+                revert AlphaMarketBase__InvalidFeeSchedule();
+            }
+            _validateProtocolFeePercent(tiers[i].protocolFeePercent);
+            _validateFeeSharePercent(tiers[i].feeSharePercent);
+            feeSchedules[group].push(tiers[i]);
+        }
+
+        emit FeeScheduleUpdated(group, tiers);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            EXTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Records the volume of a transaction charged by the caller, returning the fees that apply to it.
+    /// @dev The fees are those of the tier reached before the volume is added. Only the caller's volume is affected.
+    /// @param volume The transaction value the fees are charged on, in the caller's reserve units.
+    /// @return tier The index of the tier in the caller's fee schedule, zero when it pays the default fees.
+    /// @return effectiveProtocolFeePercent The percentage of the transaction value to send to the protocol fee
+    /// destination.
+    /// @return effectiveFeeSharePercent The percentage of the collected fees to share with the group contract.
+    function recordVolume(uint256 volume)
+        external
+        returns (uint256 tier, uint256 effectiveProtocolFeePercent, uint256 effectiveFeeSharePercent)
+    {
+        (tier, effectiveProtocolFeePercent, effectiveFeeSharePercent) = getEffectiveFees(msg.sender);
+        recordedVolume[msg.sender] += volume;
+
+        emit FeeTierApplied(msg.sender, tier, volume, effectiveProtocolFeePercent, effectiveFeeSharePercent);
+    }
+
     /*//////////////////////////////////////////////////////////////
                             GETTER FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -121,10 +226,62 @@ contract AlphaMarketBase is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         return feeSharePercent;
     }
 
+    /// @return The address allowed to pause and unpause trading in group contracts, the owner by default.
+    function getGuardian() external view returns (address) {
+        return guardian == address(0) ? owner() : guardian;
+    }
+
+    /// @param group The address of the contract charging the fees.
+    /// @return tier The index of the tier in the contract's fee schedule, zero when it pays the default fees.
+    /// @return The percentage of the transaction value the contract sends to the protocol fee destination.
+    /// @return The percentage of the collected fees the contract shares with the group.
+    function getEffectiveFees(address group) public view returns (uint256 tier, uint256, uint256) {
+        FeeTier[] storage tiers = feeSchedules[group];
+        if (tiers.length == 0) {
+            return (0, protocolFeePercent, feeSharePercent);
+        }
+        uint256 volume = recordedVolume[group];
+        while (tier + 1 < tiers.length && tiers[tier + 1].volumeThreshold <= volume) {
+            tier++;
+        }
+        return (tier, tiers[tier].protocolFeePercent, tiers[tier].feeSharePercent);
+    }
+
+    /// @param group The address of the contract charging the fees.
+    /// @return The fee tiers overriding the default fees of the contract, empty when it pays the default fees.
+    function getFeeSchedule(address group) external view returns (FeeTier[] memory) {
+        return feeSchedules[group];
+    }
+
+    /// @param group The address of the contract charging the fees.
+    /// @return The volume the contract has recorded, in its reserve units.
+    function getRecordedVolume(address group) external view returns (uint256) {
+        return recordedVolume[group];
+    }
+
+    /// @return The maximum percentage of the transaction value the protocol fee can be set to.
+    function getMaxProtocolFeePercent() external pure returns (uint256) {
+        return MAX_PROTOCOL_FEE_PERCENT;
+    }
+
     /*//////////////////////////////////////////////////////////////
                             INTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /// @param _protocolFeePercent The protocol fee percentage to validate. (basis points)
+    function _validateProtocolFeePercent(uint256 _protocolFeePercent) internal pure {
+        if (_protocolFeePercent > MAX_PROTOCOL_FEE_PERCENT) {
+            revert AlphaMarketBase__ProtocolFeePercentTooHigh();
+        }
+    }
+
+    /// @param _feeSharePercent The fee share percentage to validate. (basis points)
+    function _validateFeeSharePercent(uint256 _feeSharePercent) internal pure {
+        if (_feeSharePercent > Utils.getBasisPointsPrecision()) {
+            revert AlphaMarketBase__FeeSharePercentTooHigh();
+        }
+    }
+
     /// @param newImplementation The address of the new implementation contract.
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner timelocked {}
 }
@@ -0,0 +1,260 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/// @title AlphaMarketPoints
+/// @notice This contract records the points users earn by interacting with groups and campaigns.
+/// Points are computed off-chain per epoch from indexed events using the weights configured here, and the owner
+/// publishes a Merkle root of each finished epoch that users claim their points against.
+/// @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(account, epoch, points))))`, the encoding used by
+/// OpenZeppelin's `StandardMerkleTree`.
+contract AlphaMarketPoints is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Error to be used when an address is the zero address.
+    error AlphaMarketPoints__AddressCannotBeZero();
+
+    /// Error to be used when the epoch length is zero.
+    error AlphaMarketPoints__EpochLengthCannotBeZero();
+
+    /// Error to be used when publishing the root of an epoch that has not ended.
+    error AlphaMarketPoints__EpochNotOver();
+
+    /// Error to be used when publishing a zero root.
+    error AlphaMarketPoints__EpochRootCannotBeZero();
+
+    /// Error to be used when publishing the root of an epoch a second time.
+    error AlphaMarketPoints__EpochRootAlreadyPublished();
+
+    /// Error to be used when claiming points for an epoch without a published root.
+    error AlphaMarketPoints__EpochRootNotPublished();
+
+    /// Error to be used when an account claims the points of an epoch a second time.
+    error AlphaMarketPoints__PointsAlreadyClaimed();
+
+    /// Error to be used when a claim does not match the epoch's Merkle root.
+    error AlphaMarketPoints__InvalidProof();
+
+    /*///////////////////////////////////////////////////////////////
+                             TYPES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param tokenMint Points per Ether spent minting group tokens.
+    /// @param membershipPurchase Points per membership purchased.
+    /// @param membershipHolding Points per membership held for a day.
+    /// @param sponsorship Points per Ether of accepted campaign sponsorships.
+    /// @param tip Points per Ether tipped to campaigns.
+    struct PointWeights {
+        uint256 tokenMint;
+        uint256 membershipPurchase;
+        uint256 membershipHolding;
+        uint256 sponsorship;
+        uint256 tip;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The timestamp epoch zero starts at.
+    uint256 private genesis;
+
+    /// The length of an epoch. (seconds)
+    uint256 private epochLength;
+
+    /// The weights used to compute the points of each interaction.
+    PointWeights private pointWeights;
+
+    /// The total points claimed by all accounts.
+    uint256 private totalPoints;
+
+    /*///////////////////////////////////////////////////////////////
+                                MAPPINGS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// A mapping of the Merkle root published for each epoch.
+    mapping(uint256 epoch => bytes32 root) private epochRoots;
+
+    /// A mapping of whether an account has claimed its points for an epoch.
+    mapping(uint256 epoch => mapping(address account => bool)) private claimed;
+
+    /// A mapping of the points each account has claimed across all epochs.
+    mapping(address account => uint256 points) private points;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Emitted when the point weights are updated.
+    event PointWeightsUpdated(PointWeights weights);
+
+    /// Emitted when the Merkle root of an epoch is published.
+    event EpochRootPublished(uint256 indexed epoch, bytes32 root);
+
+    /// Emitted when an account claims its points for an epoch.
+    event PointsClaimed(uint256 indexed epoch, address indexed account, uint256 points);
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// Initializes the points contract with the given parameters.
+    /// @param _owner The owner of the contract.
+    /// @param _genesis The timestamp epoch zero starts at.
+    /// @param _epochLength The length of an epoch. (seconds)
+    /// @param _pointWeights The weights used to compute the points of each interaction.
+    function initialize(address _owner, uint256 _genesis, uint256 _epochLength, PointWeights calldata _pointWeights)
+        public
+        initializer
+    {
+        if (_owner == address(0)) {
+            revert AlphaMarketPoints__AddressCannotBeZero();
+        }
+        if (_epochLength == 0) {
+            revert AlphaMarketPoints__EpochLengthCannotBeZero();
+        }
+
+        __Ownable_init(_owner);
+        __UUPSUpgradeable_init();
+
+        genesis = _genesis;
+        epochLength = _epochLength;
+        pointWeights = _pointWeights;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Allows the owner to publish the Merkle root of an epoch once it has ended.
+    /// @param epoch The epoch the root was computed for.
+    /// @param root The Merkle root of the `(account, epoch, points)` leaves.
+    function publishEpochRoot(uint256 epoch, bytes32 root) external onlyOwner {
+        if (block.timestamp < getEpochStart(epoch + 1)) {
+            revert AlphaMarketPoints__EpochNotOver();
+        }
+        if (root == bytes32(0)) {
+            revert AlphaMarketPoints__EpochRootCannotBeZero();
+        }
+        if (epochRoots[epoch] != bytes32(0)) {
+            revert AlphaMarketPoints__EpochRootAlreadyPublished();
+        }
+        epochRoots[epoch] = root;
+
+        emit EpochRootPublished(epoch, root);
+    }
+
+    /// Allows anyone to claim the points an account earned in an epoch.
+    /// @param epoch The epoch the points were earned in.
+    /// @param account The address of the account that earned the points.
+    /// @param amount The points earned.
+    /// @param proof The Merkle proof of the account's leaf.
+    function claimPoints(uint256 epoch, address account, uint256 amount, bytes32[] calldata proof) external {
+        bytes32 root = epochRoots[epoch];
+        if (root == bytes32(0)) {
+            revert AlphaMarketPoints__EpochRootNotPublished();
+        }
+        if (claimed[epoch][account]) {
+            revert AlphaMarketPoints__PointsAlreadyClaimed();
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, epoch, amount))));
+        if (!MerkleProof.verifyCalldata(proof, root, leaf)) {
+            revert AlphaMarketPoints__InvalidProof();
+        }
+
+        claimed[epoch][account] = true;
+        points[account] += amount;
+        totalPoints += amount;
+
+        emit PointsClaimed(epoch, account, amount);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev New weights apply to the snapshots of epochs whose roots have not been published yet.
+    /// @param _pointWeights The weights used to compute the points of each interaction.
+    function setPointWeights(PointWeights calldata _pointWeights) external onlyOwner {
+        pointWeights = _pointWeights;
+
+        emit PointWeightsUpdated(_pointWeights);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The epoch the current block falls into, or zero before genesis.
+    function getCurrentEpoch() external view returns (uint256) {
+        if (block.timestamp < genesis) {
+            return 0;
+        }
+
+        return (block.timestamp - genesis) / epochLength;
+    }
+
+    /// @param epoch The epoch.
+    /// @return The timestamp the epoch starts at.
+    function getEpochStart(uint256 epoch) public view returns (uint256) {
+        return genesis + epoch * epochLength;
+    }
+
+    /// @return The timestamp epoch zero starts at.
+    function getGenesis() external view returns (uint256) {
+        return genesis;
+    }
+
+    /// @return The length of an epoch. (seconds)
+    function getEpochLength() external view returns (uint256) {
+        return epochLength;
+    }
+
+    /// @return The weights used to compute the points of each interaction.
+    function getPointWeights() external view returns (PointWeights memory) {
+        return pointWeights;
+    }
+
+    /// @param epoch The epoch.
+    /// @return The Merkle root published for the epoch, or zero if none has been published.
+    function getEpochRoot(uint256 epoch) external view returns (bytes32) {
+        return epochRoots[epoch];
+    }
+
+    /// @param epoch The epoch.
+    /// @param account The address of the account.
+    /// @return Whether the account has claimed its points for the epoch.
+    function isClaimed(uint256 epoch, address account) external view returns (bool) {
+        return claimed[epoch][account];
+    }
+
+    /// @param account The address of the account.
+    /// @return The points the account has claimed across all epochs.
+    function getPoints(address account) external view returns (uint256) {
+        return points[account];
+    }
+
+    /// @return The total points claimed by all accounts.
+    function getTotalPoints() external view returns (uint256) {
+        return totalPoints;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param newImplementation The address of the new implementation contract.
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
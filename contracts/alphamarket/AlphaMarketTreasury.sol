@@ -4,11 +4,44 @@ pragma solidity ^0.8.26;
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Utils} from "../Utils.sol";
 
 /// @title AlphaMarketTreasury
 /// @author Dustin Stacy
-/// @notice This contract implements a base for the alpha market contracts.
+/// @notice This contract collects the protocol revenue of the alpha market contracts and splits it between the
+/// protocol, the host of the group it was earned in and the community pool, who each release their share.
+/// @dev Inflows are credited to payees when they are received, so changing a split or a payee only affects
+/// revenue received afterwards. Ether and ERC20 tokens are accounted separately, Ether as the zero address.
 contract AlphaMarketTreasury is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    using SafeERC20 for IERC20;
+
+    /*///////////////////////////////////////////////////////////////
+                            TYPE DECLARATIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The kind of contract revenue is received from.
+    enum SourceKind {
+        Other,
+        GroupToken,
+        GroupMembershipNFT,
+        AlphaCampaigns
+    }
+
+    /// A contract revenue is received from, and the host of the group it belongs to if any.
+    struct Source {
+        SourceKind kind;
+        address host;
+    }
+
+    /// The shares of an inflow credited to each payee. (basis points)
+    struct Split {
+        uint256 protocolShare;
+        uint256 hostShare;
+        uint256 communityShare;
+    }
+
     /*///////////////////////////////////////////////////////////////
                             ERRORS
     ///////////////////////////////////////////////////////////////*/
@@ -16,12 +49,73 @@ contract AlphaMarketTreasury is Initializable, OwnableUpgradeable, UUPSUpgradeab
     /// Error to be used when an address is the zero address.
     error AlphaMarketTreasury__AddressCannotBeZero();
 
+    /// Error to be used when the shares of a split do not add up to 100%.
+    error AlphaMarketTreasury__InvalidSplit();
+
+    /// Error to be used when an amount is zero.
+    error AlphaMarketTreasury__AmountMustBeGreaterThanZero();
+
+    /// Error to be used when the Ether sent does not match the amount deposited.
+    error AlphaMarketTreasury__IncorrectAmountOfEtherSent();
+
+    /// Error to be used when a payee has nothing to release.
+    error AlphaMarketTreasury__NothingToRelease();
+
+    /// Error to be used when an Ether transfer fails.
+    error AlphaMarketTreasury__TransferFailed();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The address the protocol share is credited to, the owner if unset.
+    address private protocolPayee;
+
+    /// The address the community share is credited to, the protocol payee if unset.
+    address private communityPool;
+
+    /// The split applied to the revenue of each kind of source, everything to the protocol if unset.
+    mapping(SourceKind => Split) private splits;
+
+    /// The registered sources of revenue.
+    mapping(address => Source) private sources;
+
+    /// The amount of each asset a payee can release.
+    mapping(address => mapping(address => uint256)) private releasable;
+
+    /// The amount of each asset already released to a payee.
+    mapping(address => mapping(address => uint256)) private released;
+
+    /// The total amount of each asset credited to payees and not yet released.
+    mapping(address => uint256) private totalReleasable;
+
+    /// The total amount of each asset received from a source.
+    mapping(address => mapping(address => uint256)) private sourceRevenue;
+
+    /// The total amount of each asset received from each kind of source.
+    mapping(SourceKind => mapping(address => uint256)) private kindRevenue;
+
     /*///////////////////////////////////////////////////////////////
                             EVENTS
     ///////////////////////////////////////////////////////////////*/
 
-    /// Emitted when the owner withdraws funds from the contract.
-    event Withdrawal(address indexed owner, uint256 amount);
+    /// Emitted when the protocol payee or community pool is updated.
+    event PayeesUpdated(address protocolPayee, address communityPool);
+
+    /// Emitted when the split of a kind of source is updated.
+    event SplitUpdated(SourceKind indexed kind, uint256 protocolShare, uint256 hostShare, uint256 communityShare);
+
+    /// Emitted when a source of revenue is registered or updated.
+    event SourceUpdated(address indexed source, SourceKind kind, address host);
+
+    /// Emitted when revenue is received and credited to the payees.
+    event RevenueReceived(address indexed source, SourceKind indexed kind, address indexed asset, uint256 amount);
+
+    /// Emitted when fees collected for a group are received and credited to its host.
+    event HostFeesReceived(address indexed source, address indexed host, address indexed asset, uint256 amount);
+
+    /// Emitted when a payee's share of an asset is released.
+    event PaymentReleased(address indexed payee, address indexed asset, uint256 amount);
 
     /*///////////////////////////////////////////////////////////////
                         INITIALIZER FUNCTIONS
@@ -43,20 +137,231 @@ contract AlphaMarketTreasury is Initializable, OwnableUpgradeable, UUPSUpgradeab
         __UUPSUpgradeable_init();
     }
 
-    function withdraw() external onlyOwner {
-        uint256 balance = address(this).balance;
-        emit Withdrawal(owner(), balance);
-        payable(owner()).transfer(balance);
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Ether sent directly is revenue from the sender, split according to its registered source.
+    receive() external payable {
+        _receiveRevenue(msg.sender, address(0), msg.value);
+    }
+
+    /// @notice Deposits revenue from the caller, split according to its registered source.
+    /// @dev ERC20 revenue must be approved to the treasury before depositing.
+    /// @param asset The address of the ERC20 token deposited, or the zero address for Ether.
+    /// @param amount The amount of the asset deposited.
+    function deposit(address asset, uint256 amount) external payable {
+        _pullAsset(asset, amount);
+        _receiveRevenue(msg.sender, asset, amount);
     }
 
-    receive() external payable {}
+    /// @notice Deposits fees collected for a group on behalf of its host, who can release all of them.
+    /// @dev ERC20 fees must be approved to the treasury before depositing.
+    /// @param asset The address of the ERC20 token deposited, or the zero address for Ether.
+    /// @param amount The amount of the asset deposited.
+    /// @param host The address of the host the fees are credited to.
+    function depositHostFees(address asset, uint256 amount, address host) external payable {
+        if (host == address(0)) {
+            revert AlphaMarketTreasury__AddressCannotBeZero();
+        }
+        _pullAsset(asset, amount);
 
-    fallback() external payable {}
+        SourceKind kind = sources[msg.sender].kind;
+        sourceRevenue[msg.sender][asset] += amount;
+        kindRevenue[kind][asset] += amount;
+        _credit(host, asset, amount);
+
+        emit HostFeesReceived(msg.sender, host, asset, amount);
+    }
+
+    /// @notice Splits assets transferred to the treasury without a deposit as revenue of an unknown source, such as
+    /// ERC20 tokens sent with a plain transfer or Ether held before the treasury accounted for its revenue.
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    function sync(address asset) external {
+        uint256 balance = asset == address(0) ? address(this).balance : IERC20(asset).balanceOf(address(this));
+        uint256 amount = balance - totalReleasable[asset];
+        if (amount == 0) {
+            revert AlphaMarketTreasury__AmountMustBeGreaterThanZero();
+        }
+        _receiveRevenue(address(0), asset, amount);
+    }
+
+    /// @notice Sends everything a payee can release of an asset to the payee.
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @param payee The address of the payee.
+    function release(address asset, address payee) external {
+        uint256 amount = releasable[payee][asset];
+        if (amount == 0) {
+            revert AlphaMarketTreasury__NothingToRelease();
+        }
+        releasable[payee][asset] = 0;
+        totalReleasable[asset] -= amount;
+        released[payee][asset] += amount;
+
+        emit PaymentReleased(payee, asset, amount);
+
+        if (asset == address(0)) {
+            (bool success,) = payee.call{value: amount}("");
+            if (!success) {
+                revert AlphaMarketTreasury__TransferFailed();
+            }
+        } else {
+            IERC20(asset).safeTransfer(payee, amount);
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _protocolPayee The address the protocol share is credited to.
+    /// @param _communityPool The address the community share is credited to.
+    function setPayees(address _protocolPayee, address _communityPool) external onlyOwner {
+        if (_protocolPayee == address(0) || _communityPool == address(0)) {
+            revert AlphaMarketTreasury__AddressCannotBeZero();
+        }
+        protocolPayee = _protocolPayee;
+        communityPool = _communityPool;
+
+        emit PayeesUpdated(_protocolPayee, _communityPool);
+    }
+
+    /// @param kind The kind of source the split applies to.
+    /// @param split The shares credited to the protocol, the host and the community pool, adding up to 100%.
+    function setSplit(SourceKind kind, Split calldata split) external onlyOwner {
+        if (split.protocolShare + split.hostShare + split.communityShare != Utils.getBasisPointsPrecision()) {
+            revert AlphaMarketTreasury__InvalidSplit();
+        }
+        splits[kind] = split;
+
+        emit SplitUpdated(kind, split.protocolShare, split.hostShare, split.communityShare);
+    }
+
+    /// @param source The address of the contract revenue is received from.
+    /// @param kind The kind of the contract.
+    /// @param host The host of the group the contract belongs to, or the zero address if none.
+    function setSource(address source, SourceKind kind, address host) external onlyOwner {
+        if (source == address(0)) {
+            revert AlphaMarketTreasury__AddressCannotBeZero();
+        }
+        sources[source] = Source(kind, host);
+
+        emit SourceUpdated(source, kind, host);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The address the protocol share is credited to.
+    function getProtocolPayee() public view returns (address) {
+        return protocolPayee == address(0) ? owner() : protocolPayee;
+    }
+
+    /// @return The address the community share is credited to.
+    function getCommunityPool() public view returns (address) {
+        return communityPool == address(0) ? getProtocolPayee() : communityPool;
+    }
+
+    /// @param kind The kind of source.
+    /// @return The split applied to the revenue of the kind of source.
+    function getSplit(SourceKind kind) public view returns (Split memory) {
+        Split memory split = splits[kind];
+        if (split.protocolShare + split.hostShare + split.communityShare == 0) {
+            split.protocolShare = Utils.getBasisPointsPrecision();
+        }
+        return split;
+    }
+
+    /// @param source The address of the contract.
+    /// @return The kind of the contract and the host of its group.
+    function getSource(address source) external view returns (Source memory) {
+        return sources[source];
+    }
+
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @param payee The address of the payee.
+    /// @return The amount of the asset the payee can release.
+    function getReleasable(address asset, address payee) external view returns (uint256) {
+        return releasable[payee][asset];
+    }
+
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @param payee The address of the payee.
+    /// @return The amount of the asset already released to the payee.
+    function getReleased(address asset, address payee) external view returns (uint256) {
+        return released[payee][asset];
+    }
+
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @return The amount of the asset credited to payees and not yet released.
+    function getTotalReleasable(address asset) external view returns (uint256) {
+        return totalReleasable[asset];
+    }
+
+    /// @param source The address of the contract.
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @return The total amount of the asset received from the contract.
+    function getSourceRevenue(address source, address asset) external view returns (uint256) {
+        return sourceRevenue[source][asset];
+    }
+
+    /// @param kind The kind of source.
+    /// @param asset The address of the ERC20 token, or the zero address for Ether.
+    /// @return The total amount of the asset received from the kind of source.
+    function getKindRevenue(SourceKind kind, address asset) external view returns (uint256) {
+        return kindRevenue[kind][asset];
+    }
 
     /*//////////////////////////////////////////////////////////////
                             INTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /// @notice Checks the Ether sent with a deposit, or pulls the deposited ERC20 tokens from the caller.
+    function _pullAsset(address asset, uint256 amount) internal {
+        if (amount == 0) {
+            revert AlphaMarketTreasury__AmountMustBeGreaterThanZero();
+        }
+        if (asset == address(0)) {
+            if (msg.value != amount) {
+                revert AlphaMarketTreasury__IncorrectAmountOfEtherSent();
+            }
+        } else {
+            if (msg.value != 0) {
+                revert AlphaMarketTreasury__IncorrectAmountOfEtherSent();
+            }
+            IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        }
+    }
+
+    /// @notice Records revenue from a source and credits it to the payees according to the source's split.
+    /// @dev The host share goes to the protocol when the source has no host, as does any rounding remainder.
+    function _receiveRevenue(address source, address asset, uint256 amount) internal {
+        Source memory info = sources[source];
+        Split memory split = getSplit(info.kind);
+
+        uint256 hostAmount =
+            info.host != address(0) ? Utils.calculateBasisPointsPercentage(amount, split.hostShare) : 0;
+        uint256 communityAmount = Utils.calculateBasisPointsPercentage(amount, split.communityShare);
+
+        sourceRevenue[source][asset] += amount;
+        kindRevenue[info.kind][asset] += amount;
+        _credit(info.host, asset, hostAmount);
+        _credit(getCommunityPool(), asset, communityAmount);
+        _credit(getProtocolPayee(), asset, amount - hostAmount - communityAmount);
+
+        emit RevenueReceived(source, info.kind, asset, amount);
+    }
+
+    /// @notice Credits an amount of an asset to a payee.
+    function _credit(address payee, address asset, uint256 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+        releasable[payee][asset] += amount;
+        totalReleasable[asset] += amount;
+    }
+
     /// @param newImplementation The address of the new implementation contract.
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
 }
@@ -1,6 +1,7 @@
 //SPDX-License-Identifier: MIT
 pragma solidity ^0.8.26;
 
+import {IEAS, Attestation} from "@ethereum-attestation-service/eas-contracts/contracts/IEAS.sol";
 import {AlphaMarketBase} from "../alphamarket/AlphaMarketBase.sol";
 import "../Utils.sol";
 import "./Errors.sol";
@@ -10,13 +11,26 @@ import "./Errors.sol";
 /// This contract handles the sponsorships for group campaigns. Hosts can create, update, complete, and end campaigns.
 /// Brands can request to sponsor a campaign. Hosts can accept or reject these requests.
 /// Anyone can tip a campaign.
+/// Campaigns created in deliverable mode only release sponsor funds to the host once each sponsor signs off, or once
+/// the host proves delivery with an EAS attestation referencing the campaign, made by the attester the campaign trusts,
+/// and the dispute window that follows has passed. Sponsors can reclaim their funds during the dispute window, or if
+/// no deliverable arrives in time.
+/// @dev Every wei held by the contract is claimable by exactly one party: the host (a campaign's total raised),
+/// a sponsor (their pending funds), or a fan (their tips, once the campaign has been ended).
 contract AlphaCampaigns {
     using Utils for uint256;
 
     /*///////////////////////////////////////////////////////////////
-                             STRUCTS
+                             TYPES
     ///////////////////////////////////////////////////////////////*/
 
+    /// The lifecycle of a campaign. Ended campaigns were cancelled by the host and refund sponsors and fans.
+    enum CampaignStatus {
+        Active,
+        Completed,
+        Ended
+    }
+
     /// @param deadline The deadline for the campaign.
     /// @param slotPrice The price per slot in the campaign.
     /// @param totalRaised The total raised funds for the campaign.
@@ -30,6 +44,30 @@ contract AlphaCampaigns {
         uint32 slotsAvailable;
     }
 
+    /// @param disputeWindow How long sponsors can reclaim their funds after a deliverable is submitted. (seconds)
+    /// @param deliverBy The timestamp after which sponsors can reclaim their funds if no deliverable was submitted.
+    /// @param submittedAt The timestamp the deliverable was submitted at, or zero if none has been.
+    /// @param attestationUID The UID of the EAS attestation proving the deliverable.
+    /// @param attester The address trusted to attest the deliverable, which cannot be the host.
+    struct Deliverable {
+        uint256 disputeWindow;
+        uint256 deliverBy;
+        uint256 submittedAt;
+        bytes32 attestationUID;
+        address attester;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                               CONSTANTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The EAS schema deliverable attestations are made against.
+    string public constant DELIVERABLE_SCHEMA =
+        "address campaigns, uint256 campaignId, bytes32 deliverableHash, string deliverableUri";
+
+    /// The UID of the deliverable schema, registered irrevocable and without a resolver.
+    bytes32 public constant DELIVERABLE_SCHEMA_UID = keccak256(abi.encodePacked(DELIVERABLE_SCHEMA, address(0), false));
+
     /*///////////////////////////////////////////////////////////////
                              STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
@@ -38,6 +76,10 @@ contract AlphaCampaigns {
     /// @dev contains data to handle protocol fees.
     AlphaMarketBase private immutable i_alphaMarketBase;
 
+    /// Instance of the EAS contract deliverable attestations are read from.
+    /// @dev zero if deliverables can only be signed off by sponsors.
+    IEAS private immutable i_eas;
+
     /*///////////////////////////////////////////////////////////////
                                 MAPPINGS
     ///////////////////////////////////////////////////////////////*/
@@ -51,9 +93,30 @@ contract AlphaCampaigns {
     /// A mapping of sponsor funds pending acceptance by a campaign host.
     mapping(uint256 campaignId => mapping(address sponsor => uint256 pendingFunds)) private sponsorPendingFunds;
 
+    /// A mapping of sponsor funds accepted into a campaign's total raised.
+    mapping(uint256 campaignId => mapping(address sponsor => uint256 acceptedFunds)) private sponsorAcceptedFunds;
+
     /// A mapping of sponsors by campaign.
     mapping(uint256 campaignId => address[] sponsors) private sponsors;
 
+    /// A mapping of the status of each campaign.
+    mapping(uint256 campaignId => CampaignStatus) private campaignStatus;
+
+    /// A mapping of the tips sent by each fan, refundable if the campaign is ended.
+    mapping(uint256 campaignId => mapping(address fan => uint256 tips)) private fanTips;
+
+    /// A mapping of the total tips sent to a campaign.
+    mapping(uint256 campaignId => uint256 tips) private campaignTips;
+
+    /// A mapping of the deliverable terms of campaigns created in deliverable mode.
+    mapping(uint256 campaignId => Deliverable) private deliverables;
+
+    /// A mapping of the sponsors who have signed off a campaign's deliverable.
+    mapping(uint256 campaignId => mapping(address sponsor => bool approved)) private deliverableApprovals;
+
+    /// A mapping of the accepted sponsor funds withheld from the host until the deliverable is settled.
+    mapping(uint256 campaignId => uint256 lockedFunds) private lockedSponsorFunds;
+
     /*///////////////////////////////////////////////////////////////
                                 EVENTS
     ///////////////////////////////////////////////////////////////*/
@@ -77,11 +140,11 @@ contract AlphaCampaigns {
     /// Event to log a sponsor request.
     event SponsorRequested(uint256 indexed campaignId, address indexed sponsor, uint256 amount);
 
-    /// Event to log a sponsor rejection.
-    event SponsorRejected(uint256 indexed campaignId, address sponsor);
+    /// Event to log a sponsor rejection, along with the funds returned to the sponsor's pending balance.
+    event SponsorRejected(uint256 indexed campaignId, address sponsor, uint256 amount);
 
-    /// Event to log a sponsor acceptance.
-    event SponsorAccepted(uint256 indexed campaignId, address sponsor);
+    /// Event to log a sponsor acceptance, along with the funds moved into the campaign's total raised.
+    event SponsorAccepted(uint256 indexed campaignId, address sponsor, uint256 amount);
 
     /// Event to log a sponsor withdrawal.
     event SponsorWithdrawn(uint256 indexed campaignId, address sponsor);
@@ -89,6 +152,24 @@ contract AlphaCampaigns {
     /// Event to log a campaign tip.
     event CampaignTipped(uint256 indexed campaignId, address indexed fan, uint256 amount);
 
+    /// Event to log a tip refund from an ended campaign.
+    event TipRefunded(uint256 indexed campaignId, address indexed fan, uint256 amount);
+
+    /// Event to log the host withdrawing a campaign's funds.
+    event FundsWithdrawn(uint256 indexed campaignId, uint256 totalRaised);
+
+    /// Event to log a campaign requiring a deliverable before sponsor funds are released.
+    event DeliverableRequired(uint256 indexed campaignId, uint256 disputeWindow, address indexed attester);
+
+    /// Event to log the host submitting the attestation of a campaign's deliverable.
+    event DeliverableSubmitted(uint256 indexed campaignId, bytes32 attestationUID, address attester);
+
+    /// Event to log a sponsor signing off a campaign's deliverable, releasing their funds to the host.
+    event DeliverableApproved(uint256 indexed campaignId, address indexed sponsor, uint256 amount);
+
+    /// Event to log a sponsor reclaiming their accepted funds into their pending balance.
+    event SponsorshipReclaimed(uint256 indexed campaignId, address indexed sponsor, uint256 amount);
+
     /*////////////////////////////////////////////////////////////////
                             MODIFIERS  
     ///////////////////////////////////////////////////////////////*/
@@ -107,8 +188,10 @@ contract AlphaCampaigns {
 
     /// Initializes the Group Campaigns contract.
     /// @param _alphaMarketBase The address of the Alpha Market Base contract.
-    constructor(address _alphaMarketBase) {
+    /// @param _eas The address of the EAS contract, or zero to only allow sponsor sign-offs.
+    constructor(address _alphaMarketBase, address _eas) {
         i_alphaMarketBase = AlphaMarketBase(_alphaMarketBase);
+        i_eas = IEAS(_eas);
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -121,17 +204,35 @@ contract AlphaCampaigns {
     /// @param slotsAvailable The number of slots available in the campaign.
     /// @param slotPrice The price per slot in the campaign.
     function createCampaign(uint256 deadline, uint256 slotPrice, address host, uint32 slotsAvailable) external {
-        if (deadline == 0 || slotPrice == 0 || host == address(0) || slotsAvailable == 0) {
+        _createCampaign(deadline, slotPrice, host, slotsAvailable);
+    }
+
+    /// Creates a new campaign whose sponsor funds are only released once its deliverable is settled.
+    /// @param deadline The deadline for the campaign.
+    /// @param slotPrice The price per slot in the campaign.
+    /// @param host The address of the host creating the campaign.
+    /// @param slotsAvailable The number of slots available in the campaign.
+    /// @param disputeWindow How long sponsors can reclaim their funds after a deliverable is submitted,
+    /// which is also the time the host has after the deadline to submit one. (seconds)
+    /// @param attester The address trusted to attest the deliverable, such as a sponsor or a verifier, not the host.
+    function createDeliverableCampaign(
+        uint256 deadline,
+        uint256 slotPrice,
+        address host,
+        uint32 slotsAvailable,
+        uint256 disputeWindow,
+        address attester
+    ) external {
+        if (disputeWindow == 0) {
             revert AlphaCampaigns__CampaignValuesCannotBeZero();
         }
-        Campaign memory newCampaign = Campaign(deadline, slotPrice, 0, host, slotsAvailable);
-
-        /// Hash the campaign data to create a unique campaign ID.
-        /// @dev check for clashing campaign IDs?
-        uint256 campaignId = generateCampaignId(newCampaign);
-        campaignById[campaignId] = newCampaign;
+        if (attester == address(0) || attester == host) {
+            revert AlphaCampaigns__InvalidAttester();
+        }
+        uint256 campaignId = _createCampaign(deadline, slotPrice, host, slotsAvailable);
+        deliverables[campaignId] = Deliverable(disputeWindow, deadline + disputeWindow, 0, bytes32(0), attester);
 
-        emit CampaignCreated(campaignId, host, deadline, slotPrice, slotsAvailable);
+        emit DeliverableRequired(campaignId, disputeWindow, attester);
     }
 
     /// Allows a host to update a campaign.
@@ -144,7 +245,7 @@ contract AlphaCampaigns {
         onlyHost(campaignId)
     {
         Campaign storage campaign = campaignById[campaignId];
-        if (campaign.deadline == 0) {
+        if (campaign.deadline == 0 || campaignStatus[campaignId] != CampaignStatus.Active) {
             revert AlphaCampaigns__CampaignOver();
         } else if (campaign.totalRaised != 0) {
             revert AlphaCampaigns__FundingExists();
@@ -155,6 +256,9 @@ contract AlphaCampaigns {
         campaign.deadline = deadline;
         campaign.slotsAvailable = slotsAvailable;
         campaign.slotPrice = slotPrice;
+        if (deliverables[campaignId].disputeWindow != 0) {
+            deliverables[campaignId].deliverBy = deadline + deliverables[campaignId].disputeWindow;
+        }
 
         emit CampaignUpdated(campaignId, deadline, slotPrice, slotsAvailable);
     }
@@ -180,50 +284,83 @@ contract AlphaCampaigns {
     }
 
     /// Allows a group host to reject a sponsor for a campaign.
+    /// @dev The sponsor's pending funds stay in escrow until they withdraw them.
     /// @param campaignId The ID of the campaign.
     /// @param sponsor The address of the sponsor.
-    function rejectSponsor(uint256 campaignId, address sponsor) external {
+    function rejectSponsor(uint256 campaignId, address sponsor) external onlyHost(campaignId) {
         _setSponsorPendingStatus(campaignId, sponsor, false);
 
-        emit SponsorRejected(campaignId, sponsor);
+        emit SponsorRejected(campaignId, sponsor, sponsorPendingFunds[campaignId][sponsor]);
     }
 
     /// Allows a group host to accept a sponsor for a campaign.
+    /// @dev Exactly one slot price moves from the sponsor's pending funds into the campaign's total raised.
+    /// Any excess deposit stays pending and can be withdrawn by the sponsor.
     /// @param campaignId The ID of the campaign.
     /// @param sponsor The address of the sponsor.
-    function acceptSponsor(uint256 campaignId, address sponsor) external {
+    function acceptSponsor(uint256 campaignId, address sponsor) external onlyHost(campaignId) {
         Campaign storage campaign = campaignById[campaignId];
+        if (campaignStatus[campaignId] != CampaignStatus.Active || block.timestamp > campaign.deadline) {
+            revert AlphaCampaigns__CampaignOver();
+        }
+        if (campaign.slotsAvailable == 0) {
+            revert AlphaCampaigns__NoSlotsAvailable();
+        }
+        uint256 slotPrice = campaign.slotPrice;
+        if (sponsorPendingFunds[campaignId][sponsor] < slotPrice) {
+            revert AlphaCampaigns__NotEnoughFundsToSponsor();
+        }
         _setSponsorPendingStatus(campaignId, sponsor, false);
-        campaign.totalRaised += campaign.slotPrice;
+
+        campaign.totalRaised += slotPrice;
         campaign.slotsAvailable--;
-        sponsorPendingFunds[campaignId][sponsor] -= campaign.slotPrice;
-        sponsors[campaignId].push(sponsor);
+        sponsorPendingFunds[campaignId][sponsor] -= slotPrice;
+        if (sponsorAcceptedFunds[campaignId][sponsor] == 0) {
+            sponsors[campaignId].push(sponsor);
+        }
+        sponsorAcceptedFunds[campaignId][sponsor] += slotPrice;
+        if (deliverables[campaignId].disputeWindow != 0 && !deliverableApprovals[campaignId][sponsor]) {
+            lockedSponsorFunds[campaignId] += slotPrice;
+        }
 
-        emit SponsorAccepted(campaignId, sponsor);
+        emit SponsorAccepted(campaignId, sponsor, slotPrice);
     }
 
     /// Allows a user to tip a campaign.
     /// @param campaignId The ID of the campaign.
     function tipCampaign(uint256 campaignId) external payable {
-        if (block.timestamp > campaignById[campaignId].deadline) {
+        if (campaignStatus[campaignId] != CampaignStatus.Active || block.timestamp > campaignById[campaignId].deadline)
+        {
             revert AlphaCampaigns__CampaignOver();
         }
         campaignById[campaignId].totalRaised += msg.value;
+        fanTips[campaignId][msg.sender] += msg.value;
+        campaignTips[campaignId] += msg.value;
 
         emit CampaignTipped(campaignId, msg.sender, msg.value);
     }
 
     /// Allows a host to end a campaign prior to completion.
+    /// @dev Accepted sponsor funds are returned to each sponsor's pending funds and tips become refundable,
+    /// which leaves nothing for the host to withdraw.
     /// @param campaignId The ID of the campaign.
     function endCampaign(uint256 campaignId) external onlyHost(campaignId) {
         Campaign storage campaign = campaignById[campaignId];
+        if (campaignStatus[campaignId] != CampaignStatus.Active || block.timestamp > campaign.deadline) {
+            revert AlphaCampaigns__CampaignOver();
+        }
 
         for (uint256 i = 0; i < sponsors[campaignId].length; i++) {
             address sponsor = sponsors[campaignId][i];
-            sponsorPendingFunds[campaignId][sponsor] = campaign.slotPrice;
-            campaign.totalRaised -= campaign.slotPrice;
+            uint256 acceptedFunds = sponsorAcceptedFunds[campaignId][sponsor];
+            sponsorAcceptedFunds[campaignId][sponsor] = 0;
+            sponsorPendingFunds[campaignId][sponsor] += acceptedFunds;
+            campaign.totalRaised -= acceptedFunds;
         }
+        campaign.totalRaised -= campaignTips[campaignId];
+        lockedSponsorFunds[campaignId] = 0;
 
+        campaignStatus[campaignId] = CampaignStatus.Ended;
         campaign.deadline = 0;
         campaign.slotsAvailable = 0;
 
@@ -234,31 +371,134 @@ contract AlphaCampaigns {
     /// @param campaignId The ID of the campaign.
     function completeCampaign(uint256 campaignId) external onlyHost(campaignId) {
         Campaign storage campaign = campaignById[campaignId];
+        if (campaignStatus[campaignId] != CampaignStatus.Active) {
+            revert AlphaCampaigns__CampaignOver();
+        }
         if (block.timestamp < campaign.deadline) {
             revert AlphaCampaigns__CampaignNotOver();
         }
+        campaignStatus[campaignId] = CampaignStatus.Completed;
         campaign.deadline = 0;
         campaign.slotsAvailable = 0;
 
         emit CampaignCompleted(campaignId, campaign.totalRaised);
     }
 
+    /// Allows a host to submit the EAS attestation proving a deliverable campaign's work was delivered.
+    /// @dev Opens the dispute window, after which the funds of sponsors who did not reclaim them are released. Reverts
+    /// once the time to deliver has passed, as sponsors can then reclaim their funds.
+    /// @param campaignId The ID of the campaign.
+    /// @param attestationUID The UID of an attestation made by the campaign's attester against the deliverable schema
+    /// referencing the campaign.
+    function submitDeliverable(uint256 campaignId, bytes32 attestationUID) external onlyHost(campaignId) {
+        Deliverable storage deliverable = deliverables[campaignId];
+        if (deliverable.disputeWindow == 0) {
+            revert AlphaCampaigns__NotDeliverableCampaign();
+        }
+        if (campaignStatus[campaignId] == CampaignStatus.Ended) {
+            revert AlphaCampaigns__CampaignOver();
+        }
+        if (campaignStatus[campaignId] == CampaignStatus.Active && block.timestamp <= campaignById[campaignId].deadline)
+        {
+            revert AlphaCampaigns__CampaignNotOver();
+        }
+        if (deliverable.submittedAt != 0) {
+            revert AlphaCampaigns__DeliverableAlreadySubmitted();
+        }
+        if (block.timestamp > deliverable.deliverBy) {
+            revert AlphaCampaigns__DeliveryDeadlinePassed();
+        }
+        if (address(i_eas) == address(0)) {
+            revert AlphaCampaigns__InvalidAttestation();
+        }
+        Attestation memory attestation = i_eas.getAttestation(attestationUID);
+        if (
+            attestation.uid == bytes32(0) || attestation.schema != DELIVERABLE_SCHEMA_UID
+                || attestation.attester != deliverable.attester || attestation.revocationTime != 0
+                || (attestation.expirationTime != 0 && attestation.expirationTime <= block.timestamp)
+        ) {
+            revert AlphaCampaigns__InvalidAttestation();
+        }
+        (address campaigns, uint256 attestedCampaignId,,) =
+            abi.decode(attestation.data, (address, uint256, bytes32, string));
+        if (campaigns != address(this) || attestedCampaignId != campaignId) {
+            revert AlphaCampaigns__InvalidAttestation();
+        }
+        deliverable.submittedAt = block.timestamp;
+        deliverable.attestationUID = attestationUID;
+
+        emit DeliverableSubmitted(campaignId, attestationUID, attestation.attester);
+    }
+
+    /// Allows a sponsor to sign off a deliverable campaign, releasing their accepted funds to the host.
+    /// @dev Funds the sponsor has accepted afterwards are released as well.
+    /// @param campaignId The ID of the campaign.
+    function approveDeliverable(uint256 campaignId) external {
+        if (deliverables[campaignId].disputeWindow == 0) {
+            revert AlphaCampaigns__NotDeliverableCampaign();
+        }
+        uint256 acceptedFunds = sponsorAcceptedFunds[campaignId][msg.sender];
+        if (acceptedFunds == 0) {
+            revert AlphaCampaigns__SponsorDoesNotExist();
+        }
+        if (deliverableApprovals[campaignId][msg.sender]) {
+            revert AlphaCampaigns__DeliverableAlreadyApproved();
+        }
+        deliverableApprovals[campaignId][msg.sender] = true;
+        lockedSponsorFunds[campaignId] -= acceptedFunds;
+
+        emit DeliverableApproved(campaignId, msg.sender, acceptedFunds);
+    }
+
+    /// Allows a sponsor who has not signed off a deliverable campaign to reclaim their accepted funds,
+    /// either during the dispute window or once the host missed the time to submit a deliverable.
+    /// @dev The funds move back to the sponsor's pending funds, to be withdrawn with `withdrawSponsorFunds`.
+    /// @param campaignId The ID of the campaign.
+    function reclaimSponsorship(uint256 campaignId) external {
+        if (deliverables[campaignId].disputeWindow == 0) {
+            revert AlphaCampaigns__NotDeliverableCampaign();
+        }
+        if (deliverableApprovals[campaignId][msg.sender]) {
+            revert AlphaCampaigns__DeliverableAlreadyApproved();
+        }
+        if (!isDisputable(campaignId)) {
+            revert AlphaCampaigns__NotDisputable();
+        }
+        uint256 acceptedFunds = sponsorAcceptedFunds[campaignId][msg.sender];
+        if (acceptedFunds == 0) {
+            revert AlphaCampaigns__NoFundsToWithdraw();
+        }
+        sponsorAcceptedFunds[campaignId][msg.sender] = 0;
+        sponsorPendingFunds[campaignId][msg.sender] += acceptedFunds;
+        campaignById[campaignId].totalRaised -= acceptedFunds;
+        lockedSponsorFunds[campaignId] -= acceptedFunds;
+
+        emit SponsorshipReclaimed(campaignId, msg.sender, acceptedFunds);
+    }
+
     /// Allows a host to withdraw their funds from a campaign.
+    /// @dev For deliverable campaigns, only tips and the funds of sponsors who signed off are withdrawn until
+    /// the dispute window has passed.
     /// @param campaignId The ID of the campaign.
     function withdrawFunds(uint256 campaignId) external onlyHost(campaignId) {
         Campaign storage campaign = campaignById[campaignId];
-        if (block.timestamp < campaign.deadline) {
+        if (campaignStatus[campaignId] == CampaignStatus.Active && block.timestamp <= campaign.deadline) {
             revert AlphaCampaigns__CampaignNotOver();
         }
         if (campaign.totalRaised == 0) {
             revert AlphaCampaigns__NoFundsToWithdraw();
         }
-        uint256 protocolFeePercent = i_alphaMarketBase.getProtocolFeePercent();
-        uint256 totalRaised = campaign.totalRaised;
+        uint256 totalRaised = campaign.totalRaised - getLockedSponsorFunds(campaignId);
+        if (totalRaised == 0) {
+            revert AlphaCampaigns__SponsorFundsLocked();
+        }
+        (, uint256 protocolFeePercent,) = i_alphaMarketBase.recordVolume(totalRaised);
         uint256 protocolFee = totalRaised.calculateBasisPointsPercentage(protocolFeePercent);
         uint256 funds = totalRaised - protocolFee;
 
-        campaign.totalRaised = 0;
+        campaign.totalRaised -= totalRaised;
+
+        emit FundsWithdrawn(campaignId, totalRaised);
 
         address protocolFeeDestination = i_alphaMarketBase.getProtocolFeeDestination();
         (bool protocolFeeSuccess,) = protocolFeeDestination.call{value: protocolFee}("");
@@ -273,19 +513,16 @@ contract AlphaCampaigns {
         }
     }
 
-    /// Allows a sponsor to withdraw their funds from a campaign.
+    /// Allows a sponsor to withdraw their pending funds from a campaign.
+    /// @dev Withdrawing cancels any pending sponsorship request.
     /// @param campaignId The ID of the campaign.
     function withdrawSponsorFunds(uint256 campaignId) external {
         address sponsor = msg.sender;
-        if (sponsor == address(0)) {
-            revert AlphaCampaigns__AddressCannotBeZero();
-        }
-        if (sponsorPendingFunds[campaignId][sponsor] == 0) {
+        uint256 funds = sponsorPendingFunds[campaignId][sponsor];
+        if (funds == 0) {
             revert AlphaCampaigns__NoFundsToWithdraw();
         }
-        _setSponsorPendingStatus(campaignId, sponsor, false);
-
-        uint256 funds = sponsorPendingFunds[campaignId][sponsor];
+        pendingSponsors[campaignId][sponsor] = false;
         sponsorPendingFunds[campaignId][sponsor] = 0;
 
         (bool success,) = sponsor.call{value: funds}("");
@@ -296,10 +533,45 @@ contract AlphaCampaigns {
         emit SponsorWithdrawn(campaignId, sponsor);
     }
 
+    /// Allows a fan to reclaim their tips from a campaign that was ended by its host.
+    /// @param campaignId The ID of the campaign.
+    function withdrawTipRefund(uint256 campaignId) external {
+        if (campaignStatus[campaignId] != CampaignStatus.Ended) {
+            revert AlphaCampaigns__CampaignNotEnded();
+        }
+        uint256 tips = fanTips[campaignId][msg.sender];
+        if (tips == 0) {
+            revert AlphaCampaigns__NoFundsToWithdraw();
+        }
+        fanTips[campaignId][msg.sender] = 0;
+        campaignTips[campaignId] -= tips;
+
+        (bool success,) = msg.sender.call{value: tips}("");
+        if (!success) {
+            revert AlphaCampaigns__TipRefundTransferFailed();
+        }
+
+        emit TipRefunded(campaignId, msg.sender, tips);
+    }
+
     /*///////////////////////////////////////////////////////////////
                           PUBLIC FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
+    /// @param campaignId The ID of the campaign.
+    /// @return Whether sponsors of a deliverable campaign can currently reclaim their accepted funds.
+    function isDisputable(uint256 campaignId) public view returns (bool) {
+        Deliverable storage deliverable = deliverables[campaignId];
+        if (deliverable.disputeWindow == 0 || campaignStatus[campaignId] == CampaignStatus.Ended) {
+            return false;
+        }
+        if (deliverable.submittedAt == 0) {
+            return block.timestamp > deliverable.deliverBy;
+        }
+
+        return block.timestamp <= deliverable.submittedAt + deliverable.disputeWindow;
+    }
+
     function generateCampaignId(Campaign memory campaign) public view returns (uint256) {
         uint256 campaignId = _generateCampaignId(campaign);
 
@@ -317,6 +589,25 @@ contract AlphaCampaigns {
                           INTERNAL FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
+    function _createCampaign(uint256 deadline, uint256 slotPrice, address host, uint32 slotsAvailable)
+        internal
+        returns (uint256)
+    {
+        if (deadline == 0 || slotPrice == 0 || host == address(0) || slotsAvailable == 0) {
+            revert AlphaCampaigns__CampaignValuesCannotBeZero();
+        }
+        Campaign memory newCampaign = Campaign(deadline, slotPrice, 0, host, slotsAvailable);
+
+        /// Hash the campaign data to create a unique campaign ID.
+        /// @dev check for clashing campaign IDs?
+        uint256 campaignId = generateCampaignId(newCampaign);
+        campaignById[campaignId] = newCampaign;
+
+        emit CampaignCreated(campaignId, host, deadline, slotPrice, slotsAvailable);
+
+        return campaignId;
+    }
+
     function _setSponsorPendingStatus(uint256 campaignId, address sponsor, bool pendingStatus) internal {
         if (!pendingSponsors[campaignId][sponsor]) {
             revert AlphaCampaigns__SponsorDoesNotExist();
@@ -341,6 +632,11 @@ contract AlphaCampaigns {
         return alphaMarketBaseAddress;
     }
 
+    /// @return Gets the EAS contract address deliverable attestations are read from.
+    function getEASAddress() public view returns (address) {
+        return address(i_eas);
+    }
+
     /// @param campaignId The ID of the campaign.
     /// @return Gets a campaign by its ID.
     function getCampaignById(uint256 campaignId) public view returns (Campaign memory) {
@@ -394,4 +690,51 @@ contract AlphaCampaigns {
     function getCampaignSponsors(uint256 campaignId) public view returns (address[] memory) {
         return sponsors[campaignId];
     }
+
+    /// @param campaignId The ID of the campaign.
+    /// @return Get the status of a campaign.
+    function getCampaignStatus(uint256 campaignId) public view returns (CampaignStatus) {
+        return campaignStatus[campaignId];
+    }
+
+    /// @param sponsor The address of the sponsor.
+    /// @return Get the funds a sponsor has committed to a campaign's total raised.
+    function getSponsorAcceptedFunds(uint256 campaignId, address sponsor) public view returns (uint256) {
+        return sponsorAcceptedFunds[campaignId][sponsor];
+    }
+
+    /// @param campaignId The ID of the campaign.
+    /// @return Get the total tips sent to a campaign that have not been refunded.
+    function getCampaignTips(uint256 campaignId) public view returns (uint256) {
+        return campaignTips[campaignId];
+    }
+
+    /// @param fan The address of the fan.
+    /// @return Get the tips a fan has sent to a campaign that have not been refunded.
+    function getFanTips(uint256 campaignId, address fan) public view returns (uint256) {
+        return fanTips[campaignId][fan];
+    }
+
+    /// @param campaignId The ID of the campaign.
+    /// @return Get the deliverable terms of a campaign, with a zero dispute window if it is not in deliverable mode.
+    function getCampaignDeliverable(uint256 campaignId) public view returns (Deliverable memory) {
+        return deliverables[campaignId];
+    }
+
+    /// @param sponsor The address of the sponsor.
+    /// @return Get whether a sponsor has signed off a campaign's deliverable.
+    function hasApprovedDeliverable(uint256 campaignId, address sponsor) public view returns (bool) {
+        return deliverableApprovals[campaignId][sponsor];
+    }
+
+    /// @param campaignId The ID of the campaign.
+    /// @return Get the accepted sponsor funds the host cannot withdraw yet.
+    function getLockedSponsorFunds(uint256 campaignId) public view returns (uint256) {
+        Deliverable storage deliverable = deliverables[campaignId];
+        if (deliverable.submittedAt != 0 && block.timestamp > deliverable.submittedAt + deliverable.disputeWindow) {
+            return 0;
+        }
+
+        return lockedSponsorFunds[campaignId];
+    }
 }
@@ -39,3 +39,33 @@ error AlphaCampaigns__HostFundsTransferFailed();
 
 // Error thrown when a sponsor funds transfer fails.
 error AlphaCampaigns__SponsorFundsTransferFailed();
+
+// Error thrown when a campaign has not been ended by its host.
+error AlphaCampaigns__CampaignNotEnded();
+
+// Error thrown when a tip refund transfer fails.
+error AlphaCampaigns__TipRefundTransferFailed();
+
+// Error thrown when a deliverable function is called on a campaign not created in deliverable mode.
+error AlphaCampaigns__NotDeliverableCampaign();
+
+// Error thrown when a campaign's deliverable has already been submitted.
+error AlphaCampaigns__DeliverableAlreadySubmitted();
+
+// Error thrown when an attestation does not prove a campaign's deliverable.
+error AlphaCampaigns__InvalidAttestation();
+
+// Error thrown when a deliverable campaign's attester is the zero address or its host.
+error AlphaCampaigns__InvalidAttester();
+
+// Error thrown when a sponsor has already signed off a campaign's deliverable.
+error AlphaCampaigns__DeliverableAlreadyApproved();
+
+// Error thrown when a deliverable is submitted after the time to deliver it has passed.
+error AlphaCampaigns__DeliveryDeadlinePassed();
+
+// Error thrown when sponsor funds cannot be reclaimed outside of the dispute window.
+error AlphaCampaigns__NotDisputable();
+
+// Error thrown when all of a campaign's funds are locked until its deliverable is settled.
+error AlphaCampaigns__SponsorFundsLocked();
@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+// Compiles the Ethereum Attestation Service contracts so the attestation tasks can run against a local deployment.
+import {EAS} from "@ethereum-attestation-service/eas-contracts/contracts/EAS.sol";
+import {SchemaRegistry} from "@ethereum-attestation-service/eas-contracts/contracts/SchemaRegistry.sol";
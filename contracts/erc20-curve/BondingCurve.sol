@@ -0,0 +1,257 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {IBondingCurve} from "./IBondingCurve.sol";
+import {Utils} from "../Utils.sol";
+import {AlphaMarketBase} from "../alphamarket/AlphaMarketBase.sol";
+import {TimelockedOwnableUpgradeable} from "../governance/TimelockedOwnableUpgradeable.sol";
+
+/// @title BondingCurve
+/// @author Dustin Stacy
+/// @notice Base contract for curve shapes defined by the reserve needed to back a given supply.
+/// Purchases mint the largest amount of tokens the deposit can back and sales release the reserve backing the
+/// burnt tokens, capped by the reserve balance so a token can never pay out more than it holds.
+/// @dev Fees are read from the AlphaMarketBase contract. Upgrades are timelocked.
+abstract contract BondingCurve is IBondingCurve, Initializable, TimelockedOwnableUpgradeable, UUPSUpgradeable {
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Error to be used when an address is the zero address.
+    error BondingCurve__AddressCannotBeZero();
+
+    /// @notice Error to be used when more tokens are sold than the current supply.
+    error BondingCurve__SaleExceedsSupply();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice The balance of reserve tokens to initialize the bonding curve token with.
+    uint256 private initialReserve;
+
+    /// @dev Solidity does not support floating point numbers, so we use fixed point math.
+    /// @dev Precision also acts as the number 1 commonly used in curve calculations.
+    uint256 internal constant PRECISION = 1e18;
+
+    /// @notice The AlphaMarketBase contract the protocol fees are read from.
+    AlphaMarketBase private alphaMarketBase;
+
+    /// @dev Reserved storage so the base contract can gain state without shifting the curves' storage.
+    uint256[48] private __gap;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Emitted when the curve starts reading fees from an AlphaMarketBase contract.
+    event AlphaMarketBaseUpdated(address indexed alphaMarketBase);
+
+    /// @notice Emitted when the initial reserve is updated.
+    event InitialReserveUpdated(uint256 newReserve);
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _owner The owner of the contract.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    function __BondingCurve_init(address _owner, address _alphaMarketBase, uint256 _initialReserve)
+        internal
+        onlyInitializing
+    {
+        if (_owner == address(0)) {
+            revert BondingCurve__AddressCannotBeZero();
+        }
+        __TimelockedOwnable_init(_owner);
+        __UUPSUpgradeable_init();
+        _setAlphaMarketBase(_alphaMarketBase);
+        initialReserve = _initialReserve;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            PUBLIC/EXTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @inheritdoc IBondingCurve
+    function getPurchaseReturn(address group, uint256 currentSupply, uint256, uint256 reserveTokensReceived)
+        public
+        view
+        returns (uint256 purchaseReturn, uint256 fees)
+    {
+        fees = Utils.calculateBasisPointsPercentage(reserveTokensReceived, getProtocolFeePercent(group));
+        purchaseReturn = _calculatePurchaseReturn(currentSupply, reserveTokensReceived - fees);
+    }
+
+    /// @inheritdoc IBondingCurve
+    function getSaleReturn(address group, uint256 currentSupply, uint256 reserveTokenBalance, uint256 tokensToBurn)
+        public
+        view
+        returns (uint256 saleValue, uint256 fees)
+    {
+        if (tokensToBurn > currentSupply) {
+            revert BondingCurve__SaleExceedsSupply();
+        }
+        uint256 reserveBefore = _reserveAt(currentSupply);
+        uint256 reserveAfter = _reserveAt(currentSupply - tokensToBurn);
+        saleValue = reserveBefore > reserveAfter ? reserveBefore - reserveAfter : 0;
+        if (saleValue > reserveTokenBalance) {
+            saleValue = reserveTokenBalance;
+        }
+
+        fees = Utils.calculateBasisPointsPercentage(saleValue, getProtocolFeePercent(group));
+    }
+
+    /// @inheritdoc IBondingCurve
+    function getSpotPrice(uint256 currentSupply, uint256) external view returns (uint256) {
+        return _spotPrice(currentSupply);
+    }
+
+    /// @inheritdoc IBondingCurve
+    /// @dev Grosses the reserve backing the next whole token up by the protocol fee.
+    function getMintCost(address group, uint256 currentSupply, uint256)
+        external
+        view
+        returns (uint256 depositAmount, uint256 fees)
+    {
+        uint256 cost = _reserveAt(currentSupply + PRECISION) - _reserveAt(currentSupply);
+        uint256 basisPointsPrecision = Utils.getBasisPointsPrecision();
+        uint256 protocolFeePercent = getProtocolFeePercent(group);
+        depositAmount = Math.ceilDiv(cost * basisPointsPrecision, basisPointsPrecision - protocolFeePercent);
+        fees = Utils.calculateBasisPointsPercentage(depositAmount, protocolFeePercent);
+    }
+
+    /// @notice Function to calculate the price of selling a whole continuous token.
+    /// @param group The address of the group token charging the fees.
+    /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
+    /// @param reserveTokenBalance The balance of reserve tokens (in wei).
+    /// @return tokenPrice The current price of the continuous token (in wei).
+    /// @return fees The amount of protocol fees to send to the protocol fee destination (in wei).
+    function getTokenPrice(address group, uint256 currentSupply, uint256 reserveTokenBalance)
+        external
+        view
+        returns (uint256 tokenPrice, uint256 fees)
+    {
+        (tokenPrice, fees) = getSaleReturn(group, currentSupply, reserveTokenBalance, PRECISION);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS (OWNER)
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    function setInitialReserve(uint256 _initialReserve) external onlyOwner {
+        initialReserve = _initialReserve;
+
+        emit InitialReserveUpdated(_initialReserve);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The address of the AlphaMarketBase contract the protocol fees are read from.
+    function getAlphaMarketBase() external view returns (address) {
+        return address(alphaMarketBase);
+    }
+
+    /// @return The address that collects protocol fees.
+    function getProtocolFeeDestination() external view returns (address) {
+        return alphaMarketBase.getProtocolFeeDestination();
+    }
+
+    /// @param group The address of the group token charging the fees.
+    /// @return protocolFeePercent The percentage of the transaction value the token sends to the protocol fee
+    /// destination, following its fee schedule.
+    function getProtocolFeePercent(address group) public view returns (uint256 protocolFeePercent) {
+        (, protocolFeePercent,) = alphaMarketBase.getEffectiveFees(group);
+    }
+
+    /// @param group The address of the group token charging the fees.
+    /// @return feeSharePercent The percentage of the collected fees the token keeps, following its fee schedule.
+    function getFeeSharePercent(address group) external view returns (uint256 feeSharePercent) {
+        (,, feeSharePercent) = alphaMarketBase.getEffectiveFees(group);
+    }
+
+    /// @return The balance of reserve tokens to initialize the bonding curve token with.
+    function getInitialReserve() external view returns (uint256) {
+        return initialReserve;
+    }
+
+    /// @dev The curve shapes price the reserve in wei whatever its decimals, so only Ether is supported.
+    /// @param reserveAsset The address of the reserve asset, or the zero address for Ether.
+    /// @return The balance of the reserve asset to initialize the bonding curve token with, zero if unsupported.
+    function getAssetInitialReserve(address reserveAsset) external view returns (uint256) {
+        return reserveAsset == address(0) ? initialReserve : 0;
+    }
+
+    /// @return The `PRECISION` constant.
+    function getPrecision() external pure returns (uint256) {
+        return PRECISION;
+    }
+
+    /// @param supply The supply of continuous tokens (in 1e18 format).
+    /// @return The reserve the curve requires to back `supply` tokens (in wei).
+    function getReserveAt(uint256 supply) external view returns (uint256) {
+        return _reserveAt(supply);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice The reserve needed to back `supply` tokens, the integral of the spot price from zero to `supply`.
+    /// @param supply The supply of continuous tokens (in 1e18 format).
+    function _reserveAt(uint256 supply) internal view virtual returns (uint256);
+
+    /// @notice The marginal price of a whole token at `supply`.
+    /// @param supply The supply of continuous tokens (in 1e18 format).
+    function _spotPrice(uint256 supply) internal view virtual returns (uint256);
+
+    /// @notice Finds the largest amount of tokens `deposit` can back on top of `currentSupply`.
+    /// @dev Doubles an upper bound until the deposit is exceeded, then binary searches below it.
+    /// Curves with a closed form inverse should override this.
+    /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
+    /// @param deposit The reserve tokens received after fees (in wei).
+    function _calculatePurchaseReturn(uint256 currentSupply, uint256 deposit) internal view virtual returns (uint256) {
+        if (deposit == 0) {
+            return 0;
+        }
+        uint256 target = _reserveAt(currentSupply) + deposit;
+
+        uint256 low = 0;
+        uint256 high = PRECISION;
+        while (_reserveAt(currentSupply + high) <= target) {
+            low = high;
+            high *= 2;
+        }
+
+        while (high - low > 1) {
+            uint256 mid = (low + high) / 2;
+            if (_reserveAt(currentSupply + mid) <= target) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return low;
+    }
+
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    function _setAlphaMarketBase(address _alphaMarketBase) internal {
+        if (_alphaMarketBase == address(0)) {
+            revert BondingCurve__AddressCannotBeZero();
+        }
+        alphaMarketBase = AlphaMarketBase(_alphaMarketBase);
+
+        emit AlphaMarketBaseUpdated(_alphaMarketBase);
+    }
+
+    /// @param newImplementation The address of the new implementation contract.
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner timelocked {}
+}
@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {BondingCurve} from "./BondingCurve.sol";
+import {CurveMath} from "./utils/CurveMath.sol";
+
+/// @title DecayingBondingCurve
+/// @author Dustin Stacy
+/// @notice This contract implements a bonding curve whose price growth decays exponentially with the supply.
+/// The spot price of a whole token is `maxPrice - (maxPrice - initialPrice) * e^(-supply / decaySupply)`,
+/// rising quickly for the first members of a group and levelling off at `maxPrice`.
+contract DecayingBondingCurve is BondingCurve {
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Error to be used when the curve parameters do not describe a rising, non zero price.
+    error DecayingBondingCurve__InvalidCurveParameters();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice The price of a whole token at zero supply (in wei).
+    uint256 private initialPrice;
+
+    /// @notice The price the curve approaches as the supply grows (in wei).
+    uint256 private maxPrice;
+
+    /// @notice The supply over which the distance to `maxPrice` shrinks by a factor of e (in 1e18 format).
+    uint256 private decaySupply;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Emitted when the curve parameters are updated.
+    event CurveParametersUpdated(uint256 initialPrice, uint256 maxPrice, uint256 decaySupply);
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the bonding curve with the given parameters.
+    /// @param _owner The owner of the contract.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _maxPrice The price the curve approaches as the supply grows (in wei).
+    /// @param _decaySupply The decay constant of the price growth (in 1e18 format).
+    function initialize(
+        address _owner,
+        address _alphaMarketBase,
+        uint256 _initialReserve,
+        uint256 _initialPrice,
+        uint256 _maxPrice,
+        uint256 _decaySupply
+    ) public initializer {
+        __BondingCurve_init(_owner, _alphaMarketBase, _initialReserve);
+        _setCurveParameters(_initialPrice, _maxPrice, _decaySupply);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS (OWNER)
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _maxPrice The price the curve approaches as the supply grows (in wei).
+    /// @param _decaySupply The decay constant of the price growth (in 1e18 format).
+    function setCurveParameters(uint256 _initialPrice, uint256 _maxPrice, uint256 _decaySupply) external onlyOwner {
+        _setCurveParameters(_initialPrice, _maxPrice, _decaySupply);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The price of a whole token at zero supply.
+    function getInitialPrice() external view returns (uint256) {
+        return initialPrice;
+    }
+
+    /// @return The price the curve approaches as the supply grows.
+    function getMaxPrice() external view returns (uint256) {
+        return maxPrice;
+    }
+
+    /// @return The decay constant of the price growth.
+    function getDecaySupply() external view returns (uint256) {
+        return decaySupply;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev R(s) = maxPrice * s - (maxPrice - initialPrice) * k * (1 - e^(-s / k))
+    function _reserveAt(uint256 supply) internal view override returns (uint256) {
+        uint256 decayed = PRECISION - CurveMath.expNeg((supply * PRECISION) / decaySupply);
+        uint256 ceiling = maxPrice * supply * PRECISION;
+        uint256 discount = (maxPrice - initialPrice) * decaySupply * decayed;
+        if (ceiling <= discount) {
+            return 0;
+        }
+
+        return (ceiling - discount) / (PRECISION * PRECISION);
+    }
+
+    function _spotPrice(uint256 supply) internal view override returns (uint256) {
+        uint256 remaining = CurveMath.expNeg((supply * PRECISION) / decaySupply);
+
+        return maxPrice - ((maxPrice - initialPrice) * remaining) / PRECISION;
+    }
+
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _maxPrice The price the curve approaches as the supply grows (in wei).
+    /// @param _decaySupply The decay constant of the price growth (in 1e18 format).
+    function _setCurveParameters(uint256 _initialPrice, uint256 _maxPrice, uint256 _decaySupply) internal {
+        if (_maxPrice == 0 || _maxPrice < _initialPrice || _decaySupply == 0) {
+            revert DecayingBondingCurve__InvalidCurveParameters();
+        }
+        initialPrice = _initialPrice;
+        maxPrice = _maxPrice;
+        decaySupply = _decaySupply;
+
+        emit CurveParametersUpdated(_initialPrice, _maxPrice, _decaySupply);
+    }
+}
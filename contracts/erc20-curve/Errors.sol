@@ -14,3 +14,23 @@ error GroupToken__ProtocolFeeTransferFailed();
 error GroupToken__BurnAmountExceedsBalance();
 
 error GroupToken__TokenSaleTransferFailed();
+
+error GroupToken__TransactionExpired();
+
+error GroupToken__MinimumTokensOutNotMet();
+
+error GroupToken__MinimumEtherOutNotMet();
+
+error GroupToken__IncorrectReserveAsset();
+
+error GroupToken__UnsupportedReserveAsset();
+
+error GroupToken__ReserveAlreadySeeded();
+
+error GroupToken__ReserveNotSeeded();
+
+error GroupToken__OnlyGuardian();
+
+error GroupToken__CollectedFeesTransferFailed();
+
+error CurveMath__LogarithmInputBelowOne();
@@ -2,35 +2,48 @@
 pragma solidity ^0.8.26;
 
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {IBondingCurve} from "./IBondingCurve.sol";
 import {BancorFormula} from "./utils/BancorFormula.sol";
 import {Utils} from "../Utils.sol";
+import {AlphaMarketBase} from "../alphamarket/AlphaMarketBase.sol";
+import {TimelockedOwnableUpgradeable} from "../governance/TimelockedOwnableUpgradeable.sol";
 
 /// @title ExponentialBondingCurve
 /// @author Dustin Stacy
 /// @notice This contract implements the Bancor bonding curve.
 /// The curve is defined by a reserveRatio, which determines the steepness and bend of the curve.
-contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgradeable, BancorFormula {
+/// @dev Fees are read from the AlphaMarketBase contract. Proxies deployed before that stored their own fees and
+/// migrate by upgrading with a call to `migrateToAlphaMarketBase`. Changes to the reserve ratio and upgrades are
+/// timelocked.
+contract ExponentialBondingCurve is
+    IBondingCurve,
+    Initializable,
+    TimelockedOwnableUpgradeable,
+    UUPSUpgradeable,
+    BancorFormula
+{
     /*///////////////////////////////////////////////////////////////
                             ERRORS
     ///////////////////////////////////////////////////////////////*/
 
     /// @notice Error to be used when an address is the zero address.
-    error ExponentialBondingCurve__FeeDestinationCannotBeZeroAddress();
+    error ExponentialBondingCurve__AddressCannotBeZero();
 
     /*///////////////////////////////////////////////////////////////
                             STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
-    /// @notice The address that collects protocol fees.
-    address private protocolFeeDestination;
+    /// @dev Formerly the protocol fee destination, cleared by the migration to AlphaMarketBase.
+    /// @custom:oz-renamed-from protocolFeeDestination
+    address private __deprecatedProtocolFeeDestination;
 
-    /// @notice The percentage of the transaction value to send to the protocol fee destination.
-    uint256 private protocolFeePercent;
+    /// @dev Formerly the protocol fee percentage, cleared by the migration to AlphaMarketBase.
+    /// @custom:oz-renamed-from protocolFeePercent
+    uint256 private __deprecatedProtocolFeePercent;
 
-    /// @notice The percentage of the collected fees to share with the group contract.
-    /// @dev Could be used in conjuction with a Paymaster to facilitate gasless transactions.
-    uint256 private feeSharePercent;
+    /// @dev Formerly the fee share percentage, cleared by the migration to AlphaMarketBase.
+    /// @custom:oz-renamed-from feeSharePercent
+    uint256 private __deprecatedFeeSharePercent;
 
     /// @notice The balance of reserve tokens to initialize the bonding curve token with.
     /// @dev Could institue a formula to set the initial reserve based on a flat fiat amount.
@@ -40,25 +53,31 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
     /// @dev Precision also acts as the number 1 commonly used in curve calculations.
     uint256 private constant PRECISION = 1e18;
 
+    /// @dev The reserve ratio that represents 100% (in ppm).
+    uint32 private constant MAX_RESERVE_RATIO = 1000000;
+
     /// @dev Value to represent the reserve ratio for use in calculations (in ppm).
     uint32 private reserveRatio;
 
+    /// @notice The balance of each ERC20 reserve asset to initialize bonding curve tokens with.
+    mapping(address reserveAsset => uint256 initialReserve) private assetInitialReserves;
+
+    /// @notice The AlphaMarketBase contract the protocol fees are read from.
+    AlphaMarketBase private alphaMarketBase;
+
     /*///////////////////////////////////////////////////////////////
                             EVENTS
     ///////////////////////////////////////////////////////////////*/
 
-    /// @notice Emitted when the protocol fee destination is updated.
-    event ProtocolFeeDestinationUpdated(address indexed newDestination);
-
-    /// @notice Emitted when the protocol fee percentage is updated.
-    event ProtocolFeePercentUpdated(uint256 newPercent);
-
-    /// @notice Emitted when the fee share percentage is updated.
-    event FeeSharePercentUpdated(uint256 newPercent);
+    /// @notice Emitted when the curve starts reading fees from an AlphaMarketBase contract.
+    event AlphaMarketBaseUpdated(address indexed alphaMarketBase);
 
     /// @notice Emitted when the initial reserve is updated.
     event InitialReserveUpdated(uint256 newReserve);
 
+    /// @notice Emitted when the initial reserve of an ERC20 reserve asset is updated.
+    event AssetInitialReserveUpdated(address indexed reserveAsset, uint256 newReserve);
+
     /// @notice Emitted when the reserve ratio is updated.
     event ReserveRatioUpdated(uint32 newRatio);
 
@@ -67,38 +86,42 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
     ///////////////////////////////////////////////////////////////*/
 
     /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
         _disableInitializers();
     }
 
     /// @notice Initializes the bonding curve with the given parameters.
+    /// @dev New proxies start at the version `migrateToAlphaMarketBase` upgrades existing proxies to.
     /// @param _owner The owner of the contract.
-    /// @param _protocolFeeDestination The address to send protocol fees to.
-    /// @param _protocolFeePercent The protocol fee percentage represented in basis points.
-    /// @param _feeSharePercent The collected fee share percentage represented in basis points.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
     /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
     /// @param _reserveRatio The reserve ratio in ppm.
-    function initialize(
-        address _owner,
-        address _protocolFeeDestination,
-        uint256 _protocolFeePercent,
-        uint256 _feeSharePercent,
-        uint256 _initialReserve,
-        uint32 _reserveRatio
-    ) public initializer {
-        if (_owner == address(0) || _protocolFeeDestination == address(0)) {
-            revert ExponentialBondingCurve__FeeDestinationCannotBeZeroAddress();
+    function initialize(address _owner, address _alphaMarketBase, uint256 _initialReserve, uint32 _reserveRatio)
+        public
+        reinitializer(2)
+    {
+        if (_owner == address(0)) {
+            revert ExponentialBondingCurve__AddressCannotBeZero();
         }
-        __Ownable_init(_owner);
+        __TimelockedOwnable_init(_owner);
         __UUPSUpgradeable_init();
-        protocolFeeDestination = _protocolFeeDestination;
-        protocolFeePercent = _protocolFeePercent;
+        __BancorFormula_init();
+        _setAlphaMarketBase(_alphaMarketBase);
         initialReserve = _initialReserve;
         reserveRatio = _reserveRatio;
+    }
 
-        if (_feeSharePercent > 0) {
-            feeSharePercent = _feeSharePercent;
-        }
+    /// @notice Migrates a proxy that stored its own fees to reading them from AlphaMarketBase, e.g.
+    /// `upgradeToAndCall(newImplementation, abi.encodeCall(migrateToAlphaMarketBase, (alphaMarketBase)))`.
+    /// @dev The fees previously stored by the curve are discarded, so AlphaMarketBase should be configured with
+    /// the fees the curve charged before upgrading.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    function migrateToAlphaMarketBase(address _alphaMarketBase) external reinitializer(2) onlyOwner {
+        delete __deprecatedProtocolFeeDestination;
+        delete __deprecatedProtocolFeePercent;
+        delete __deprecatedFeeSharePercent;
+        _setAlphaMarketBase(_alphaMarketBase);
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -106,18 +129,20 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
     //////////////////////////////////////////////////////////////*/
 
     /// @notice Function to calculate the amount of continuous tokens to return based on reserve tokens received.
+    /// @param group The address of the group token charging the fees.
     /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
     /// @param reserveTokenBalance The balance of reserve tokens (in wei).
     /// @param reserveTokensReceived The amount of reserve tokens received (in wei).
     /// @return purchaseReturn The amount of continuous tokens to mint (in 1e18 format).
     /// @return fees The amount of protocol fees to send to the protocol fee destination (in wei).
-    function getPurchaseReturn(uint256 currentSupply, uint256 reserveTokenBalance, uint256 reserveTokensReceived)
-        public
-        view
-        returns (uint256 purchaseReturn, uint256 fees)
-    {
+    function getPurchaseReturn(
+        address group,
+        uint256 currentSupply,
+        uint256 reserveTokenBalance,
+        uint256 reserveTokensReceived
+    ) public view returns (uint256 purchaseReturn, uint256 fees) {
         // Calculate the protocol fees.
-        fees = Utils.calculateBasisPointsPercentage(reserveTokensReceived, protocolFeePercent);
+        fees = Utils.calculateBasisPointsPercentage(reserveTokensReceived, getProtocolFeePercent(group));
 
         uint256 remainingReserveTokens = reserveTokensReceived - fees;
 
@@ -129,12 +154,13 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
     }
 
     /// @notice Calculates the amount of ether that can be returned for the given amount of tokens.
+    /// @param group The address of the group token charging the fees.
     /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
     /// @param reserveTokenBalance The balance of reserve tokens (in wei).
     /// @param tokensToBurn The amount of continuous tokens to burn (in 1e18 format).
     /// @return saleValue The amount of ether to return (in wei).
     /// @return fees The amount of protocol fees to send to the protocol fee destination (in wei).
-    function getSaleReturn(uint256 currentSupply, uint256 reserveTokenBalance, uint256 tokensToBurn)
+    function getSaleReturn(address group, uint256 currentSupply, uint256 reserveTokenBalance, uint256 tokensToBurn)
         public
         view
         returns (uint256 saleValue, uint256 fees)
@@ -143,17 +169,18 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
         saleValue = calculateSaleReturn(currentSupply, reserveTokenBalance, reserveRatio, tokensToBurn);
 
         // Calculate the protocol fees.
-        fees = Utils.calculateBasisPointsPercentage(saleValue, protocolFeePercent);
+        fees = Utils.calculateBasisPointsPercentage(saleValue, getProtocolFeePercent(group));
 
         return (saleValue, fees);
     }
 
     /// @notice Function to calculate the amount of reserve tokens needed to mint a continuous token.
+    /// @param group The address of the group token charging the fees.
     /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
     /// @param reserveTokenBalance The balance of reserve tokens (in wei).
     /// @return depositAmount The amount of reserve tokens needed to mint a continuous token (in wei).
     /// @dev This function is very gas intensive and should be used with caution.
-    function getMintCost(uint256 currentSupply, uint256 reserveTokenBalance)
+    function getMintCost(address group, uint256 currentSupply, uint256 reserveTokenBalance)
         external
         view
         returns (uint256 depositAmount, uint256 fees)
@@ -170,7 +197,8 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
             mid = (low + high) / 2;
 
             // Calculate the return for depositing 'mid' amount of reserve tokens
-            (uint256 returnAmount, uint256 returnFees) = getPurchaseReturn(currentSupply, reserveTokenBalance, mid);
+            (uint256 returnAmount, uint256 returnFees) =
+                getPurchaseReturn(group, currentSupply, reserveTokenBalance, mid);
             fees = returnFees;
             if (returnAmount < targetReturn) {
                 low = mid;
@@ -183,45 +211,39 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
     }
 
     /// @notice Function to calculate the current price of the continuous token.
+    /// @param group The address of the group token charging the fees.
     /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
     /// @param reserveTokenBalance The balance of reserve tokens (in wei).
     /// @return tokenPrice The current price of the continuous token (in wei).
     /// @return fees The amount of protocol fees to send to the protocol fee destination (in wei).
-    function getTokenPrice(uint256 currentSupply, uint256 reserveTokenBalance)
+    function getTokenPrice(address group, uint256 currentSupply, uint256 reserveTokenBalance)
         external
         view
         returns (uint256 tokenPrice, uint256 fees)
     {
-        (tokenPrice, fees) = getSaleReturn(currentSupply, reserveTokenBalance, PRECISION);
+        (tokenPrice, fees) = getSaleReturn(group, currentSupply, reserveTokenBalance, PRECISION);
     }
 
-    /*//////////////////////////////////////////////////////////////
-                            SETTER FUNCTIONS (OWNER)
-    //////////////////////////////////////////////////////////////*/
-
-    /// @param _feeDestination The address to send protocol fees to.
-    function setProtocolFeeDestination(address _feeDestination) external onlyOwner {
-        if (_feeDestination == address(0)) {
-            revert ExponentialBondingCurve__FeeDestinationCannotBeZeroAddress();
+    /// @notice Function to calculate the marginal price of the continuous token, excluding fees.
+    /// @dev The Bancor spot price is reserve / (supply * reserveRatio).
+    /// @param currentSupply The current supply of continuous tokens (in 1e18 format).
+    /// @param reserveTokenBalance The balance of reserve tokens (in wei).
+    /// @return spotPrice The marginal price of a whole continuous token (in wei).
+    function getSpotPrice(uint256 currentSupply, uint256 reserveTokenBalance)
+        external
+        view
+        returns (uint256 spotPrice)
+    {
+        if (currentSupply == 0 || reserveRatio == 0) {
+            return 0;
         }
-        protocolFeeDestination = _feeDestination;
 
-        emit ProtocolFeeDestinationUpdated(_feeDestination);
+        return (reserveTokenBalance * PRECISION * MAX_RESERVE_RATIO) / (currentSupply * reserveRatio);
     }
 
-    /// @param _basisPoints The percentage of the transaction to send to the protocol fee destination represented in basis points.
-    function setProtocolFeePercent(uint256 _basisPoints) external onlyOwner {
-        protocolFeePercent = _basisPoints;
-
-        emit ProtocolFeePercentUpdated(_basisPoints);
-    }
-
-    /// @param _basisPoints The collected fee share percentage for selling tokens represented in basis points.
-    function setFeeSharePercent(uint256 _basisPoints) external onlyOwner {
-        feeSharePercent = _basisPoints;
-
-        emit FeeSharePercentUpdated(_basisPoints);
-    }
+    /*//////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS (OWNER)
+    //////////////////////////////////////////////////////////////*/
 
     /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
     function setInitialReserve(uint256 _initialReserve) external onlyOwner {
@@ -230,8 +252,24 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
         emit InitialReserveUpdated(_initialReserve);
     }
 
+    /// @dev Setting a non-zero initial reserve is what allows tokens to be backed by the asset, and zero disallows it.
+    /// Assets must not charge fees on transfer, as tokens account for the amounts they request.
+    /// @param _reserveAsset The address of the ERC20 reserve asset, or the zero address for Ether.
+    /// @param _initialReserve The balance of the reserve asset to initialize the bonding curve token with.
+    function setAssetInitialReserve(address _reserveAsset, uint256 _initialReserve) external onlyOwner {
+        if (_reserveAsset == address(0)) {
+            initialReserve = _initialReserve;
+
+            emit InitialReserveUpdated(_initialReserve);
+        } else {
+            assetInitialReserves[_reserveAsset] = _initialReserve;
+
+            emit AssetInitialReserveUpdated(_reserveAsset, _initialReserve);
+        }
+    }
+
     /// @param _reserveRatio The reserve ratio used to define the steepness of the bonding curve in ppm.
-    function setReserveRatio(uint32 _reserveRatio) external onlyOwner {
+    function setReserveRatio(uint32 _reserveRatio) external onlyOwner timelocked {
         reserveRatio = _reserveRatio;
 
         emit ReserveRatioUpdated(_reserveRatio);
@@ -241,19 +279,27 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
                             GETTER FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /// @return The address of the AlphaMarketBase contract the protocol fees are read from.
+    function getAlphaMarketBase() external view returns (address) {
+        return address(alphaMarketBase);
+    }
+
     /// @return The address that collects protocol fees.
     function getProtocolFeeDestination() external view returns (address) {
-        return protocolFeeDestination;
+        return alphaMarketBase.getProtocolFeeDestination();
     }
 
-    /// @return The percentage of the transaction value to send to the protocol fee destination.
-    function getProtocolFeePercent() external view returns (uint256) {
-        return protocolFeePercent;
+    /// @param group The address of the group token charging the fees.
+    /// @return protocolFeePercent The percentage of the transaction value the token sends to the protocol fee
+    /// destination, following its fee schedule.
+    function getProtocolFeePercent(address group) public view returns (uint256 protocolFeePercent) {
+        (, protocolFeePercent,) = alphaMarketBase.getEffectiveFees(group);
     }
 
-    /// @return The percentage of the collected fees to share with the token contract.
-    function getFeeSharePercent() external view returns (uint256) {
-        return feeSharePercent;
+    /// @param group The address of the group token charging the fees.
+    /// @return feeSharePercent The percentage of the collected fees the token keeps, following its fee schedule.
+    function getFeeSharePercent(address group) external view returns (uint256 feeSharePercent) {
+        (,, feeSharePercent) = alphaMarketBase.getEffectiveFees(group);
     }
 
     /// @return The balance of reserve tokens to initialize the bonding curve token with.
@@ -261,6 +307,12 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
         return initialReserve;
     }
 
+    /// @param reserveAsset The address of the reserve asset, or the zero address for Ether.
+    /// @return The balance of the reserve asset to initialize the bonding curve token with, zero if unsupported.
+    function getAssetInitialReserve(address reserveAsset) external view returns (uint256) {
+        return reserveAsset == address(0) ? initialReserve : assetInitialReserves[reserveAsset];
+    }
+
     /// @return The reserve ratio used to define the steepness of the bonding curve.
     function getReserveRatio() external view returns (uint32) {
         return reserveRatio;
@@ -275,6 +327,16 @@ contract ExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgra
                             INTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    function _setAlphaMarketBase(address _alphaMarketBase) internal {
+        if (_alphaMarketBase == address(0)) {
+            revert ExponentialBondingCurve__AddressCannotBeZero();
+        }
+        alphaMarketBase = AlphaMarketBase(_alphaMarketBase);
+
+        emit AlphaMarketBaseUpdated(_alphaMarketBase);
+    }
+
     /// @param newImplementation The address of the new implementation contract.
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner timelocked {}
 }
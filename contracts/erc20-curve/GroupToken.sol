@@ -2,21 +2,44 @@
 pragma solidity ^0.8.26;
 
 import {ERC20Burnable, ERC20} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
-import {ExponentialBondingCurve} from "./ExponentialBondingCurve.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {IBondingCurve} from "./IBondingCurve.sol";
+import {AlphaMarketBase} from "../alphamarket/AlphaMarketBase.sol";
+import {AlphaMarketTreasury} from "../alphamarket/AlphaMarketTreasury.sol";
+import {Utils} from "../Utils.sol";
 import "./Errors.sol";
 
 /// @title GroupToken
 /// @author Dustin Stacy
-/// @notice This contract implements a simple ERC20 token that can be bought and sold using an exponential bonding curve.
-contract GroupToken is ERC20Burnable {
+/// @notice This contract implements a simple ERC20 token that can be bought and sold using a bonding curve.
+/// The reserve backing the token is either Ether or an ERC20 asset chosen at creation, such as a stablecoin.
+/// @dev Tokens backed by an ERC20 asset are created unfunded and become tradable once `seedReserve` pulls the
+/// curve's initial reserve for the asset, which a factory does in the creation transaction.
+/// The AlphaMarketBase guardian can pause minting and burning.
+contract GroupToken is ERC20Burnable, Pausable {
+    using SafeERC20 for IERC20;
+
     /*///////////////////////////////////////////////////////////////
                              STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
 
     /// @notice Instance of a Bonding Curve contract used to determine the price of tokens.
-    ExponentialBondingCurve private immutable i_bondingCurve;
+    IBondingCurve private immutable i_bondingCurve;
+
+    /// @notice Instance of the AlphaMarketBase contract the curve reads fees from, where the fee destination and
+    /// fee share are read from.
+    AlphaMarketBase private immutable i_alphaMarketBase;
+
+    /// @notice The ERC20 asset backing the token, or the zero address if it is backed by Ether.
+    IERC20 private immutable i_reserveAsset;
 
-    /// @notice The total amount of Ether held in the contract.
+    /// @notice The address of the host the initial token is minted to.
+    address private immutable i_host;
+
+    /// @notice The total amount of the reserve asset held in the contract.
     uint256 private reserveBalance;
 
     /// @notice The total amount of fees collected by the contract.
@@ -32,65 +55,273 @@ contract GroupToken is ERC20Burnable {
     /// @notice Event to log token sales.
     event TokensSold(address indexed seller, uint256 amountReceived, uint256 fees, uint256 tokensBurnt);
 
+    /// @notice Event to log the initial reserve being deposited and the initial token minted to the host.
+    event ReserveSeeded(address indexed funder, uint256 initialReserve);
+
+    /// @notice Event to log the collected fees being deposited to the treasury for the host, or sent to the host.
+    event CollectedFeesReleased(address indexed treasury, uint256 amount);
+
+    /*///////////////////////////////////////////////////////////////
+                                MODIFIERS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Modifier to reject transactions included after their deadline.
+    modifier beforeDeadline(uint256 deadline) {
+        if (block.timestamp > deadline) {
+            revert GroupToken__TransactionExpired();
+        }
+        _;
+    }
+
+    /// @notice Modifier to restrict a function to the guardian of the AlphaMarketBase contract.
+    modifier onlyGuardian() {
+        if (msg.sender != i_alphaMarketBase.getGuardian()) {
+            revert GroupToken__OnlyGuardian();
+        }
+        _;
+    }
+
+    /// @notice Modifier to restrict a function to tokens backed by Ether.
+    modifier onlyNativeReserve() {
+        if (address(i_reserveAsset) != address(0)) {
+            revert GroupToken__IncorrectReserveAsset();
+        }
+        _;
+    }
+
+    /// @notice Modifier to restrict a function to tokens backed by an ERC20 asset.
+    modifier onlyAssetReserve() {
+        if (address(i_reserveAsset) == address(0)) {
+            revert GroupToken__IncorrectReserveAsset();
+        }
+        _;
+    }
+
     /*///////////////////////////////////////////////////////////////
                               CONSTRUCTOR
     ///////////////////////////////////////////////////////////////*/
 
     /// @param _name The name of the token.
     /// @param _symbol The symbol of the token.
-    /// @param _bcAddress The address of the ExponentialBondingCurve contract.
+    /// @param _bcAddress The address of the bonding curve proxy contract.
     /// @param _host The address of the host account.
-    constructor(string memory _name, string memory _symbol, address _bcAddress, address _host)
+    /// @param _reserveAsset The address of the ERC20 reserve asset, or the zero address to be backed by Ether.
+    /// @dev Ether backed tokens must be sent the curve's initial reserve, while asset backed tokens must not be sent
+    /// any Ether and are seeded afterwards.
+    constructor(string memory _name, string memory _symbol, address _bcAddress, address _host, address _reserveAsset)
         payable
         ERC20(_name, _symbol)
     {
         // Check if the bonding curve address is not the zero address and set the bonding curve instance.
-        if (_bcAddress == address(0)) {
+        if (_bcAddress == address(0) || _host == address(0)) {
             revert GroupToken__AddressCannotBeZero();
         }
-        i_bondingCurve = ExponentialBondingCurve(_bcAddress);
+        i_bondingCurve = IBondingCurve(_bcAddress);
+        i_alphaMarketBase = AlphaMarketBase(i_bondingCurve.getAlphaMarketBase());
+        i_reserveAsset = IERC20(_reserveAsset);
+        i_host = _host;
+
+        if (_reserveAsset != address(0)) {
+            // The curve only prices assets it has an initial reserve for.
+            if (i_bondingCurve.getAssetInitialReserve(_reserveAsset) == 0) {
+                revert GroupToken__UnsupportedReserveAsset();
+            }
+            if (msg.value != 0) {
+                revert GroupToken__IncorrectAmountOfEtherSent();
+            }
+            return;
+        }
 
         // Mint the initial token to the contract creator.
         if (msg.value != i_bondingCurve.getInitialReserve()) {
             revert GroupToken__InsufficientFundingForTransaction();
         }
-        reserveBalance += msg.value;
-        _mint(_host, 1e18);
+        _seedReserve(msg.value);
     }
 
     /*///////////////////////////////////////////////////////////////
                           EXTERNAL FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
+    /// @notice Allows anyone to deposit the initial reserve of a token backed by an ERC20 asset, minting the
+    /// initial token to the host.
+    /// @dev The caller must have approved the curve's initial reserve for the asset.
+    function seedReserve() external onlyAssetReserve {
+        if (totalSupply() != 0 || reserveBalance != 0) {
+            revert GroupToken__ReserveAlreadySeeded();
+        }
+        uint256 initialReserve = i_bondingCurve.getAssetInitialReserve(address(i_reserveAsset));
+        i_reserveAsset.safeTransferFrom(msg.sender, address(this), initialReserve);
+        _seedReserve(initialReserve);
+    }
+
     /// @notice Allows a user to mint tokens by sending Ether to the contract.
-    function mintTokens() external payable {
-        if (msg.value == 0) {
+    function mintTokens() external payable onlyNativeReserve {
+        _mintTokens(msg.value, 0);
+    }
+
+    /// @notice Allows a user to mint tokens by sending Ether to the contract, bounding the outcome.
+    /// @param minTokensOut The minimum amount of tokens to mint, otherwise the transaction reverts.
+    /// @param deadline The timestamp after which the transaction reverts.
+    function mintTokensWithSlippage(uint256 minTokensOut, uint256 deadline)
+        external
+        payable
+        onlyNativeReserve
+        beforeDeadline(deadline)
+    {
+        _mintTokens(msg.value, minTokensOut);
+    }
+
+    /// @notice Allows a user to mint tokens by depositing the ERC20 reserve asset, bounding the outcome.
+    /// @dev The caller must have approved `deposit` of the reserve asset.
+    /// @param deposit The amount of the reserve asset to deposit, including fees.
+    /// @param minTokensOut The minimum amount of tokens to mint, otherwise the transaction reverts.
+    /// @param deadline The timestamp after which the transaction reverts.
+    function mintTokensWithAsset(uint256 deposit, uint256 minTokensOut, uint256 deadline)
+        external
+        onlyAssetReserve
+        beforeDeadline(deadline)
+    {
+        i_reserveAsset.safeTransferFrom(msg.sender, address(this), deposit);
+        _mintTokens(deposit, minTokensOut);
+    }
+
+    /// @notice Allows a user to mint tokens by depositing an EIP-2612 reserve asset with a signed permit instead of
+    /// a separate approval, bounding the outcome.
+    /// @dev A permit that was already used, e.g. by a front-runner, is accepted as long as the allowance suffices.
+    /// @param deposit The amount of the reserve asset to deposit, including fees.
+    /// @param minTokensOut The minimum amount of tokens to mint, otherwise the transaction reverts.
+    /// @param deadline The timestamp after which the transaction and the permit expire.
+    /// @param v The recovery byte of the permit signature.
+    /// @param r The first 32 bytes of the permit signature.
+    /// @param s The second 32 bytes of the permit signature.
+    function mintTokensWithPermit(
+        uint256 deposit,
+        uint256 minTokensOut,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external onlyAssetReserve beforeDeadline(deadline) {
+        try IERC20Permit(address(i_reserveAsset)).permit(msg.sender, address(this), deposit, deadline, v, r, s) {}
+            catch {}
+        i_reserveAsset.safeTransferFrom(msg.sender, address(this), deposit);
+        _mintTokens(deposit, minTokensOut);
+    }
+
+    /// @notice Allows a user to burn tokens and receive the reserve asset from the contract.
+    /// @param amount The amount of tokens to burn.
+    /// @param sender The address of the sender.
+    function burnTokens(uint256 amount, address sender) external {
+        _burnTokens(amount, sender, 0);
+    }
+
+    /// @notice Allows a user to burn tokens and receive the reserve asset from the contract, bounding the outcome.
+    /// @param amount The amount of tokens to burn.
+    /// @param sender The address of the sender.
+    /// @param minEtherOut The minimum amount of the reserve asset sent to the seller after fees, otherwise the
+    /// transaction reverts.
+    /// @param deadline The timestamp after which the transaction reverts.
+    function burnTokensWithSlippage(uint256 amount, address sender, uint256 minEtherOut, uint256 deadline)
+        external
+        beforeDeadline(deadline)
+    {
+        _burnTokens(amount, sender, minEtherOut);
+    }
+
+    /// @notice Allows anyone to deposit the fees collected by the contract to the treasury at the curve's protocol
+    /// fee destination, where they are credited to the host.
+    /// @dev A protocol fee destination without code is not a treasury, so the fees are sent to the host instead.
+    function releaseCollectedFees() external {
+        uint256 fees = collectedFees;
+        if (fees == 0) {
             revert GroupToken__AmountMustBeGreaterThanZero();
         }
+        collectedFees = 0;
+
+        address treasury = i_alphaMarketBase.getProtocolFeeDestination();
+        if (treasury.code.length == 0) {
+            emit CollectedFeesReleased(i_host, fees);
+
+            if (!_transferReserve(i_host, fees)) {
+                revert GroupToken__CollectedFeesTransferFailed();
+            }
+            return;
+        }
+        emit CollectedFeesReleased(treasury, fees);
+
+        // Ether is sent with the deposit, while the treasury pulls an ERC20 asset.
+        address asset = address(i_reserveAsset);
+        if (asset != address(0)) {
+            i_reserveAsset.forceApprove(treasury, fees);
+        }
+        AlphaMarketTreasury(payable(treasury)).depositHostFees{value: asset == address(0) ? fees : 0}(
+            asset, fees, i_host
+        );
+    }
+
+    /// @notice Allows the guardian to pause minting and burning.
+    function pause() external onlyGuardian {
+        _pause();
+    }
+
+    /// @notice Allows the guardian to resume minting and burning.
+    function unpause() external onlyGuardian {
+        _unpause();
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Deposits the initial reserve and mints the initial token to the host.
+    /// @param initialReserve The amount of the reserve asset deposited.
+    function _seedReserve(uint256 initialReserve) internal {
+        reserveBalance += initialReserve;
+        _mint(i_host, 1e18);
+
+        emit ReserveSeeded(msg.sender, initialReserve);
+    }
+
+    /// @notice Mints tokens for the reserve asset deposited, reverting if fewer than `minTokensOut` would be minted.
+    /// @param deposit The amount of the reserve asset deposited, including fees.
+    /// @param minTokensOut The minimum amount of tokens to mint.
+    function _mintTokens(uint256 deposit, uint256 minTokensOut) internal whenNotPaused {
+        if (deposit == 0) {
+            revert GroupToken__AmountMustBeGreaterThanZero();
+        }
+        if (totalSupply() == 0) {
+            revert GroupToken__ReserveNotSeeded();
+        }
 
         // Calculate the amount of tokens to mint.
-        (uint256 amount, uint256 fees) = i_bondingCurve.getPurchaseReturn(totalSupply(), reserveBalance, msg.value);
+        (uint256 amount, uint256 fees) =
+            i_bondingCurve.getPurchaseReturn(address(this), totalSupply(), reserveBalance, deposit);
+        if (amount < minTokensOut) {
+            revert GroupToken__MinimumTokensOutNotMet();
+        }
+
+        // Record the volume towards the token's fee tier.
+        i_alphaMarketBase.recordVolume(deposit);
 
         // Update the reserve balance.
-        reserveBalance += (msg.value - fees);
+        reserveBalance += (deposit - fees);
 
         // Transfer protocol fees to the protocol fee destination
-        (bool success,) = i_bondingCurve.getProtocolFeeDestination().call{value: fees}("");
-        if (!success) {
-            revert GroupToken__ProtocolFeeTransferFailed();
-        }
+        _transferProtocolFees(fees);
 
         // Mint tokens to the buyer
         _mint(msg.sender, amount);
 
         // Emit an event to log the purchase.
-        emit TokensPurchased(msg.sender, msg.value, fees, amount);
+        emit TokensPurchased(msg.sender, deposit, fees, amount);
     }
 
-    /// @notice Allows a user to burn tokens and receive ether from the contract.
+    /// @notice Burns tokens for the reserve asset, reverting if the seller would receive less than `minEtherOut`.
     /// @param amount The amount of tokens to burn.
     /// @param sender The address of the sender.
-    function burnTokens(uint256 amount, address sender) external {
+    /// @param minEtherOut The minimum amount of the reserve asset sent to the seller after fees.
+    function _burnTokens(uint256 amount, address sender, uint256 minEtherOut) internal whenNotPaused {
         if (sender == address(0)) {
             revert GroupToken__AddressCannotBeZero();
         }
@@ -111,16 +342,20 @@ contract GroupToken is ERC20Burnable {
             revert GroupToken__BurnAmountExceedsBalance();
         }
 
-        // Calculate the amount of Ether to return to the seller.
-        (uint256 salePrice, uint256 fees) = i_bondingCurve.getSaleReturn(totalSupply(), reserveBalance, amount);
+        // Calculate the amount of the reserve asset to return to the seller.
+        (uint256 salePrice, uint256 fees) =
+            i_bondingCurve.getSaleReturn(address(this), totalSupply(), reserveBalance, amount);
+        (,, uint256 feeSharePercent) = i_alphaMarketBase.recordVolume(salePrice);
 
         // Update the sale price and reserve balance.
         reserveBalance -= salePrice;
         salePrice -= fees;
+        if (salePrice < minEtherOut) {
+            revert GroupToken__MinimumEtherOutNotMet();
+        }
 
         // Calculate the share of fees to be collected by the contract.
-        uint256 feeShare =
-            i_bondingCurve.getFeeSharePercent() != 0 ? (fees * i_bondingCurve.getFeeSharePercent()) / 1e18 : 0;
+        uint256 feeShare = Utils.calculateBasisPointsPercentage(fees, feeSharePercent);
         collectedFees += feeShare;
         fees -= feeShare;
 
@@ -131,15 +366,41 @@ contract GroupToken is ERC20Burnable {
         emit TokensSold(sender, salePrice, fees, amount);
 
         // Transfer protocol fees to the protocol fee destination
-        (bool received,) = i_bondingCurve.getProtocolFeeDestination().call{value: fees}("");
-        if (!received) {
+        _transferProtocolFees(fees);
+
+        // Transfer the reserve asset to the seller.
+        if (!_transferReserve(sender, salePrice)) {
+            revert GroupToken__TokenSaleTransferFailed();
+        }
+    }
+
+    /// @notice Sends protocol fees to the protocol fee destination.
+    /// @dev Ether is received by the treasury as revenue from this contract, while an ERC20 asset is deposited to a
+    /// destination with code so the treasury attributes it to this contract too.
+    /// @param fees The amount of the reserve asset to send.
+    function _transferProtocolFees(uint256 fees) internal {
+        address destination = i_alphaMarketBase.getProtocolFeeDestination();
+        if (address(i_reserveAsset) != address(0) && destination.code.length != 0) {
+            if (fees != 0) {
+                i_reserveAsset.forceApprove(destination, fees);
+                AlphaMarketTreasury(payable(destination)).deposit(address(i_reserveAsset), fees);
+            }
+        } else if (!_transferReserve(destination, fees)) {
             revert GroupToken__ProtocolFeeTransferFailed();
         }
+    }
 
-        // Transfer Ether to the seller.
-        (bool recieved,) = payable(sender).call{value: salePrice}("");
-        if (!recieved) {
-            revert GroupToken__TokenSaleTransferFailed();
+    /// @notice Sends an amount of the reserve asset out of the contract.
+    /// @dev ERC20 transfers revert on failure, so only Ether transfers can return false.
+    /// @param to The address of the recipient.
+    /// @param amount The amount of the reserve asset to send.
+    /// @return success Whether the transfer succeeded.
+    function _transferReserve(address to, uint256 amount) internal returns (bool success) {
+        if (address(i_reserveAsset) == address(0)) {
+            (success,) = to.call{value: amount}("");
+        } else {
+            i_reserveAsset.safeTransfer(to, amount);
+            success = true;
         }
     }
 
@@ -147,12 +408,22 @@ contract GroupToken is ERC20Burnable {
                           GETTER FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
-    /// @notice Returns the address of the ExponentialBondingCurve proxy contract.
+    /// @notice Returns the address of the bonding curve proxy contract.
     function getBondingCurveProxyAddress() external view returns (address) {
         return address(i_bondingCurve);
     }
 
-    /// @notice Returns the total amount of Ether held in the contract.
+    /// @notice Returns the address of the ERC20 reserve asset, or the zero address if the token is backed by Ether.
+    function getReserveAsset() external view returns (address) {
+        return address(i_reserveAsset);
+    }
+
+    /// @notice Returns the address of the host the initial token was minted to.
+    function getHost() external view returns (address) {
+        return i_host;
+    }
+
+    /// @notice Returns the total amount of the reserve asset held in the contract.
     function getReserveBalance() external view returns (uint256) {
         return reserveBalance;
     }
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// @title IBondingCurve
+/// @author Dustin Stacy
+/// @notice The pricing interface a GroupToken depends on, implemented by every bonding curve shape.
+/// Supplies are in 1e18 format and reserve amounts are in wei.
+/// @dev Fees are charged at the effective protocol fee of the group token passed in, read from AlphaMarketBase, so
+/// quotes follow the token's fee schedule whoever makes them.
+interface IBondingCurve {
+    /// @notice Calculates the amount of continuous tokens to mint for the reserve tokens received.
+    /// @param group The address of the group token charging the fees.
+    /// @param currentSupply The current supply of continuous tokens.
+    /// @param reserveTokenBalance The balance of reserve tokens.
+    /// @param reserveTokensReceived The amount of reserve tokens received, including fees.
+    /// @return purchaseReturn The amount of continuous tokens to mint.
+    /// @return fees The amount of protocol fees taken from the reserve tokens received.
+    function getPurchaseReturn(
+        address group,
+        uint256 currentSupply,
+        uint256 reserveTokenBalance,
+        uint256 reserveTokensReceived
+    ) external view returns (uint256 purchaseReturn, uint256 fees);
+
+    /// @notice Calculates the amount of reserve tokens returned for burning continuous tokens.
+    /// @param group The address of the group token charging the fees.
+    /// @param currentSupply The current supply of continuous tokens.
+    /// @param reserveTokenBalance The balance of reserve tokens.
+    /// @param tokensToBurn The amount of continuous tokens to burn.
+    /// @return saleValue The amount of reserve tokens released from the reserve, including fees.
+    /// @return fees The amount of protocol fees taken from the sale value.
+    function getSaleReturn(address group, uint256 currentSupply, uint256 reserveTokenBalance, uint256 tokensToBurn)
+        external
+        view
+        returns (uint256 saleValue, uint256 fees);
+
+    /// @notice Calculates the instantaneous price of a whole continuous token, excluding fees.
+    /// @param currentSupply The current supply of continuous tokens.
+    /// @param reserveTokenBalance The balance of reserve tokens.
+    /// @return spotPrice The marginal price of the continuous token.
+    function getSpotPrice(uint256 currentSupply, uint256 reserveTokenBalance)
+        external
+        view
+        returns (uint256 spotPrice);
+
+    /// @notice Calculates the amount of reserve tokens needed to mint a whole continuous token.
+    /// @param group The address of the group token charging the fees.
+    /// @param currentSupply The current supply of continuous tokens.
+    /// @param reserveTokenBalance The balance of reserve tokens.
+    /// @return depositAmount The amount of reserve tokens to send, including fees.
+    /// @return fees The amount of protocol fees taken from the deposit.
+    function getMintCost(address group, uint256 currentSupply, uint256 reserveTokenBalance)
+        external
+        view
+        returns (uint256 depositAmount, uint256 fees);
+
+    /// @return The address of the AlphaMarketBase contract the protocol fees are read from.
+    function getAlphaMarketBase() external view returns (address);
+
+    /// @return The address that collects protocol fees.
+    function getProtocolFeeDestination() external view returns (address);
+
+    /// @param group The address of the group token charging the fees.
+    /// @return The percentage of the transaction value the token sends to the protocol fee destination.
+    function getProtocolFeePercent(address group) external view returns (uint256);
+
+    /// @param group The address of the group token charging the fees.
+    /// @return The percentage of the collected fees the token keeps.
+    function getFeeSharePercent(address group) external view returns (uint256);
+
+    /// @return The balance of reserve tokens to initialize the bonding curve token with.
+    function getInitialReserve() external view returns (uint256);
+
+    /// @notice Returns the initial reserve of tokens backed by an ERC20 reserve asset, in the asset's units.
+    /// @param reserveAsset The address of the reserve asset, or the zero address for Ether.
+    /// @return The balance of the reserve asset to initialize the bonding curve token with, zero if unsupported.
+    function getAssetInitialReserve(address reserveAsset) external view returns (uint256);
+}
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {BondingCurve} from "./BondingCurve.sol";
+
+/// @title LinearBondingCurve
+/// @author Dustin Stacy
+/// @notice This contract implements a bonding curve whose price grows linearly with the supply.
+/// The spot price of a whole token is `initialPrice + slope * supply`.
+contract LinearBondingCurve is BondingCurve {
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Error to be used when both the initial price and the slope are zero.
+    error LinearBondingCurve__CurveCannotBeFlatAtZero();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice The price of a whole token at zero supply (in wei).
+    uint256 private initialPrice;
+
+    /// @notice The price increase per whole token of supply (in wei).
+    uint256 private slope;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Emitted when the curve parameters are updated.
+    event CurveParametersUpdated(uint256 initialPrice, uint256 slope);
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the bonding curve with the given parameters.
+    /// @param _owner The owner of the contract.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _slope The price increase per whole token of supply (in wei).
+    function initialize(
+        address _owner,
+        address _alphaMarketBase,
+        uint256 _initialReserve,
+        uint256 _initialPrice,
+        uint256 _slope
+    ) public initializer {
+        __BondingCurve_init(_owner, _alphaMarketBase, _initialReserve);
+        _setCurveParameters(_initialPrice, _slope);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS (OWNER)
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _slope The price increase per whole token of supply (in wei).
+    function setCurveParameters(uint256 _initialPrice, uint256 _slope) external onlyOwner {
+        _setCurveParameters(_initialPrice, _slope);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The price of a whole token at zero supply.
+    function getInitialPrice() external view returns (uint256) {
+        return initialPrice;
+    }
+
+    /// @return The price increase per whole token of supply.
+    function getSlope() external view returns (uint256) {
+        return slope;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev R(s) = initialPrice * s + slope * s^2 / 2
+    function _reserveAt(uint256 supply) internal view override returns (uint256) {
+        return Math.mulDiv(supply, 2 * initialPrice * PRECISION + slope * supply, 2 * PRECISION * PRECISION);
+    }
+
+    function _spotPrice(uint256 supply) internal view override returns (uint256) {
+        return initialPrice + (slope * supply) / PRECISION;
+    }
+
+    /// @dev Solves `slope / 2 * n^2 + price * n = deposit` for the amount of tokens `n`, with the price scaled by
+    /// 1e18 so the square root only ever rounds the result down.
+    function _calculatePurchaseReturn(uint256 currentSupply, uint256 deposit) internal view override returns (uint256) {
+        if (slope == 0) {
+            return (deposit * PRECISION) / initialPrice;
+        }
+        uint256 scaledPrice = initialPrice * PRECISION + slope * currentSupply;
+        uint256 discriminant = scaledPrice * scaledPrice + 2 * slope * deposit * PRECISION * PRECISION;
+
+        return (Math.sqrt(discriminant) - scaledPrice) / slope;
+    }
+
+    /// @param _initialPrice The price of a whole token at zero supply (in wei).
+    /// @param _slope The price increase per whole token of supply (in wei).
+    function _setCurveParameters(uint256 _initialPrice, uint256 _slope) internal {
+        if (_initialPrice == 0 && _slope == 0) {
+            revert LinearBondingCurve__CurveCannotBeFlatAtZero();
+        }
+        initialPrice = _initialPrice;
+        slope = _slope;
+
+        emit CurveParametersUpdated(_initialPrice, _slope);
+    }
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {BondingCurve} from "./BondingCurve.sol";
+import {CurveMath} from "./utils/CurveMath.sol";
+
+/// @title LogarithmicBondingCurve
+/// @author Dustin Stacy
+/// @notice This contract implements a bonding curve whose price grows logarithmically with the supply.
+/// The spot price of a whole token is `priceScale * ln(1 + supply / supplyScale)`, rewarding early buyers
+/// while flattening out as the group grows.
+contract LogarithmicBondingCurve is BondingCurve {
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Error to be used when a curve parameter is zero.
+    error LogarithmicBondingCurve__CurveParametersCannotBeZero();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice The price multiplier applied to the logarithm (in wei).
+    uint256 private priceScale;
+
+    /// @notice The supply at which the price reaches `priceScale * ln(2)` (in 1e18 format).
+    uint256 private supplyScale;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Emitted when the curve parameters are updated.
+    event CurveParametersUpdated(uint256 priceScale, uint256 supplyScale);
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the bonding curve with the given parameters.
+    /// @param _owner The owner of the contract.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract to read fees from.
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    /// @param _priceScale The price multiplier applied to the logarithm (in wei).
+    /// @param _supplyScale The supply scale of the logarithm (in 1e18 format).
+    function initialize(
+        address _owner,
+        address _alphaMarketBase,
+        uint256 _initialReserve,
+        uint256 _priceScale,
+        uint256 _supplyScale
+    ) public initializer {
+        __BondingCurve_init(_owner, _alphaMarketBase, _initialReserve);
+        _setCurveParameters(_priceScale, _supplyScale);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            SETTER FUNCTIONS (OWNER)
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param _priceScale The price multiplier applied to the logarithm (in wei).
+    /// @param _supplyScale The supply scale of the logarithm (in 1e18 format).
+    function setCurveParameters(uint256 _priceScale, uint256 _supplyScale) external onlyOwner {
+        _setCurveParameters(_priceScale, _supplyScale);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The price multiplier applied to the logarithm.
+    function getPriceScale() external view returns (uint256) {
+        return priceScale;
+    }
+
+    /// @return The supply scale of the logarithm.
+    function getSupplyScale() external view returns (uint256) {
+        return supplyScale;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @dev R(s) = priceScale * ((s + k) * ln(1 + s / k) - s)
+    function _reserveAt(uint256 supply) internal view override returns (uint256) {
+        uint256 shifted = supply + supplyScale;
+        uint256 area = shifted * CurveMath.ln((shifted * PRECISION) / supplyScale);
+        if (area <= supply * PRECISION) {
+            return 0;
+        }
+
+        return Math.mulDiv(priceScale, area - supply * PRECISION, PRECISION * PRECISION);
+    }
+
+    function _spotPrice(uint256 supply) internal view override returns (uint256) {
+        return (priceScale * CurveMath.ln(((supply + supplyScale) * PRECISION) / supplyScale)) / PRECISION;
+    }
+
+    /// @param _priceScale The price multiplier applied to the logarithm (in wei).
+    /// @param _supplyScale The supply scale of the logarithm (in 1e18 format).
+    function _setCurveParameters(uint256 _priceScale, uint256 _supplyScale) internal {
+        if (_priceScale == 0 || _supplyScale == 0) {
+            revert LogarithmicBondingCurve__CurveParametersCannotBeZero();
+        }
+        priceScale = _priceScale;
+        supplyScale = _supplyScale;
+
+        emit CurveParametersUpdated(_priceScale, _supplyScale);
+    }
+}
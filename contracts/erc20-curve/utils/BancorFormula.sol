@@ -1,9 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.26;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {BancorUtils} from "./BancorUtils.sol";
 
-contract BancorFormula is BancorUtils {
+contract BancorFormula is Initializable, BancorUtils {
     string private constant VERSION = "0.3";
     uint256 private constant ONE = 1;
     uint32 private constant MAX_WEIGHT = 1000000;
@@ -34,7 +35,12 @@ contract BancorFormula is BancorUtils {
      */
     uint256[128] private maxExpArray;
 
-    constructor() {
+    /**
+     * @dev populates "maxExpArray" in the storage of the proxy.
+     *     This used to run in the constructor, which left the array empty for every proxy of an inheriting contract,
+     *     so "findPositionInMaxExpArray" reverted whenever "power" needed the general exponent path.
+     */
+    function __BancorFormula_init() internal onlyInitializing {
         //  maxExpArray[  0] = 0x6bffffffffffffffffffffffffffffffff;
         //  maxExpArray[  1] = 0x67ffffffffffffffffffffffffffffffff;
         //  maxExpArray[  2] = 0x637fffffffffffffffffffffffffffffff;
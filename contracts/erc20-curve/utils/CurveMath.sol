@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import "../Errors.sol";
+
+/// @title CurveMath
+/// @author Dustin Stacy
+/// @notice Fixed point natural logarithm and exponential functions used by the non-Bancor curve shapes.
+/// @dev All values are in 1e18 format. The algorithms are replicated in `sdk/math/curveMath.ts`.
+library CurveMath {
+    /// @dev The number 1 in 1e18 format.
+    uint256 internal constant ONE = 1e18;
+
+    /// @dev ln(2) in 1e18 format.
+    uint256 internal constant LN2 = 693147180559945309;
+
+    /// @dev Euler's number in 1e18 format.
+    uint256 internal constant E = 2718281828459045235;
+
+    /// @dev Exponents above this value make e^-x smaller than 1e-18.
+    uint256 internal constant MAX_EXPONENT = 42e18;
+
+    /// @notice Calculates the natural logarithm of `x`.
+    /// @dev Computes log2 by repeated squaring of the mantissa, one bit of precision per iteration.
+    /// @param x The input, which must be at least 1 (1e18).
+    /// @return The natural logarithm of `x`.
+    function ln(uint256 x) internal pure returns (uint256) {
+        if (x < ONE) {
+            revert CurveMath__LogarithmInputBelowOne();
+        }
+
+        // Split x into 2^n * y where 1 <= y < 2.
+        uint256 n = Math.log2(x / ONE);
+        uint256 y = x >> n;
+        uint256 result = n * ONE;
+
+        for (uint256 delta = ONE / 2; delta > 0; delta /= 2) {
+            y = (y * y) / ONE;
+            if (y >= 2 * ONE) {
+                result += delta;
+                y /= 2;
+            }
+        }
+
+        return (result * LN2) / ONE;
+    }
+
+    /// @notice Calculates e^-x.
+    /// @dev Computes e^x as e^n * e^f, using a Taylor series for the fractional part, and inverts it.
+    /// @param x The exponent.
+    /// @return The value of e^-x.
+    function expNeg(uint256 x) internal pure returns (uint256) {
+        if (x >= MAX_EXPONENT) {
+            return 0;
+        }
+
+        uint256 integerPart = ONE;
+        for (uint256 i = 0; i < x / ONE; i++) {
+            integerPart = (integerPart * E) / ONE;
+        }
+
+        uint256 fraction = x % ONE;
+        uint256 term = ONE;
+        uint256 fractionalPart = ONE;
+        for (uint256 i = 1; term > 0; i++) {
+            term = (term * fraction) / (ONE * i);
+            fractionalPart += term;
+        }
+
+        return (ONE * ONE) / ((integerPart * fractionalPart) / ONE);
+    }
+}
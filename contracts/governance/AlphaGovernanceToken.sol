@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import {ERC20Capped} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import {ERC20Votes} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+
+/// @title AlphaGovernanceToken
+/// @author Dustin Stacy
+/// @notice This contract implements the governance token of the Alpha Market DAO.
+/// Holders delegate their balance as voting power in the AlphaGovernor, which controls the protocol contracts
+/// through the AlphaTimelock. The owner, the timelock once deployed, mints new tokens up to the supply cap.
+contract AlphaGovernanceToken is ERC20, ERC20Burnable, ERC20Capped, ERC20Permit, ERC20Votes, Ownable {
+    /*///////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _owner The address allowed to mint new tokens.
+    /// @param _cap The maximum total supply of the token.
+    constructor(address _owner, uint256 _cap)
+        ERC20("Alpha Market Governance", "ALPHA")
+        ERC20Capped(_cap)
+        ERC20Permit("Alpha Market Governance")
+        Ownable(_owner)
+    {}
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Allows the owner to mint new tokens.
+    /// @param to The address to mint the tokens to.
+    /// @param amount The amount of tokens to mint.
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                             OVERRIDES
+    ///////////////////////////////////////////////////////////////*/
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Capped, ERC20Votes) {
+        super._update(from, to, value);
+    }
+
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+}
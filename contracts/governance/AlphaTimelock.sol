@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {TimelockController} from "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/// @title AlphaTimelock
+/// @author Dustin Stacy
+/// @notice This contract delays the execution of proposals passed by the AlphaGovernor.
+/// It owns the protocol contracts, so every change to curve parameters, fees and upgrades waits out the delay.
+contract AlphaTimelock is TimelockController {
+    /*///////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _minDelay The minimum delay between queueing and executing an operation. (seconds)
+    /// @param _proposers The addresses allowed to queue and cancel operations.
+    /// @param _executors The addresses allowed to execute operations, or the zero address to allow anyone.
+    /// @param _admin The optional admin used to configure roles after deployment, or the zero address.
+    constructor(uint256 _minDelay, address[] memory _proposers, address[] memory _executors, address _admin)
+        TimelockController(_minDelay, _proposers, _executors, _admin)
+    {}
+}
@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {Ownable2StepUpgradeable} from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/// @title TimelockedOwnableUpgradeable
+/// @author Dustin Stacy
+/// @notice This contract delays sensitive owner changes. The owner schedules the exact call of a `timelocked`
+/// function, which can only be made once the change delay has passed, or cancels it in the meantime.
+/// Ownership is transferred in two steps, so a new owner has to accept it.
+/// @dev The state is kept in namespaced storage (ERC-7201), so proxies already deployed can upgrade to it.
+/// Contracts start with a two day delay, which can be changed through `setChangeDelay`, itself a timelocked change.
+/// Proxies initialized before the default was introduced keep their delay until it is changed.
+abstract contract TimelockedOwnableUpgradeable is Initializable, Ownable2StepUpgradeable {
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    /*///////////////////////////////////////////////////////////////
+                            ERRORS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Error to be used when a change is scheduled while it is already pending.
+    error TimelockedOwnable__ChangeAlreadyScheduled();
+
+    /// Error to be used when a change is executed or cancelled without being scheduled.
+    error TimelockedOwnable__ChangeNotScheduled();
+
+    /// Error to be used when a change is executed before its delay has passed.
+    error TimelockedOwnable__ChangeNotReady(uint256 readyAt);
+
+    /// Error to be used when the change delay exceeds the maximum.
+    error TimelockedOwnable__ChangeDelayTooLong();
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The maximum delay between scheduling and executing a change. (seconds)
+    uint256 private constant MAX_CHANGE_DELAY = 30 days;
+
+    /// The delay between scheduling and executing a change when the contract is initialized. (seconds)
+    uint256 private constant DEFAULT_CHANGE_DELAY = 2 days;
+
+    /// @custom:storage-location erc7201:alphamarket.storage.TimelockedOwnable
+    struct TimelockedOwnableStorage {
+        /// The delay between scheduling and executing a change. (seconds)
+        uint256 changeDelay;
+        /// The IDs of the changes scheduled and neither executed nor cancelled.
+        EnumerableSet.Bytes32Set pendingChanges;
+        /// The timestamp from which each pending change can be executed.
+        mapping(bytes32 changeId => uint256 readyAt) readyAt;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("alphamarket.storage.TimelockedOwnable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TimelockedOwnableStorageLocation =
+        0x583416d8d862820f8f5bf6f18cc6579341caee4f9ac2537f755c86757ad80600;
+
+    /*///////////////////////////////////////////////////////////////
+                            EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Emitted when a change is scheduled, with the calldata of the call it allows.
+    event ChangeScheduled(bytes32 indexed changeId, bytes data, uint256 readyAt);
+
+    /// Emitted when a pending change is cancelled.
+    event ChangeCancelled(bytes32 indexed changeId);
+
+    /// Emitted when a scheduled change is executed.
+    event ChangeExecuted(bytes32 indexed changeId);
+
+    /// Emitted when the change delay is updated.
+    event ChangeDelayUpdated(uint256 newDelay);
+
+    /*///////////////////////////////////////////////////////////////
+                            MODIFIERS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Restricts a function to calls scheduled at least the change delay ago with the same calldata.
+    modifier timelocked() {
+        _executeChange(keccak256(msg.data));
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                        INITIALIZER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _owner The owner of the contract.
+    function __TimelockedOwnable_init(address _owner) internal onlyInitializing {
+        __Ownable_init(_owner);
+        __Ownable2Step_init();
+        _getTimelockedOwnableStorage().changeDelay = DEFAULT_CHANGE_DELAY;
+
+        emit ChangeDelayUpdated(DEFAULT_CHANGE_DELAY);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            OWNER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Schedules a call to a timelocked function, which can be made once the change delay has passed.
+    /// @param data The calldata of the call, e.g. `abi.encodeCall(this.setReserveRatio, (250000))`.
+    /// @return changeId The ID of the change, the hash of its calldata.
+    function scheduleChange(bytes calldata data) external onlyOwner returns (bytes32 changeId) {
+        TimelockedOwnableStorage storage $ = _getTimelockedOwnableStorage();
+        changeId = keccak256(data);
+        if (!$.pendingChanges.add(changeId)) {
+            revert TimelockedOwnable__ChangeAlreadyScheduled();
+        }
+        uint256 readyAt = block.timestamp + $.changeDelay;
+        $.readyAt[changeId] = readyAt;
+
+        emit ChangeScheduled(changeId, data, readyAt);
+    }
+
+    /// @param changeId The ID of the pending change to cancel.
+    function cancelChange(bytes32 changeId) external onlyOwner {
+        TimelockedOwnableStorage storage $ = _getTimelockedOwnableStorage();
+        if (!$.pendingChanges.remove(changeId)) {
+            revert TimelockedOwnable__ChangeNotScheduled();
+        }
+        delete $.readyAt[changeId];
+
+        emit ChangeCancelled(changeId);
+    }
+
+    /// @dev Changes scheduled before the update keep the delay they were scheduled with.
+    /// @param _changeDelay The delay between scheduling and executing a change. (seconds)
+    function setChangeDelay(uint256 _changeDelay) external onlyOwner timelocked {
+        if (_changeDelay > MAX_CHANGE_DELAY) {
+            revert TimelockedOwnable__ChangeDelayTooLong();
+        }
+        _getTimelockedOwnableStorage().changeDelay = _changeDelay;
+
+        emit ChangeDelayUpdated(_changeDelay);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            GETTER FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @return The delay between scheduling and executing a change.
+    function getChangeDelay() external view returns (uint256) {
+        return _getTimelockedOwnableStorage().changeDelay;
+    }
+
+    /// @return The maximum delay between scheduling and executing a change.
+    function getMaxChangeDelay() external pure returns (uint256) {
+        return MAX_CHANGE_DELAY;
+    }
+
+    /// @return The IDs of the changes scheduled and neither executed nor cancelled.
+    function getPendingChanges() external view returns (bytes32[] memory) {
+        return _getTimelockedOwnableStorage().pendingChanges.values();
+    }
+
+    /// @param changeId The ID of the change.
+    /// @return The timestamp from which the change can be executed, zero if it is not pending.
+    function getChangeReadyAt(bytes32 changeId) external view returns (uint256) {
+        return _getTimelockedOwnableStorage().readyAt[changeId];
+    }
+
+    /// @param data The calldata of a call to a timelocked function.
+    /// @return The ID of the change allowing the call.
+    function getChangeId(bytes calldata data) external pure returns (bytes32) {
+        return keccak256(data);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @param changeId The ID of the change to execute, which must be pending and ready.
+    function _executeChange(bytes32 changeId) internal {
+        TimelockedOwnableStorage storage $ = _getTimelockedOwnableStorage();
+        if (!$.pendingChanges.contains(changeId)) {
+            revert TimelockedOwnable__ChangeNotScheduled();
+        }
+        uint256 readyAt = $.readyAt[changeId];
+        if (block.timestamp < readyAt) {
+            revert TimelockedOwnable__ChangeNotReady(readyAt);
+        }
+        $.pendingChanges.remove(changeId);
+        delete $.readyAt[changeId];
+
+        emit ChangeExecuted(changeId);
+    }
+
+    function _getTimelockedOwnableStorage() private pure returns (TimelockedOwnableStorage storage $) {
+        assembly {
+            $.slot := TimelockedOwnableStorageLocation
+        }
+    }
+}
@@ -0,0 +1,412 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {GroupMembershipNFT} from "./GroupMembershipNFT.sol";
+import {Utils} from "../Utils.sol";
+import "./Errors.sol";
+
+/// @title CommunityGovernor
+/// @author Dustin Stacy
+/// @notice This contract lets the members of each group decide how to spend the group's community reserve.
+/// Members holding enough memberships propose disbursements of the reserve to one or more recipients, and each
+/// membership held before the block a proposal is created in, and not expired since, is one vote on it. The host
+/// sets the quorum, the approval threshold, the proposal threshold, the voting delay, the voting period and the
+/// execution delay of their group, and a proposal that passes can be executed by anyone once the delay is over.
+/// @dev The GroupMembershipNFT contracts created by the GroupFactory only let this contract disburse their
+/// community reserve. Proposals commit the reserve they disburse until they are executed or cancelled, so they never
+/// disburse more than the reserve held together, and anyone can cancel a defeated proposal to release its reserve.
+contract CommunityGovernor {
+    /*///////////////////////////////////////////////////////////////
+                             TYPES
+    ///////////////////////////////////////////////////////////////*/
+
+    enum ProposalState {
+        Active,
+        Defeated,
+        Succeeded,
+        Executed,
+        Cancelled
+    }
+
+    /// @param quorumPercent The share of the memberships at the snapshot that have not expired that must vote.
+    /// (basis points)
+    /// @param approvalPercent The share of the votes cast that must be in favour. (basis points)
+    /// @param proposalThreshold The number of memberships a member must hold at the snapshot to propose, at least one.
+    /// @param votingDelay The number of seconds between the creation of a proposal and the start of the vote.
+    /// @param votingPeriod The number of seconds a proposal is open for voting.
+    /// @param executionDelay The number of seconds between the end of the vote and the execution.
+    struct GovernanceSettings {
+        uint256 quorumPercent;
+        uint256 approvalPercent;
+        uint256 proposalThreshold;
+        uint64 votingDelay;
+        uint64 votingPeriod;
+        uint64 executionDelay;
+    }
+
+    /// @param membership The address of the GroupMembershipNFT whose community reserve is disbursed.
+    /// @param proposer The address of the member that created the proposal.
+    /// @param snapshot The block at the end of which the memberships held are counted as votes, the block before the
+    /// proposal was created.
+    /// @param voteStart The timestamp voting opens.
+    /// @param voteEnd The timestamp voting closes.
+    /// @param executableAt The timestamp from which a proposal that passed can be executed.
+    /// @param executed Whether the proposal has been executed.
+    /// @param cancelled Whether the proposal has been cancelled by its proposer.
+    /// @param quorumPercent The quorum of the group when the proposal was created. (basis points)
+    /// @param approvalPercent The approval threshold of the group when the proposal was created. (basis points)
+    /// @param activeSupply The memberships at the snapshot, up to the memberships that had not expired when the
+    /// proposal was created, which the quorum is a share of.
+    /// @param forVotes The number of votes in favour.
+    /// @param againstVotes The number of votes against.
+    /// @param recipients The addresses receiving Ether from the community reserve.
+    /// @param amounts The amount each recipient receives.
+    struct Proposal {
+        address membership;
+        address proposer;
+        uint48 snapshot;
+        uint64 voteStart;
+        uint64 voteEnd;
+        uint64 executableAt;
+        bool executed;
+        bool cancelled;
+        uint256 quorumPercent;
+        uint256 approvalPercent;
+        uint256 activeSupply;
+        uint256 forVotes;
+        uint256 againstVotes;
+        address[] recipients;
+        uint256[] amounts;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                             STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The proposals created by members, indexed by proposal ID.
+    Proposal[] private proposals;
+
+    /*///////////////////////////////////////////////////////////////
+                                MAPPINGS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// A mapping of the governance settings chosen by the host of each group.
+    mapping(address membership => GovernanceSettings settings) private governanceSettings;
+
+    /// A mapping of the members that voted on each proposal.
+    mapping(uint256 proposalId => mapping(address voter => bool voted)) private hasVoted;
+
+    /// A mapping of the community reserve of each group committed to proposals neither executed nor cancelled.
+    mapping(address membership => uint256 amount) private committedReserve;
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Event to log a host updating the governance settings of their group.
+    event GovernanceSettingsUpdated(address indexed membership, GovernanceSettings settings);
+
+    /// Event to log the creation of a proposal.
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed membership,
+        address indexed proposer,
+        address[] recipients,
+        uint256[] amounts,
+        uint256 snapshot,
+        uint256 voteStart,
+        uint256 voteEnd,
+        string description
+    );
+
+    /// Event to log a member voting on a proposal.
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bool support, uint256 votes);
+
+    /// Event to log the execution of a proposal.
+    event ProposalExecuted(uint256 indexed proposalId);
+
+    /// Event to log the cancellation of a proposal.
+    event ProposalCancelled(uint256 indexed proposalId);
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Allows a group host to set the quorum, approval threshold, proposal threshold, voting delay, voting period and
+    /// execution delay of their group.
+    /// @dev Proposals keep the settings of their group when they were created.
+    /// @param membership The address of the group's GroupMembershipNFT.
+    /// @param settings The governance settings of the group.
+    function setGovernanceSettings(address membership, GovernanceSettings calldata settings) external {
+        GroupMembershipNFT nft = GroupMembershipNFT(membership);
+        if (!nft.hasRole(nft.HOST_ROLE(), msg.sender)) {
+            revert CommunityGovernor__OnlyHost();
+        }
+        uint256 basisPoints = Utils.getBasisPointsPrecision();
+        if (
+            settings.quorumPercent > basisPoints || settings.approvalPercent == 0
+                || settings.approvalPercent > basisPoints || settings.votingPeriod == 0
+        ) {
+            revert CommunityGovernor__InvalidGovernanceSettings();
+        }
+        governanceSettings[membership] = settings;
+
+        emit GovernanceSettingsUpdated(membership, settings);
+    }
+
+    /// Allows a member to propose disbursing the community reserve of their group.
+    /// @dev The memberships held at the end of the block before the proposal is created are its votes and decide
+    /// whether the proposer reaches the proposal threshold, so memberships bought in the same block never count.
+    /// @param membership The address of the group's GroupMembershipNFT.
+    /// @param recipients The addresses to send Ether from the community reserve to.
+    /// @param amounts The amount each recipient receives.
+    /// @param description The description of the proposal.
+    /// @return proposalId The ID of the new proposal.
+    function propose(
+        address membership,
+        address[] calldata recipients,
+        uint256[] calldata amounts,
+        string calldata description
+    ) external returns (uint256 proposalId) {
+        GovernanceSettings memory settings = _checkProposal(GroupMembershipNFT(membership), recipients, amounts);
+        committedReserve[membership] += _getTotal(amounts);
+
+        proposalId = proposals.length;
+        Proposal storage proposal = proposals.push();
+        proposal.membership = membership;
+        proposal.proposer = msg.sender;
+        proposal.snapshot = uint48(block.number - 1);
+        proposal.voteStart = uint64(block.timestamp) + settings.votingDelay;
+        proposal.voteEnd = proposal.voteStart + settings.votingPeriod;
+        proposal.executableAt = proposal.voteEnd + settings.executionDelay;
+        proposal.quorumPercent = settings.quorumPercent;
+        proposal.approvalPercent = settings.approvalPercent;
+        proposal.activeSupply = _getActiveSupply(GroupMembershipNFT(membership), proposal.snapshot);
+        proposal.recipients = recipients;
+        proposal.amounts = amounts;
+
+        emit ProposalCreated(
+            proposalId,
+            membership,
+            msg.sender,
+            recipients,
+            amounts,
+            proposal.snapshot,
+            proposal.voteStart,
+            proposal.voteEnd,
+            description
+        );
+    }
+
+    /// Allows a member to vote on an active proposal with the memberships they held at its snapshot, up to the
+    /// memberships they hold that have not expired, once its voting delay is over.
+    /// @param proposalId The ID of the proposal.
+    /// @param support Whether the vote is in favour of the proposal.
+    function castVote(uint256 proposalId, bool support) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (getProposalState(proposalId) != ProposalState.Active) {
+            revert CommunityGovernor__VotingClosed();
+        }
+        if (block.timestamp < proposal.voteStart) {
+            revert CommunityGovernor__VotingNotStarted();
+        }
+        if (hasVoted[proposalId][msg.sender]) {
+            revert CommunityGovernor__AlreadyVoted();
+        }
+        uint256 votes = _getVotes(GroupMembershipNFT(proposal.membership), msg.sender, proposal.snapshot);
+        if (votes == 0) {
+            revert CommunityGovernor__NoVotingPower();
+        }
+
+        hasVoted[proposalId][msg.sender] = true;
+        if (support) {
+            proposal.forVotes += votes;
+        } else {
+            proposal.againstVotes += votes;
+        }
+
+        emit VoteCast(proposalId, msg.sender, support, votes);
+    }
+
+    /// Allows anyone to execute a proposal that passed once its execution delay is over, disbursing the community
+    /// reserve to its recipients.
+    /// @param proposalId The ID of the proposal.
+    function executeProposal(uint256 proposalId) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (getProposalState(proposalId) != ProposalState.Succeeded) {
+            revert CommunityGovernor__ProposalNotSucceeded();
+        }
+        if (block.timestamp < proposal.executableAt) {
+            revert CommunityGovernor__ExecutionDelayNotOver();
+        }
+        proposal.executed = true;
+        _releaseReserve(proposal);
+
+        emit ProposalExecuted(proposalId);
+
+        GroupMembershipNFT nft = GroupMembershipNFT(proposal.membership);
+        for (uint256 i = 0; i < proposal.recipients.length; i++) {
+            nft.disburseCommunityReserve(proposal.recipients[i], proposal.amounts[i]);
+        }
+    }
+
+    /// Allows the proposer to cancel a proposal that has not been executed, or anyone to cancel a defeated proposal,
+    /// releasing the community reserve it committed.
+    /// @param proposalId The ID of the proposal.
+    function cancelProposal(uint256 proposalId) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (msg.sender != proposal.proposer && getProposalState(proposalId) != ProposalState.Defeated) {
+            revert CommunityGovernor__OnlyProposer();
+        }
+        if (proposal.executed || proposal.cancelled) {
+            revert CommunityGovernor__ProposalFinalized();
+        }
+        proposal.cancelled = true;
+        _releaseReserve(proposal);
+
+        emit ProposalCancelled(proposalId);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Returns the stored proposal, reverting if it does not exist.
+    function _getProposal(uint256 proposalId) internal view returns (Proposal storage) {
+        if (proposalId >= proposals.length) {
+            revert CommunityGovernor__ProposalDoesNotExist();
+        }
+
+        return proposals[proposalId];
+    }
+
+    /// Reverts unless the group is governed by this contract and configured, the caller held at least one membership
+    /// and the proposal threshold at the end of the previous block, and the disbursements are valid.
+    /// @return settings The governance settings of the group.
+    function _checkProposal(GroupMembershipNFT nft, address[] calldata recipients, uint256[] calldata amounts)
+        internal
+        view
+        returns (GovernanceSettings memory settings)
+    {
+        if (nft.getCommunityGovernorAddress() != address(this)) {
+            revert CommunityGovernor__NotTheGovernor();
+        }
+        settings = governanceSettings[address(nft)];
+        if (settings.votingPeriod == 0) {
+            revert CommunityGovernor__GovernanceNotConfigured();
+        }
+        uint256 votes = _getVotes(nft, msg.sender, block.number - 1);
+        if (votes == 0) {
+            revert CommunityGovernor__NotAMember();
+        }
+        if (votes < settings.proposalThreshold) {
+            revert CommunityGovernor__BelowProposalThreshold();
+        }
+        _checkDisbursements(nft, recipients, amounts);
+    }
+
+    /// Returns the memberships in existence at the snapshot, up to the memberships that have not expired, so the quorum
+    /// leaves out lapsed memberships the same way votes do.
+    function _getActiveSupply(GroupMembershipNFT nft, uint256 snapshot) internal view returns (uint256) {
+        return Math.min(nft.getPastTotalSupply(snapshot), nft.getActiveSupply());
+    }
+
+    /// Returns the memberships the account held at the snapshot, up to the memberships it holds that have not expired.
+    function _getVotes(GroupMembershipNFT nft, address account, uint256 snapshot) internal view returns (uint256) {
+        return Math.min(nft.getPastBalance(account, snapshot), nft.getActiveBalance(account));
+    }
+
+    /// Reverts unless every recipient is set and the community reserve not committed to other proposals covers the
+    /// disbursements.
+    function _checkDisbursements(GroupMembershipNFT nft, address[] calldata recipients, uint256[] calldata amounts)
+        internal
+        view
+    {
+        if (recipients.length == 0 || recipients.length != amounts.length) {
+            revert CommunityGovernor__InvalidProposal();
+        }
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == address(0) || amounts[i] == 0) {
+                revert CommunityGovernor__InvalidProposal();
+            }
+        }
+        if (_getTotal(amounts) + committedReserve[address(nft)] > nft.getCommunityReserveBalance()) {
+            revert CommunityGovernor__InsufficientCommunityReserve();
+        }
+    }
+
+    /// Releases the community reserve committed to a proposal that is executed or cancelled.
+    function _releaseReserve(Proposal storage proposal) internal {
+        committedReserve[proposal.membership] -= _getTotal(proposal.amounts);
+    }
+
+    /// Returns the total amount of the disbursements.
+    function _getTotal(uint256[] memory amounts) internal pure returns (uint256 total) {
+        for (uint256 i = 0; i < amounts.length; i++) {
+            total += amounts[i];
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          GETTER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param proposalId The ID of the proposal.
+    /// @return The state of the proposal. A proposal passes if the votes cast reach the quorum of the memberships
+    /// at its snapshot that had not expired when it was created, and the votes in favour reach the approval threshold
+    /// of the votes cast.
+    function getProposalState(uint256 proposalId) public view returns (ProposalState) {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (proposal.executed) {
+            return ProposalState.Executed;
+        }
+        if (proposal.cancelled) {
+            return ProposalState.Cancelled;
+        }
+        if (block.timestamp < proposal.voteEnd) {
+            return ProposalState.Active;
+        }
+
+        uint256 votes = proposal.forVotes + proposal.againstVotes;
+        uint256 basisPoints = Utils.getBasisPointsPrecision();
+        if (
+            proposal.forVotes == 0 || votes * basisPoints < proposal.activeSupply * proposal.quorumPercent
+                || proposal.forVotes * basisPoints < votes * proposal.approvalPercent
+        ) {
+            return ProposalState.Defeated;
+        }
+
+        return ProposalState.Succeeded;
+    }
+
+    /// @param proposalId The ID of the proposal.
+    /// @return The proposal details.
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        return _getProposal(proposalId);
+    }
+
+    /// @return Returns the number of proposals created.
+    function getProposalCount() external view returns (uint256) {
+        return proposals.length;
+    }
+
+    /// @param membership The address of the group's GroupMembershipNFT.
+    /// @return Returns the governance settings of the group, with a zero voting period until the host sets them.
+    function getGovernanceSettings(address membership) external view returns (GovernanceSettings memory) {
+        return governanceSettings[membership];
+    }
+
+    /// @param membership The address of the group's GroupMembershipNFT.
+    /// @return Returns the community reserve of the group committed to proposals neither executed nor cancelled.
+    function getCommittedReserve(address membership) external view returns (uint256) {
+        return committedReserve[membership];
+    }
+
+    /// @param proposalId The ID of the proposal.
+    /// @param voter The address of the member.
+    /// @return Returns whether the member has voted on the proposal.
+    function getHasVoted(uint256 proposalId, address voter) external view returns (bool) {
+        return hasVoted[proposalId][voter];
+    }
+}
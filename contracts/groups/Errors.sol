@@ -14,3 +14,99 @@ error GroupNFTMembership__TokenSaleTransferFailed();
 error GroupNFTMembership__UnauthorizedWithdrawal();
 
 error GroupNFTMembership__HostReserveWithdrawalFailed();
+
+error GroupNFTMembership__OnlyGuardian();
+
+error GroupNFTMembership__IncorrectAmountOfEtherSent();
+
+error GroupNFTMembership__MaxCostExceeded();
+
+error GroupNFTMembership__RefundTransferFailed();
+
+error GroupNFTMembership__OnlyCommunityGovernor();
+
+error GroupNFTMembership__InsufficientCommunityReserve();
+
+error GroupNFTMembership__CommunityReserveTransferFailed();
+
+error GroupNFTMembership__FutureLookup();
+
+error GroupNFTMembership__TierDoesNotExist();
+
+error GroupNFTMembership__InvalidMetadata();
+
+error GroupNFTMembership__MembershipDoesNotExpire();
+
+error GroupNFTMembership__GenesisAlreadyMinted();
+
+error GroupFactory__AddressCannotBeZero();
+
+error GroupFactory__IncorrectAmountOfEtherSent();
+
+error GroupFactory__GroupDoesNotExist();
+
+error GroupDeployer__OnlyFactory();
+
+error MembershipDeployer__OnlyFactory();
+
+error MembershipAuctions__OnlyHost();
+
+error MembershipAuctions__NotAnAuctioneer();
+
+error MembershipAuctions__InvalidAuctionParameters();
+
+error MembershipAuctions__AuctionDoesNotExist();
+
+error MembershipAuctions__WrongAuctionKind();
+
+error MembershipAuctions__AuctionNotStarted();
+
+error MembershipAuctions__AuctionOver();
+
+error MembershipAuctions__AuctionNotOver();
+
+error MembershipAuctions__AuctionAlreadySettled();
+
+error MembershipAuctions__AuctionHasBids();
+
+error MembershipAuctions__BidTooLow();
+
+error MembershipAuctions__NoFundsToWithdraw();
+
+error MembershipAuctions__RefundTransferFailed();
+
+error MembershipAuctions__SettlementFailed();
+
+error CommunityGovernor__OnlyHost();
+
+error CommunityGovernor__OnlyProposer();
+
+error CommunityGovernor__NotTheGovernor();
+
+error CommunityGovernor__InvalidGovernanceSettings();
+
+error CommunityGovernor__GovernanceNotConfigured();
+
+error CommunityGovernor__NotAMember();
+
+error CommunityGovernor__BelowProposalThreshold();
+
+error CommunityGovernor__InvalidProposal();
+
+error CommunityGovernor__InsufficientCommunityReserve();
+
+error CommunityGovernor__ProposalDoesNotExist();
+
+error CommunityGovernor__VotingNotStarted();
+
+error CommunityGovernor__VotingClosed();
+
+error CommunityGovernor__AlreadyVoted();
+
+error CommunityGovernor__NoVotingPower();
+
+error CommunityGovernor__ProposalNotSucceeded();
+
+error CommunityGovernor__ExecutionDelayNotOver();
+
+error CommunityGovernor__ProposalFinalized();
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {GroupToken} from "../erc20-curve/GroupToken.sol";
+import "./Errors.sol";
+
+/// @title GroupDeployer
+/// @author Dustin Stacy
+/// @notice This contract deploys the GroupToken contracts of new groups for the GroupFactory that created it, keeping
+/// their creation code out of the factory's bytecode.
+contract GroupDeployer {
+    /*///////////////////////////////////////////////////////////////
+                             STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The GroupFactory contract allowed to deploy groups.
+    address private immutable i_factory;
+
+    /*///////////////////////////////////////////////////////////////
+                                MODIFIERS
+    ///////////////////////////////////////////////////////////////*/
+
+    modifier onlyFactory() {
+        if (msg.sender != i_factory) {
+            revert GroupDeployer__OnlyFactory();
+        }
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev The deployer is created by the GroupFactory contract in its constructor.
+    constructor() {
+        i_factory = msg.sender;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Deploys a GroupToken, forwarding the Ether sent as its initial reserve.
+    /// @param name The name of the group token.
+    /// @param symbol The symbol of the group token.
+    /// @param bondingCurve The address of the bonding curve proxy contract.
+    /// @param host The address of the host account.
+    /// @param reserveAsset The address of the ERC20 reserve asset, or the zero address to be backed by Ether.
+    /// @return The new GroupToken contract.
+    function deployGroupToken(
+        string calldata name,
+        string calldata symbol,
+        address bondingCurve,
+        address host,
+        address reserveAsset
+    ) external payable onlyFactory returns (GroupToken) {
+        return new GroupToken{value: msg.value}(name, symbol, bondingCurve, host, reserveAsset);
+    }
+}
@@ -0,0 +1,286 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {GroupToken} from "../erc20-curve/GroupToken.sol";
+import {IBondingCurve} from "../erc20-curve/IBondingCurve.sol";
+import {GroupMembershipNFT} from "./GroupMembershipNFT.sol";
+import {MembershipPricingEngine} from "./MembershipPricingEngine.sol";
+import {GroupDeployer} from "./GroupDeployer.sol";
+import {MembershipDeployer} from "./MembershipDeployer.sol";
+import "./Errors.sol";
+
+/// @title GroupFactory
+/// @author Dustin Stacy
+/// @notice This contract launches groups on-chain. Each group is a GroupToken and GroupMembershipNFT pair deployed
+/// for the calling host in a single transaction, and is recorded in a registry that can be enumerated per host.
+/// @dev The contracts are deployed through a GroupDeployer and a MembershipDeployer created with the factory, to
+/// stay within the contract size limit.
+contract GroupFactory {
+    using SafeERC20 for IERC20;
+
+    /*///////////////////////////////////////////////////////////////
+                             STRUCTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param groupToken The address of the group's ERC20 token.
+    /// @param membership The address of the group's membership NFT.
+    /// @param host The address of the host that created the group.
+    struct Group {
+        address groupToken;
+        address membership;
+        address host;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                             STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Instance of the Bonding Curve contract used to price every group token.
+    IBondingCurve private immutable i_bondingCurve;
+
+    /// The address of the AlphaMarketBase contract used by every membership NFT.
+    address private immutable i_alphaMarketBase;
+
+    /// The address of the MembershipPricingEngine contract used by every membership NFT.
+    address private immutable i_pricingEngine;
+
+    /// The address of the CommunityGovernor contract spending the community reserve of every membership NFT.
+    address private immutable i_communityGovernor;
+
+    /// Instance of the GroupDeployer contract deploying the group token of every group.
+    GroupDeployer private immutable i_deployer;
+
+    /// Instance of the MembershipDeployer contract deploying the membership NFT of every group.
+    MembershipDeployer private immutable i_membershipDeployer;
+
+    /// The groups created by the factory, indexed by group ID.
+    Group[] private groups;
+
+    /*///////////////////////////////////////////////////////////////
+                                MAPPINGS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// A mapping of the group IDs created by each host.
+    mapping(address host => uint256[] groupIds) private groupIdsByHost;
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Event to log the creation of a new group.
+    event GroupCreated(uint256 indexed groupId, address indexed host, address groupToken, address membership);
+
+    /*///////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param _bcAddress The address of the bonding curve proxy contract.
+    /// @param _alphaMarketBase The address of the AlphaMarketBase proxy contract.
+    /// @param _pricingEngine The address of the MembershipPricingEngine proxy contract.
+    /// @param _communityGovernor The address of the CommunityGovernor contract.
+    constructor(address _bcAddress, address _alphaMarketBase, address _pricingEngine, address _communityGovernor) {
+        if (
+            _bcAddress == address(0) || _alphaMarketBase == address(0) || _pricingEngine == address(0)
+                || _communityGovernor == address(0)
+        ) {
+            revert GroupFactory__AddressCannotBeZero();
+        }
+        i_bondingCurve = IBondingCurve(_bcAddress);
+        i_alphaMarketBase = _alphaMarketBase;
+        i_pricingEngine = _pricingEngine;
+        i_communityGovernor = _communityGovernor;
+        i_deployer = new GroupDeployer();
+        i_membershipDeployer = new MembershipDeployer();
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Deploys a GroupToken and GroupMembershipNFT pair for the caller.
+    /// @param tokenName The name of the group token.
+    /// @param tokenSymbol The symbol of the group token.
+    /// @param membershipName The name of the membership NFT.
+    /// @param membershipSymbol The symbol of the membership NFT.
+    /// @param reserveSplitThreshold The threshold at which the membership reserve is split with the community pool.
+    /// @param reserveSplitPercent The percentage of the membership reserve to split. (basis points)
+    /// @return groupId The ID of the new group.
+    /// @dev The Ether sent must equal the bonding curve's initial reserve, which seeds the group token's reserve,
+    /// plus the cost of the host's first membership.
+    function createGroup(
+        string calldata tokenName,
+        string calldata tokenSymbol,
+        string calldata membershipName,
+        string calldata membershipSymbol,
+        uint256 reserveSplitThreshold,
+        uint256 reserveSplitPercent
+    ) external payable returns (uint256 groupId) {
+        uint256 initialReserve = i_bondingCurve.getInitialReserve();
+        if (msg.value != initialReserve + getMembershipInitialCost()) {
+            revert GroupFactory__IncorrectAmountOfEtherSent();
+        }
+
+        GroupToken groupToken = i_deployer.deployGroupToken{value: initialReserve}(
+            tokenName, tokenSymbol, address(i_bondingCurve), msg.sender, address(0)
+        );
+
+        return _registerGroup(groupToken, membershipName, membershipSymbol, reserveSplitThreshold, reserveSplitPercent);
+    }
+
+    /// @notice Deploys a GroupToken backed by an ERC20 reserve asset and a GroupMembershipNFT pair for the caller.
+    /// @param tokenName The name of the group token.
+    /// @param tokenSymbol The symbol of the group token.
+    /// @param membershipName The name of the membership NFT.
+    /// @param membershipSymbol The symbol of the membership NFT.
+    /// @param reserveSplitThreshold The threshold at which the membership reserve is split with the community pool.
+    /// @param reserveSplitPercent The percentage of the membership reserve to split. (basis points)
+    /// @param reserveAsset The address of the ERC20 asset backing the group token.
+    /// @return groupId The ID of the new group.
+    /// @dev The caller must have approved the bonding curve's initial reserve for the asset to the factory,
+    /// which seeds the group token's reserve. The Ether sent must equal the cost of the host's first membership.
+    function createGroupWithReserveAsset(
+        string calldata tokenName,
+        string calldata tokenSymbol,
+        string calldata membershipName,
+        string calldata membershipSymbol,
+        uint256 reserveSplitThreshold,
+        uint256 reserveSplitPercent,
+        address reserveAsset
+    ) external payable returns (uint256 groupId) {
+        if (reserveAsset == address(0)) {
+            revert GroupFactory__AddressCannotBeZero();
+        }
+        if (msg.value != getMembershipInitialCost()) {
+            revert GroupFactory__IncorrectAmountOfEtherSent();
+        }
+
+        GroupToken groupToken =
+            i_deployer.deployGroupToken(tokenName, tokenSymbol, address(i_bondingCurve), msg.sender, reserveAsset);
+        uint256 initialReserve = i_bondingCurve.getAssetInitialReserve(reserveAsset);
+        IERC20(reserveAsset).safeTransferFrom(msg.sender, address(this), initialReserve);
+        IERC20(reserveAsset).forceApprove(address(groupToken), initialReserve);
+        groupToken.seedReserve();
+
+        return _registerGroup(groupToken, membershipName, membershipSymbol, reserveSplitThreshold, reserveSplitPercent);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Deploys the membership NFT of a new group and records the group for the caller.
+    /// @dev The membership cost sent with the call pays for the host's first membership.
+    function _registerGroup(
+        GroupToken groupToken,
+        string calldata membershipName,
+        string calldata membershipSymbol,
+        uint256 reserveSplitThreshold,
+        uint256 reserveSplitPercent
+    ) internal returns (uint256 groupId) {
+        GroupMembershipNFT membership = i_membershipDeployer.deployMembership{value: getMembershipInitialCost()}(
+            membershipName,
+            membershipSymbol,
+            i_alphaMarketBase,
+            i_pricingEngine,
+            msg.sender,
+            i_communityGovernor,
+            reserveSplitThreshold,
+            reserveSplitPercent
+        );
+
+        groupId = groups.length;
+        groups.push(Group(address(groupToken), address(membership), msg.sender));
+        groupIdsByHost[msg.sender].push(groupId);
+
+        emit GroupCreated(groupId, msg.sender, address(groupToken), address(membership));
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          GETTER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @return Returns the address of the bonding curve proxy contract.
+    function getBondingCurveProxyAddress() external view returns (address) {
+        return address(i_bondingCurve);
+    }
+
+    /// @return Returns the address of the AlphaMarketBase contract.
+    function getAlphaMarketBaseAddress() external view returns (address) {
+        return i_alphaMarketBase;
+    }
+
+    /// @return Returns the address of the MembershipPricingEngine proxy contract.
+    function getPricingEngineAddress() external view returns (address) {
+        return i_pricingEngine;
+    }
+
+    /// @return Returns the address of the CommunityGovernor contract.
+    function getCommunityGovernorAddress() external view returns (address) {
+        return i_communityGovernor;
+    }
+
+    /// @return Returns the address of the GroupDeployer contract.
+    function getGroupDeployerAddress() external view returns (address) {
+        return address(i_deployer);
+    }
+
+    /// @return Returns the address of the MembershipDeployer contract.
+    function getMembershipDeployerAddress() external view returns (address) {
+        return address(i_membershipDeployer);
+    }
+
+    /// @return Returns the Ether required to create a group, seeding the group token's reserve and paying for the
+    /// host's first membership.
+    function getInitialReserve() external view returns (uint256) {
+        return i_bondingCurve.getInitialReserve() + getMembershipInitialCost();
+    }
+
+    /// @return Returns the cost of the host's first membership, paid in Ether when creating any group.
+    function getMembershipInitialCost() public view returns (uint256) {
+        return MembershipPricingEngine(i_pricingEngine).getMembershipCost(0);
+    }
+
+    /// @param reserveAsset The address of the ERC20 reserve asset.
+    /// @return Returns the amount of the reserve asset required to create a group backed by it.
+    function getAssetInitialReserve(address reserveAsset) external view returns (uint256) {
+        return i_bondingCurve.getAssetInitialReserve(reserveAsset);
+    }
+
+    /// @return Returns the total number of groups created by the factory.
+    function getGroupCount() external view returns (uint256) {
+        return groups.length;
+    }
+
+    /// @param groupId The ID of the group.
+    /// @return Returns the group with the given ID.
+    function getGroup(uint256 groupId) external view returns (Group memory) {
+        if (groupId >= groups.length) {
+            revert GroupFactory__GroupDoesNotExist();
+        }
+        return groups[groupId];
+    }
+
+    /// @param host The address of the host.
+    /// @return Returns the number of groups created by the host.
+    function getHostGroupCount(address host) external view returns (uint256) {
+        return groupIdsByHost[host].length;
+    }
+
+    /// @param host The address of the host.
+    /// @param index The index of the group in the host's registry.
+    /// @return Returns the group created by the host at the given index.
+    function getHostGroupAt(address host, uint256 index) external view returns (Group memory) {
+        if (index >= groupIdsByHost[host].length) {
+            revert GroupFactory__GroupDoesNotExist();
+        }
+        return groups[groupIdsByHost[host][index]];
+    }
+
+    /// @param host The address of the host.
+    /// @return Returns the IDs of every group created by the host.
+    function getHostGroupIds(address host) external view returns (uint256[] memory) {
+        return groupIdsByHost[host];
+    }
+}
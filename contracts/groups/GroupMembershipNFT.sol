@@ -4,6 +4,12 @@ pragma solidity ^0.8.26;
 import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import {ERC721Burnable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Burnable.sol";
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {Time} from "@openzeppelin/contracts/utils/types/Time.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
 import {MembershipPricingEngine} from "./MembershipPricingEngine.sol";
 import {AlphaMarketBase} from "../alphamarket/AlphaMarketBase.sol";
 import "../Utils.sol";
@@ -12,7 +18,49 @@ import "./Errors.sol";
 /// @title GroupNFTMembership
 /// @author Dustin Stacy
 /// @notice This contract implements a membership NFT for a group that can be minted and burned using a bonding curve.
-contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
+/// The AlphaMarketBase guardian can pause purchases and sales, and the community reserve is only spent by proposals
+/// members pass on the CommunityGovernor contract, where each membership held is one vote.
+/// The host can add tiers of memberships, each with its own pricing and benefits, whose memberships may expire unless
+/// they are renewed. Renewals are paid to the host reserve. Accounts holding a membership that has not expired have the
+/// fan role.
+/// @dev Tier 0 is the base tier, which holds the genesis membership and the memberships minted by auctions. Each tier
+/// has its own supply and membership reserve, and the reserve of a tier is split into the community reserve past the
+/// threshold.
+contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl, Pausable {
+    using Checkpoints for Checkpoints.Trace208;
+
+    /*///////////////////////////////////////////////////////////////
+                             TYPES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param name The name of the tier.
+    /// @param benefits The benefits of the tier, such as a description or a link to them.
+    /// @param duration The number of seconds a membership of the tier lasts after it is minted or renewed, or zero for
+    /// memberships that never expire.
+    /// @param renewalPrice The price of renewing a membership of the tier for another `duration` (in wei).
+    struct TierSettings {
+        string name;
+        string benefits;
+        uint64 duration;
+        uint256 renewalPrice;
+    }
+
+    /// @param settings The settings chosen by the host.
+    /// @param supply The number of memberships of the tier in existence.
+    /// @param reserveBalance The membership reserve backing the memberships of the tier.
+    struct Tier {
+        TierSettings settings;
+        uint256 supply;
+        uint256 reserveBalance;
+    }
+
+    /// @param tier The tier of the membership.
+    /// @param expiresAt The timestamp the membership expires at, or zero if it never expires.
+    struct Membership {
+        uint64 tier;
+        uint64 expiresAt;
+    }
+
     /*///////////////////////////////////////////////////////////////
                              STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
@@ -20,6 +68,7 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
     /// Access control roles for the contract.
     bytes32 public constant HOST_ROLE = keccak256("HOST_ROLE");
     bytes32 public constant FAN_ROLE = keccak256("FAN_ROLE");
+    bytes32 public constant AUCTIONEER_ROLE = keccak256("AUCTIONEER_ROLE");
 
     /// Instance of the Alpha Market Base contract.
     AlphaMarketBase private immutable i_alphaMarketBase;
@@ -27,6 +76,9 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
     /// Instance of a Bonding Curve contract used to determine the price of tokens.
     MembershipPricingEngine private immutable i_nftCurve;
 
+    /// The address of the CommunityGovernor contract allowed to disburse the community reserve.
+    address private immutable i_communityGovernor;
+
     /// The reserve balance belonging to the group host.
     uint256 private hostReserveBalance;
 
@@ -48,6 +100,24 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
     /// The next token ID to be minted.
     uint256 private nextTokenId;
 
+    /// The tiers of memberships, indexed by tier.
+    Tier[] private tiers;
+
+    /// The tier and expiry of each membership.
+    mapping(uint256 tokenId => Membership membership) private memberships;
+
+    /// The memberships of each tier held by each account.
+    mapping(address account => mapping(uint256 tier => uint256[] tokenIds)) private tierTokens;
+
+    /// The index of each membership in the `tierTokens` of its owner.
+    mapping(uint256 tokenId => uint256 index) private tierTokenIndexes;
+
+    /// The number of memberships held by each account at every block it changed in, snapshotting votes.
+    mapping(address account => Checkpoints.Trace208 balances) private balanceCheckpoints;
+
+    /// The number of memberships in existence at every block it changed in.
+    Checkpoints.Trace208 private supplyCheckpoints;
+
     /*///////////////////////////////////////////////////////////////
                                 EVENTS
     ///////////////////////////////////////////////////////////////*/
@@ -60,9 +130,21 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
         address indexed owner, address indexed seller, uint256 amountReceived, uint256 fees, uint256 tokensBurnt
     );
 
+    /// Event to log memberships minted to the winner of an auction.
+    event MembershipAuctioned(address indexed winner, uint256 amountReceived, uint256 tokenId);
+
     /// Event to log membership transfers.
     event MembershipTransferred(address indexed from, address indexed to, uint256 tokenId);
 
+    /// Event to log community reserve disbursements passed by the members.
+    event CommunityReserveDisbursed(address indexed recipient, uint256 amount);
+
+    /// Event to log the host adding or updating a tier.
+    event TierUpdated(uint256 indexed tier);
+
+    /// Event to log membership renewals.
+    event MembershipRenewed(uint256 indexed tokenId, address indexed payer, uint256 amountPaid, uint256 expiresAt);
+
     /// Events to log reserve balance updates.
     event hostReserveBalanceUpdated(uint256 newBalance);
     event membershipReserveBalanceUpdated(uint256 newBalance);
@@ -73,12 +155,26 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
     ///////////////////////////////////////////////////////////////*/
 
     modifier isApprovedOrOwner(address owner, address spender, uint256 tokenId) {
-        if (!_isAuthorized(owner, spender, tokenId)) {
+        if (_ownerOf(tokenId) != owner || !_isAuthorized(owner, spender, tokenId)) {
             revert GroupNFTMembership__UnauthorizedSeller();
         }
         _;
     }
 
+    modifier onlyCommunityGovernor() {
+        if (msg.sender != i_communityGovernor) {
+            revert GroupNFTMembership__OnlyCommunityGovernor();
+        }
+        _;
+    }
+
+    modifier onlyGuardian() {
+        if (msg.sender != i_alphaMarketBase.getGuardian()) {
+            revert GroupNFTMembership__OnlyGuardian();
+        }
+        _;
+    }
+
     /*///////////////////////////////////////////////////////////////
                               CONSTRUCTOR
     ///////////////////////////////////////////////////////////////*/
@@ -87,94 +183,170 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
     /// @param _symbol The symbol of the ERC721 token.
     /// @param _alphaMarketBase The address of the AlphaMarketBase contract.
     /// @param _bcAddress The address of the MembershipPricingEngine contract.
+    /// @param _host The address of the group host.
+    /// @param _communityGovernor The address of the CommunityGovernor contract.
     /// @param _reserveSplitThreshold The threshold at which the reserve is split between the membership and community pools.
     /// @param _reserveSplitPercent The percentage of the reserve to split between the membership and community pools. (basis points)
-    /// @dev The contract is initialized with an initial supply of 1 token minted to the host.
-    /// @dev The required amount of Ether is to establish the initial reserve in the bonding curve.
+    /// @dev The contract is paused until the genesis membership is minted to the host by `mintGenesisMembership`.
     constructor(
         string memory _name,
         string memory _symbol,
         address _alphaMarketBase,
         address _bcAddress,
         address _host,
+        address _communityGovernor,
         uint256 _reserveSplitThreshold,
         uint256 _reserveSplitPercent
     ) ERC721(_name, _symbol) {
-        if (_alphaMarketBase == address(0) || _bcAddress == address(0) || _host == address(0)) {
+        if (
+            _alphaMarketBase == address(0) || _bcAddress == address(0) || _host == address(0)
+                || _communityGovernor == address(0)
+        ) {
             revert GroupNFTMembership__AddressCannotBeZero();
         }
         i_nftCurve = MembershipPricingEngine(_bcAddress);
         i_alphaMarketBase = AlphaMarketBase(_alphaMarketBase);
+        i_communityGovernor = _communityGovernor;
         _grantRole(HOST_ROLE, _host);
+        // The host decides which auction contracts may mint memberships.
+        _setRoleAdmin(AUCTIONEER_ROLE, HOST_ROLE);
         reserveSplitThreshold = _reserveSplitThreshold;
         reserveSplitPercent = _reserveSplitPercent;
+        tiers.push().settings.name = "Member";
+        _pause();
     }
 
     /*///////////////////////////////////////////////////////////////
                           EXTERNAL FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
-    /// Allows a user to mint tokens by sending Ether to the contract.
-    function purchaseMembership() external payable {
-        uint256 tokenId = nextTokenId;
-        uint256 costToMint = i_nftCurve.getMembershipCost(currentSupply);
-
-        if (msg.value < costToMint) {
-            revert GroupNFTMembership__InsufficientFundingForTransaction();
+    /// Mints the first membership of the base tier to the host, without protocol fees, and opens the group.
+    /// @dev Called by the MembershipDeployer right after deployment, keeping the mint out of the creation code. Anyone
+    /// may pay for it, but the Ether sent must equal the cost of the first membership, which establishes the membership
+    /// reserve. Groups that have not selected a pricing store the default pricing as their own.
+    /// @param host The address of the group host.
+    function mintGenesisMembership(address host) external payable {
+        _checkRole(HOST_ROLE, host);
+        if (nextTokenId != 0) {
+            revert GroupNFTMembership__GenesisAlreadyMinted();
+        }
+        i_nftCurve.storeDefaultPricing(address(this));
+        if (msg.value != i_nftCurve.getBuyQuote(address(this), 0, 1)) {
+            revert GroupNFTMembership__IncorrectAmountOfEtherSent();
         }
+        _mintMembership(host, 0, msg.value);
+        _unpause();
+    }
 
-        uint256 fees = Utils.calculateBasisPointsPercentage(costToMint, i_alphaMarketBase.getProtocolFeePercent());
+    /// Allows a user to purchase the next membership of the base tier by sending Ether to the contract.
+    /// @dev Ether sent above the cost of the membership is refunded.
+    function purchaseMembership() external payable whenNotPaused {
+        _purchaseMemberships(0, 1, type(uint256).max);
+    }
 
-        membershipReserveBalance += msg.value - fees;
-        currentSupply++;
-        nextTokenId++;
+    /// Allows a user to purchase several memberships of the base tier by sending Ether to the contract, bounding their
+    /// cost.
+    /// @dev Ether sent above the cost of the memberships is refunded.
+    /// @param amount The number of memberships to purchase.
+    /// @param maxCost The maximum cost of the memberships, including fees.
+    function purchaseMemberships(uint256 amount, uint256 maxCost) external payable whenNotPaused {
+        _purchaseMemberships(0, amount, maxCost);
+    }
 
-        if (membershipReserveBalance >= reserveSplitThreshold) {
-            uint256 splitAmount = Utils.calculateBasisPointsPercentage(membershipReserveBalance, reserveSplitPercent);
-            fundCommunityReserve(splitAmount);
+    /// Allows a user to purchase several memberships of a tier by sending Ether to the contract, bounding their cost.
+    /// @dev Ether sent above the cost of the memberships is refunded.
+    /// @param tier The tier of the memberships.
+    /// @param amount The number of memberships to purchase.
+    /// @param maxCost The maximum cost of the memberships, including fees.
+    function purchaseTierMemberships(uint256 tier, uint256 amount, uint256 maxCost) external payable whenNotPaused {
+        _purchaseMemberships(tier, amount, maxCost);
+    }
+
+    /// Allows anyone to renew a membership that expires, extending it by the duration of its tier from its expiry, or
+    /// from now if it has expired.
+    /// @dev The Ether sent must equal the renewal price of the tier. It is credited to the host reserve, net of the
+    /// protocol fees minus the fee share.
+    /// @param tokenId The ID of the membership.
+    function renewMembership(uint256 tokenId) external payable whenNotPaused {
+        _requireOwned(tokenId);
+        Membership storage membership = memberships[tokenId];
+        TierSettings storage settings = tiers[membership.tier].settings;
+        if (membership.expiresAt == 0 || settings.duration == 0) {
+            revert GroupNFTMembership__MembershipDoesNotExpire();
+        }
+        if (msg.value != settings.renewalPrice) {
+            revert GroupNFTMembership__IncorrectAmountOfEtherSent();
         }
 
-        uint256 feeSharePercent = i_alphaMarketBase.getFeeSharePercent();
-        uint256 feeShare = Utils.calculateBasisPointsPercentage(fees, feeSharePercent);
-        fees = fees - feeShare;
-        hostReserveBalance += feeShare;
+        (, uint256 protocolFees) = _chargeFees(msg.value);
+        hostReserveBalance += msg.value - protocolFees;
+        membership.expiresAt = uint64(Math.max(membership.expiresAt, block.timestamp)) + settings.duration;
 
-        emit MembershipPurchased(msg.sender, msg.value, fees, tokenId);
+        emit MembershipRenewed(tokenId, msg.sender, msg.value, membership.expiresAt);
+    }
 
-        address protocolFeeDestination = i_alphaMarketBase.getProtocolFeeDestination();
-        (bool success,) = protocolFeeDestination.call{value: msg.value - fees}("");
-        if (!success) {
-            revert GroupNFTMembership__ProtocolFeeTransferFailed();
+    /// Allows an auction contract approved by the host to mint a membership of the base tier to the winner of an
+    /// auction.
+    /// @dev The Ether sent is the winning bid. The protocol fees are taken from it under the group's fee schedule,
+    /// minus the fee share kept for the host, and the remainder backs the new membership in the reserve.
+    /// @param winner The address of the auction winner.
+    /// @return tokenId The ID of the minted membership.
+    /// @return protocolFees The protocol fees paid on the winning bid.
+    function mintAuctionedMembership(address winner)
+        external
+        payable
+        onlyRole(AUCTIONEER_ROLE)
+        whenNotPaused
+        returns (uint256 tokenId, uint256 protocolFees)
+    {
+        if (winner == address(0)) {
+            revert GroupNFTMembership__AddressCannotBeZero();
         }
+        // Reverts once the base tier has reached its maximum supply.
+        i_nftCurve.getTierBuyQuote(address(this), 0, tiers[0].supply, 1);
+        tokenId = nextTokenId;
+        uint256 fees;
+        (fees, protocolFees) = _chargeFees(msg.value);
+        hostReserveBalance += fees - protocolFees;
 
-        _grantRole(FAN_ROLE, msg.sender);
-        _mint(msg.sender, tokenId);
+        emit MembershipAuctioned(winner, msg.value, tokenId);
+
+        _mintMembership(winner, 0, msg.value - fees);
     }
 
     /// Allows a user to transfer a token to another address.
     /// @param to The address to transfer the token to.
     /// @param tokenId The ID of the token to transfer.
     function transferMembership(address to, uint256 tokenId) external isApprovedOrOwner(msg.sender, to, tokenId) {
-        _revokeRole(FAN_ROLE, msg.sender);
-        _grantRole(FAN_ROLE, to);
         _transfer(msg.sender, to, tokenId);
 
         emit MembershipTransferred(msg.sender, to, tokenId);
     }
 
     /// Allows a user to burn tokens and receive ether from the contract.
-    /// @dev need to transfer role if token is transfered to another address
-    /// @param owner The address of the owner.
-    function sellMembership(address owner, uint256 tokenId) external isApprovedOrOwner(owner, msg.sender, tokenId) {
-        uint256 saleReturn = i_nftCurve.getMembershipValue(membershipReserveBalance, currentSupply);
-
-        uint256 fees = Utils.calculateBasisPointsPercentage(saleReturn, i_alphaMarketBase.getProtocolFeePercent());
+    /// @param owner The address of the owner, who receives the sale value.
+    /// @param tokenId The ID of the membership, owned by `owner` and sold by them or an account they approved.
+    function sellMembership(address owner, uint256 tokenId)
+        external
+        isApprovedOrOwner(owner, msg.sender, tokenId)
+        whenNotPaused
+    {
+        uint256 tier = memberships[tokenId].tier;
+        Tier storage tierInfo = tiers[tier];
+        uint256 saleReturn =
+            i_nftCurve.getTierSellQuote(address(this), tier, tierInfo.supply, tierInfo.reserveBalance, 1);
+
+        (, uint256 protocolFeePercent,) = i_alphaMarketBase.recordVolume(saleReturn);
+        uint256 fees = Utils.calculateBasisPointsPercentage(saleReturn, protocolFeePercent);
         uint256 saleValue = saleReturn - fees;
 
+        tierInfo.reserveBalance -= saleReturn;
+        tierInfo.supply--;
         membershipReserveBalance -= saleReturn;
+        currentSupply--;
 
-        _revokeRole(FAN_ROLE, owner);
         _burn(tokenId);
+        delete memberships[tokenId];
 
         emit MembershipSold(owner, msg.sender, saleValue, fees, tokenId);
 
@@ -204,10 +376,201 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
         emit hostReserveBalanceUpdated(hostReserveBalance);
     }
 
+    /// Allows the CommunityGovernor to pay out the community reserve once the members pass a proposal.
+    /// @param recipient The address receiving the Ether.
+    /// @param amount The amount of the community reserve to send.
+    function disburseCommunityReserve(address recipient, uint256 amount) external onlyCommunityGovernor {
+        if (amount > communityReserveBalance) {
+            revert GroupNFTMembership__InsufficientCommunityReserve();
+        }
+        communityReserveBalance -= amount;
+
+        emit CommunityReserveDisbursed(recipient, amount);
+        emit communityReserveBalanceUpdated(communityReserveBalance);
+
+        (bool success,) = recipient.call{value: amount}("");
+        if (!success) {
+            revert GroupNFTMembership__CommunityReserveTransferFailed();
+        }
+    }
+
+    /// Allows the host to select the pricing model of the group's memberships.
+    /// @param params The pricing parameters, or a zero initial cost to use the default pricing.
+    function setPricing(MembershipPricingEngine.PricingParams calldata params) external onlyRole(HOST_ROLE) {
+        i_nftCurve.setGroupPricing(address(this), params);
+    }
+
+    /// Allows the host to add a tier of memberships.
+    /// @param settings The settings of the tier.
+    /// @param params The pricing parameters of the tier, or a zero initial cost to price it like the base tier.
+    /// @return tier The new tier.
+    function addTier(TierSettings calldata settings, MembershipPricingEngine.PricingParams calldata params)
+        external
+        onlyRole(HOST_ROLE)
+        returns (uint256 tier)
+    {
+        tier = tiers.length;
+        tiers.push();
+        _setTierSettings(tier, settings);
+        i_nftCurve.setTierPricing(address(this), tier, params);
+    }
+
+    /// Allows the host to update the settings of a tier.
+    /// @dev A new duration applies to the memberships minted or renewed afterwards.
+    /// @param tier The tier to update.
+    /// @param settings The settings of the tier.
+    function updateTier(uint256 tier, TierSettings calldata settings) external onlyRole(HOST_ROLE) {
+        _checkTier(tier);
+        _setTierSettings(tier, settings);
+    }
+
+    /// Allows the host to select the pricing of a tier other than the base tier, which is priced by `setPricing`.
+    /// @param tier The tier to price.
+    /// @param params The pricing parameters, or a zero initial cost to price it like the base tier.
+    function setTierPricing(uint256 tier, MembershipPricingEngine.PricingParams calldata params)
+        external
+        onlyRole(HOST_ROLE)
+    {
+        _checkTier(tier);
+        i_nftCurve.setTierPricing(address(this), tier, params);
+    }
+
+    /// Allows the guardian to pause purchases and sales.
+    function pause() external onlyGuardian {
+        _pause();
+    }
+
+    /// Allows the guardian to resume purchases and sales.
+    function unpause() external onlyGuardian {
+        _unpause();
+    }
+
     /*///////////////////////////////////////////////////////////////
                           INTERNAL FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
+    /// Mints the next `amount` memberships of a tier to the caller, each priced at the supply of the tier it is minted
+    /// at.
+    /// @dev The protocol fees of each membership are taken from its price, minus the fee share kept for the host.
+    function _purchaseMemberships(uint256 tier, uint256 amount, uint256 maxCost) internal {
+        _checkTier(tier);
+        Tier storage tierInfo = tiers[tier];
+        uint256 cost = i_nftCurve.getTierBuyQuote(address(this), tier, tierInfo.supply, amount);
+        if (cost > maxCost) {
+            revert GroupNFTMembership__MaxCostExceeded();
+        }
+        if (msg.value < cost) {
+            revert GroupNFTMembership__InsufficientFundingForTransaction();
+        }
+
+        (, uint256 protocolFeePercent, uint256 feeSharePercent) = i_alphaMarketBase.recordVolume(cost);
+        uint256 protocolFees;
+        for (uint256 i = 0; i < amount; i++) {
+            uint256 tokenId = nextTokenId;
+            uint256 price = i_nftCurve.getTierPrice(address(this), tier, tierInfo.supply);
+            uint256 fees = Utils.calculateBasisPointsPercentage(price, protocolFeePercent);
+            uint256 feeShare = Utils.calculateBasisPointsPercentage(fees, feeSharePercent);
+
+            hostReserveBalance += feeShare;
+            protocolFees += fees - feeShare;
+
+            emit MembershipPurchased(msg.sender, price, fees - feeShare, tokenId);
+
+            _mintMembership(msg.sender, tier, price - fees);
+        }
+
+        address protocolFeeDestination = i_alphaMarketBase.getProtocolFeeDestination();
+        (bool success1,) = protocolFeeDestination.call{value: protocolFees}("");
+        if (!success1) {
+            revert GroupNFTMembership__ProtocolFeeTransferFailed();
+        }
+
+        if (msg.value > cost) {
+            (bool success2,) = msg.sender.call{value: msg.value - cost}("");
+            if (!success2) {
+                revert GroupNFTMembership__RefundTransferFailed();
+            }
+        }
+    }
+
+    /// Records the volume with the AlphaMarketBase and pays the protocol fees on it, minus the fee share kept for the
+    /// host, under the group's fee schedule.
+    function _chargeFees(uint256 volume) internal returns (uint256 fees, uint256 protocolFees) {
+        (, uint256 protocolFeePercent, uint256 feeSharePercent) = i_alphaMarketBase.recordVolume(volume);
+        fees = Utils.calculateBasisPointsPercentage(volume, protocolFeePercent);
+        protocolFees = fees - Utils.calculateBasisPointsPercentage(fees, feeSharePercent);
+
+        address protocolFeeDestination = i_alphaMarketBase.getProtocolFeeDestination();
+        (bool success,) = protocolFeeDestination.call{value: protocolFees}("");
+        if (!success) {
+            revert GroupNFTMembership__ProtocolFeeTransferFailed();
+        }
+    }
+
+    /// Mints the next membership of a tier, backed by `reserveAmount` in the membership reserve of the tier.
+    function _mintMembership(address to, uint256 tier, uint256 reserveAmount) internal {
+        uint256 tokenId = nextTokenId;
+        Tier storage tierInfo = tiers[tier];
+        uint64 duration = tierInfo.settings.duration;
+
+        currentSupply++;
+        nextTokenId++;
+        tierInfo.supply++;
+        addToMembershipReserve(tierInfo, reserveAmount);
+        memberships[tokenId] = Membership(uint64(tier), duration == 0 ? 0 : uint64(block.timestamp) + duration);
+        _mint(to, tokenId);
+    }
+
+    /// Adds to the membership reserve of a tier, splitting part of it into the community reserve past the threshold.
+    function addToMembershipReserve(Tier storage tierInfo, uint256 amount) internal {
+        tierInfo.reserveBalance += amount;
+        membershipReserveBalance += amount;
+
+        if (tierInfo.reserveBalance >= reserveSplitThreshold) {
+            uint256 splitAmount = Utils.calculateBasisPointsPercentage(tierInfo.reserveBalance, reserveSplitPercent);
+            tierInfo.reserveBalance -= splitAmount;
+            fundCommunityReserve(splitAmount);
+        }
+    }
+
+    /// Stores the settings of a tier, whose name and benefits are embedded in the token URIs.
+    function _setTierSettings(uint256 tier, TierSettings calldata settings) internal {
+        if (bytes(settings.name).length == 0) {
+            revert GroupNFTMembership__InvalidMetadata();
+        }
+        _checkMetadata(settings.name);
+        _checkMetadata(settings.benefits);
+        tiers[tier].settings = settings;
+
+        emit TierUpdated(tier);
+    }
+
+    /// Reverts unless the tier exists.
+    function _checkTier(uint256 tier) internal view {
+        if (tier >= tiers.length) {
+            revert GroupNFTMembership__TierDoesNotExist();
+        }
+    }
+
+    /// Reverts if the text contains quotes, backslashes or control characters, which would break the JSON metadata.
+    function _checkMetadata(string memory text) internal pure {
+        bytes memory characters = bytes(text);
+        for (uint256 i = 0; i < characters.length; i++) {
+            if (characters[i] < 0x20 || characters[i] == '"' || characters[i] == "\\") {
+                revert GroupNFTMembership__InvalidMetadata();
+            }
+        }
+    }
+
+    /// Reverts unless the block is in the past, as balances of the current block can still change.
+    function _checkPastBlock(uint256 blockNumber) internal view returns (uint48) {
+        if (blockNumber >= block.number) {
+            revert GroupNFTMembership__FutureLookup();
+        }
+
+        return uint48(blockNumber);
+    }
+
     function fundCommunityReserve(uint256 amount) internal {
         membershipReserveBalance -= amount;
         communityReserveBalance += amount;
@@ -219,6 +582,11 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
                           GETTER FUNCTIONS
     ///////////////////////////////////////////////////////////////*/
 
+    /// @return Returns the address of the AlphaMarketBase contract.
+    function getAlphaMarketBaseAddress() external view returns (address) {
+        return address(i_alphaMarketBase);
+    }
+
     /// @return Returns the address of the ExponentialBondingCurve proxy contract.
     function getNFTCurveProxyAddress() external view returns (address) {
         return address(i_nftCurve);
@@ -229,6 +597,21 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
         return membershipReserveBalance;
     }
 
+    /// @return Returns the address of the CommunityGovernor contract.
+    function getCommunityGovernorAddress() external view returns (address) {
+        return i_communityGovernor;
+    }
+
+    /// @return Returns the reserve balance belonging to the group host.
+    function getHostReserveBalance() external view returns (uint256) {
+        return hostReserveBalance;
+    }
+
+    /// @return Returns the reserve balance belonging to the community pool.
+    function getCommunityReserveBalance() external view returns (uint256) {
+        return communityReserveBalance;
+    }
+
     /// @return Returns the current supply of tokens.
     function getCurrentSupply() external view returns (uint256) {
         return currentSupply;
@@ -239,10 +622,162 @@ contract GroupMembershipNFT is ERC721, ERC721Burnable, AccessControl {
         return nextTokenId;
     }
 
+    /// @param tier The tier.
+    /// @return Returns the settings, supply and membership reserve of the tier.
+    function getTier(uint256 tier) external view returns (Tier memory) {
+        _checkTier(tier);
+        return tiers[tier];
+    }
+
+    /// @return Returns the number of tiers, including the base tier.
+    function getTierCount() external view returns (uint256) {
+        return tiers.length;
+    }
+
+    /// @param tokenId The ID of the membership.
+    /// @return Returns the tier and expiry of the membership.
+    function getMembership(uint256 tokenId) external view returns (Membership memory) {
+        _requireOwned(tokenId);
+        return memberships[tokenId];
+    }
+
+    /// @param account The address of the account.
+    /// @param tier The tier.
+    /// @return Returns whether the account holds a membership of the tier that has not expired.
+    function isActiveMember(address account, uint256 tier) public view returns (bool) {
+        uint256[] storage tokenIds = tierTokens[account][tier];
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            if (_isActive(memberships[tokenIds[i]])) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /// @param account The address of the account.
+    /// @return balance Returns the number of memberships the account holds that have not expired.
+    function getActiveBalance(address account) external view returns (uint256 balance) {
+        for (uint256 tier = 0; tier < tiers.length; tier++) {
+            uint256[] storage tokenIds = tierTokens[account][tier];
+            for (uint256 i = 0; i < tokenIds.length; i++) {
+                if (_isActive(memberships[tokenIds[i]])) {
+                    balance++;
+                }
+            }
+        }
+    }
+
+    /// @dev Loops over every membership minted, so it is meant to be called once per proposal rather than per vote.
+    /// @return supply Returns the number of memberships in existence that have not expired.
+    function getActiveSupply() external view returns (uint256 supply) {
+        for (uint256 tokenId = 0; tokenId < nextTokenId; tokenId++) {
+            if (_ownerOf(tokenId) != address(0) && _isActive(memberships[tokenId])) {
+                supply++;
+            }
+        }
+    }
+
+    /// @param account The address of the account.
+    /// @param blockNumber A past block number.
+    /// @return Returns the number of memberships the account held at the end of the block.
+    function getPastBalance(address account, uint256 blockNumber) external view returns (uint256) {
+        return balanceCheckpoints[account].upperLookupRecent(_checkPastBlock(blockNumber));
+    }
+
+    /// @param blockNumber A past block number.
+    /// @return Returns the number of memberships in existence at the end of the block.
+    function getPastTotalSupply(uint256 blockNumber) external view returns (uint256) {
+        return supplyCheckpoints.upperLookupRecent(_checkPastBlock(blockNumber));
+    }
+
+    /// @return Returns whether the membership never expires or has not expired yet.
+    function _isActive(Membership memory membership) internal view returns (bool) {
+        return membership.expiresAt == 0 || membership.expiresAt > block.timestamp;
+    }
+
     /*///////////////////////////////////////////////////////////////
                              OVERRIDES
     ///////////////////////////////////////////////////////////////*/
 
+    /// @return Returns the metadata of the membership as a JSON data URI, with its tier, benefits and expiry.
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Membership memory membership = memberships[tokenId];
+        TierSettings storage settings = tiers[membership.tier].settings;
+
+        bytes memory expiry;
+        if (membership.expiresAt != 0) {
+            expiry = abi.encodePacked(
+                ',{"display_type":"date","trait_type":"Expires","value":',
+                Strings.toString(membership.expiresAt),
+                "}"
+            );
+        }
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            settings.name,
+            " #",
+            Strings.toString(tokenId),
+            '","description":"',
+            settings.benefits,
+            '","attributes":[{"trait_type":"Tier","value":"',
+            settings.name,
+            '"},{"trait_type":"Status","value":"',
+            _isActive(membership) ? "Active" : "Expired",
+            '"}',
+            expiry,
+            "]}"
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    /// @dev Records the balances and supply after every mint, burn and transfer, so votes can be snapshotted, and the
+    /// memberships of each tier held by each account.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+
+        uint256 tier = memberships[tokenId].tier;
+        if (from != address(0)) {
+            uint256[] storage fromTokens = tierTokens[from][tier];
+            uint256 lastTokenId = fromTokens[fromTokens.length - 1];
+            tierTokenIndexes[lastTokenId] = tierTokenIndexes[tokenId];
+            fromTokens[tierTokenIndexes[tokenId]] = lastTokenId;
+            fromTokens.pop();
+        }
+        if (to != address(0)) {
+            tierTokenIndexes[tokenId] = tierTokens[to][tier].length;
+            tierTokens[to][tier].push(tokenId);
+        }
+
+        uint48 blockNumber = Time.blockNumber();
+        if (from == address(0)) {
+            supplyCheckpoints.push(blockNumber, supplyCheckpoints.latest() + 1);
+        } else {
+            balanceCheckpoints[from].push(blockNumber, uint208(balanceOf(from)));
+        }
+        if (to == address(0)) {
+            supplyCheckpoints.push(blockNumber, supplyCheckpoints.latest() - 1);
+        } else {
+            balanceCheckpoints[to].push(blockNumber, uint208(balanceOf(to)));
+        }
+    }
+
+    /// @dev The fan role is not granted but held by every account with a membership that has not expired, of any tier.
+    function hasRole(bytes32 role, address account) public view override returns (bool) {
+        if (role != FAN_ROLE) {
+            return super.hasRole(role, account);
+        }
+        for (uint256 tier = 0; tier < tiers.length; tier++) {
+            if (isActiveMember(account, tier)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
     function supportsInterface(bytes4 interfaceId) public view override(ERC721, AccessControl) returns (bool) {
         return super.supportsInterface(interfaceId);
     }
@@ -0,0 +1,401 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {GroupMembershipNFT} from "./GroupMembershipNFT.sol";
+import {Utils} from "../Utils.sol";
+import "./Errors.sol";
+
+/// @title MembershipAuctions
+/// @author Dustin Stacy
+/// @notice This contract runs time-bounded auctions for limited or premium group memberships.
+/// Hosts create English auctions, where the highest bid at the end wins, or Dutch auctions, where the price falls
+/// linearly until someone buys. Bids are escrowed here, outbid bidders pull their refunds, and the winning bid is sent
+/// to the group, which pays the protocol fee under its fee schedule and backs the winner's membership with the rest.
+/// If the group refuses the mint when an English auction is settled, the winning bid is refunded to the winner.
+/// @dev Hosts must grant this contract the `AUCTIONEER_ROLE` on their GroupMembershipNFT before creating auctions.
+contract MembershipAuctions {
+    using Utils for uint256;
+
+    /*///////////////////////////////////////////////////////////////
+                             TYPES
+    ///////////////////////////////////////////////////////////////*/
+
+    enum AuctionKind {
+        English,
+        Dutch
+    }
+
+    /// @param membership The address of the GroupMembershipNFT the auction mints.
+    /// @param host The address of the host that created the auction.
+    /// @param kind The kind of auction.
+    /// @param settled Whether the auction has been settled or cancelled.
+    /// @param startTime The timestamp bidding opens.
+    /// @param endTime The timestamp bidding closes.
+    /// @param startPrice The reserve price of an English auction or the starting price of a Dutch auction.
+    /// @param endPrice The floor price of a Dutch auction.
+    /// @param minBidIncrement The minimum raise over the highest bid of an English auction. (basis points)
+    /// @param highestBidder The address of the highest bidder, or the buyer of a Dutch auction.
+    /// @param highestBid The highest bid, or the price paid in a Dutch auction.
+    struct Auction {
+        address membership;
+        address host;
+        AuctionKind kind;
+        bool settled;
+        uint64 startTime;
+        uint64 endTime;
+        uint256 startPrice;
+        uint256 endPrice;
+        uint256 minBidIncrement;
+        address highestBidder;
+        uint256 highestBid;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                             STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The auctions created by hosts, indexed by auction ID.
+    Auction[] private auctions;
+
+    /*///////////////////////////////////////////////////////////////
+                                MAPPINGS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// A mapping of the escrowed Ether each outbid or overpaying bidder can withdraw.
+    mapping(address bidder => uint256 amount) private pendingReturns;
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Event to log the creation of an auction.
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        address indexed membership,
+        address indexed host,
+        AuctionKind kind,
+        uint256 startTime,
+        uint256 endTime,
+        uint256 startPrice,
+        uint256 endPrice
+    );
+
+    /// Event to log a bid on an English auction.
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 amount);
+
+    /// Event to log the settlement of an auction. The winner is the zero address if nobody bid.
+    event AuctionSettled(
+        uint256 indexed auctionId, address indexed winner, uint256 amount, uint256 fees, uint256 tokenId
+    );
+
+    /// Event to log the refund of the winning bid of an auction whose membership could not be minted.
+    event AuctionRefunded(uint256 indexed auctionId, address indexed winner, uint256 amount);
+
+    /// Event to log the cancellation of an auction.
+    event AuctionCancelled(uint256 indexed auctionId);
+
+    /// Event to log a bidder withdrawing their escrowed Ether.
+    event RefundWithdrawn(address indexed bidder, uint256 amount);
+
+    /*///////////////////////////////////////////////////////////////
+                                MODIFIERS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Restricts a function to the host that created the auction.
+    modifier onlyAuctionHost(uint256 auctionId) {
+        if (msg.sender != _getAuction(auctionId).host) {
+            revert MembershipAuctions__OnlyHost();
+        }
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// Allows a group host to create an English auction for a membership.
+    /// @param membership The address of the GroupMembershipNFT to mint to the winner.
+    /// @param reservePrice The minimum first bid.
+    /// @param minBidIncrement The minimum raise over the highest bid, greater than zero. (basis points)
+    /// @param startTime The timestamp bidding opens.
+    /// @param duration The number of seconds bidding stays open.
+    /// @return auctionId The ID of the new auction.
+    function createEnglishAuction(
+        address membership,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint64 startTime,
+        uint64 duration
+    ) external returns (uint256 auctionId) {
+        if (reservePrice == 0 || minBidIncrement == 0) {
+            revert MembershipAuctions__InvalidAuctionParameters();
+        }
+
+        return _createAuction(membership, AuctionKind.English, startTime, duration, reservePrice, 0, minBidIncrement);
+    }
+
+    /// Allows a group host to create a Dutch auction for a membership.
+    /// @param membership The address of the GroupMembershipNFT to mint to the buyer.
+    /// @param startPrice The price when the auction opens.
+    /// @param endPrice The price when the auction closes.
+    /// @param startTime The timestamp the auction opens.
+    /// @param duration The number of seconds over which the price falls from `startPrice` to `endPrice`.
+    /// @return auctionId The ID of the new auction.
+    function createDutchAuction(
+        address membership,
+        uint256 startPrice,
+        uint256 endPrice,
+        uint64 startTime,
+        uint64 duration
+    ) external returns (uint256 auctionId) {
+        if (endPrice == 0 || startPrice < endPrice) {
+            revert MembershipAuctions__InvalidAuctionParameters();
+        }
+
+        return _createAuction(membership, AuctionKind.Dutch, startTime, duration, startPrice, endPrice, 0);
+    }
+
+    /// Allows anyone to bid on an open English auction. The Ether sent is the bid.
+    /// @dev The previous highest bid is credited to its bidder's pending returns.
+    /// @param auctionId The ID of the auction.
+    function bid(uint256 auctionId) external payable {
+        Auction storage auction = _getAuction(auctionId);
+        if (auction.kind != AuctionKind.English) {
+            revert MembershipAuctions__WrongAuctionKind();
+        }
+        _checkOpen(auction);
+        if (msg.value < getMinimumBid(auctionId)) {
+            revert MembershipAuctions__BidTooLow();
+        }
+
+        if (auction.highestBidder != address(0)) {
+            pendingReturns[auction.highestBidder] += auction.highestBid;
+        }
+        auction.highestBidder = msg.sender;
+        auction.highestBid = msg.value;
+
+        emit BidPlaced(auctionId, msg.sender, msg.value);
+    }
+
+    /// Allows anyone to buy the membership of an open Dutch auction at the current price.
+    /// @dev Any Ether sent above the current price is credited to the buyer's pending returns.
+    /// @param auctionId The ID of the auction.
+    function buy(uint256 auctionId) external payable {
+        Auction storage auction = _getAuction(auctionId);
+        if (auction.kind != AuctionKind.Dutch) {
+            revert MembershipAuctions__WrongAuctionKind();
+        }
+        _checkOpen(auction);
+        uint256 price = getCurrentPrice(auctionId);
+        if (msg.value < price) {
+            revert MembershipAuctions__BidTooLow();
+        }
+
+        pendingReturns[msg.sender] += msg.value - price;
+        auction.highestBidder = msg.sender;
+        auction.highestBid = price;
+
+        // The buyer is present, so a refused mint reverts the purchase instead of refunding it.
+        if (!_settle(auctionId, auction)) {
+            revert MembershipAuctions__SettlementFailed();
+        }
+    }
+
+    /// Allows anyone to settle an English auction once bidding has closed, minting the membership to the winner.
+    /// @dev If the group refuses the mint, for example because it is paused, this contract is no longer an auctioneer
+    /// or the base tier is sold out, the winning bid is credited to the winner's pending returns instead.
+    /// @param auctionId The ID of the auction.
+    function settleAuction(uint256 auctionId) external {
+        Auction storage auction = _getAuction(auctionId);
+        if (auction.kind != AuctionKind.English) {
+            revert MembershipAuctions__WrongAuctionKind();
+        }
+        if (auction.settled) {
+            revert MembershipAuctions__AuctionAlreadySettled();
+        }
+        if (block.timestamp < auction.endTime) {
+            revert MembershipAuctions__AuctionNotOver();
+        }
+
+        _settle(auctionId, auction);
+    }
+
+    /// Allows the host to cancel an auction that nobody has bid on or bought from.
+    /// @param auctionId The ID of the auction.
+    function cancelAuction(uint256 auctionId) external onlyAuctionHost(auctionId) {
+        Auction storage auction = _getAuction(auctionId);
+        if (auction.settled) {
+            revert MembershipAuctions__AuctionAlreadySettled();
+        }
+        if (auction.highestBidder != address(0)) {
+            revert MembershipAuctions__AuctionHasBids();
+        }
+        auction.settled = true;
+
+        emit AuctionCancelled(auctionId);
+    }
+
+    /// Allows a bidder to withdraw the Ether escrowed for their outbid bids and overpayments.
+    function withdrawRefund() external {
+        uint256 amount = pendingReturns[msg.sender];
+        if (amount == 0) {
+            revert MembershipAuctions__NoFundsToWithdraw();
+        }
+        pendingReturns[msg.sender] = 0;
+
+        emit RefundWithdrawn(msg.sender, amount);
+
+        (bool success,) = msg.sender.call{value: amount}("");
+        if (!success) {
+            revert MembershipAuctions__RefundTransferFailed();
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    function _createAuction(
+        address membership,
+        AuctionKind kind,
+        uint64 startTime,
+        uint64 duration,
+        uint256 startPrice,
+        uint256 endPrice,
+        uint256 minBidIncrement
+    ) internal returns (uint256 auctionId) {
+        GroupMembershipNFT nft = GroupMembershipNFT(membership);
+        if (!nft.hasRole(nft.HOST_ROLE(), msg.sender)) {
+            revert MembershipAuctions__OnlyHost();
+        }
+        if (!nft.hasRole(nft.AUCTIONEER_ROLE(), address(this))) {
+            revert MembershipAuctions__NotAnAuctioneer();
+        }
+        if (duration == 0 || startTime < block.timestamp) {
+            revert MembershipAuctions__InvalidAuctionParameters();
+        }
+
+        auctionId = auctions.length;
+        auctions.push(
+            Auction({
+                membership: membership,
+                host: msg.sender,
+                kind: kind,
+                settled: false,
+                startTime: startTime,
+                endTime: startTime + duration,
+                startPrice: startPrice,
+                endPrice: endPrice,
+                minBidIncrement: minBidIncrement,
+                highestBidder: address(0),
+                highestBid: 0
+            })
+        );
+
+        emit AuctionCreated(
+            auctionId, membership, msg.sender, kind, startTime, startTime + duration, startPrice, endPrice
+        );
+    }
+
+    /// Returns the stored auction, reverting if it does not exist.
+    function _getAuction(uint256 auctionId) internal view returns (Auction storage) {
+        if (auctionId >= auctions.length) {
+            revert MembershipAuctions__AuctionDoesNotExist();
+        }
+
+        return auctions[auctionId];
+    }
+
+    /// Reverts unless the auction is unsettled and within its bidding window.
+    function _checkOpen(Auction storage auction) internal view {
+        if (auction.settled) {
+            revert MembershipAuctions__AuctionAlreadySettled();
+        }
+        if (block.timestamp < auction.startTime) {
+            revert MembershipAuctions__AuctionNotStarted();
+        }
+        if (block.timestamp >= auction.endTime) {
+            revert MembershipAuctions__AuctionOver();
+        }
+    }
+
+    /// Sends the winning bid to the group to mint the membership to the winner, crediting the bid to the winner's
+    /// pending returns if the group refuses the mint.
+    /// @return minted Whether the membership was minted, or nobody bid.
+    function _settle(uint256 auctionId, Auction storage auction) internal returns (bool minted) {
+        auction.settled = true;
+        address winner = auction.highestBidder;
+        if (winner == address(0)) {
+            emit AuctionSettled(auctionId, address(0), 0, 0, 0);
+            return true;
+        }
+
+        uint256 amount = auction.highestBid;
+        try GroupMembershipNFT(auction.membership).mintAuctionedMembership{value: amount}(winner) returns (
+            uint256 tokenId, uint256 fees
+        ) {
+            emit AuctionSettled(auctionId, winner, amount, fees, tokenId);
+            return true;
+        } catch (bytes memory reason) {
+            // A revert without data may be the settler starving the call of gas, which must not void the auction.
+            if (reason.length == 0) {
+                revert MembershipAuctions__SettlementFailed();
+            }
+            pendingReturns[winner] += amount;
+
+            emit AuctionRefunded(auctionId, winner, amount);
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          GETTER FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @param auctionId The ID of the auction.
+    /// @return The minimum bid an English auction accepts next, always above the highest bid.
+    function getMinimumBid(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = _getAuction(auctionId);
+        if (auction.highestBidder == address(0)) {
+            return auction.startPrice;
+        }
+
+        // Small bids round the raise down to zero, which would let a bid equal to the highest one displace it.
+        uint256 increment = auction.highestBid.calculateBasisPointsPercentage(auction.minBidIncrement);
+
+        return auction.highestBid + (increment == 0 ? 1 : increment);
+    }
+
+    /// @param auctionId The ID of the auction.
+    /// @return The price of a Dutch auction at the current block, falling linearly from the start to the end price.
+    function getCurrentPrice(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = _getAuction(auctionId);
+        if (block.timestamp <= auction.startTime) {
+            return auction.startPrice;
+        }
+        if (block.timestamp >= auction.endTime) {
+            return auction.endPrice;
+        }
+
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 duration = auction.endTime - auction.startTime;
+
+        return auction.startPrice - ((auction.startPrice - auction.endPrice) * elapsed) / duration;
+    }
+
+    /// @param auctionId The ID of the auction.
+    /// @return The auction details.
+    function getAuction(uint256 auctionId) external view returns (Auction memory) {
+        return _getAuction(auctionId);
+    }
+
+    /// @return Returns the number of auctions created.
+    function getAuctionCount() external view returns (uint256) {
+        return auctions.length;
+    }
+
+    /// @param bidder The address of the bidder.
+    /// @return Returns the Ether escrowed for a bidder that they can withdraw.
+    function getPendingReturns(address bidder) external view returns (uint256) {
+        return pendingReturns[bidder];
+    }
+}
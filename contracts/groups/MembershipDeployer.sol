@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {GroupMembershipNFT} from "./GroupMembershipNFT.sol";
+import "./Errors.sol";
+
+/// @title MembershipDeployer
+/// @author Dustin Stacy
+/// @notice This contract deploys the GroupMembershipNFT contracts of new groups for the GroupFactory that created it,
+/// keeping their creation code out of the factory's bytecode.
+contract MembershipDeployer {
+    /*///////////////////////////////////////////////////////////////
+                             STATE VARIABLES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The GroupFactory contract allowed to deploy memberships.
+    address private immutable i_factory;
+
+    /*///////////////////////////////////////////////////////////////
+                                MODIFIERS
+    ///////////////////////////////////////////////////////////////*/
+
+    modifier onlyFactory() {
+        if (msg.sender != i_factory) {
+            revert MembershipDeployer__OnlyFactory();
+        }
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @dev The deployer is created by the GroupFactory contract in its constructor.
+    constructor() {
+        i_factory = msg.sender;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                          EXTERNAL FUNCTIONS
+    ///////////////////////////////////////////////////////////////*/
+
+    /// @notice Deploys a GroupMembershipNFT and mints the host's first membership with the Ether sent.
+    /// @param name The name of the membership NFT.
+    /// @param symbol The symbol of the membership NFT.
+    /// @param alphaMarketBase The address of the AlphaMarketBase proxy contract.
+    /// @param pricingEngine The address of the MembershipPricingEngine proxy contract.
+    /// @param host The address of the host account.
+    /// @param communityGovernor The address of the CommunityGovernor contract.
+    /// @param reserveSplitThreshold The threshold at which the membership reserve is split with the community pool.
+    /// @param reserveSplitPercent The percentage of the membership reserve to split. (basis points)
+    /// @return The new GroupMembershipNFT contract.
+    function deployMembership(
+        string calldata name,
+        string calldata symbol,
+        address alphaMarketBase,
+        address pricingEngine,
+        address host,
+        address communityGovernor,
+        uint256 reserveSplitThreshold,
+        uint256 reserveSplitPercent
+    ) external payable onlyFactory returns (GroupMembershipNFT) {
+        GroupMembershipNFT membership = new GroupMembershipNFT(
+            name,
+            symbol,
+            alphaMarketBase,
+            pricingEngine,
+            host,
+            communityGovernor,
+            reserveSplitThreshold,
+            reserveSplitPercent
+        );
+        membership.mintGenesisMembership{value: msg.value}(host);
+
+        return membership;
+    }
+}
@@ -4,12 +4,47 @@ pragma solidity ^0.8.26;
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
 import {Utils} from "../Utils.sol";
+import {GroupMembershipNFT} from "./GroupMembershipNFT.sol";
 
 /// @title MembershipPricingEngine
 /// @author Dustin Stacy
-/// @notice This contract implements a bonding curve for a Membership NFT.
+/// @notice This contract implements the bonding curves of Membership NFTs. Each group can select its own pricing
+/// model, and groups that have not are priced with the default quadratic curve. The tiers of a group other than its
+/// base tier can be priced separately, and are priced like the group until they are.
+/// @dev The price of the membership minted at a given supply is `initialCost` plus `slope` times a function of the
+/// supply: its square, the supply itself, the floor of log2(supply + 1), or zero for a flat price. Sales return the
+/// share of the membership reserve matching the share of the cumulative cost of the memberships sold, so selling every
+/// membership returns the whole reserve and never more. The pricing of a tier is locked once it has sold memberships
+/// other than the genesis membership of the host, so the reserve of the memberships sold keeps matching their curve.
+/// Groups store the default pricing as their own when they mint their genesis membership, so later changes to the
+/// defaults do not reprice them.
 contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+    /*///////////////////////////////////////////////////////////////
+                            TYPES
+    ///////////////////////////////////////////////////////////////*/
+
+    /// The shapes of the price of the next membership as the supply grows.
+    enum PricingModel {
+        Quadratic,
+        Linear,
+        Logarithmic,
+        FlatWithCap
+    }
+
+    /// @param model The shape of the price curve.
+    /// @param initialCost The price of the first membership (in wei).
+    /// @param slope The price added per step of the curve (in wei), unused by the flat model.
+    /// @param maxSupply The supply past which memberships cannot be bought, or zero for no cap. Required by the flat
+    /// model.
+    struct PricingParams {
+        PricingModel model;
+        uint256 initialCost;
+        uint256 slope;
+        uint256 maxSupply;
+    }
+
     /*///////////////////////////////////////////////////////////////
                             ERRORS
     ///////////////////////////////////////////////////////////////*/
@@ -17,6 +52,24 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
     /// Error to be used when an address is the zero address.
     error MembershipPricingEngine__AddressCannotBeZero();
 
+    /// Error to be used when the pricing of a group is set by an account other than the owner or the group.
+    error MembershipPricingEngine__Unauthorized();
+
+    /// Error to be used when pricing parameters would price memberships at zero or leave a flat price uncapped.
+    error MembershipPricingEngine__InvalidPricingParams();
+
+    /// Error to be used when quoting zero memberships, or selling more memberships than the supply.
+    error MembershipPricingEngine__InvalidAmount();
+
+    /// Error to be used when a purchase would take the supply past the group's cap.
+    error MembershipPricingEngine__MaxSupplyExceeded();
+
+    /// Error to be used when setting the tier pricing of the base tier, which is priced by the group pricing.
+    error MembershipPricingEngine__InvalidTier();
+
+    /// Error to be used when repricing a tier that has sold memberships.
+    error MembershipPricingEngine__PricingLocked();
+
     /*///////////////////////////////////////////////////////////////
                             STATE VARIABLES
     ///////////////////////////////////////////////////////////////*/
@@ -24,9 +77,15 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
     /// The balance of reserve tokens to initialize the bonding curve token with.
     uint256 private initialCost;
 
-    /// The reserve ratio for use in calculations (ppm).
+    /// The slope of the default quadratic pricing, in basis points of a whole unit (1e18 wei).
     uint32 private scalingFactor;
 
+    /// The pricing of each group, unset for groups that have neither selected one nor stored the default pricing.
+    mapping(address group => PricingParams params) private groupPricing;
+
+    /// The pricing selected for the tiers of each group, unset for tiers priced like their group.
+    mapping(address group => mapping(uint256 tier => PricingParams params)) private tierPricing;
+
     /*///////////////////////////////////////////////////////////////
                             EVENTS
     ///////////////////////////////////////////////////////////////*/
@@ -34,8 +93,14 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
     /// Emitted when the initial reserve is updated.
     event InitialCostUpdated(uint256 newReserve);
 
-    /// Emitted when the reserve ratio is updated.
-    event ScalingFactorUpdated(uint32 newRatio);
+    /// Emitted when the scaling factor is updated.
+    event ScalingFactorUpdated(uint32 newScalingFactor);
+
+    /// Emitted when a group selects its pricing, or stores the default pricing as its own.
+    event GroupPricingUpdated(address indexed group, PricingParams params);
+
+    /// Emitted when a group selects the pricing of one of its tiers, or resets it to the group pricing.
+    event TierPricingUpdated(address indexed group, uint256 indexed tier, PricingParams params);
 
     /*///////////////////////////////////////////////////////////////
                         INITIALIZER FUNCTIONS
@@ -50,11 +115,14 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
     /// Initializes the bonding curve with the given parameters.
     /// @param _owner The owner of the contract.
     /// @param _initialCost The balance of reserve tokens to initialize the bonding curve token with.
-    /// @param _scalingFactor The reserve ratio used to define the steepness of the bonding curve in ppm.
+    /// @param _scalingFactor The slope of the default quadratic pricing, in basis points of a whole unit.
     function initialize(address _owner, uint256 _initialCost, uint32 _scalingFactor) public initializer {
         if (_owner == address(0)) {
             revert MembershipPricingEngine__AddressCannotBeZero();
         }
+        if (_initialCost == 0) {
+            revert MembershipPricingEngine__InvalidPricingParams();
+        }
 
         __Ownable_init(_owner);
         __UUPSUpgradeable_init();
@@ -67,47 +135,131 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
                         PUBLIC/EXTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
-    /// Calculates the cost of minting the next membership NFT.
-    /// @param currentSupply The current supply of memberships (in 1e18 format).
+    /// Calculates the cost of minting the next membership NFT with the default pricing.
+    /// @param currentSupply The current supply of memberships.
     /// @return costToMint The cost to mint the next membership (in wei).
     function getMembershipCost(uint256 currentSupply) public view returns (uint256 costToMint) {
-        uint256 precision = Utils.getPrecision();
-        uint256 basisPoints = Utils.getBasisPointsPrecision();
-        if (currentSupply == 0) {
-            costToMint = initialCost;
-        } else {
-            uint256 sum1 = (currentSupply - 1) * (currentSupply) * (2 * (currentSupply - 1) + 1) / 6;
-            uint256 sum2 = (currentSupply) * (currentSupply + 1) * (2 * (currentSupply) + 1) / 6;
-            uint256 summation = sum2 - sum1;
-            costToMint = ((summation * precision * scalingFactor) / basisPoints) + initialCost;
-        }
+        return _getPrice(_getDefaultPricing(), currentSupply);
+    }
+
+    /// Calculates the cost of buying memberships of a group, excluding fees.
+    /// @param group The address of the membership NFT contract.
+    /// @param currentSupply The current supply of memberships.
+    /// @param amount The number of memberships to buy.
+    /// @return cost The cost of the memberships (in wei).
+    function getBuyQuote(address group, uint256 currentSupply, uint256 amount) external view returns (uint256 cost) {
+        return _getBuyQuote(getGroupPricing(group), currentSupply, amount);
+    }
 
-        return (costToMint);
+    /// Calculates the cost of buying memberships of a tier of a group, excluding fees.
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the memberships.
+    /// @param currentSupply The current supply of memberships of the tier.
+    /// @param amount The number of memberships to buy.
+    /// @return cost The cost of the memberships (in wei).
+    function getTierBuyQuote(address group, uint256 tier, uint256 currentSupply, uint256 amount)
+        external
+        view
+        returns (uint256 cost)
+    {
+        return _getBuyQuote(getTierPricing(group, tier), currentSupply, amount);
     }
 
-    function getLogarithimicMembershipCost(uint256 reserveBalance, uint256 currentSupply)
-        public
+    /// Calculates the value returned for selling memberships of a group, excluding fees.
+    /// @dev The value is the share of the reserve matching the share of the cumulative cost of the memberships
+    /// sold, which is their price when the reserve holds exactly the cumulative cost of the supply.
+    /// @param group The address of the membership NFT contract.
+    /// @param currentSupply The current supply of memberships.
+    /// @param reserveBalance The membership reserve backing the supply (in wei).
+    /// @param amount The number of memberships to sell.
+    /// @return value The value of the memberships (in wei).
+    function getSellQuote(address group, uint256 currentSupply, uint256 reserveBalance, uint256 amount)
+        external
         view
-        returns (uint256 costToMint)
+        returns (uint256 value)
     {
-        uint256 basisPoints = Utils.getBasisPointsPrecision();
+        return _getSellQuote(getGroupPricing(group), currentSupply, reserveBalance, amount);
+    }
+
+    /// Calculates the value returned for selling memberships of a tier of a group, excluding fees.
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the memberships.
+    /// @param currentSupply The current supply of memberships of the tier.
+    /// @param reserveBalance The membership reserve backing the supply of the tier (in wei).
+    /// @param amount The number of memberships to sell.
+    /// @return value The value of the memberships (in wei).
+    function getTierSellQuote(
+        address group,
+        uint256 tier,
+        uint256 currentSupply,
+        uint256 reserveBalance,
+        uint256 amount
+    ) external view returns (uint256 value) {
+        return _getSellQuote(getTierPricing(group, tier), currentSupply, reserveBalance, amount);
+    }
+
+    /// Calculates the average reserve backing each membership.
+    /// @param reserveBalance The membership reserve backing the supply (in wei).
+    /// @param currentSupply The current supply of memberships.
+    /// @return value The reserve per membership (in wei), zero when there are no memberships.
+    function getMembershipValue(uint256 reserveBalance, uint256 currentSupply) public pure returns (uint256 value) {
         if (currentSupply == 0) {
-            costToMint = initialCost;
+            return 0;
+        }
+
+        return reserveBalance / currentSupply;
+    }
+
+    /// Selects the pricing of a group, or resets it to the current default pricing when `params.initialCost` is zero.
+    /// @dev Callable by the owner, or by the group itself on behalf of its host, until the group has sold memberships
+    /// priced by the group pricing.
+    /// @param group The address of the membership NFT contract.
+    /// @param params The pricing parameters of the group.
+    function setGroupPricing(address group, PricingParams calldata params) external {
+        _checkPricingUpdate(group, params);
+        _checkPricingUnlocked(group);
+        if (params.initialCost == 0) {
+            _storeDefaultPricing(group);
         } else {
-            uint256 value = getMembershipValue(reserveBalance, currentSupply);
+            groupPricing[group] = params;
 
-            costToMint = value * scalingFactor / basisPoints;
+            emit GroupPricingUpdated(group, params);
         }
+    }
 
-        return (costToMint);
+    /// Stores the current default pricing as the pricing of a group that has not selected one, so later changes to the
+    /// defaults do not reprice the memberships it has sold.
+    /// @dev Called by groups when they mint their genesis membership. The owner can call it for groups deployed
+    /// before groups stored the default pricing.
+    /// @param group The address of the membership NFT contract.
+    function storeDefaultPricing(address group) external {
+        if (msg.sender != owner() && msg.sender != group) {
+            revert MembershipPricingEngine__Unauthorized();
+        }
+        if (groupPricing[group].initialCost == 0) {
+            _storeDefaultPricing(group);
+        }
     }
 
-    /// Calculates the current value of a membership NFT.
-    /// @param currentSupply The current supply of memberships (in 1e18 format).
-    /// @return value The current value of the membership NFT (in wei).
-    function getMembershipValue(uint256 reserveBalance, uint256 currentSupply) public pure returns (uint256 value) {
-        value = reserveBalance / currentSupply;
-        return value;
+    /// Selects the pricing of a tier of a group, or resets it to the group pricing when `params.initialCost` is zero.
+    /// @dev Callable by the owner, or by the group itself on behalf of its host, until the tier has sold memberships.
+    /// The base tier is priced by `setGroupPricing`.
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the group, other than the base tier.
+    /// @param params The pricing parameters of the tier.
+    function setTierPricing(address group, uint256 tier, PricingParams calldata params) external {
+        _checkPricingUpdate(group, params);
+        if (tier == 0) {
+            revert MembershipPricingEngine__InvalidTier();
+        }
+        _checkTierPricingUnlocked(group, tier);
+        if (params.initialCost == 0) {
+            delete tierPricing[group][tier];
+        } else {
+            tierPricing[group][tier] = params;
+        }
+
+        emit TierPricingUpdated(group, tier, params);
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -116,12 +268,15 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
 
     /// @param _initialCost The balance of reserve tokens to initialize the bonding curve token with.
     function setInitialCost(uint256 _initialCost) external onlyOwner {
+        if (_initialCost == 0) {
+            revert MembershipPricingEngine__InvalidPricingParams();
+        }
         initialCost = _initialCost;
 
         emit InitialCostUpdated(_initialCost);
     }
 
-    /// @param _scalingFactor The reserve ratio used to define the steepness of the bonding curve in ppm.
+    /// @param _scalingFactor The slope of the default quadratic pricing, in basis points of a whole unit.
     function setScalingFactor(uint32 _scalingFactor) external onlyOwner {
         scalingFactor = _scalingFactor;
 
@@ -137,15 +292,207 @@ contract MembershipPricingEngine is Initializable, OwnableUpgradeable, UUPSUpgra
         return initialCost;
     }
 
-    /// @return The reserve ratio used to define the steepness of the bonding curve.
+    /// @return The slope of the default quadratic pricing, in basis points of a whole unit.
     function getScalingFactor() external view returns (uint32) {
         return scalingFactor;
     }
 
+    /// @param group The address of the membership NFT contract.
+    /// @return params The pricing of the group, the current default pricing if it has not stored one.
+    function getGroupPricing(address group) public view returns (PricingParams memory params) {
+        params = groupPricing[group];
+        if (params.initialCost == 0) {
+            params = _getDefaultPricing();
+        }
+    }
+
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the group.
+    /// @return params The pricing of the tier, the group pricing for the base tier and tiers without one.
+    function getTierPricing(address group, uint256 tier) public view returns (PricingParams memory params) {
+        params = tierPricing[group][tier];
+        if (tier == 0 || params.initialCost == 0) {
+            params = getGroupPricing(group);
+        }
+    }
+
+    /// @param group The address of the membership NFT contract.
+    /// @param currentSupply The current supply of memberships.
+    /// @return The price of the membership minted at `currentSupply` (in wei).
+    function getPrice(address group, uint256 currentSupply) external view returns (uint256) {
+        return _getPrice(getGroupPricing(group), currentSupply);
+    }
+
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the group.
+    /// @param currentSupply The current supply of memberships of the tier.
+    /// @return The price of the membership of the tier minted at `currentSupply` (in wei).
+    function getTierPrice(address group, uint256 tier, uint256 currentSupply) external view returns (uint256) {
+        return _getPrice(getTierPricing(group, tier), currentSupply);
+    }
+
+    /// @param group The address of the membership NFT contract.
+    /// @param supply The number of memberships.
+    /// @return The cost of minting the first `supply` memberships (in wei).
+    function getCumulativeCost(address group, uint256 supply) external view returns (uint256) {
+        return _getCumulativeCost(getGroupPricing(group), supply);
+    }
+
     /*//////////////////////////////////////////////////////////////
                             INTERNAL FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /// @return The quadratic pricing of groups that have not selected one, with a slope of `scalingFactor` basis
+    /// points of a whole unit.
+    function _getDefaultPricing() internal view returns (PricingParams memory) {
+        uint256 slope = scalingFactor * Utils.getPrecision() / Utils.getBasisPointsPrecision();
+
+        return PricingParams(PricingModel.Quadratic, initialCost, slope, 0);
+    }
+
+    /// @param group The address of the membership NFT contract.
+    function _storeDefaultPricing(address group) internal {
+        PricingParams memory params = _getDefaultPricing();
+        groupPricing[group] = params;
+
+        emit GroupPricingUpdated(group, params);
+    }
+
+    /// @param params The pricing parameters.
+    /// @param currentSupply The current supply of memberships.
+    /// @param amount The number of memberships to buy.
+    /// @return The cost of the memberships (in wei).
+    function _getBuyQuote(PricingParams memory params, uint256 currentSupply, uint256 amount)
+        internal
+        pure
+        returns (uint256)
+    {
+        if (amount == 0) {
+            revert MembershipPricingEngine__InvalidAmount();
+        }
+        if (params.maxSupply != 0 && currentSupply + amount > params.maxSupply) {
+            revert MembershipPricingEngine__MaxSupplyExceeded();
+        }
+
+        return _getCumulativeCost(params, currentSupply + amount) - _getCumulativeCost(params, currentSupply);
+    }
+
+    /// @param params The pricing parameters.
+    /// @param currentSupply The current supply of memberships.
+    /// @param reserveBalance The membership reserve backing the supply (in wei).
+    /// @param amount The number of memberships to sell.
+    /// @return The value of the memberships (in wei).
+    function _getSellQuote(PricingParams memory params, uint256 currentSupply, uint256 reserveBalance, uint256 amount)
+        internal
+        pure
+        returns (uint256)
+    {
+        if (amount == 0 || amount > currentSupply) {
+            revert MembershipPricingEngine__InvalidAmount();
+        }
+        uint256 totalCost = _getCumulativeCost(params, currentSupply);
+        uint256 soldCost = totalCost - _getCumulativeCost(params, currentSupply - amount);
+
+        return Math.mulDiv(reserveBalance, soldCost, totalCost);
+    }
+
+    /// @param params The pricing parameters.
+    /// @param supply The supply before the mint.
+    /// @return The price of the membership minted at `supply` (in wei).
+    function _getPrice(PricingParams memory params, uint256 supply) internal pure returns (uint256) {
+        if (params.model == PricingModel.Quadratic) {
+            return params.initialCost + params.slope * supply * supply;
+        }
+        if (params.model == PricingModel.Linear) {
+            return params.initialCost + params.slope * supply;
+        }
+        if (params.model == PricingModel.Logarithmic) {
+            return params.initialCost + params.slope * Math.log2(supply + 1);
+        }
+
+        return params.initialCost;
+    }
+
+    /// @dev Closed forms of the sum of `_getPrice` over the supplies from zero to `supply - 1`.
+    /// @param params The pricing parameters.
+    /// @param supply The number of memberships.
+    /// @return The cost of minting the first `supply` memberships (in wei).
+    function _getCumulativeCost(PricingParams memory params, uint256 supply) internal pure returns (uint256) {
+        if (supply == 0) {
+            return 0;
+        }
+        uint256 base = params.initialCost * supply;
+        if (params.model == PricingModel.Quadratic) {
+            // 0^2 + 1^2 + ... + (n - 1)^2
+            return base + params.slope * ((supply - 1) * supply * (2 * supply - 1) / 6);
+        }
+        if (params.model == PricingModel.Linear) {
+            // 0 + 1 + ... + (n - 1)
+            return base + params.slope * (supply * (supply - 1) / 2);
+        }
+        if (params.model == PricingModel.Logarithmic) {
+            // floor(log2(1)) + ... + floor(log2(n)) = (n + 1) * floor(log2(n)) - 2^(floor(log2(n)) + 1) + 2
+            uint256 log = Math.log2(supply);
+            return base + params.slope * ((supply + 1) * log + 2 - (2 << log));
+        }
+
+        return base;
+    }
+
+    /// Reverts unless the caller may update the pricing of the group and the parameters are valid or reset it.
+    /// @param group The address of the membership NFT contract.
+    /// @param params The pricing parameters.
+    function _checkPricingUpdate(address group, PricingParams calldata params) internal view {
+        if (msg.sender != owner() && msg.sender != group) {
+            revert MembershipPricingEngine__Unauthorized();
+        }
+        if (group == address(0)) {
+            revert MembershipPricingEngine__AddressCannotBeZero();
+        }
+        if (params.initialCost != 0) {
+            _validatePricingParams(params);
+        }
+    }
+
+    /// Reverts if the group has sold memberships priced by the group pricing: memberships of the base tier other than
+    /// the genesis membership, or memberships of tiers without pricing of their own.
+    /// @param group The address of the membership NFT contract.
+    function _checkPricingUnlocked(address group) internal view {
+        if (group.code.length == 0) {
+            return;
+        }
+        GroupMembershipNFT membership = GroupMembershipNFT(group);
+        if (membership.getTier(0).supply > 1) {
+            revert MembershipPricingEngine__PricingLocked();
+        }
+        uint256 tierCount = membership.getTierCount();
+        for (uint256 tier = 1; tier < tierCount; tier++) {
+            if (tierPricing[group][tier].initialCost == 0) {
+                _checkTierPricingUnlocked(group, tier);
+            }
+        }
+    }
+
+    /// Reverts if the tier of the group has sold memberships. Tiers the group has not added yet have not.
+    /// @param group The address of the membership NFT contract.
+    /// @param tier The tier of the group, other than the base tier.
+    function _checkTierPricingUnlocked(address group, uint256 tier) internal view {
+        if (group.code.length == 0) {
+            return;
+        }
+        GroupMembershipNFT membership = GroupMembershipNFT(group);
+        if (tier < membership.getTierCount() && membership.getTier(tier).supply != 0) {
+            revert MembershipPricingEngine__PricingLocked();
+        }
+    }
+
+    /// @param params The pricing parameters to validate.
+    function _validatePricingParams(PricingParams calldata params) internal pure {
+        if (params.model == PricingModel.FlatWithCap ? params.maxSupply == 0 : params.slope == 0) {
+            revert MembershipPricingEngine__InvalidPricingParams();
+        }
+    }
+
     /// @param newImplementation The address of the new implementation contract.
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
 }
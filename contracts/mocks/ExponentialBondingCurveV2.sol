@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {ExponentialBondingCurve} from "../erc20-curve/ExponentialBondingCurve.sol";
+
+/// @title ExponentialBondingCurveV2
+/// @notice An ExponentialBondingCurve upgrade appending state, used to test the upgrade workflow.
+contract ExponentialBondingCurveV2 is ExponentialBondingCurve {
+    /// @notice The version the proxy was upgraded to.
+    uint256 private version;
+
+    /// @dev Version 2 is taken by `migrateToAlphaMarketBase`.
+    /// @param _version The version the proxy is upgraded to.
+    function initializeV2(uint256 _version) external reinitializer(3) {
+        version = _version;
+    }
+
+    /// @return The version the proxy was upgraded to.
+    function getVersion() external view returns (uint256) {
+        return version;
+    }
+}
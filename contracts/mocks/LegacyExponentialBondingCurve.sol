@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {BancorFormula} from "../erc20-curve/utils/BancorFormula.sol";
+
+/// @title LegacyExponentialBondingCurve
+/// @notice The storage layout and fee configuration of ExponentialBondingCurve proxies deployed before fees were
+/// read from AlphaMarketBase, used to test their migration.
+contract LegacyExponentialBondingCurve is Initializable, OwnableUpgradeable, UUPSUpgradeable, BancorFormula {
+    /// @notice The address that collects protocol fees.
+    address private protocolFeeDestination;
+
+    /// @notice The percentage of the transaction value to send to the protocol fee destination.
+    uint256 private protocolFeePercent;
+
+    /// @notice The percentage of the collected fees to share with the group contract.
+    uint256 private feeSharePercent;
+
+    /// @notice The balance of reserve tokens to initialize the bonding curve token with.
+    uint256 private initialReserve;
+
+    /// @dev Value to represent the reserve ratio for use in calculations (in ppm).
+    uint32 private reserveRatio;
+
+    /// @notice The balance of each ERC20 reserve asset to initialize bonding curve tokens with.
+    mapping(address reserveAsset => uint256 initialReserve) private assetInitialReserves;
+
+    /// @dev Disables the default initializer function.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @param _owner The owner of the contract.
+    /// @param _protocolFeeDestination The address to send protocol fees to.
+    /// @param _protocolFeePercent The protocol fee percentage represented in basis points.
+    /// @param _feeSharePercent The collected fee share percentage represented in basis points.
+    /// @param _initialReserve The balance of reserve tokens to initialize the bonding curve token with.
+    /// @param _reserveRatio The reserve ratio in ppm.
+    function initialize(
+        address _owner,
+        address _protocolFeeDestination,
+        uint256 _protocolFeePercent,
+        uint256 _feeSharePercent,
+        uint256 _initialReserve,
+        uint32 _reserveRatio
+    ) public initializer {
+        __Ownable_init(_owner);
+        __UUPSUpgradeable_init();
+        __BancorFormula_init();
+        protocolFeeDestination = _protocolFeeDestination;
+        protocolFeePercent = _protocolFeePercent;
+        feeSharePercent = _feeSharePercent;
+        initialReserve = _initialReserve;
+        reserveRatio = _reserveRatio;
+    }
+
+    /// @return The percentage of the transaction value to send to the protocol fee destination.
+    function getProtocolFeePercent() external view returns (uint256) {
+        return protocolFeePercent;
+    }
+
+    /// @param newImplementation The address of the new implementation contract.
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
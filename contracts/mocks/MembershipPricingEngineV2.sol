@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {MembershipPricingEngine} from "../groups/MembershipPricingEngine.sol";
+
+/// @title MembershipPricingEngineV2
+/// @notice An MembershipPricingEngine upgrade appending state, used to test the upgrade workflow.
+contract MembershipPricingEngineV2 is MembershipPricingEngine {
+    /// @notice The version the proxy was upgraded to.
+    uint256 private version;
+
+    /// @param _version The version the proxy is upgraded to.
+    function initializeV2(uint256 _version) external reinitializer(2) {
+        version = _version;
+    }
+
+    /// @return The version the proxy was upgraded to.
+    function getVersion() external view returns (uint256) {
+        return version;
+    }
+}
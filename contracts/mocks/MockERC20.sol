@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {ERC20, ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @title MockERC20
+/// @notice An EIP-2612 ERC20 token anyone can mint, used as a reserve asset in tests and on testnets.
+contract MockERC20 is ERC20Permit {
+    /// @notice The number of decimals the token is displayed with.
+    uint8 private immutable i_decimals;
+
+    /// @param _name The name of the token.
+    /// @param _symbol The symbol of the token.
+    /// @param _decimals The number of decimals, e.g. 6 for a stablecoin.
+    constructor(string memory _name, string memory _symbol, uint8 _decimals) ERC20(_name, _symbol) ERC20Permit(_name) {
+        i_decimals = _decimals;
+    }
+
+    /// @param to The address to mint tokens to.
+    /// @param amount The amount of tokens to mint.
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    /// @return The number of decimals the token is displayed with.
+    function decimals() public view override returns (uint8) {
+        return i_decimals;
+    }
+}
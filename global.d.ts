@@ -1,12 +1,32 @@
-interface curveConfig {
-    owner: string;
-    protocolFeePercent: string;
-    feeSharePercent: string;
-    initialReserve: string;
-    reserveRatio: string;
-    maxGasLimit: string;
+// Deployment settings of a network, validated by `getNetworkConfig` before the Ignition modules use them.
+export interface NetworkConfig {
+    // Owner of the deployed contracts, the deployer account when omitted
+    owner?: string;
+    // Basis points, at most the AlphaMarketBase cap of 1000
+    protocolFeePercent: bigint;
+    // Basis points of the protocol fees shared with the group contracts
+    feeSharePercent: bigint;
+    // Wei each group token is created with
+    initialReserve: bigint;
+    // Reserve ratio of the ExponentialBondingCurve in ppm
+    reserveRatio: bigint;
+    // Cost of the first membership of each group in wei
+    membershipInitialCost: bigint;
+    // Steepness of the MembershipPricingEngine cost curve
+    membershipScalingFactor: bigint;
+    maxGasLimit: bigint;
 }
 
-export interface networkConfigInfo {
-    [key: string]: curveConfig;
+// Deployment settings of each network, keyed by the Hardhat network name.
+export interface NetworkConfigs {
+    [network: string]: NetworkConfig;
+}
+
+interface easConfig {
+    eas: string;
+    schemaRegistry: string;
+}
+
+export interface easConfigInfo {
+    [key: string]: easConfig;
 }
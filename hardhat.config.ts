@@ -1,8 +1,13 @@
+import { id } from 'ethers';
 import { HardhatUserConfig } from 'hardhat/config';
 import '@nomicfoundation/hardhat-toolbox';
 import { vars } from 'hardhat/config';
 import '@openzeppelin/hardhat-upgrades';
 import 'hardhat-exposed';
+import './tasks/deploy';
+import './tasks/eas';
+import './tasks/simulate';
+import './tasks/upgrades';
 
 const ALCHEMY_API_KEY = vars.get('ALCHEMY_API_KEY');
 // const TESTING_PRIVATE_KEY = vars.get('SEPOLIA_PRIVATE_KEY');
@@ -10,7 +15,16 @@ const ALCHEMY_API_KEY = vars.get('ALCHEMY_API_KEY');
 // const ARBISCAN_API_KEY = vars.get('ARBISCAN_API_KEY');
 
 const config: HardhatUserConfig = {
-    solidity: '0.8.26',
+    solidity: {
+        version: '0.8.26',
+        settings: {
+            // Required for GroupFactory, which embeds the GroupToken and GroupMembershipNFT creation code.
+            optimizer: {
+                enabled: true,
+                runs: 200,
+            },
+        },
+    },
     etherscan: {
         // apiKey: {
         //     sepolia: ETHERSCAN_API_KEY,
@@ -46,7 +60,17 @@ const config: HardhatUserConfig = {
             // accounts: [TESTING_PRIVATE_KEY],
         },
         hardhat: {
-            chainId: 1337,
+            // Hardhat's default chain ID, on which Ignition deploys the CreateX factory used by the create2 strategy.
+            chainId: 31337,
+        },
+    },
+    ignition: {
+        strategyConfig: {
+            create2: {
+                // The same salt on every network gives the contracts the same addresses wherever their
+                // constructor arguments are the same, see the `deploy:alphamarket` task.
+                salt: id('alphamarket'),
+            },
         },
     },
     gasReporter: {
@@ -1,29 +1,106 @@
-import { networkConfigInfo } from './global';
+import { isAddress, ZeroAddress } from 'ethers';
+import { easConfigInfo, NetworkConfig, NetworkConfigs } from './global';
 
-export const networkConfig: networkConfigInfo = {
+// Deployment settings of each network. Local networks leave `owner` unset, so the deployer owns the contracts.
+export const networkConfig: NetworkConfigs = {
     arbitrumSepolia: {
         owner: '0x3ef270a74CaAe5Ca4b740a66497085abBf236655',
-        protocolFeePercent: '500',
-        feeSharePercent: '0',
-        initialReserve: '100000000000000',
-        reserveRatio: '500000',
-        maxGasLimit: '1000000',
+        protocolFeePercent: 500n,
+        feeSharePercent: 0n,
+        initialReserve: 100_000_000_000_000n,
+        reserveRatio: 500_000n,
+        membershipInitialCost: 10_000_000_000_000_000n,
+        membershipScalingFactor: 100n,
+        maxGasLimit: 1_000_000n,
     },
     polygonzkEVM: {
         owner: '0x3ef270a74CaAe5Ca4b740a66497085abBf236655',
-        protocolFeePercent: '500',
-        feeSharePercent: '0',
-        initialReserve: '100000000000000',
-        reserveRatio: '500000',
-        maxGasLimit: '1000000',
+        protocolFeePercent: 500n,
+        feeSharePercent: 0n,
+        initialReserve: 100_000_000_000_000n,
+        reserveRatio: 500_000n,
+        membershipInitialCost: 10_000_000_000_000_000n,
+        membershipScalingFactor: 100n,
+        maxGasLimit: 1_000_000n,
     },
-
     hardhat: {
-        owner: '0x3ef270a74CaAe5Ca4b740a66497085abBf236655',
-        protocolFeePercent: '500',
-        feeSharePercent: '0',
-        initialReserve: '100000000000000',
-        reserveRatio: '500000',
-        maxGasLimit: '1000000',
+        protocolFeePercent: 500n,
+        feeSharePercent: 0n,
+        initialReserve: 100_000_000_000_000n,
+        reserveRatio: 500_000n,
+        membershipInitialCost: 10_000_000_000_000_000n,
+        membershipScalingFactor: 100n,
+        maxGasLimit: 1_000_000n,
+    },
+    localhost: {
+        protocolFeePercent: 500n,
+        feeSharePercent: 0n,
+        initialReserve: 100_000_000_000_000n,
+        reserveRatio: 500_000n,
+        membershipInitialCost: 10_000_000_000_000_000n,
+        membershipScalingFactor: 100n,
+        maxGasLimit: 1_000_000n,
+    },
+};
+
+// Bounds enforced by the contracts on the network config.
+const MAX_PROTOCOL_FEE_PERCENT = 1000n;
+const BASIS_POINTS = 10_000n;
+const MAX_RESERVE_RATIO = 1_000_000n;
+const MAX_UINT32 = 2n ** 32n - 1n;
+
+// Returns the deployment settings of a network, throwing if they are missing or the contracts would reject them.
+export function getNetworkConfig(
+    network: string,
+    configs: NetworkConfigs = networkConfig,
+): NetworkConfig {
+    const config = configs[network];
+    if (config === undefined) {
+        throw new Error(
+            `No network config for ${network}, expected one of ${Object.keys(configs).join(', ')}`,
+        );
+    }
+
+    const errors: string[] = [];
+    if (config.owner !== undefined && (!isAddress(config.owner) || config.owner === ZeroAddress)) {
+        errors.push(`owner ${config.owner} is not a non-zero address`);
+    }
+    if (config.protocolFeePercent < 0n || config.protocolFeePercent > MAX_PROTOCOL_FEE_PERCENT) {
+        errors.push(`protocolFeePercent must be between 0 and ${MAX_PROTOCOL_FEE_PERCENT}`);
+    }
+    if (config.feeSharePercent < 0n || config.feeSharePercent > BASIS_POINTS) {
+        errors.push(`feeSharePercent must be between 0 and ${BASIS_POINTS}`);
+    }
+    if (config.initialReserve <= 0n) {
+        errors.push('initialReserve must be positive');
+    }
+    if (config.reserveRatio <= 0n || config.reserveRatio > MAX_RESERVE_RATIO) {
+        errors.push(`reserveRatio must be between 1 and ${MAX_RESERVE_RATIO}`);
+    }
+    if (config.membershipInitialCost <= 0n) {
+        errors.push('membershipInitialCost must be positive');
+    }
+    if (config.membershipScalingFactor <= 0n || config.membershipScalingFactor > MAX_UINT32) {
+        errors.push(`membershipScalingFactor must be between 1 and ${MAX_UINT32}`);
+    }
+    if (config.maxGasLimit <= 0n) {
+        errors.push('maxGasLimit must be positive');
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid network config for ${network}: ${errors.join('; ')}`);
+    }
+
+    return config;
+}
+
+// Ethereum Attestation Service deployments used by the `eas:*` tasks. Other networks pass `--eas` and `--registry`.
+export const easConfig: easConfigInfo = {
+    sepolia: {
+        eas: '0xC2679fBD37d54388Ce493F1DB75320D236e1815e',
+        schemaRegistry: '0x0a7E2Ff54e76B8E6659aedc9103FB21c038050D0',
+    },
+    arbitrumSepolia: {
+        eas: '0x2521021fc8BF070473E1e1801D3c7B4aB701E1dE',
+        schemaRegistry: '0x45CB6Fa0870a8Af06796Ac15915619a0f22cd475',
     },
 };
@@ -0,0 +1,27 @@
+'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const AlphaCampaigns_1 = __importDefault(require('../campaigns/AlphaCampaigns'));
+const ExponentialBondingCurve_1 = __importDefault(
+    require('../erc20-curve/ExponentialBondingCurve'),
+);
+const MembershipPricingEngine_1 = __importDefault(require('../groups/MembershipPricingEngine'));
+const AlphaMarketBase_1 = __importDefault(require('./AlphaMarketBase'));
+const AlphaMarketTreasury_1 = __importDefault(require('./AlphaMarketTreasury'));
+// Deploys the protocol: the treasury, the AlphaMarketBase fee configuration paying it, the bonding curve and the
+// membership pricing engine reading fees from AlphaMarketBase, and the campaigns contract.
+// The `deploy:alphamarket` task runs it with the create2 strategy and writes the address book.
+const AlphaMarketModule = (0, modules_1.buildModule)('AlphaMarketModule', (m) => {
+    const { proxyContract: treasury } = m.useModule(AlphaMarketTreasury_1.default);
+    const { proxyContract: alphaMarketBase } = m.useModule(AlphaMarketBase_1.default);
+    const { proxyContract: bondingCurve } = m.useModule(ExponentialBondingCurve_1.default);
+    const { proxyContract: pricingEngine } = m.useModule(MembershipPricingEngine_1.default);
+    const { campaigns } = m.useModule(AlphaCampaigns_1.default);
+    return { treasury, alphaMarketBase, bondingCurve, pricingEngine, campaigns };
+});
+exports.default = AlphaMarketModule;
@@ -0,0 +1,21 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import CampaignsModule from '../campaigns/AlphaCampaigns';
+import EXPCurveModule from '../erc20-curve/ExponentialBondingCurve';
+import PricingEngineModule from '../groups/MembershipPricingEngine';
+import BaseModule from './AlphaMarketBase';
+import TreasuryModule from './AlphaMarketTreasury';
+
+// Deploys the protocol: the treasury, the AlphaMarketBase fee configuration paying it, the bonding curve and the
+// membership pricing engine reading fees from AlphaMarketBase, and the campaigns contract.
+// The `deploy:alphamarket` task runs it with the create2 strategy and writes the address book.
+const AlphaMarketModule = buildModule('AlphaMarketModule', (m) => {
+    const { proxyContract: treasury } = m.useModule(TreasuryModule);
+    const { proxyContract: alphaMarketBase } = m.useModule(BaseModule);
+    const { proxyContract: bondingCurve } = m.useModule(EXPCurveModule);
+    const { proxyContract: pricingEngine } = m.useModule(PricingEngineModule);
+    const { campaigns } = m.useModule(CampaignsModule);
+
+    return { treasury, alphaMarketBase, bondingCurve, pricingEngine, campaigns };
+});
+
+export default AlphaMarketModule;
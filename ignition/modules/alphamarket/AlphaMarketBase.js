@@ -9,18 +9,17 @@ const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
 const hardhat_1 = require('hardhat');
 const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
 const AlphaMarketTreasury_1 = __importDefault(require('./AlphaMarketTreasury'));
-function getTreasuryAddress(m) {
-    const { treasuryProxy } = m.useModule(AlphaMarketTreasury_1.default);
-    return m.contractAt('AlphaMarketTreasury', treasuryProxy).address;
-}
 const BaseModule = (0, modules_1.buildModule)('BaseModule', (m) => {
     const base = m.contract('AlphaMarketBase');
-    const protocolFeeDestination = getTreasuryAddress(m);
-    const { owner, protocolFeePercent, feeSharePercent } =
-        helper_hardhat_config_1.networkConfig[hardhat_1.network.name];
+    const { proxyContract: treasuryProxy } = m.useModule(AlphaMarketTreasury_1.default);
+    const {
+        owner = m.getAccount(0),
+        protocolFeePercent,
+        feeSharePercent,
+    } = (0, helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
     const initialze = m.encodeFunctionCall(base, 'initialize', [
         owner,
-        protocolFeeDestination,
+        treasuryProxy,
         protocolFeePercent,
         feeSharePercent,
     ]);
@@ -1,21 +1,20 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
 import { network } from 'hardhat';
-import { networkConfig } from '../../../helper-hardhat.config';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
 import TreasuryModule from './AlphaMarketTreasury';
 
-function getTreasuryAddress(m: any) {
-    const { treasuryProxy } = m.useModule(TreasuryModule);
-    return m.contractAt('AlphaMarketTreasury', treasuryProxy).address;
-}
-
 const BaseModule = buildModule('BaseModule', (m) => {
     const base = m.contract('AlphaMarketBase');
-    const protocolFeeDestination = getTreasuryAddress(m);
-    const { owner, protocolFeePercent, feeSharePercent } = networkConfig[network.name];
+    const { proxyContract: treasuryProxy } = m.useModule(TreasuryModule);
+    const {
+        owner = m.getAccount(0),
+        protocolFeePercent,
+        feeSharePercent,
+    } = getNetworkConfig(network.name);
 
     const initialze = m.encodeFunctionCall(base, 'initialize', [
         owner,
-        protocolFeeDestination,
+        treasuryProxy,
         protocolFeePercent,
         feeSharePercent,
     ]);
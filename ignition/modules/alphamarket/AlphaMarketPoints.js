@@ -0,0 +1,32 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+// Deploys the points contract. Epochs start at the `genesis` timestamp and last `epochLength` seconds:
+// { "PointsModule": { "genesis": 1735689600, "epochLength": 604800 } }
+const PointsModule = (0, modules_1.buildModule)('PointsModule', (m) => {
+    const points = m.contract('AlphaMarketPoints');
+    const { owner = m.getAccount(0) } = (0, helper_hardhat_config_1.getNetworkConfig)(
+        hardhat_1.network.name,
+    );
+    const genesis = m.getParameter('genesis');
+    const epochLength = m.getParameter('epochLength', 7 * 24 * 60 * 60);
+    // Same defaults as `DEFAULT_POINT_WEIGHTS` in `indexer/points.ts`.
+    const weights = m.getParameter('weights', {
+        tokenMint: 1000n,
+        membershipPurchase: 100n,
+        membershipHolding: 10n,
+        sponsorship: 2000n,
+        tip: 1000n,
+    });
+    const initialze = m.encodeFunctionCall(points, 'initialize', [
+        owner,
+        genesis,
+        epochLength,
+        weights,
+    ]);
+    const proxyContract = m.contract('ERC1967Proxy', [points, initialze]);
+    return { proxyContract };
+});
+exports.default = PointsModule;
@@ -0,0 +1,33 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+
+// Deploys the points contract. Epochs start at the `genesis` timestamp and last `epochLength` seconds:
+// { "PointsModule": { "genesis": 1735689600, "epochLength": 604800 } }
+const PointsModule = buildModule('PointsModule', (m) => {
+    const points = m.contract('AlphaMarketPoints');
+    const { owner = m.getAccount(0) } = getNetworkConfig(network.name);
+    const genesis = m.getParameter('genesis');
+    const epochLength = m.getParameter('epochLength', 7 * 24 * 60 * 60);
+    // Same defaults as `DEFAULT_POINT_WEIGHTS` in `indexer/points.ts`.
+    const weights = m.getParameter('weights', {
+        tokenMint: 1000n,
+        membershipPurchase: 100n,
+        membershipHolding: 10n,
+        sponsorship: 2000n,
+        tip: 1000n,
+    });
+
+    const initialze = m.encodeFunctionCall(points, 'initialize', [
+        owner,
+        genesis,
+        epochLength,
+        weights,
+    ]);
+
+    const proxyContract = m.contract('ERC1967Proxy', [points, initialze]);
+
+    return { proxyContract };
+});
+
+export default PointsModule;
@@ -1,8 +1,12 @@
 'use strict';
 Object.defineProperty(exports, '__esModule', { value: true });
 const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
 const TreasuryModule = (0, modules_1.buildModule)('TreasuryModule', (m) => {
-    const owner = '0x3ef270a74CaAe5Ca4b740a66497085abBf236655';
+    const { owner = m.getAccount(0) } = (0, helper_hardhat_config_1.getNetworkConfig)(
+        hardhat_1.network.name,
+    );
     const treasury = m.contract('AlphaMarketTreasury');
     const initialze = m.encodeFunctionCall(treasury, 'initialize', [owner]);
     const proxyContract = m.contract('ERC1967Proxy', [treasury, initialze]);
@@ -1,7 +1,9 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
 
 const TreasuryModule = buildModule('TreasuryModule', (m) => {
-    const owner = '0x3ef270a74CaAe5Ca4b740a66497085abBf236655';
+    const { owner = m.getAccount(0) } = getNetworkConfig(network.name);
 
     const treasury = m.contract('AlphaMarketTreasury');
 
@@ -0,0 +1,38 @@
+'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
+Object.defineProperty(exports, '__esModule', { value: true });
+exports.DecayingCurveModule = void 0;
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+const AlphaMarketBase_1 = __importDefault(require('../alphamarket/AlphaMarketBase'));
+// Deploys a DecayingBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "DecayingCurveModule": { "initialPrice": "...", "maxPrice": "...", "decaySupply": "..." } }
+exports.DecayingCurveModule = (0, modules_1.buildModule)('DecayingCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = (0,
+    helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
+    const { proxyContract: baseProxy } = m.useModule(AlphaMarketBase_1.default);
+    const initialPrice = m.getParameter('initialPrice', 10000000000000n);
+    const maxPrice = m.getParameter('maxPrice', 1000000000000000n);
+    const decaySupply = m.getParameter('decaySupply', 1000000000000000000000n);
+    const decayingCurveContract = m.contract('DecayingBondingCurve');
+    const initialze = m.encodeFunctionCall(decayingCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        initialPrice,
+        maxPrice,
+        decaySupply,
+    ]);
+    const proxyContract = m.contract('ERC1967Proxy', [decayingCurveContract, initialze]);
+    const decayingCurveInstance = m.contractAt('DecayingBondingCurve', proxyContract, {
+        id: 'DecayingBondingCurveProxy',
+    });
+    return { decayingCurveInstance, proxyContract };
+});
+exports.default = exports.DecayingCurveModule;
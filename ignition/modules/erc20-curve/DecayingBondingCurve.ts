@@ -0,0 +1,36 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+import BaseModule from '../alphamarket/AlphaMarketBase';
+
+// Deploys a DecayingBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "DecayingCurveModule": { "initialPrice": "...", "maxPrice": "...", "decaySupply": "..." } }
+export const DecayingCurveModule = buildModule('DecayingCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = getNetworkConfig(network.name);
+    const { proxyContract: baseProxy } = m.useModule(BaseModule);
+
+    const initialPrice = m.getParameter('initialPrice', 10_000_000_000_000n);
+    const maxPrice = m.getParameter('maxPrice', 1_000_000_000_000_000n);
+    const decaySupply = m.getParameter('decaySupply', 1_000_000_000_000_000_000_000n);
+
+    const decayingCurveContract = m.contract('DecayingBondingCurve');
+
+    const initialze = m.encodeFunctionCall(decayingCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        initialPrice,
+        maxPrice,
+        decaySupply,
+    ]);
+
+    const proxyContract = m.contract('ERC1967Proxy', [decayingCurveContract, initialze]);
+    const decayingCurveInstance = m.contractAt('DecayingBondingCurve', proxyContract, {
+        id: 'DecayingBondingCurveProxy',
+    });
+
+    return { decayingCurveInstance, proxyContract };
+});
+
+export default DecayingCurveModule;
@@ -1,28 +1,28 @@
 'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
 Object.defineProperty(exports, '__esModule', { value: true });
 exports.EXPCurveModule = void 0;
 const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
 const hardhat_1 = require('hardhat');
 const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+const AlphaMarketBase_1 = __importDefault(require('../alphamarket/AlphaMarketBase'));
 const ProxyModule = (0, modules_1.buildModule)('ProxyModule', (m) => {
     const {
-        owner,
-        protocolFeeDestination,
-        protocolFeePercent,
-        feeSharePercent,
+        owner = m.getAccount(0),
         initialReserve,
         reserveRatio,
-        maxGasLimit,
-    } = helper_hardhat_config_1.networkConfig[hardhat_1.network.name];
+    } = (0, helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
+    const { proxyContract: baseProxy } = m.useModule(AlphaMarketBase_1.default);
     const expCurveContract = m.contract('ExponentialBondingCurve');
     const initialze = m.encodeFunctionCall(expCurveContract, 'initialize', [
         owner,
-        protocolFeeDestination,
-        protocolFeePercent,
-        feeSharePercent,
+        baseProxy,
         initialReserve,
         reserveRatio,
-        maxGasLimit,
     ]);
     const proxyContract = m.contract('ERC1967Proxy', [expCurveContract, initialze]);
     return { proxyContract };
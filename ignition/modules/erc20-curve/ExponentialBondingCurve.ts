@@ -1,28 +1,23 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
 import { network } from 'hardhat';
-import { networkConfig } from '../../../helper-hardhat.config';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+import BaseModule from '../alphamarket/AlphaMarketBase';
 
 const ProxyModule = buildModule('ProxyModule', (m) => {
     const {
-        owner,
-        protocolFeeDestination,
-        protocolFeePercent,
-        feeSharePercent,
+        owner = m.getAccount(0),
         initialReserve,
         reserveRatio,
-        maxGasLimit,
-    } = networkConfig[network.name];
+    } = getNetworkConfig(network.name);
+    const { proxyContract: baseProxy } = m.useModule(BaseModule);
 
     const expCurveContract = m.contract('ExponentialBondingCurve');
 
     const initialze = m.encodeFunctionCall(expCurveContract, 'initialize', [
         owner,
-        protocolFeeDestination,
-        protocolFeePercent,
-        feeSharePercent,
+        baseProxy,
         initialReserve,
         reserveRatio,
-        maxGasLimit,
     ]);
 
     const proxyContract = m.contract('ERC1967Proxy', [expCurveContract, initialze]);
@@ -1,27 +1,21 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { ZeroAddress } from 'ethers';
 import { network } from 'hardhat';
-import { networkConfig } from '../../../helper-hardhat.config';
-import { resolve } from 'path';
-import { readFileSync } from 'fs';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+import EXPCurveModule from './ExponentialBondingCurve';
 
 // This module is only used for testing.
-// Deployments for the product must be handled through UI when host creates a new group.
+// Hosts launch groups for the product through the GroupFactory (see ../groups/GroupFactory.ts).
 const GroupTokenModule = buildModule('GroupTokenModule', (m) => {
-    const chainId = network.config.chainId;
-    const deploymentsFilePath = resolve(
-        __dirname,
-        `../deployments/chain-${chainId}/deployed_addresses.json`,
-    );
-    const deployments = JSON.parse(readFileSync(deploymentsFilePath, 'utf-8'));
+    const { proxyContract: bondingCurve } = m.useModule(EXPCurveModule);
 
     const name = 'Test';
     const symbol = 'TEST';
-    const bcAddress = deployments['ProxyModule#ERC1967Proxy'];
-    const hostAddress = '0x3ef270a74CaAe5Ca4b740a66497085abBf236655';
-    const { initialReserve } = networkConfig[network.name];
+    const host = m.getParameter('host', m.getAccount(0));
+    const { initialReserve } = getNetworkConfig(network.name);
 
-    const groupToken = m.contract('GroupToken', [name, symbol, bcAddress, hostAddress], {
-        value: BigInt(initialReserve),
+    const groupToken = m.contract('GroupToken', [name, symbol, bondingCurve, host, ZeroAddress], {
+        value: initialReserve,
     });
 
     return { groupToken };
@@ -0,0 +1,36 @@
+'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
+Object.defineProperty(exports, '__esModule', { value: true });
+exports.LinearCurveModule = void 0;
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+const AlphaMarketBase_1 = __importDefault(require('../alphamarket/AlphaMarketBase'));
+// Deploys a LinearBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "LinearCurveModule": { "initialPrice": "1000000000000", "slope": "1000000000" } }
+exports.LinearCurveModule = (0, modules_1.buildModule)('LinearCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = (0,
+    helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
+    const { proxyContract: baseProxy } = m.useModule(AlphaMarketBase_1.default);
+    const initialPrice = m.getParameter('initialPrice', 1000000000000n);
+    const slope = m.getParameter('slope', 1000000000n);
+    const linearCurveContract = m.contract('LinearBondingCurve');
+    const initialze = m.encodeFunctionCall(linearCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        initialPrice,
+        slope,
+    ]);
+    const proxyContract = m.contract('ERC1967Proxy', [linearCurveContract, initialze]);
+    const linearCurveInstance = m.contractAt('LinearBondingCurve', proxyContract, {
+        id: 'LinearBondingCurveProxy',
+    });
+    return { linearCurveInstance, proxyContract };
+});
+exports.default = exports.LinearCurveModule;
@@ -0,0 +1,34 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+import BaseModule from '../alphamarket/AlphaMarketBase';
+
+// Deploys a LinearBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "LinearCurveModule": { "initialPrice": "1000000000000", "slope": "1000000000" } }
+export const LinearCurveModule = buildModule('LinearCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = getNetworkConfig(network.name);
+    const { proxyContract: baseProxy } = m.useModule(BaseModule);
+
+    const initialPrice = m.getParameter('initialPrice', 1_000_000_000_000n);
+    const slope = m.getParameter('slope', 1_000_000_000n);
+
+    const linearCurveContract = m.contract('LinearBondingCurve');
+
+    const initialze = m.encodeFunctionCall(linearCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        initialPrice,
+        slope,
+    ]);
+
+    const proxyContract = m.contract('ERC1967Proxy', [linearCurveContract, initialze]);
+    const linearCurveInstance = m.contractAt('LinearBondingCurve', proxyContract, {
+        id: 'LinearBondingCurveProxy',
+    });
+
+    return { linearCurveInstance, proxyContract };
+});
+
+export default LinearCurveModule;
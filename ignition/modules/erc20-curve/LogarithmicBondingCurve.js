@@ -0,0 +1,36 @@
+'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
+Object.defineProperty(exports, '__esModule', { value: true });
+exports.LogCurveModule = void 0;
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+const AlphaMarketBase_1 = __importDefault(require('../alphamarket/AlphaMarketBase'));
+// Deploys a LogarithmicBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "LogCurveModule": { "priceScale": "100000000000000", "supplyScale": "1000000000000000000" } }
+exports.LogCurveModule = (0, modules_1.buildModule)('LogCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = (0,
+    helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
+    const { proxyContract: baseProxy } = m.useModule(AlphaMarketBase_1.default);
+    const priceScale = m.getParameter('priceScale', 100000000000000n);
+    const supplyScale = m.getParameter('supplyScale', 1000000000000000000n);
+    const logCurveContract = m.contract('LogarithmicBondingCurve');
+    const initialze = m.encodeFunctionCall(logCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        priceScale,
+        supplyScale,
+    ]);
+    const proxyContract = m.contract('ERC1967Proxy', [logCurveContract, initialze]);
+    const logCurveInstance = m.contractAt('LogarithmicBondingCurve', proxyContract, {
+        id: 'LogarithmicBondingCurveProxy',
+    });
+    return { logCurveInstance, proxyContract };
+});
+exports.default = exports.LogCurveModule;
@@ -0,0 +1,34 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+import BaseModule from '../alphamarket/AlphaMarketBase';
+
+// Deploys a LogarithmicBondingCurve proxy reading its protocol fees from AlphaMarketBase.
+// The curve shape can be overridden through `--parameters`:
+// { "LogCurveModule": { "priceScale": "100000000000000", "supplyScale": "1000000000000000000" } }
+export const LogCurveModule = buildModule('LogCurveModule', (m) => {
+    const { owner = m.getAccount(0), initialReserve } = getNetworkConfig(network.name);
+    const { proxyContract: baseProxy } = m.useModule(BaseModule);
+
+    const priceScale = m.getParameter('priceScale', 100_000_000_000_000n);
+    const supplyScale = m.getParameter('supplyScale', 1_000_000_000_000_000_000n);
+
+    const logCurveContract = m.contract('LogarithmicBondingCurve');
+
+    const initialze = m.encodeFunctionCall(logCurveContract, 'initialize', [
+        owner,
+        baseProxy,
+        initialReserve,
+        priceScale,
+        supplyScale,
+    ]);
+
+    const proxyContract = m.contract('ERC1967Proxy', [logCurveContract, initialze]);
+    const logCurveInstance = m.contractAt('LogarithmicBondingCurve', proxyContract, {
+        id: 'LogarithmicBondingCurveProxy',
+    });
+
+    return { logCurveInstance, proxyContract };
+});
+
+export default LogCurveModule;
@@ -0,0 +1,31 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Deploys a GroupToken backed by an ERC20 reserve asset and seeds its reserve from the deployer's balance.
+// The bonding curve owner must have set the asset's initial reserve with `setAssetInitialReserve` first.
+// Hosts launch asset backed groups for the product through `GroupFactory.createGroupWithReserveAsset`.
+// { "ReserveAssetGroupTokenModule": { "bondingCurve": "0x...", "reserveAsset": "0x...", "host": "0x..." } }
+const ReserveAssetGroupTokenModule = buildModule('ReserveAssetGroupTokenModule', (m) => {
+    const bondingCurve = m.getParameter<string>('bondingCurve');
+    const reserveAsset = m.getParameter<string>('reserveAsset');
+    const host = m.getParameter('host', m.getAccount(0));
+    const name = m.getParameter<string>('name', 'Test');
+    const symbol = m.getParameter<string>('symbol', 'TEST');
+
+    const groupToken = m.contract('GroupToken', [name, symbol, bondingCurve, host, reserveAsset]);
+
+    const curve = m.contractAt('IBondingCurve', bondingCurve);
+    const initialReserve = m.staticCall(curve, 'getAssetInitialReserve', [reserveAsset]);
+    const asset = m.contractAt(
+        '@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20',
+        reserveAsset,
+        {
+            id: 'ReserveAsset',
+        },
+    );
+    const approval = m.call(asset, 'approve', [groupToken, initialReserve]);
+    m.call(groupToken, 'seedReserve', [], { after: [approval] });
+
+    return { groupToken };
+});
+
+export default ReserveAssetGroupTokenModule;
@@ -0,0 +1,113 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const ethers_1 = require('ethers');
+// Deploys the DAO (governance token, timelock and governor) and hands the protocol contracts over to it.
+// The deployer mints the initial supply to itself, wires the governor into the timelock, gives up its timelock admin
+// role and transfers ownership of the token and the existing proxies to the timelock, so it must own those proxies.
+// The curve and AlphaMarketBase proxies transfer ownership in two steps, so the timelock starts without a delay and
+// the deployer runs a single batch on it that accepts their ownership and then sets the delay, before giving up its
+// roles.
+// { "GovernanceModule": { "bondingCurve": "0x...", "alphaMarketBase": "0x...", "pricingEngine": "0x..." } }
+const GovernanceModule = (0, modules_1.buildModule)('GovernanceModule', (m) => {
+    const deployer = m.getAccount(0);
+    const bondingCurve = m.getParameter('bondingCurve');
+    const alphaMarketBase = m.getParameter('alphaMarketBase');
+    const pricingEngine = m.getParameter('pricingEngine');
+    const cap = m.getParameter('cap', 1000000000n * 10n ** 18n);
+    const initialSupply = m.getParameter('initialSupply', 100000000n * 10n ** 18n);
+    const minDelay = m.getParameter('minDelay', 2 * 24 * 60 * 60);
+    const votingDelay = m.getParameter('votingDelay', 7200);
+    const votingPeriod = m.getParameter('votingPeriod', 50400);
+    const proposalThreshold = m.getParameter('proposalThreshold', 0n);
+    const quorumPercent = m.getParameter('quorumPercent', 4);
+    const token = m.contract('AlphaGovernanceToken', [deployer, cap]);
+    const mint = m.call(token, 'mint', [deployer, initialSupply]);
+    const timelock = m.contract('AlphaTimelock', [0, [deployer], [deployer], deployer]);
+    const governor = m.contract('AlphaGovernor', [
+        token,
+        timelock,
+        votingDelay,
+        votingPeriod,
+        proposalThreshold,
+        quorumPercent,
+    ]);
+    // Only the governor queues and cancels proposals; anyone may execute them once the delay has passed.
+    const grantProposer = m.call(
+        timelock,
+        'grantRole',
+        [(0, ethers_1.id)('PROPOSER_ROLE'), governor],
+        {
+            id: 'GrantProposerRole',
+        },
+    );
+    const grantCanceller = m.call(
+        timelock,
+        'grantRole',
+        [(0, ethers_1.id)('CANCELLER_ROLE'), governor],
+        {
+            id: 'GrantCancellerRole',
+        },
+    );
+    const grantExecutor = m.call(
+        timelock,
+        'grantRole',
+        [(0, ethers_1.id)('EXECUTOR_ROLE'), ethers_1.ZeroAddress],
+        {
+            id: 'GrantExecutorRole',
+        },
+    );
+    m.call(token, 'transferOwnership', [timelock], { id: 'TransferTokenOwnership', after: [mint] });
+    m.call(
+        m.contractAt('MembershipPricingEngine', pricingEngine),
+        'transferOwnership',
+        [timelock],
+        {
+            id: 'TransferMembershipPricingEngineOwnership',
+        },
+    );
+    const targets = [];
+    const payloads = [];
+    const transfers = [];
+    for (const [name, address] of [
+        ['ExponentialBondingCurve', bondingCurve],
+        ['AlphaMarketBase', alphaMarketBase],
+    ]) {
+        const proxy = m.contractAt(name, address);
+        transfers.push(
+            m.call(proxy, 'transferOwnership', [timelock], { id: `Transfer${name}Ownership` }),
+        );
+        targets.push(proxy);
+        payloads.push(
+            m.encodeFunctionCall(proxy, 'acceptOwnership', [], { id: `Accept${name}Ownership` }),
+        );
+    }
+    targets.push(timelock);
+    payloads.push(m.encodeFunctionCall(timelock, 'updateDelay', [minDelay]));
+    const values = targets.map(() => 0n);
+    const schedule = m.call(
+        timelock,
+        'scheduleBatch',
+        [targets, values, payloads, ethers_1.ZeroHash, ethers_1.ZeroHash, 0],
+        { after: transfers },
+    );
+    const execute = m.call(
+        timelock,
+        'executeBatch',
+        [targets, values, payloads, ethers_1.ZeroHash, ethers_1.ZeroHash],
+        {
+            after: [schedule],
+        },
+    );
+    const revocations = ['PROPOSER_ROLE', 'CANCELLER_ROLE', 'EXECUTOR_ROLE'].map((role) =>
+        m.call(timelock, 'renounceRole', [(0, ethers_1.id)(role), deployer], {
+            id: `Renounce${role}`,
+            after: [execute],
+        }),
+    );
+    m.call(timelock, 'renounceRole', [ethers_1.ZeroHash, deployer], {
+        after: [grantProposer, grantCanceller, grantExecutor, ...revocations],
+    });
+    return { token, timelock, governor };
+});
+exports.default = GovernanceModule;
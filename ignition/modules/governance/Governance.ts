@@ -0,0 +1,106 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { id, ZeroAddress, ZeroHash } from 'ethers';
+
+// Deploys the DAO (governance token, timelock and governor) and hands the protocol contracts over to it.
+// The deployer mints the initial supply to itself, wires the governor into the timelock, gives up its timelock admin
+// role and transfers ownership of the token and the existing proxies to the timelock, so it must own those proxies.
+// The curve and AlphaMarketBase proxies transfer ownership in two steps, so the timelock starts without a delay and
+// the deployer runs a single batch on it that accepts their ownership and then sets the delay, before giving up its
+// roles.
+// { "GovernanceModule": { "bondingCurve": "0x...", "alphaMarketBase": "0x...", "pricingEngine": "0x..." } }
+const GovernanceModule = buildModule('GovernanceModule', (m) => {
+    const deployer = m.getAccount(0);
+    const bondingCurve = m.getParameter<string>('bondingCurve');
+    const alphaMarketBase = m.getParameter<string>('alphaMarketBase');
+    const pricingEngine = m.getParameter<string>('pricingEngine');
+
+    const cap = m.getParameter('cap', 1_000_000_000n * 10n ** 18n);
+    const initialSupply = m.getParameter('initialSupply', 100_000_000n * 10n ** 18n);
+    const minDelay = m.getParameter('minDelay', 2 * 24 * 60 * 60);
+    const votingDelay = m.getParameter('votingDelay', 7200);
+    const votingPeriod = m.getParameter('votingPeriod', 50400);
+    const proposalThreshold = m.getParameter('proposalThreshold', 0n);
+    const quorumPercent = m.getParameter('quorumPercent', 4);
+
+    const token = m.contract('AlphaGovernanceToken', [deployer, cap]);
+    const mint = m.call(token, 'mint', [deployer, initialSupply]);
+
+    const timelock = m.contract('AlphaTimelock', [0, [deployer], [deployer], deployer]);
+    const governor = m.contract('AlphaGovernor', [
+        token,
+        timelock,
+        votingDelay,
+        votingPeriod,
+        proposalThreshold,
+        quorumPercent,
+    ]);
+
+    // Only the governor queues and cancels proposals; anyone may execute them once the delay has passed.
+    const grantProposer = m.call(timelock, 'grantRole', [id('PROPOSER_ROLE'), governor], {
+        id: 'GrantProposerRole',
+    });
+    const grantCanceller = m.call(timelock, 'grantRole', [id('CANCELLER_ROLE'), governor], {
+        id: 'GrantCancellerRole',
+    });
+    const grantExecutor = m.call(timelock, 'grantRole', [id('EXECUTOR_ROLE'), ZeroAddress], {
+        id: 'GrantExecutorRole',
+    });
+
+    m.call(token, 'transferOwnership', [timelock], { id: 'TransferTokenOwnership', after: [mint] });
+    m.call(
+        m.contractAt('MembershipPricingEngine', pricingEngine),
+        'transferOwnership',
+        [timelock],
+        {
+            id: 'TransferMembershipPricingEngineOwnership',
+        },
+    );
+    const targets = [];
+    const payloads = [];
+    const transfers = [];
+    for (const [name, address] of [
+        ['ExponentialBondingCurve', bondingCurve],
+        ['AlphaMarketBase', alphaMarketBase],
+    ] as const) {
+        const proxy = m.contractAt(name, address);
+        transfers.push(
+            m.call(proxy, 'transferOwnership', [timelock], { id: `Transfer${name}Ownership` }),
+        );
+        targets.push(proxy);
+        payloads.push(
+            m.encodeFunctionCall(proxy, 'acceptOwnership', [], { id: `Accept${name}Ownership` }),
+        );
+    }
+    targets.push(timelock);
+    payloads.push(m.encodeFunctionCall(timelock, 'updateDelay', [minDelay]));
+
+    const values = targets.map(() => 0n);
+    const schedule = m.call(
+        timelock,
+        'scheduleBatch',
+        [targets, values, payloads, ZeroHash, ZeroHash, 0],
+        { after: transfers },
+    );
+    const execute = m.call(
+        timelock,
+        'executeBatch',
+        [targets, values, payloads, ZeroHash, ZeroHash],
+        {
+            after: [schedule],
+        },
+    );
+
+    const revocations = ['PROPOSER_ROLE', 'CANCELLER_ROLE', 'EXECUTOR_ROLE'].map((role) =>
+        m.call(timelock, 'renounceRole', [id(role), deployer], {
+            id: `Renounce${role}`,
+            after: [execute],
+        }),
+    );
+    m.call(timelock, 'renounceRole', [ZeroHash, deployer], {
+        after: [grantProposer, grantCanceller, grantExecutor, ...revocations],
+    });
+
+    return { token, timelock, governor };
+});
+
+export default GovernanceModule;
@@ -0,0 +1,10 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+// Deploys the governor members of every group use to spend their community reserve.
+// The GroupFactory passes it to every GroupMembershipNFT it creates, so it is deployed with the factory.
+const CommunityGovernorModule = (0, modules_1.buildModule)('CommunityGovernorModule', (m) => {
+    const communityGovernor = m.contract('CommunityGovernor');
+    return { communityGovernor };
+});
+exports.default = CommunityGovernorModule;
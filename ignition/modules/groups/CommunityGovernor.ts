@@ -0,0 +1,11 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Deploys the governor members of every group use to spend their community reserve.
+// The GroupFactory passes it to every GroupMembershipNFT it creates, so it is deployed with the factory.
+const CommunityGovernorModule = buildModule('CommunityGovernorModule', (m) => {
+    const communityGovernor = m.contract('CommunityGovernor');
+
+    return { communityGovernor };
+});
+
+export default CommunityGovernorModule;
@@ -0,0 +1,27 @@
+'use strict';
+var __importDefault =
+    (this && this.__importDefault) ||
+    function (mod) {
+        return mod && mod.__esModule ? mod : { default: mod };
+    };
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const CommunityGovernor_1 = __importDefault(require('./CommunityGovernor'));
+// Deploys the factory hosts use to launch a GroupToken and GroupMembershipNFT pair in one transaction,
+// along with the CommunityGovernor of the groups it creates.
+// The shared proxies are passed in as module parameters, e.g. through `--parameters`:
+// { "GroupFactoryModule": { "bondingCurve": "0x...", "alphaMarketBase": "0x...", "pricingEngine": "0x..." } }
+const GroupFactoryModule = (0, modules_1.buildModule)('GroupFactoryModule', (m) => {
+    const bondingCurve = m.getParameter('bondingCurve');
+    const alphaMarketBase = m.getParameter('alphaMarketBase');
+    const pricingEngine = m.getParameter('pricingEngine');
+    const { communityGovernor } = m.useModule(CommunityGovernor_1.default);
+    const groupFactory = m.contract('GroupFactory', [
+        bondingCurve,
+        alphaMarketBase,
+        pricingEngine,
+        communityGovernor,
+    ]);
+    return { groupFactory, communityGovernor };
+});
+exports.default = GroupFactoryModule;
@@ -0,0 +1,24 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import CommunityGovernorModule from './CommunityGovernor';
+
+// Deploys the factory hosts use to launch a GroupToken and GroupMembershipNFT pair in one transaction,
+// along with the CommunityGovernor of the groups it creates.
+// The shared proxies are passed in as module parameters, e.g. through `--parameters`:
+// { "GroupFactoryModule": { "bondingCurve": "0x...", "alphaMarketBase": "0x...", "pricingEngine": "0x..." } }
+const GroupFactoryModule = buildModule('GroupFactoryModule', (m) => {
+    const bondingCurve = m.getParameter<string>('bondingCurve');
+    const alphaMarketBase = m.getParameter<string>('alphaMarketBase');
+    const pricingEngine = m.getParameter<string>('pricingEngine');
+    const { communityGovernor } = m.useModule(CommunityGovernorModule);
+
+    const groupFactory = m.contract('GroupFactory', [
+        bondingCurve,
+        alphaMarketBase,
+        pricingEngine,
+        communityGovernor,
+    ]);
+
+    return { groupFactory, communityGovernor };
+});
+
+export default GroupFactoryModule;
@@ -0,0 +1,10 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+// Deploys the auction house hosts use to sell limited or premium memberships.
+// Hosts grant the deployed contract `AUCTIONEER_ROLE` on their GroupMembershipNFT before creating auctions.
+const MembershipAuctionsModule = (0, modules_1.buildModule)('MembershipAuctionsModule', (m) => {
+    const membershipAuctions = m.contract('MembershipAuctions');
+    return { membershipAuctions };
+});
+exports.default = MembershipAuctionsModule;
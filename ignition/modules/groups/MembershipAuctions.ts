@@ -0,0 +1,11 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Deploys the auction house hosts use to sell limited or premium memberships.
+// Hosts grant the deployed contract `AUCTIONEER_ROLE` on their GroupMembershipNFT before creating auctions.
+const MembershipAuctionsModule = buildModule('MembershipAuctionsModule', (m) => {
+    const membershipAuctions = m.contract('MembershipAuctions');
+
+    return { membershipAuctions };
+});
+
+export default MembershipAuctionsModule;
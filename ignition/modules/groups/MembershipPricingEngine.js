@@ -0,0 +1,22 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+const hardhat_1 = require('hardhat');
+const helper_hardhat_config_1 = require('../../../helper-hardhat.config');
+// Deploys the MembershipPricingEngine proxy pricing the memberships of every group.
+const PricingEngineModule = (0, modules_1.buildModule)('PricingEngineModule', (m) => {
+    const {
+        owner = m.getAccount(0),
+        membershipInitialCost,
+        membershipScalingFactor,
+    } = (0, helper_hardhat_config_1.getNetworkConfig)(hardhat_1.network.name);
+    const pricingEngine = m.contract('MembershipPricingEngine');
+    const initialze = m.encodeFunctionCall(pricingEngine, 'initialize', [
+        owner,
+        membershipInitialCost,
+        membershipScalingFactor,
+    ]);
+    const proxyContract = m.contract('ERC1967Proxy', [pricingEngine, initialze]);
+    return { proxyContract };
+});
+exports.default = PricingEngineModule;
@@ -0,0 +1,26 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { network } from 'hardhat';
+import { getNetworkConfig } from '../../../helper-hardhat.config';
+
+// Deploys the MembershipPricingEngine proxy pricing the memberships of every group.
+const PricingEngineModule = buildModule('PricingEngineModule', (m) => {
+    const {
+        owner = m.getAccount(0),
+        membershipInitialCost,
+        membershipScalingFactor,
+    } = getNetworkConfig(network.name);
+
+    const pricingEngine = m.contract('MembershipPricingEngine');
+
+    const initialze = m.encodeFunctionCall(pricingEngine, 'initialize', [
+        owner,
+        membershipInitialCost,
+        membershipScalingFactor,
+    ]);
+
+    const proxyContract = m.contract('ERC1967Proxy', [pricingEngine, initialze]);
+
+    return { proxyContract };
+});
+
+export default PricingEngineModule;
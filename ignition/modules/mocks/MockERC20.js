@@ -0,0 +1,16 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+// Deploys a mintable EIP-2612 token standing in for a stablecoin reserve asset on local networks and testnets,
+// minting `initialSupply` to the deployer.
+// { "MockERC20Module": { "name": "Mock USD", "symbol": "mUSD", "decimals": 6, "initialSupply": "1000000000000" } }
+const MockERC20Module = (0, modules_1.buildModule)('MockERC20Module', (m) => {
+    const name = m.getParameter('name', 'Mock USD');
+    const symbol = m.getParameter('symbol', 'mUSD');
+    const decimals = m.getParameter('decimals', 6);
+    const initialSupply = m.getParameter('initialSupply', 1000000000000n);
+    const mockERC20 = m.contract('MockERC20', [name, symbol, decimals]);
+    m.call(mockERC20, 'mint', [m.getAccount(0), initialSupply]);
+    return { mockERC20 };
+});
+exports.default = MockERC20Module;
@@ -0,0 +1,18 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Deploys a mintable EIP-2612 token standing in for a stablecoin reserve asset on local networks and testnets,
+// minting `initialSupply` to the deployer.
+// { "MockERC20Module": { "name": "Mock USD", "symbol": "mUSD", "decimals": 6, "initialSupply": "1000000000000" } }
+const MockERC20Module = buildModule('MockERC20Module', (m) => {
+    const name = m.getParameter<string>('name', 'Mock USD');
+    const symbol = m.getParameter<string>('symbol', 'mUSD');
+    const decimals = m.getParameter<number>('decimals', 6);
+    const initialSupply = m.getParameter<bigint>('initialSupply', 1_000_000_000_000n);
+
+    const mockERC20 = m.contract('MockERC20', [name, symbol, decimals]);
+    m.call(mockERC20, 'mint', [m.getAccount(0), initialSupply]);
+
+    return { mockERC20 };
+});
+
+export default MockERC20Module;
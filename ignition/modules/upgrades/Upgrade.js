@@ -0,0 +1,28 @@
+'use strict';
+Object.defineProperty(exports, '__esModule', { value: true });
+exports.ScheduleUpgradeModule = void 0;
+const modules_1 = require('@nomicfoundation/hardhat-ignition/modules');
+// Upgrades a UUPS proxy to an implementation validated and deployed by the `upgrade:proxy` task, calling
+// `upgradeToAndCall` with `data`, the encoded call initializing the new version or `0x` for none.
+// { "UpgradeModule": { "proxy": "0x...", "implementation": "0x...", "data": "0x" } }
+const UpgradeModule = (0, modules_1.buildModule)('UpgradeModule', (m) => {
+    const proxy = m.contractAt('UUPSUpgradeable', m.getParameter('proxy'));
+    const implementation = m.getParameter('implementation');
+    const data = m.getParameter('data', '0x');
+    m.call(proxy, 'upgradeToAndCall', [implementation, data]);
+    return { proxy };
+});
+// Schedules the same upgrade on a proxy inheriting `TimelockedOwnableUpgradeable`, which only allows it once the
+// proxy's change delay has passed.
+// { "ScheduleUpgradeModule": { "proxy": "0x...", "implementation": "0x...", "data": "0x" } }
+exports.ScheduleUpgradeModule = (0, modules_1.buildModule)('ScheduleUpgradeModule', (m) => {
+    const proxyAddress = m.getParameter('proxy');
+    const proxy = m.contractAt('TimelockedOwnableUpgradeable', proxyAddress);
+    const upgradeable = m.contractAt('UUPSUpgradeable', proxyAddress);
+    const implementation = m.getParameter('implementation');
+    const data = m.getParameter('data', '0x');
+    const change = m.encodeFunctionCall(upgradeable, 'upgradeToAndCall', [implementation, data]);
+    m.call(proxy, 'scheduleChange', [change]);
+    return { proxy };
+});
+exports.default = UpgradeModule;
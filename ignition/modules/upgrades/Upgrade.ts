@@ -0,0 +1,32 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+// Upgrades a UUPS proxy to an implementation validated and deployed by the `upgrade:proxy` task, calling
+// `upgradeToAndCall` with `data`, the encoded call initializing the new version or `0x` for none.
+// { "UpgradeModule": { "proxy": "0x...", "implementation": "0x...", "data": "0x" } }
+const UpgradeModule = buildModule('UpgradeModule', (m) => {
+    const proxy = m.contractAt('UUPSUpgradeable', m.getParameter<string>('proxy'));
+    const implementation = m.getParameter<string>('implementation');
+    const data = m.getParameter<string>('data', '0x');
+
+    m.call(proxy, 'upgradeToAndCall', [implementation, data]);
+
+    return { proxy };
+});
+
+// Schedules the same upgrade on a proxy inheriting `TimelockedOwnableUpgradeable`, which only allows it once the
+// proxy's change delay has passed.
+// { "ScheduleUpgradeModule": { "proxy": "0x...", "implementation": "0x...", "data": "0x" } }
+export const ScheduleUpgradeModule = buildModule('ScheduleUpgradeModule', (m) => {
+    const proxyAddress = m.getParameter<string>('proxy');
+    const proxy = m.contractAt('TimelockedOwnableUpgradeable', proxyAddress);
+    const upgradeable = m.contractAt('UUPSUpgradeable', proxyAddress);
+    const implementation = m.getParameter<string>('implementation');
+    const data = m.getParameter<string>('data', '0x');
+
+    const change = m.encodeFunctionCall(upgradeable, 'upgradeToAndCall', [implementation, data]);
+    m.call(proxy, 'scheduleChange', [change]);
+
+    return { proxy };
+});
+
+export default UpgradeModule;
@@ -0,0 +1,474 @@
+import { getAddress, Interface, Log, LogDescription, Provider } from 'ethers';
+import {
+    AlphaCampaigns__factory,
+    AlphaMarketBase__factory,
+    GroupFactory__factory,
+    GroupMembershipNFT__factory,
+    GroupToken__factory,
+    IBondingCurve__factory,
+} from '../typechain-types';
+import {
+    BlockRecord,
+    CampaignKey,
+    CampaignState,
+    IndexerDatabase,
+    Market,
+    MarketKind,
+    Trade,
+} from './IndexerDatabase';
+import { getMembershipPrice } from './pricing';
+
+// Contracts to index. Groups launched by a GroupFactory are discovered from its `GroupCreated` events.
+// The fee tiers AlphaMarketBase contracts apply to the indexed markets and campaigns are recorded too.
+export interface IndexerSources {
+    groupTokens?: string[];
+    memberships?: string[];
+    campaigns?: string[];
+    groupFactories?: string[];
+    alphaMarketBases?: string[];
+}
+
+export interface IndexerOptions {
+    // First block to index. Should be at or before the deployment of the indexed contracts.
+    startBlock?: number;
+    // Maximum number of blocks requested per `eth_getLogs` call.
+    batchSize?: number;
+    // Blocks to stay behind the chain head. Reorgs deeper than this are still detected and rolled back.
+    confirmations?: number;
+    // Delay between polls when tailing the chain, in milliseconds.
+    pollInterval?: number;
+}
+
+// Thrown when a block changes while a batch is being read. The batch is discarded and retried.
+export class ReorgDuringSyncError extends Error {
+    constructor(readonly blockNumber: number) {
+        super(`Block ${blockNumber} changed while it was being indexed`);
+    }
+}
+
+interface MarketState {
+    reserve: bigint;
+    supply: bigint;
+    price: bigint;
+}
+
+const groupTokenInterface = GroupToken__factory.createInterface();
+const membershipInterface = GroupMembershipNFT__factory.createInterface();
+const campaignsInterface = AlphaCampaigns__factory.createInterface();
+const factoryInterface = GroupFactory__factory.createInterface();
+const baseInterface = AlphaMarketBase__factory.createInterface();
+
+const CAMPAIGN_EVENTS = [
+    'CampaignCreated',
+    'CampaignUpdated',
+    'SponsorAccepted',
+    'CampaignTipped',
+    'TipRefunded',
+    'CampaignEnded',
+    'CampaignCompleted',
+    'FundsWithdrawn',
+];
+
+function getTopics(contractInterface: Interface, names: string[]): string[] {
+    return names.map((name) => contractInterface.getEvent(name)!.topicHash);
+}
+
+// Backfills and tails trades, transfers and campaign events into an IndexerDatabase.
+// Every batch is written in a single SQLite transaction, and the stored block hashes are compared
+// with the chain before each batch so reorged blocks are rolled back and indexed again.
+export class EventIndexer {
+    private readonly options: Required<IndexerOptions>;
+    private readonly campaigns: string[];
+    private readonly factories: string[];
+    private readonly bases: string[];
+    private readonly bondingCurves = new Map<string, string>();
+    private stopped = false;
+
+    constructor(
+        readonly provider: Provider,
+        readonly db: IndexerDatabase,
+        sources: IndexerSources,
+        options: IndexerOptions = {},
+    ) {
+        this.options = {
+            startBlock: options.startBlock ?? 0,
+            batchSize: options.batchSize ?? 2000,
+            confirmations: options.confirmations ?? 0,
+            pollInterval: options.pollInterval ?? 4000,
+        };
+        this.campaigns = (sources.campaigns ?? []).map((address) => getAddress(address));
+        this.factories = (sources.groupFactories ?? []).map((address) => getAddress(address));
+        this.bases = (sources.alphaMarketBases ?? []).map((address) => getAddress(address));
+
+        for (const address of sources.groupTokens ?? []) {
+            this.db.addMarket({ address: getAddress(address), kind: 'token' });
+        }
+        for (const address of sources.memberships ?? []) {
+            this.db.addMarket({ address: getAddress(address), kind: 'membership' });
+        }
+    }
+
+    // Indexes up to `toBlock` (the confirmed chain head by default) and returns the new cursor.
+    async backfill(toBlock?: number): Promise<number> {
+        const target = toBlock ?? (await this.getConfirmedHead());
+        let cursor = await this.sync(target);
+        while (cursor < target && !this.stopped) {
+            cursor = await this.sync(target);
+        }
+
+        return cursor;
+    }
+
+    // Keeps indexing new blocks until `stop` is called.
+    async tail(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                await this.backfill();
+            } catch (error) {
+                if (!(error instanceof ReorgDuringSyncError)) {
+                    throw error;
+                }
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    // Rolls back any reorged blocks, then indexes a single batch of at most `batchSize` blocks.
+    async sync(target?: number): Promise<number> {
+        await this.handleReorg();
+
+        const head = target ?? (await this.getConfirmedHead());
+        const fromBlock = this.getCursor() + 1;
+        const toBlock = Math.min(head, fromBlock + this.options.batchSize - 1);
+        if (fromBlock > toBlock) {
+            return this.getCursor();
+        }
+
+        await this.indexRange(fromBlock, toBlock);
+
+        return toBlock;
+    }
+
+    private getCursor(): number {
+        return this.db.getCursor() ?? this.options.startBlock - 1;
+    }
+
+    private async getConfirmedHead(): Promise<number> {
+        const head = await this.provider.getBlockNumber();
+
+        return Math.max(head - this.options.confirmations, this.options.startBlock - 1);
+    }
+
+    // Walks the stored blocks back from the newest until one still matches the chain,
+    // and rolls the database back to it.
+    private async handleReorg(): Promise<void> {
+        const latest = this.db.getLatestBlock();
+        if (!latest || (await this.provider.getBlock(latest.number))?.hash === latest.hash) {
+            return;
+        }
+
+        let ancestor = this.options.startBlock - 1;
+        for (const stored of this.db.getBlocks()) {
+            const block = await this.provider.getBlock(stored.number);
+            if (block?.hash === stored.hash) {
+                ancestor = stored.number;
+                break;
+            }
+        }
+
+        const campaigns = this.db.transaction(() => this.db.rollback(ancestor));
+        await this.refreshCampaigns(campaigns, ancestor);
+    }
+
+    private async indexRange(fromBlock: number, toBlock: number): Promise<void> {
+        // Groups created in this range must be known before their own logs are requested.
+        const discovered = await this.discoverGroups(fromBlock, toBlock);
+        const markets = [...this.db.getMarkets(), ...discovered];
+        const kinds = new Map(markets.map((market) => [market.address, market.kind]));
+
+        const addresses = [...kinds.keys(), ...this.campaigns];
+        const logs =
+            addresses.length === 0
+                ? []
+                : await this.provider.getLogs({
+                      address: [...addresses, ...this.bases],
+                      fromBlock,
+                      toBlock,
+                      topics: [
+                          [
+                              ...getTopics(groupTokenInterface, [
+                                  'TokensPurchased',
+                                  'TokensSold',
+                                  'Transfer',
+                              ]),
+                              ...getTopics(membershipInterface, [
+                                  'MembershipPurchased',
+                                  'MembershipSold',
+                              ]),
+                              ...getTopics(campaignsInterface, CAMPAIGN_EVENTS),
+                              ...getTopics(baseInterface, ['FeeTierApplied']),
+                          ],
+                      ],
+                  });
+        logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+        const blockNumbers = new Set([...logs.map((log) => log.blockNumber), toBlock]);
+        const blocks = new Map<number, BlockRecord>();
+        for (const number of blockNumbers) {
+            blocks.set(number, await this.getBlockRecord(number));
+        }
+        for (const log of logs) {
+            if (blocks.get(log.blockNumber)!.hash !== log.blockHash) {
+                throw new ReorgDuringSyncError(log.blockNumber);
+            }
+        }
+
+        const trades: Trade[] = [];
+        const writes: (() => void)[] = [];
+        const touchedCampaigns = new Map<string, CampaignKey>();
+        const marketStates = new Map<string, MarketState>();
+
+        for (const log of logs) {
+            const timestamp = blocks.get(log.blockNumber)!.timestamp;
+            const kind = kinds.get(log.address);
+
+            if (this.bases.includes(log.address)) {
+                const { group, tier, volume, protocolFeePercent, feeSharePercent } =
+                    baseInterface.parseLog(log)!.args;
+                if (addresses.includes(group)) {
+                    writes.push(() =>
+                        this.db.addFeeTier({
+                            contract: group,
+                            tier: Number(tier),
+                            volume,
+                            protocolFeePercent: Number(protocolFeePercent),
+                            feeSharePercent: Number(feeSharePercent),
+                            blockNumber: log.blockNumber,
+                            transactionHash: log.transactionHash,
+                            logIndex: log.index,
+                        }),
+                    );
+                }
+                continue;
+            }
+
+            if (kind === undefined) {
+                const event = campaignsInterface.parseLog(log)!;
+                const key = { campaigns: log.address, campaignId: event.args.campaignId as bigint };
+                writes.push(() =>
+                    this.db.addCampaignEvent({
+                        ...key,
+                        name: event.name,
+                        ...getCampaignEventDetails(event),
+                        blockNumber: log.blockNumber,
+                        timestamp,
+                        transactionHash: log.transactionHash,
+                        logIndex: log.index,
+                    }),
+                );
+                touchedCampaigns.set(`${key.campaigns}:${key.campaignId}`, key);
+                continue;
+            }
+
+            const event = (kind === 'token' ? groupTokenInterface : membershipInterface).parseLog(
+                log,
+            )!;
+            if (event.name === 'Transfer') {
+                const [sender, recipient, amount] = event.args;
+                writes.push(() =>
+                    this.db.addTransfer({
+                        market: log.address,
+                        sender,
+                        recipient,
+                        // ERC721 transfers carry a token ID, each of which counts as one membership.
+                        amount: kind === 'token' ? amount : 1n,
+                        blockNumber: log.blockNumber,
+                        logIndex: log.index,
+                    }),
+                );
+                continue;
+            }
+
+            // Trades are priced from the reserve and supply at the end of their block.
+            const stateKey = `${log.address}:${log.blockNumber}`;
+            if (!marketStates.has(stateKey)) {
+                marketStates.set(
+                    stateKey,
+                    await this.getMarketState(log.address, kind, log.blockNumber),
+                );
+            }
+            trades.push({
+                market: log.address,
+                ...getTradeDetails(kind, event),
+                ...marketStates.get(stateKey)!,
+                blockNumber: log.blockNumber,
+                timestamp,
+                transactionHash: log.transactionHash,
+                logIndex: log.index,
+            });
+        }
+
+        // Campaign states are read as of the end of the batch.
+        const campaignStates = new Map<string, CampaignState>();
+        for (const [id, key] of touchedCampaigns) {
+            campaignStates.set(id, await this.getCampaignState(key, toBlock));
+        }
+
+        this.db.transaction(() => {
+            for (const market of discovered) {
+                this.db.addMarket(market);
+            }
+            for (const block of blocks.values()) {
+                this.db.saveBlock(block);
+            }
+            for (const write of writes) {
+                write();
+            }
+            for (const trade of trades) {
+                this.db.addTrade(trade);
+            }
+            for (const [id, key] of touchedCampaigns) {
+                this.db.refreshCampaign(key, campaignStates.get(id), toBlock);
+            }
+            this.db.setCursor(toBlock);
+        });
+    }
+
+    private async discoverGroups(fromBlock: number, toBlock: number): Promise<Market[]> {
+        if (this.factories.length === 0) {
+            return [];
+        }
+
+        const logs: Log[] = await this.provider.getLogs({
+            address: this.factories,
+            fromBlock,
+            toBlock,
+            topics: getTopics(factoryInterface, ['GroupCreated']),
+        });
+
+        return logs.flatMap((log) => {
+            const { groupId, host, groupToken, membership } = factoryInterface.parseLog(log)!.args;
+            const group = { groupId, host, blockNumber: log.blockNumber };
+
+            return [
+                { address: groupToken, kind: 'token' as MarketKind, ...group },
+                { address: membership, kind: 'membership' as MarketKind, ...group },
+            ];
+        });
+    }
+
+    private async getBlockRecord(number: number): Promise<BlockRecord> {
+        const block = await this.provider.getBlock(number);
+        if (!block?.hash) {
+            throw new ReorgDuringSyncError(number);
+        }
+
+        return { number, hash: block.hash, timestamp: block.timestamp };
+    }
+
+    private async getMarketState(
+        address: string,
+        kind: MarketKind,
+        blockTag: number,
+    ): Promise<MarketState> {
+        if (kind === 'membership') {
+            const membership = GroupMembershipNFT__factory.connect(address, this.provider);
+            const [reserve, supply] = await Promise.all([
+                membership.getReserveBalance({ blockTag }),
+                membership.getCurrentSupply({ blockTag }),
+            ]);
+
+            return { reserve, supply, price: getMembershipPrice(reserve, supply) };
+        }
+
+        const groupToken = GroupToken__factory.connect(address, this.provider);
+        if (!this.bondingCurves.has(address)) {
+            this.bondingCurves.set(address, await groupToken.getBondingCurveProxyAddress());
+        }
+        const bondingCurve = IBondingCurve__factory.connect(
+            this.bondingCurves.get(address)!,
+            this.provider,
+        );
+        const [reserve, supply] = await Promise.all([
+            groupToken.getReserveBalance({ blockTag }),
+            groupToken.totalSupply({ blockTag }),
+        ]);
+        const price = await bondingCurve.getSpotPrice(supply, reserve, { blockTag });
+
+        return { reserve, supply, price };
+    }
+
+    private async getCampaignState(key: CampaignKey, blockTag: number): Promise<CampaignState> {
+        const campaigns = AlphaCampaigns__factory.connect(key.campaigns, this.provider);
+        const { host, deadline, slotPrice, totalRaised, slotsAvailable } =
+            await campaigns.getCampaignById(key.campaignId, { blockTag });
+
+        return { host, deadline, slotPrice, totalRaised, slotsAvailable };
+    }
+
+    // Re-reads the campaigns touched by rolled back events as of the common ancestor,
+    // dropping the ones that have no events left.
+    private async refreshCampaigns(keys: CampaignKey[], ancestor: number): Promise<void> {
+        for (const key of keys) {
+            const state = this.db.hasCampaignEvents(key)
+                ? await this.getCampaignState(key, ancestor)
+                : undefined;
+            this.db.transaction(() => this.db.refreshCampaign(key, state, ancestor));
+        }
+    }
+}
+
+function getTradeDetails(
+    kind: MarketKind,
+    event: LogDescription,
+): Pick<Trade, 'side' | 'trader' | 'value' | 'fees' | 'quantity'> {
+    switch (event.name) {
+        case 'TokensPurchased':
+        case 'MembershipPurchased': {
+            const { buyer, amountSpent, fees, tokensMinted } = event.args;
+            const quantity = kind === 'token' ? tokensMinted : 1n;
+
+            return { side: 'buy', trader: buyer, value: amountSpent, fees, quantity };
+        }
+        case 'TokensSold': {
+            const { seller, amountReceived, fees, tokensBurnt } = event.args;
+
+            return {
+                side: 'sell',
+                trader: seller,
+                value: amountReceived,
+                fees,
+                quantity: tokensBurnt,
+            };
+        }
+        case 'MembershipSold': {
+            const { owner, amountReceived, fees } = event.args;
+
+            return { side: 'sell', trader: owner, value: amountReceived, fees, quantity: 1n };
+        }
+        default:
+            throw new Error(`Unexpected market event ${event.name}`);
+    }
+}
+
+function getCampaignEventDetails(event: LogDescription): { account?: string; amount?: bigint } {
+    switch (event.name) {
+        case 'CampaignCreated':
+            return { account: event.args.host };
+        case 'SponsorAccepted':
+            return { account: event.args.sponsor, amount: event.args.amount };
+        case 'CampaignTipped':
+        case 'TipRefunded':
+            return { account: event.args.fan, amount: event.args.amount };
+        case 'CampaignCompleted':
+        case 'FundsWithdrawn':
+            return { amount: event.args.totalRaised };
+        default:
+            return {};
+    }
+}
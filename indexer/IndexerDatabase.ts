@@ -0,0 +1,819 @@
+import Database from 'better-sqlite3';
+import { ZeroAddress } from 'ethers';
+import { Candle, getCandleStart, mergeCandle } from './pricing';
+import { SCHEMA } from './schema';
+
+export type MarketKind = 'token' | 'membership';
+
+export type CampaignStatus = 'active' | 'ended' | 'completed';
+
+export interface Market {
+    address: string;
+    kind: MarketKind;
+    groupId?: bigint;
+    host?: string;
+    // Set for markets discovered on-chain, so they are dropped again if their block is reorged out.
+    blockNumber?: number;
+}
+
+export interface BlockRecord {
+    number: number;
+    hash: string;
+    timestamp: number;
+}
+
+export interface Trade {
+    market: string;
+    side: 'buy' | 'sell';
+    trader: string;
+    value: bigint;
+    fees: bigint;
+    quantity: bigint;
+    reserve: bigint;
+    supply: bigint;
+    price: bigint;
+    blockNumber: number;
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+export interface Transfer {
+    market: string;
+    sender: string;
+    recipient: string;
+    amount: bigint;
+    blockNumber: number;
+    logIndex: number;
+}
+
+export interface TimedTransfer extends Transfer {
+    timestamp: number;
+}
+
+export interface CampaignKey {
+    campaigns: string;
+    campaignId: bigint;
+}
+
+export interface CampaignEvent extends CampaignKey {
+    name: string;
+    account?: string;
+    amount?: bigint;
+    blockNumber: number;
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+// A fee tier applied by AlphaMarketBase, from its `FeeTierApplied` event. Percentages are in basis points.
+export interface FeeTierRecord {
+    contract: string;
+    tier: number;
+    volume: bigint;
+    protocolFeePercent: number;
+    feeSharePercent: number;
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+// Campaign fields as returned by `AlphaCampaigns.getCampaignById`.
+export interface CampaignState {
+    host: string;
+    deadline: bigint;
+    slotPrice: bigint;
+    totalRaised: bigint;
+    slotsAvailable: bigint;
+}
+
+export interface CampaignRecord extends CampaignKey, CampaignState {
+    sponsors: number;
+    tips: bigint;
+    status: CampaignStatus;
+    blockNumber: number;
+}
+
+// Points an account earned in an epoch, broken down by the interaction they were earned for.
+export interface AccountPoints {
+    account: string;
+    tokenMint: bigint;
+    membershipPurchase: bigint;
+    membershipHolding: bigint;
+    sponsorship: bigint;
+    tip: bigint;
+    total: bigint;
+}
+
+interface TradeRow {
+    market: string;
+    side: 'buy' | 'sell';
+    trader: string;
+    value: string;
+    fees: string;
+    quantity: string;
+    reserve: string;
+    supply: string;
+    price: string;
+    block_number: number;
+    timestamp: number;
+    transaction_hash: string;
+    log_index: number;
+}
+
+interface CampaignEventRow {
+    campaigns: string;
+    campaign_id: string;
+    name: string;
+    account: string | null;
+    amount: string | null;
+    block_number: number;
+    timestamp: number;
+    transaction_hash: string;
+    log_index: number;
+}
+
+interface FeeTierRow {
+    contract: string;
+    tier: number;
+    volume: string;
+    protocol_fee_percent: number;
+    fee_share_percent: number;
+    block_number: number;
+    transaction_hash: string;
+    log_index: number;
+}
+
+interface PointsRow {
+    account: string;
+    token_mint: string;
+    membership_purchase: string;
+    membership_holding: string;
+    sponsorship: string;
+    tip: string;
+    total: string;
+}
+
+interface CandleRow {
+    start: number;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volume: string;
+    trades: number;
+}
+
+const CURSOR_KEY = 'cursor';
+
+// Persistence layer of the indexer. Raw events are kept alongside the derived tables so that
+// candles, balances and campaign states can be rebuilt after a reorg removes blocks.
+export class IndexerDatabase {
+    readonly db: Database.Database;
+
+    constructor(
+        filename: string = ':memory:',
+        readonly candleIntervals: number[] = [60, 3600, 86400],
+    ) {
+        this.db = new Database(filename);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+    }
+
+    // Runs `action` atomically, so a failed batch never leaves partially indexed blocks behind.
+    transaction<T>(action: () => T): T {
+        return this.db.transaction(action)();
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    // Last block whose logs have been fully indexed.
+    getCursor(): number | undefined {
+        const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(CURSOR_KEY) as
+            | { value: string }
+            | undefined;
+
+        return row ? Number(row.value) : undefined;
+    }
+
+    setCursor(blockNumber: number): void {
+        this.db
+            .prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+            .run(CURSOR_KEY, blockNumber.toString());
+    }
+
+    saveBlock(block: BlockRecord): void {
+        this.db
+            .prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)')
+            .run(block.number, block.hash, block.timestamp);
+    }
+
+    getLatestBlock(): BlockRecord | undefined {
+        return this.db
+            .prepare('SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT 1')
+            .get() as BlockRecord | undefined;
+    }
+
+    // Indexed blocks from the newest down, which is the order a reorg is walked back in.
+    getBlocks(): BlockRecord[] {
+        return this.db
+            .prepare('SELECT number, hash, timestamp FROM blocks ORDER BY number DESC')
+            .all() as BlockRecord[];
+    }
+
+    addMarket(market: Market): void {
+        this.db
+            .prepare(
+                `INSERT OR IGNORE INTO markets (address, kind, group_id, host, block_number)
+                 VALUES (?, ?, ?, ?, ?)`,
+            )
+            .run(
+                market.address,
+                market.kind,
+                market.groupId?.toString() ?? null,
+                market.host ?? null,
+                market.blockNumber ?? null,
+            );
+    }
+
+    getMarkets(): Market[] {
+        const rows = this.db
+            .prepare('SELECT address, kind, group_id, host, block_number FROM markets')
+            .all() as {
+            address: string;
+            kind: MarketKind;
+            group_id: string | null;
+            host: string | null;
+            block_number: number | null;
+        }[];
+
+        return rows.map((row) => ({
+            address: row.address,
+            kind: row.kind,
+            groupId: row.group_id === null ? undefined : BigInt(row.group_id),
+            host: row.host ?? undefined,
+            blockNumber: row.block_number ?? undefined,
+        }));
+    }
+
+    // Stores a trade and folds it into the candles of every configured interval.
+    addTrade(trade: Trade): void {
+        this.db
+            .prepare(
+                `INSERT INTO trades (market, side, trader, value, fees, quantity, reserve, supply, price,
+                    block_number, timestamp, transaction_hash, log_index)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                trade.market,
+                trade.side,
+                trade.trader,
+                trade.value.toString(),
+                trade.fees.toString(),
+                trade.quantity.toString(),
+                trade.reserve.toString(),
+                trade.supply.toString(),
+                trade.price.toString(),
+                trade.blockNumber,
+                trade.timestamp,
+                trade.transactionHash,
+                trade.logIndex,
+            );
+
+        for (const interval of this.candleIntervals) {
+            const start = getCandleStart(trade.timestamp, interval);
+            const candle = this.getCandle(trade.market, interval, start);
+            this.saveCandle(
+                trade.market,
+                interval,
+                mergeCandle(candle, start, trade.price, trade.value),
+            );
+        }
+    }
+
+    getTrades(market: string): Trade[] {
+        const rows = this.db
+            .prepare('SELECT * FROM trades WHERE market = ? ORDER BY block_number, log_index')
+            .all(market) as TradeRow[];
+
+        return rows.map(toTrade);
+    }
+
+    // Trades of every market with `start <= timestamp < end`.
+    getTradesBetween(start: number, end: number): Trade[] {
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM trades WHERE timestamp >= ? AND timestamp < ?
+                 ORDER BY block_number, log_index`,
+            )
+            .all(start, end) as TradeRow[];
+
+        return rows.map(toTrade);
+    }
+
+    addFeeTier(feeTier: FeeTierRecord): void {
+        this.db
+            .prepare(
+                `INSERT INTO fee_tiers (contract, tier, volume, protocol_fee_percent, fee_share_percent,
+                    block_number, transaction_hash, log_index)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                feeTier.contract,
+                feeTier.tier,
+                feeTier.volume.toString(),
+                feeTier.protocolFeePercent,
+                feeTier.feeSharePercent,
+                feeTier.blockNumber,
+                feeTier.transactionHash,
+                feeTier.logIndex,
+            );
+    }
+
+    // Fee tiers applied to a market or campaigns contract, oldest first.
+    getFeeTiers(contract: string): FeeTierRecord[] {
+        const rows = this.db
+            .prepare('SELECT * FROM fee_tiers WHERE contract = ? ORDER BY block_number, log_index')
+            .all(contract) as FeeTierRow[];
+
+        return rows.map(toFeeTier);
+    }
+
+    // The fee tier applied to a trade, if its AlphaMarketBase contract is indexed.
+    getTradeFeeTier(trade: Trade): FeeTierRecord | undefined {
+        const row = this.db
+            .prepare(
+                `SELECT * FROM fee_tiers WHERE contract = ? AND transaction_hash = ? AND log_index < ?
+                 ORDER BY log_index DESC LIMIT 1`,
+            )
+            .get(trade.market, trade.transactionHash, trade.logIndex) as FeeTierRow | undefined;
+
+        return row ? toFeeTier(row) : undefined;
+    }
+
+    getCandles(market: string, interval: number): Candle[] {
+        const rows = this.db
+            .prepare(
+                `SELECT start, open, high, low, close, volume, trades FROM candles
+                 WHERE market = ? AND interval = ? ORDER BY start`,
+            )
+            .all(market, interval) as CandleRow[];
+
+        return rows.map(toCandle);
+    }
+
+    // Stores a transfer and applies it to the sender's and recipient's balances.
+    addTransfer(transfer: Transfer): void {
+        this.db
+            .prepare(
+                `INSERT INTO transfers (market, sender, recipient, amount, block_number, log_index)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                transfer.market,
+                transfer.sender,
+                transfer.recipient,
+                transfer.amount.toString(),
+                transfer.blockNumber,
+                transfer.logIndex,
+            );
+
+        this.setBalance(
+            transfer.market,
+            transfer.sender,
+            this.getBalance(transfer.market, transfer.sender) - transfer.amount,
+        );
+        this.setBalance(
+            transfer.market,
+            transfer.recipient,
+            this.getBalance(transfer.market, transfer.recipient) + transfer.amount,
+        );
+    }
+
+    // Transfers of a market up to, but excluding, `end`, with the timestamp of their block.
+    getTransfersUntil(market: string, end: number): TimedTransfer[] {
+        const rows = this.db
+            .prepare(
+                `SELECT transfers.*, blocks.timestamp FROM transfers
+                 JOIN blocks ON blocks.number = transfers.block_number
+                 WHERE market = ? AND blocks.timestamp < ?
+                 ORDER BY transfers.block_number, transfers.log_index`,
+            )
+            .all(market, end) as {
+            market: string;
+            sender: string;
+            recipient: string;
+            amount: string;
+            block_number: number;
+            log_index: number;
+            timestamp: number;
+        }[];
+
+        return rows.map((row) => ({
+            market: row.market,
+            sender: row.sender,
+            recipient: row.recipient,
+            amount: BigInt(row.amount),
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            timestamp: row.timestamp,
+        }));
+    }
+
+    getBalance(market: string, holder: string): bigint {
+        const row = this.db
+            .prepare('SELECT balance FROM balances WHERE market = ? AND holder = ?')
+            .get(market, holder) as { balance: string } | undefined;
+
+        return row ? BigInt(row.balance) : 0n;
+    }
+
+    // Holders of a market with a non-zero balance, largest first.
+    getHolders(market: string): { holder: string; balance: bigint }[] {
+        const rows = this.db
+            .prepare('SELECT holder, balance FROM balances WHERE market = ?')
+            .all(market) as { holder: string; balance: string }[];
+
+        return rows
+            .map((row) => ({ holder: row.holder, balance: BigInt(row.balance) }))
+            .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+    }
+
+    addCampaignEvent(event: CampaignEvent): void {
+        this.db
+            .prepare(
+                `INSERT INTO campaign_events (campaigns, campaign_id, name, account, amount,
+                    block_number, timestamp, transaction_hash, log_index)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                event.campaigns,
+                event.campaignId.toString(),
+                event.name,
+                event.account ?? null,
+                event.amount?.toString() ?? null,
+                event.blockNumber,
+                event.timestamp,
+                event.transactionHash,
+                event.logIndex,
+            );
+    }
+
+    // Campaign events of every campaign with `start <= timestamp < end`.
+    getCampaignEventsBetween(start: number, end: number): CampaignEvent[] {
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM campaign_events WHERE timestamp >= ? AND timestamp < ?
+                 ORDER BY block_number, log_index`,
+            )
+            .all(start, end) as CampaignEventRow[];
+
+        return rows.map((row) => ({
+            campaigns: row.campaigns,
+            campaignId: BigInt(row.campaign_id),
+            name: row.name,
+            account: row.account ?? undefined,
+            amount: row.amount === null ? undefined : BigInt(row.amount),
+            blockNumber: row.block_number,
+            timestamp: row.timestamp,
+            transactionHash: row.transaction_hash,
+            logIndex: row.log_index,
+        }));
+    }
+
+    hasCampaignEvents(key: CampaignKey): boolean {
+        const row = this.db
+            .prepare(
+                'SELECT 1 FROM campaign_events WHERE campaigns = ? AND campaign_id = ? LIMIT 1',
+            )
+            .get(key.campaigns, key.campaignId.toString());
+
+        return row !== undefined;
+    }
+
+    // Writes the on-chain state of a campaign together with the totals derived from its events.
+    // Passing no state removes the campaign, e.g. when its creation was reorged out.
+    refreshCampaign(key: CampaignKey, state?: CampaignState, blockNumber?: number): void {
+        const campaignId = key.campaignId.toString();
+        if (!state || blockNumber === undefined) {
+            this.db
+                .prepare('DELETE FROM campaigns WHERE campaigns = ? AND campaign_id = ?')
+                .run(key.campaigns, campaignId);
+            return;
+        }
+
+        const events = this.db
+            .prepare(
+                `SELECT name, amount FROM campaign_events WHERE campaigns = ? AND campaign_id = ?
+                 ORDER BY block_number, log_index`,
+            )
+            .all(key.campaigns, campaignId) as { name: string; amount: string | null }[];
+
+        let sponsors = 0;
+        let tips = 0n;
+        let status: CampaignStatus = 'active';
+        for (const event of events) {
+            if (event.name === 'SponsorAccepted') sponsors++;
+            if (event.name === 'CampaignTipped') tips += BigInt(event.amount ?? 0);
+            if (event.name === 'TipRefunded') tips -= BigInt(event.amount ?? 0);
+            if (event.name === 'CampaignEnded') status = 'ended';
+            if (event.name === 'CampaignCompleted') status = 'completed';
+        }
+
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO campaigns (campaigns, campaign_id, host, deadline, slot_price,
+                    total_raised, slots_available, sponsors, tips, status, block_number)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                key.campaigns,
+                campaignId,
+                state.host,
+                Number(state.deadline),
+                state.slotPrice.toString(),
+                state.totalRaised.toString(),
+                Number(state.slotsAvailable),
+                sponsors,
+                tips.toString(),
+                status,
+                blockNumber,
+            );
+    }
+
+    getCampaign(key: CampaignKey): CampaignRecord | undefined {
+        const row = this.db
+            .prepare('SELECT * FROM campaigns WHERE campaigns = ? AND campaign_id = ?')
+            .get(key.campaigns, key.campaignId.toString()) as
+            | {
+                  campaigns: string;
+                  campaign_id: string;
+                  host: string;
+                  deadline: number;
+                  slot_price: string;
+                  total_raised: string;
+                  slots_available: number;
+                  sponsors: number;
+                  tips: string;
+                  status: CampaignStatus;
+                  block_number: number;
+              }
+            | undefined;
+        if (!row) {
+            return undefined;
+        }
+
+        return {
+            campaigns: row.campaigns,
+            campaignId: BigInt(row.campaign_id),
+            host: row.host,
+            deadline: BigInt(row.deadline),
+            slotPrice: BigInt(row.slot_price),
+            totalRaised: BigInt(row.total_raised),
+            slotsAvailable: BigInt(row.slots_available),
+            sponsors: row.sponsors,
+            tips: BigInt(row.tips),
+            status: row.status,
+            blockNumber: row.block_number,
+        };
+    }
+
+    // Replaces the points stored for `epoch`.
+    savePoints(epoch: number, points: AccountPoints[]): void {
+        this.transaction(() => {
+            this.db.prepare('DELETE FROM points WHERE epoch = ?').run(epoch);
+            const insert = this.db.prepare(
+                `INSERT INTO points (epoch, account, token_mint, membership_purchase, membership_holding,
+                    sponsorship, tip, total)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            );
+            for (const entry of points) {
+                insert.run(
+                    epoch,
+                    entry.account,
+                    entry.tokenMint.toString(),
+                    entry.membershipPurchase.toString(),
+                    entry.membershipHolding.toString(),
+                    entry.sponsorship.toString(),
+                    entry.tip.toString(),
+                    entry.total.toString(),
+                );
+            }
+        });
+    }
+
+    // Points stored for `epoch`, highest total first, optionally limited to the top `limit` accounts.
+    getLeaderboard(epoch: number, limit?: number): AccountPoints[] {
+        const rows = this.db
+            .prepare('SELECT * FROM points WHERE epoch = ?')
+            .all(epoch) as PointsRow[];
+
+        const leaderboard = rows.map(toAccountPoints).sort(compareAccountPoints);
+
+        return limit === undefined ? leaderboard : leaderboard.slice(0, limit);
+    }
+
+    // Removes everything indexed after `blockNumber` and rebuilds the candles and balances it touched.
+    // Returns the campaigns whose state has to be re-read from the chain.
+    rollback(blockNumber: number): CampaignKey[] {
+        const removedTrades = this.db
+            .prepare(
+                `SELECT market, MIN(timestamp) AS timestamp FROM trades
+                 WHERE block_number > ? GROUP BY market`,
+            )
+            .all(blockNumber) as { market: string; timestamp: number }[];
+        const removedTransfers = this.db
+            .prepare(
+                `SELECT DISTINCT market, sender AS holder FROM transfers WHERE block_number > ?
+                 UNION SELECT DISTINCT market, recipient AS holder FROM transfers WHERE block_number > ?`,
+            )
+            .all(blockNumber, blockNumber) as { market: string; holder: string }[];
+        const removedCampaigns = this.db
+            .prepare(
+                `SELECT DISTINCT campaigns, campaign_id FROM campaign_events WHERE block_number > ?`,
+            )
+            .all(blockNumber) as { campaigns: string; campaign_id: string }[];
+
+        for (const table of ['trades', 'transfers', 'campaign_events', 'fee_tiers', 'blocks']) {
+            const column = table === 'blocks' ? 'number' : 'block_number';
+            this.db.prepare(`DELETE FROM ${table} WHERE ${column} > ?`).run(blockNumber);
+        }
+        this.db.prepare('DELETE FROM markets WHERE block_number > ?').run(blockNumber);
+
+        for (const { market, timestamp } of removedTrades) {
+            this.rebuildCandles(market, timestamp);
+        }
+        for (const { market, holder } of removedTransfers) {
+            this.rebuildBalance(market, holder);
+        }
+        this.setCursor(blockNumber);
+
+        return removedCampaigns.map((row) => ({
+            campaigns: row.campaigns,
+            campaignId: BigInt(row.campaign_id),
+        }));
+    }
+
+    private getCandle(market: string, interval: number, start: number): Candle | undefined {
+        const row = this.db
+            .prepare(
+                `SELECT start, open, high, low, close, volume, trades FROM candles
+                 WHERE market = ? AND interval = ? AND start = ?`,
+            )
+            .get(market, interval, start) as CandleRow | undefined;
+
+        return row ? toCandle(row) : undefined;
+    }
+
+    private saveCandle(market: string, interval: number, candle: Candle): void {
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO candles (market, interval, start, open, high, low, close, volume, trades)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                market,
+                interval,
+                candle.start,
+                candle.open.toString(),
+                candle.high.toString(),
+                candle.low.toString(),
+                candle.close.toString(),
+                candle.volume.toString(),
+                candle.trades,
+            );
+    }
+
+    // Drops the candles from the one containing `timestamp` onwards and refolds the remaining trades.
+    private rebuildCandles(market: string, timestamp: number): void {
+        for (const interval of this.candleIntervals) {
+            const start = getCandleStart(timestamp, interval);
+            this.db
+                .prepare('DELETE FROM candles WHERE market = ? AND interval = ? AND start >= ?')
+                .run(market, interval, start);
+
+            const trades = this.db
+                .prepare(
+                    `SELECT * FROM trades WHERE market = ? AND timestamp >= ?
+                     ORDER BY block_number, log_index`,
+                )
+                .all(market, start) as TradeRow[];
+
+            let candle: Candle | undefined;
+            for (const trade of trades.map(toTrade)) {
+                const next = mergeCandle(
+                    candle,
+                    getCandleStart(trade.timestamp, interval),
+                    trade.price,
+                    trade.value,
+                );
+                if (candle && candle.start !== next.start) {
+                    this.saveCandle(market, interval, candle);
+                }
+                candle = next;
+            }
+            if (candle) {
+                this.saveCandle(market, interval, candle);
+            }
+        }
+    }
+
+    private rebuildBalance(market: string, holder: string): void {
+        const transfers = this.db
+            .prepare(
+                `SELECT sender, recipient, amount FROM transfers
+                 WHERE market = ? AND (sender = ? OR recipient = ?)`,
+            )
+            .all(market, holder, holder) as { sender: string; recipient: string; amount: string }[];
+
+        let balance = 0n;
+        for (const transfer of transfers) {
+            if (transfer.recipient === holder) balance += BigInt(transfer.amount);
+            if (transfer.sender === holder) balance -= BigInt(transfer.amount);
+        }
+        this.setBalance(market, holder, balance);
+    }
+
+    // Mints and burns move balances to and from the zero address, which is not a holder.
+    private setBalance(market: string, holder: string, balance: bigint): void {
+        if (holder === ZeroAddress) {
+            return;
+        }
+        if (balance === 0n) {
+            this.db
+                .prepare('DELETE FROM balances WHERE market = ? AND holder = ?')
+                .run(market, holder);
+            return;
+        }
+
+        this.db
+            .prepare('INSERT OR REPLACE INTO balances (market, holder, balance) VALUES (?, ?, ?)')
+            .run(market, holder, balance.toString());
+    }
+}
+
+function toTrade(row: TradeRow): Trade {
+    return {
+        market: row.market,
+        side: row.side,
+        trader: row.trader,
+        value: BigInt(row.value),
+        fees: BigInt(row.fees),
+        quantity: BigInt(row.quantity),
+        reserve: BigInt(row.reserve),
+        supply: BigInt(row.supply),
+        price: BigInt(row.price),
+        blockNumber: row.block_number,
+        timestamp: row.timestamp,
+        transactionHash: row.transaction_hash,
+        logIndex: row.log_index,
+    };
+}
+
+function toFeeTier(row: FeeTierRow): FeeTierRecord {
+    return {
+        contract: row.contract,
+        tier: row.tier,
+        volume: BigInt(row.volume),
+        protocolFeePercent: row.protocol_fee_percent,
+        feeSharePercent: row.fee_share_percent,
+        blockNumber: row.block_number,
+        transactionHash: row.transaction_hash,
+        logIndex: row.log_index,
+    };
+}
+
+function toAccountPoints(row: PointsRow): AccountPoints {
+    return {
+        account: row.account,
+        tokenMint: BigInt(row.token_mint),
+        membershipPurchase: BigInt(row.membership_purchase),
+        membershipHolding: BigInt(row.membership_holding),
+        sponsorship: BigInt(row.sponsorship),
+        tip: BigInt(row.tip),
+        total: BigInt(row.total),
+    };
+}
+
+// Orders accounts by total points, highest first, breaking ties by address so rankings are stable.
+export function compareAccountPoints(a: AccountPoints, b: AccountPoints): number {
+    if (a.total !== b.total) {
+        return a.total > b.total ? -1 : 1;
+    }
+
+    return a.account < b.account ? -1 : a.account > b.account ? 1 : 0;
+}
+
+function toCandle(row: CandleRow): Candle {
+    return {
+        start: row.start,
+        open: BigInt(row.open),
+        high: BigInt(row.high),
+        low: BigInt(row.low),
+        close: BigInt(row.close),
+        volume: BigInt(row.volume),
+        trades: row.trades,
+    };
+}
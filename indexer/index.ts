@@ -0,0 +1,4 @@
+export * from './EventIndexer';
+export * from './IndexerDatabase';
+export * from './pricing';
+export * from './points';
@@ -0,0 +1,186 @@
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
+import { ZeroAddress } from 'ethers';
+import { PRECISION } from '../sdk/math/utils';
+import { AccountPoints, compareAccountPoints, IndexerDatabase } from './IndexerDatabase';
+
+// Weights mirroring `AlphaMarketPoints.PointWeights`.
+export interface PointWeights {
+    // Points per Ether spent minting group tokens.
+    tokenMint: bigint;
+    // Points per membership purchased.
+    membershipPurchase: bigint;
+    // Points per membership held for a day.
+    membershipHolding: bigint;
+    // Points per Ether of accepted campaign sponsorships.
+    sponsorship: bigint;
+    // Points per Ether tipped to campaigns.
+    tip: bigint;
+}
+
+export const DEFAULT_POINT_WEIGHTS: PointWeights = {
+    tokenMint: 1000n,
+    membershipPurchase: 100n,
+    membershipHolding: 10n,
+    sponsorship: 2000n,
+    tip: 1000n,
+};
+
+export interface Epoch {
+    index: number;
+    // Inclusive start and exclusive end timestamps.
+    start: number;
+    end: number;
+}
+
+// Claimable points of one epoch: the Merkle root to publish and each account's points and proof.
+export interface PointsSnapshot {
+    epoch: number;
+    root: string;
+    total: string;
+    claims: Record<string, { points: string; proof: string[] }>;
+}
+
+// Leaf encoding of `AlphaMarketPoints.claimPoints`: (account, epoch, points).
+export const POINTS_LEAF_ENCODING = ['address', 'uint256', 'uint256'];
+
+const DAY = 86400n;
+
+// Epoch `index` of epochs `length` seconds long counted from `genesis`, as in `AlphaMarketPoints.getEpochStart`.
+export function getEpoch(index: number, genesis: number, length: number): Epoch {
+    const start = genesis + index * length;
+
+    return { index, start, end: start + length };
+}
+
+// Computes the points every account earned in `epoch` from the indexed trades, transfers and campaign events.
+// Mints and purchases are credited to the trader, sponsorships to the sponsor and tips net of refunds to the fan.
+// Holding points are time weighted, so a membership held for half the epoch earns half the epoch's holding points.
+export function computeEpochPoints(
+    db: IndexerDatabase,
+    epoch: Epoch,
+    weights: PointWeights,
+): AccountPoints[] {
+    const accounts = new Map<string, AccountPoints>();
+    const entry = (account: string) => {
+        if (!accounts.has(account)) {
+            accounts.set(account, {
+                account,
+                tokenMint: 0n,
+                membershipPurchase: 0n,
+                membershipHolding: 0n,
+                sponsorship: 0n,
+                tip: 0n,
+                total: 0n,
+            });
+        }
+        return accounts.get(account)!;
+    };
+
+    const markets = db.getMarkets();
+    const kinds = new Map(markets.map((market) => [market.address, market.kind]));
+    for (const trade of db.getTradesBetween(epoch.start, epoch.end)) {
+        if (trade.side !== 'buy') continue;
+        if (kinds.get(trade.market) === 'token') {
+            entry(trade.trader).tokenMint += (trade.value * weights.tokenMint) / PRECISION;
+        } else {
+            entry(trade.trader).membershipPurchase += trade.quantity * weights.membershipPurchase;
+        }
+    }
+
+    const tips = new Map<string, bigint>();
+    for (const event of db.getCampaignEventsBetween(epoch.start, epoch.end)) {
+        if (!event.account || event.amount === undefined) continue;
+        if (event.name === 'SponsorAccepted') {
+            entry(event.account).sponsorship += (event.amount * weights.sponsorship) / PRECISION;
+        }
+        if (event.name === 'CampaignTipped') {
+            tips.set(event.account, (tips.get(event.account) ?? 0n) + event.amount);
+        }
+        if (event.name === 'TipRefunded') {
+            tips.set(event.account, (tips.get(event.account) ?? 0n) - event.amount);
+        }
+    }
+    for (const [account, amount] of tips) {
+        if (amount > 0n) {
+            entry(account).tip += (amount * weights.tip) / PRECISION;
+        }
+    }
+
+    for (const market of markets.filter((market) => market.kind === 'membership')) {
+        for (const [account, heldSeconds] of getHeldSeconds(db, market.address, epoch)) {
+            entry(account).membershipHolding += (heldSeconds * weights.membershipHolding) / DAY;
+        }
+    }
+
+    return [...accounts.values()]
+        .map((points) => ({
+            ...points,
+            total:
+                points.tokenMint +
+                points.membershipPurchase +
+                points.membershipHolding +
+                points.sponsorship +
+                points.tip,
+        }))
+        .filter((points) => points.total > 0n)
+        .sort(compareAccountPoints);
+}
+
+// Membership-seconds each holder of `market` accumulated within the epoch, replaying its transfers.
+function getHeldSeconds(db: IndexerDatabase, market: string, epoch: Epoch): Map<string, bigint> {
+    const balances = new Map<string, { balance: bigint; since: number }>();
+    const heldSeconds = new Map<string, bigint>();
+    const accrue = (holder: string, until: number) => {
+        const state = balances.get(holder);
+        if (!state) return;
+        const from = Math.max(state.since, epoch.start);
+        if (state.balance > 0n && until > from) {
+            heldSeconds.set(
+                holder,
+                (heldSeconds.get(holder) ?? 0n) + state.balance * BigInt(until - from),
+            );
+        }
+    };
+    const move = (holder: string, delta: bigint, timestamp: number) => {
+        if (holder === ZeroAddress) return;
+        accrue(holder, timestamp);
+        balances.set(holder, {
+            balance: (balances.get(holder)?.balance ?? 0n) + delta,
+            since: timestamp,
+        });
+    };
+
+    for (const transfer of db.getTransfersUntil(market, epoch.end)) {
+        move(transfer.sender, -transfer.amount, transfer.timestamp);
+        move(transfer.recipient, transfer.amount, transfer.timestamp);
+    }
+    for (const holder of balances.keys()) {
+        accrue(holder, epoch.end);
+    }
+
+    return heldSeconds;
+}
+
+// Builds the Merkle tree of an epoch's points in the leaf format `AlphaMarketPoints` verifies.
+export function buildPointsSnapshot(epoch: number, points: AccountPoints[]): PointsSnapshot {
+    if (points.length === 0) {
+        throw new Error(`No points were earned in epoch ${epoch}`);
+    }
+
+    const tree = StandardMerkleTree.of<[string, bigint, bigint]>(
+        points.map((entry) => [entry.account, BigInt(epoch), entry.total]),
+        POINTS_LEAF_ENCODING,
+    );
+
+    const claims: PointsSnapshot['claims'] = {};
+    for (const [index, [account, , total]] of tree.entries()) {
+        claims[account] = { points: total.toString(), proof: tree.getProof(index) };
+    }
+
+    return {
+        epoch,
+        root: tree.root,
+        total: points.reduce((sum, entry) => sum + entry.total, 0n).toString(),
+        claims,
+    };
+}
@@ -0,0 +1,54 @@
+import { MAX_WEIGHT } from '../sdk/math/bancorFormula';
+import { PRECISION } from '../sdk/math/utils';
+
+export interface Candle {
+    start: number;
+    open: bigint;
+    high: bigint;
+    low: bigint;
+    close: bigint;
+    volume: bigint;
+    trades: number;
+}
+
+// Spot price in wei per whole group token on the Bancor curve: reserve / (supply * reserve ratio).
+// Mirrors `ExponentialBondingCurve.getSpotPrice`; other curve shapes are priced on-chain by the indexer.
+export function getTokenSpotPrice(reserve: bigint, supply: bigint, reserveRatio: bigint): bigint {
+    if (supply === 0n || reserveRatio === 0n) {
+        return 0n;
+    }
+
+    return (reserve * PRECISION * MAX_WEIGHT) / (supply * reserveRatio);
+}
+
+// Average reserve backing a membership, mirroring `MembershipPricingEngine.getMembershipValue`.
+export function getMembershipPrice(reserve: bigint, supply: bigint): bigint {
+    return supply === 0n ? 0n : reserve / supply;
+}
+
+// Start timestamp of the candle of `interval` seconds that `timestamp` falls into.
+export function getCandleStart(timestamp: number, interval: number): number {
+    return timestamp - (timestamp % interval);
+}
+
+// Folds a trade at `price` with `volume` wei into the candle, opening a new one if needed.
+export function mergeCandle(
+    candle: Candle | undefined,
+    start: number,
+    price: bigint,
+    volume: bigint,
+): Candle {
+    if (!candle || candle.start !== start) {
+        return { start, open: price, high: price, low: price, close: price, volume, trades: 1 };
+    }
+
+    return {
+        start,
+        open: candle.open,
+        high: price > candle.high ? price : candle.high,
+        low: price < candle.low ? price : candle.low,
+        close: price,
+        volume: candle.volume + volume,
+        trades: candle.trades + 1,
+    };
+}
@@ -0,0 +1,130 @@
+// SQLite schema written by the indexer.
+// Token amounts, prices and balances are stored as decimal strings because they overflow SQLite integers.
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+-- Every block the indexer has read logs from or stopped at, used to detect reorgs by hash.
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+);
+
+-- Group tokens and membership NFTs, either configured up front or discovered from GroupCreated events.
+CREATE TABLE IF NOT EXISTS markets (
+    address TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK (kind IN ('token', 'membership')),
+    group_id TEXT,
+    host TEXT,
+    block_number INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS trades (
+    market TEXT NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    trader TEXT NOT NULL,
+    value TEXT NOT NULL,
+    fees TEXT NOT NULL,
+    quantity TEXT NOT NULL,
+    reserve TEXT NOT NULL,
+    supply TEXT NOT NULL,
+    price TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS trades_market_timestamp ON trades (market, timestamp);
+
+CREATE TABLE IF NOT EXISTS candles (
+    market TEXT NOT NULL,
+    interval INTEGER NOT NULL,
+    start INTEGER NOT NULL,
+    open TEXT NOT NULL,
+    high TEXT NOT NULL,
+    low TEXT NOT NULL,
+    close TEXT NOT NULL,
+    volume TEXT NOT NULL,
+    trades INTEGER NOT NULL,
+    PRIMARY KEY (market, interval, start)
+);
+
+CREATE TABLE IF NOT EXISTS transfers (
+    market TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS transfers_market ON transfers (market);
+
+CREATE TABLE IF NOT EXISTS balances (
+    market TEXT NOT NULL,
+    holder TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    PRIMARY KEY (market, holder)
+);
+
+CREATE TABLE IF NOT EXISTS campaign_events (
+    campaigns TEXT NOT NULL,
+    campaign_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    account TEXT,
+    amount TEXT,
+    block_number INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS campaign_events_campaign ON campaign_events (campaigns, campaign_id);
+
+-- The AlphaMarketBase fee tier applied to each trade or campaign withdrawal, matched by transaction hash.
+CREATE TABLE IF NOT EXISTS fee_tiers (
+    contract TEXT NOT NULL,
+    tier INTEGER NOT NULL,
+    volume TEXT NOT NULL,
+    protocol_fee_percent INTEGER NOT NULL,
+    fee_share_percent INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS fee_tiers_contract ON fee_tiers (contract);
+
+-- Latest known state of each campaign, read from the contract at the block of its latest event.
+CREATE TABLE IF NOT EXISTS campaigns (
+    campaigns TEXT NOT NULL,
+    campaign_id TEXT NOT NULL,
+    host TEXT NOT NULL,
+    deadline INTEGER NOT NULL,
+    slot_price TEXT NOT NULL,
+    total_raised TEXT NOT NULL,
+    slots_available INTEGER NOT NULL,
+    sponsors INTEGER NOT NULL,
+    tips TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('active', 'ended', 'completed')),
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (campaigns, campaign_id)
+);
+
+-- Points earned per account in each epoch, written when a points snapshot is computed.
+CREATE TABLE IF NOT EXISTS points (
+    epoch INTEGER NOT NULL,
+    account TEXT NOT NULL,
+    token_mint TEXT NOT NULL,
+    membership_purchase TEXT NOT NULL,
+    membership_holding TEXT NOT NULL,
+    sponsorship TEXT NOT NULL,
+    tip TEXT NOT NULL,
+    total TEXT NOT NULL,
+    PRIMARY KEY (epoch, account)
+);
+`;
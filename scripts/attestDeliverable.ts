@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { ethers, network } from 'hardhat';
+import { easConfig } from '../helper-hardhat.config';
+import { CampaignsClient } from '../sdk';
+import { attestDeliverable, hashDeliverable } from './deliverables';
+
+// Attests the deliverable of a deliverable mode campaign as the attester the campaign trusts, e.g.
+// CAMPAIGN_ID=123 DELIVERABLE_URI=ipfs://... DELIVERABLE_FILE=./video.mp4 \
+//     npx hardhat run scripts/attestDeliverable.ts --network arbitrumSepolia
+// The content hash is read from DELIVERABLE_HASH or computed from DELIVERABLE_FILE, falling back to the URI.
+// The host then submits the attestation to the campaigns contract by running the script with ATTESTATION_UID set.
+async function main() {
+    const campaignId = process.env.CAMPAIGN_ID;
+    if (!campaignId) {
+        throw new Error('Set CAMPAIGN_ID');
+    }
+
+    const [signer] = await ethers.getSigners();
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const client = await CampaignsClient.fromDeployment(signer, chainId);
+    const deliverable = await client.getDeliverable(campaignId);
+    if (deliverable.disputeWindow === 0n) {
+        throw new Error(`Campaign ${campaignId} was not created in deliverable mode`);
+    }
+
+    const attestationUID = process.env.ATTESTATION_UID;
+    if (attestationUID) {
+        const { receipt } = await client.submitDeliverable(campaignId, attestationUID);
+        console.log(
+            `Submitted the deliverable in ${receipt.hash}, sponsors can dispute it for ${deliverable.disputeWindow} seconds`,
+        );
+        return;
+    }
+
+    const deliverableUri = process.env.DELIVERABLE_URI;
+    if (!deliverableUri) {
+        throw new Error(
+            'Set DELIVERABLE_URI to attest the deliverable, or ATTESTATION_UID to submit it',
+        );
+    }
+    if (signer.address !== deliverable.attester) {
+        throw new Error(
+            `Campaign ${campaignId} only accepts attestations by ${deliverable.attester}`,
+        );
+    }
+    const easAddress = process.env.EAS_ADDRESS ?? easConfig[network.name]?.eas;
+    if (!easAddress) {
+        throw new Error(`No EAS contract configured for ${network.name}, set EAS_ADDRESS`);
+    }
+
+    const deliverableHash =
+        process.env.DELIVERABLE_HASH ??
+        hashDeliverable(
+            process.env.DELIVERABLE_FILE
+                ? readFileSync(process.env.DELIVERABLE_FILE)
+                : deliverableUri,
+        );
+    const uid = await attestDeliverable(signer, easAddress, {
+        campaigns: await client.campaigns.getAddress(),
+        campaignId,
+        deliverableHash,
+        deliverableUri,
+    });
+    console.log(`Attested deliverable ${deliverableHash} with UID ${uid}`);
+    console.log(`The host submits it with CAMPAIGN_ID=${campaignId} ATTESTATION_UID=${uid}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,53 @@
+import { EAS, NO_EXPIRATION, ZERO_BYTES32 } from '@ethereum-attestation-service/eas-sdk';
+import { BigNumberish, BytesLike, keccak256, Signer, toUtf8Bytes } from 'ethers';
+import { AttestationSchemas, encodeAttestationData, getSchemaUID } from '../sdk';
+
+export interface DeliverableAttestation {
+    // Address of the AlphaCampaigns contract the campaign lives in.
+    campaigns: string;
+    campaignId: BigNumberish;
+    // keccak256 of the delivered content, see `hashDeliverable`.
+    deliverableHash: string;
+    // Where the delivered content can be fetched, e.g. an IPFS or post URL.
+    deliverableUri: string;
+}
+
+// Hashes delivered content the way deliverable attestations reference it.
+export function hashDeliverable(content: string | BytesLike): string {
+    return keccak256(typeof content === 'string' ? toUtf8Bytes(content) : content);
+}
+
+// Encodes the data of an attestation against the `campaignDeliverable` schema.
+export function encodeDeliverableData(deliverable: DeliverableAttestation): string {
+    return encodeAttestationData(AttestationSchemas.campaignDeliverable.schema, {
+        campaigns: deliverable.campaigns,
+        campaignId: deliverable.campaignId.toString(),
+        deliverableHash: deliverable.deliverableHash,
+        deliverableUri: deliverable.deliverableUri,
+    });
+}
+
+// Attests a campaign's deliverable on the EAS contract at `easAddress` and returns the attestation UID,
+// which the host passes to `AlphaCampaigns.submitDeliverable`. The signer must be the attester the campaign trusts.
+// The schema must already be registered, e.g. with `npx hardhat eas:register-schema --name campaignDeliverable`.
+export async function attestDeliverable(
+    signer: Signer,
+    easAddress: string,
+    deliverable: DeliverableAttestation,
+): Promise<string> {
+    const eas = new EAS(easAddress);
+    eas.connect(signer);
+
+    const transaction = await eas.attest({
+        schema: getSchemaUID(AttestationSchemas.campaignDeliverable),
+        data: {
+            recipient: deliverable.campaigns,
+            expirationTime: NO_EXPIRATION,
+            revocable: AttestationSchemas.campaignDeliverable.revocable,
+            refUID: ZERO_BYTES32,
+            data: encodeDeliverableData(deliverable),
+        },
+    });
+
+    return transaction.wait();
+}
@@ -0,0 +1,39 @@
+import { ethers, network } from 'hardhat';
+import { DeploymentIds, loadDeployedAddresses } from '../sdk';
+import { EventIndexer, IndexerDatabase } from '../indexer';
+
+// Backfills and then tails the contracts deployed through Ignition on the selected network, e.g.
+// INDEXER_DB=indexer.sqlite npx hardhat run scripts/indexer.ts --network localhost
+async function main() {
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const deployments = loadDeployedAddresses(chainId);
+    const pick = (futureId: string) => (deployments[futureId] ? [deployments[futureId]] : []);
+
+    const db = new IndexerDatabase(process.env.INDEXER_DB ?? `indexer.${network.name}.sqlite`);
+    const indexer = new EventIndexer(
+        ethers.provider,
+        db,
+        {
+            groupTokens: pick(DeploymentIds.groupToken),
+            campaigns: pick(DeploymentIds.campaigns),
+            groupFactories: pick(DeploymentIds.groupFactory),
+            alphaMarketBases: pick(DeploymentIds.baseProxy),
+        },
+        {
+            startBlock: Number(process.env.INDEXER_START_BLOCK ?? 0),
+            confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+        },
+    );
+
+    process.on('SIGINT', () => indexer.stop());
+
+    const cursor = await indexer.backfill();
+    console.log(`Backfilled ${network.name} up to block ${cursor}, tailing new blocks...`);
+    await indexer.tail();
+    db.close();
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
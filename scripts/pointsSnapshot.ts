@@ -0,0 +1,79 @@
+import { writeFileSync } from 'fs';
+import { ethers, network } from 'hardhat';
+import { DeploymentIds, getDeployedAddress } from '../sdk';
+import {
+    buildPointsSnapshot,
+    computeEpochPoints,
+    getEpoch,
+    IndexerDatabase,
+    PointWeights,
+} from '../indexer';
+
+// Computes the points of a finished epoch from the indexer database, stores its leaderboard and writes the
+// Merkle snapshot users claim from, e.g.
+// INDEXER_DB=indexer.sqlite POINTS_EPOCH=3 npx hardhat run scripts/pointsSnapshot.ts --network localhost
+// The epoch defaults to the last finished one. Set POINTS_PUBLISH=true to publish the root when the signer owns
+// the points contract; otherwise the calldata is printed for a governance proposal.
+async function main() {
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const points = await ethers.getContractAt(
+        'AlphaMarketPoints',
+        getDeployedAddress(chainId, DeploymentIds.pointsProxy),
+    );
+
+    const currentEpoch = Number(await points.getCurrentEpoch());
+    const index = Number(process.env.POINTS_EPOCH ?? currentEpoch - 1);
+    if (index < 0 || index >= currentEpoch) {
+        throw new Error(`Epoch ${index} has not finished yet`);
+    }
+    const epoch = getEpoch(
+        index,
+        Number(await points.getGenesis()),
+        Number(await points.getEpochLength()),
+    );
+    const { tokenMint, membershipPurchase, membershipHolding, sponsorship, tip } =
+        await points.getPointWeights();
+    const weights: PointWeights = {
+        tokenMint,
+        membershipPurchase,
+        membershipHolding,
+        sponsorship,
+        tip,
+    };
+
+    const db = new IndexerDatabase(process.env.INDEXER_DB ?? `indexer.${network.name}.sqlite`);
+    const latest = db.getLatestBlock();
+    if (!latest || latest.timestamp < epoch.end) {
+        db.close();
+        throw new Error(`The indexer has not reached the end of epoch ${index} yet`);
+    }
+    const entries = computeEpochPoints(db, epoch, weights);
+    db.savePoints(index, entries);
+    db.close();
+
+    const snapshot = buildPointsSnapshot(index, entries);
+    const output = process.env.POINTS_OUT ?? `points.${chainId}.epoch-${index}.json`;
+    writeFileSync(output, JSON.stringify(snapshot, null, 4));
+
+    console.log(`Epoch ${index}: ${entries.length} accounts earned ${snapshot.total} points`);
+    for (const [rank, entry] of entries.slice(0, 10).entries()) {
+        console.log(`${rank + 1}. ${entry.account} ${entry.total}`);
+    }
+    console.log(`Wrote the snapshot with root ${snapshot.root} to ${output}`);
+
+    if (process.env.POINTS_PUBLISH === 'true') {
+        const tx = await points.publishEpochRoot(index, snapshot.root);
+        await tx.wait();
+        console.log(`Published the root in ${tx.hash}`);
+    } else {
+        console.log(
+            `publishEpochRoot calldata for ${await points.getAddress()}:`,
+            points.interface.encodeFunctionData('publishEpochRoot', [index, snapshot.root]),
+        );
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,351 @@
+import {
+    BigNumberish,
+    ContractRunner,
+    ContractTransactionResponse,
+    TransactionReceipt,
+} from 'ethers';
+import {
+    AlphaCampaigns,
+    AlphaCampaigns__factory,
+    AlphaMarketBase,
+    AlphaMarketBase__factory,
+} from '../typechain-types';
+import {
+    CampaignCompletedEvent,
+    CampaignCreatedEvent,
+    CampaignEndedEvent,
+    CampaignTippedEvent,
+    CampaignUpdatedEvent,
+    DeliverableApprovedEvent,
+    DeliverableSubmittedEvent,
+    SponsorAcceptedEvent,
+    SponsorRejectedEvent,
+    SponsorRequestedEvent,
+    SponsorshipReclaimedEvent,
+    SponsorWithdrawnEvent,
+    TipRefundedEvent,
+} from '../typechain-types/contracts/campaigns/AlphaCampaigns';
+import { DeploymentIds, getDeployedAddress } from './addresses';
+import { CampaignsError, ErrorDecoder, withDecodedErrors } from './errors';
+import { parseEvent } from './events';
+import { calculateBasisPointsPercentage } from './math/utils';
+import { waitForReceipt } from './transactions';
+
+export interface CampaignParams {
+    deadline: BigNumberish;
+    slotPrice: BigNumberish;
+    host: string;
+    slotsAvailable: BigNumberish;
+}
+
+export interface DeliverableCampaignParams extends CampaignParams {
+    // Seconds sponsors can reclaim their funds after the deliverable is submitted.
+    disputeWindow: BigNumberish;
+    // Address trusted to attest the deliverable, other than the host.
+    attester: string;
+}
+
+export interface Campaign {
+    deadline: bigint;
+    slotPrice: bigint;
+    totalRaised: bigint;
+    host: string;
+    slotsAvailable: bigint;
+}
+
+// Mirrors the `AlphaCampaigns.CampaignStatus` enum.
+export enum CampaignStatus {
+    Active,
+    Completed,
+    Ended,
+}
+
+// Mirrors the `AlphaCampaigns.Deliverable` struct, with a zero dispute window outside deliverable mode.
+export interface Deliverable {
+    disputeWindow: bigint;
+    deliverBy: bigint;
+    submittedAt: bigint;
+    attestationUID: string;
+    attester: string;
+}
+
+export interface WithdrawalQuote {
+    totalRaised: bigint;
+    protocolFee: bigint;
+    hostFunds: bigint;
+}
+
+export interface EventResult<T> {
+    receipt: TransactionReceipt;
+    event: T;
+}
+
+// High level client for the AlphaCampaigns sponsorship lifecycle.
+// Every transaction is simulated first so reverts surface as typed errors before any gas is spent.
+export class CampaignsClient {
+    private readonly decoders: ErrorDecoder[] = [
+        {
+            contractName: 'AlphaCampaigns',
+            contractInterface: AlphaCampaigns__factory.createInterface(),
+            errorClass: CampaignsError,
+        },
+    ];
+
+    private constructor(
+        readonly campaigns: AlphaCampaigns,
+        readonly alphaMarketBase: AlphaMarketBase,
+    ) {}
+
+    // Connects to an AlphaCampaigns contract and the AlphaMarketBase proxy it reads fees from.
+    static async connect(address: string, runner: ContractRunner): Promise<CampaignsClient> {
+        const campaigns = AlphaCampaigns__factory.connect(address, runner);
+        const baseAddress = await campaigns.getAlphaMarketBaseAddress();
+        const alphaMarketBase = AlphaMarketBase__factory.connect(baseAddress, runner);
+
+        return new CampaignsClient(campaigns, alphaMarketBase);
+    }
+
+    // Connects to the campaigns contract deployed by the `CampaignsModule` Ignition module.
+    static async fromDeployment(
+        runner: ContractRunner,
+        chainId: number | bigint,
+        deploymentsDir?: string,
+    ): Promise<CampaignsClient> {
+        const address = getDeployedAddress(chainId, DeploymentIds.campaigns, deploymentsDir);
+
+        return CampaignsClient.connect(address, runner);
+    }
+
+    async getCampaign(campaignId: BigNumberish): Promise<Campaign> {
+        const { deadline, slotPrice, totalRaised, host, slotsAvailable } =
+            await this.campaigns.getCampaignById(campaignId);
+
+        return { deadline, slotPrice, totalRaised, host, slotsAvailable };
+    }
+
+    async getCampaignStatus(campaignId: BigNumberish): Promise<CampaignStatus> {
+        return Number(await this.campaigns.getCampaignStatus(campaignId));
+    }
+
+    async getDeliverable(campaignId: BigNumberish): Promise<Deliverable> {
+        const { disputeWindow, deliverBy, submittedAt, attestationUID, attester } =
+            await this.campaigns.getCampaignDeliverable(campaignId);
+
+        return { disputeWindow, deliverBy, submittedAt, attestationUID, attester };
+    }
+
+    async createCampaign(
+        params: CampaignParams,
+    ): Promise<EventResult<CampaignCreatedEvent.OutputObject>> {
+        const args = [
+            params.deadline,
+            params.slotPrice,
+            params.host,
+            params.slotsAvailable,
+        ] as const;
+
+        return this.execute(
+            () => this.campaigns.createCampaign.staticCall(...args),
+            () => this.campaigns.createCampaign(...args),
+            'CampaignCreated',
+        );
+    }
+
+    // Creates a campaign whose sponsor funds are only released once its deliverable is settled.
+    async createDeliverableCampaign(
+        params: DeliverableCampaignParams,
+    ): Promise<EventResult<CampaignCreatedEvent.OutputObject>> {
+        const args = [
+            params.deadline,
+            params.slotPrice,
+            params.host,
+            params.slotsAvailable,
+            params.disputeWindow,
+            params.attester,
+        ] as const;
+
+        return this.execute(
+            () => this.campaigns.createDeliverableCampaign.staticCall(...args),
+            () => this.campaigns.createDeliverableCampaign(...args),
+            'CampaignCreated',
+        );
+    }
+
+    async updateCampaign(
+        campaignId: BigNumberish,
+        params: Omit<CampaignParams, 'host'>,
+    ): Promise<EventResult<CampaignUpdatedEvent.OutputObject>> {
+        const args = [
+            campaignId,
+            params.deadline,
+            params.slotPrice,
+            params.slotsAvailable,
+        ] as const;
+
+        return this.execute(
+            () => this.campaigns.updateCampaign.staticCall(...args),
+            () => this.campaigns.updateCampaign(...args),
+            'CampaignUpdated',
+        );
+    }
+
+    async requestToSponsor(
+        campaignId: BigNumberish,
+        sponsor: string,
+        value: BigNumberish,
+    ): Promise<EventResult<SponsorRequestedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.requestToSponsor.staticCall(campaignId, sponsor, { value }),
+            () => this.campaigns.requestToSponsor(campaignId, sponsor, { value }),
+            'SponsorRequested',
+        );
+    }
+
+    async acceptSponsor(
+        campaignId: BigNumberish,
+        sponsor: string,
+    ): Promise<EventResult<SponsorAcceptedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.acceptSponsor.staticCall(campaignId, sponsor),
+            () => this.campaigns.acceptSponsor(campaignId, sponsor),
+            'SponsorAccepted',
+        );
+    }
+
+    async rejectSponsor(
+        campaignId: BigNumberish,
+        sponsor: string,
+    ): Promise<EventResult<SponsorRejectedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.rejectSponsor.staticCall(campaignId, sponsor),
+            () => this.campaigns.rejectSponsor(campaignId, sponsor),
+            'SponsorRejected',
+        );
+    }
+
+    async tipCampaign(
+        campaignId: BigNumberish,
+        value: BigNumberish,
+    ): Promise<EventResult<CampaignTippedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.tipCampaign.staticCall(campaignId, { value }),
+            () => this.campaigns.tipCampaign(campaignId, { value }),
+            'CampaignTipped',
+        );
+    }
+
+    async endCampaign(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<CampaignEndedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.endCampaign.staticCall(campaignId),
+            () => this.campaigns.endCampaign(campaignId),
+            'CampaignEnded',
+        );
+    }
+
+    async completeCampaign(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<CampaignCompletedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.completeCampaign.staticCall(campaignId),
+            () => this.campaigns.completeCampaign(campaignId),
+            'CampaignCompleted',
+        );
+    }
+
+    async withdrawSponsorFunds(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<SponsorWithdrawnEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.withdrawSponsorFunds.staticCall(campaignId),
+            () => this.campaigns.withdrawSponsorFunds(campaignId),
+            'SponsorWithdrawn',
+        );
+    }
+
+    // Reclaims the caller's tips from a campaign that was ended by its host.
+    async withdrawTipRefund(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<TipRefundedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.withdrawTipRefund.staticCall(campaignId),
+            () => this.campaigns.withdrawTipRefund(campaignId),
+            'TipRefunded',
+        );
+    }
+
+    // Submits the EAS attestation of a deliverable campaign's work, opening its dispute window.
+    async submitDeliverable(
+        campaignId: BigNumberish,
+        attestationUID: string,
+    ): Promise<EventResult<DeliverableSubmittedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.submitDeliverable.staticCall(campaignId, attestationUID),
+            () => this.campaigns.submitDeliverable(campaignId, attestationUID),
+            'DeliverableSubmitted',
+        );
+    }
+
+    // Signs off a deliverable campaign as the sponsor, releasing the caller's funds to the host.
+    async approveDeliverable(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<DeliverableApprovedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.approveDeliverable.staticCall(campaignId),
+            () => this.campaigns.approveDeliverable(campaignId),
+            'DeliverableApproved',
+        );
+    }
+
+    // Moves the caller's accepted funds back to their pending funds while the campaign is disputable.
+    async reclaimSponsorship(
+        campaignId: BigNumberish,
+    ): Promise<EventResult<SponsorshipReclaimedEvent.OutputObject>> {
+        return this.execute(
+            () => this.campaigns.reclaimSponsorship.staticCall(campaignId),
+            () => this.campaigns.reclaimSponsorship(campaignId),
+            'SponsorshipReclaimed',
+        );
+    }
+
+    // Quotes the protocol fee and the host payout for withdrawing a campaign's raised funds,
+    // excluding sponsor funds still locked behind a deliverable.
+    async quoteWithdrawal(campaignId: BigNumberish): Promise<WithdrawalQuote> {
+        const [raised, lockedFunds, [, protocolFeePercent]] = await Promise.all([
+            this.campaigns.getCampaignTotalRaised(campaignId),
+            this.campaigns.getLockedSponsorFunds(campaignId),
+            this.alphaMarketBase.getEffectiveFees(this.campaigns),
+        ]);
+        const totalRaised = raised - lockedFunds;
+        const protocolFee = calculateBasisPointsPercentage(totalRaised, protocolFeePercent);
+
+        return { totalRaised, protocolFee, hostFunds: totalRaised - protocolFee };
+    }
+
+    async withdrawFunds(
+        campaignId: BigNumberish,
+    ): Promise<{ quote: WithdrawalQuote; receipt: TransactionReceipt }> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quoteWithdrawal(campaignId);
+            await this.campaigns.withdrawFunds.staticCall(campaignId);
+            const receipt = await waitForReceipt(await this.campaigns.withdrawFunds(campaignId));
+
+            return { quote, receipt };
+        }, this.decoders);
+    }
+
+    private async execute<T>(
+        simulate: () => Promise<unknown>,
+        send: () => Promise<ContractTransactionResponse>,
+        eventName: string,
+    ): Promise<EventResult<T>> {
+        return withDecodedErrors(async () => {
+            await simulate();
+            const receipt = await waitForReceipt(await send());
+            const event = await parseEvent<T>(this.campaigns, receipt, eventName);
+
+            return { receipt, event };
+        }, this.decoders);
+    }
+}
@@ -0,0 +1,323 @@
+import { ContractRunner, Signer, TransactionReceipt } from 'ethers';
+import {
+    BondingCurve__factory,
+    ExponentialBondingCurve__factory,
+    GroupToken,
+    GroupToken__factory,
+    IBondingCurve,
+    IBondingCurve__factory,
+    IERC20__factory,
+} from '../typechain-types';
+import {
+    TokensPurchasedEvent,
+    TokensSoldEvent,
+} from '../typechain-types/contracts/erc20-curve/GroupToken';
+import { DeploymentIds, getDeployedAddress } from './addresses';
+import { ErrorDecoder, GroupTokenError, withDecodedErrors } from './errors';
+import { parseEvent } from './events';
+import { signPermit } from './permit';
+import {
+    applySlippage,
+    DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+    getDeadline,
+    SlippageOptions,
+} from './slippage';
+import { getSignerAddress, waitForReceipt } from './transactions';
+
+export interface MintQuote {
+    value: bigint;
+    tokensOut: bigint;
+    fees: bigint;
+}
+
+export interface BurnQuote {
+    amount: bigint;
+    etherOut: bigint;
+    fees: bigint;
+}
+
+export interface MintResult {
+    quote: MintQuote;
+    receipt: TransactionReceipt;
+    event: TokensPurchasedEvent.OutputObject;
+}
+
+export interface BurnResult {
+    quote: BurnQuote;
+    receipt: TransactionReceipt;
+    event: TokensSoldEvent.OutputObject;
+}
+
+export interface BoundedMintResult extends MintResult {
+    minTokensOut: bigint;
+    deadline: bigint;
+}
+
+export interface BoundedBurnResult extends BurnResult {
+    minEtherOut: bigint;
+    deadline: bigint;
+}
+
+// High level client for minting and burning a group's tokens against its bonding curve.
+export class GroupTokenClient {
+    private readonly decoders: ErrorDecoder[] = [
+        {
+            contractName: 'GroupToken',
+            contractInterface: GroupToken__factory.createInterface(),
+            errorClass: GroupTokenError,
+        },
+        {
+            contractName: 'ExponentialBondingCurve',
+            contractInterface: ExponentialBondingCurve__factory.createInterface(),
+            errorClass: GroupTokenError,
+        },
+        {
+            contractName: 'BondingCurve',
+            contractInterface: BondingCurve__factory.createInterface(),
+            errorClass: GroupTokenError,
+        },
+    ];
+
+    private constructor(
+        readonly groupToken: GroupToken,
+        readonly bondingCurve: IBondingCurve,
+    ) {}
+
+    // Connects to a group token and the bonding curve proxy it prices against.
+    static async connect(address: string, runner: ContractRunner): Promise<GroupTokenClient> {
+        const groupToken = GroupToken__factory.connect(address, runner);
+        const bondingCurveAddress = await groupToken.getBondingCurveProxyAddress();
+        const bondingCurve = IBondingCurve__factory.connect(bondingCurveAddress, runner);
+
+        return new GroupTokenClient(groupToken, bondingCurve);
+    }
+
+    // Connects to the group token deployed by the `GroupTokenModule` Ignition module.
+    static async fromDeployment(
+        runner: ContractRunner,
+        chainId: number | bigint,
+        deploymentsDir?: string,
+    ): Promise<GroupTokenClient> {
+        const address = getDeployedAddress(chainId, DeploymentIds.groupToken, deploymentsDir);
+
+        return GroupTokenClient.connect(address, runner);
+    }
+
+    // Quotes the tokens minted and the protocol fees paid for sending `value` wei.
+    async quoteMint(value: bigint): Promise<MintQuote> {
+        const [supply, reserve] = await this.getCurveState();
+        const [tokensOut, fees] = await this.bondingCurve.getPurchaseReturn(
+            this.groupToken,
+            supply,
+            reserve,
+            value,
+        );
+
+        return { value, tokensOut, fees };
+    }
+
+    // Quotes the wei returned to the seller and the protocol fees paid for burning `amount` tokens.
+    async quoteBurn(amount: bigint): Promise<BurnQuote> {
+        const [supply, reserve] = await this.getCurveState();
+        const [saleValue, fees] = await this.bondingCurve.getSaleReturn(
+            this.groupToken,
+            supply,
+            reserve,
+            amount,
+        );
+
+        return { amount, etherOut: saleValue - fees, fees };
+    }
+
+    // Quotes and then mints tokens for `value` wei, returning the parsed `TokensPurchased` event.
+    async mint(value: bigint): Promise<MintResult> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quoteMint(value);
+            const receipt = await waitForReceipt(await this.groupToken.mintTokens({ value }));
+            const event = await parseEvent<TokensPurchasedEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensPurchased',
+            );
+
+            return { quote, receipt, event };
+        }, this.decoders);
+    }
+
+    // Quotes and then mints tokens for `value` wei, reverting on-chain if fewer than the quote minus
+    // `toleranceBps` would be minted or the transaction is included after the deadline.
+    async mintWithSlippage(
+        value: bigint,
+        options: SlippageOptions = {},
+    ): Promise<BoundedMintResult> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quoteMint(value);
+            const minTokensOut = applySlippage(
+                quote.tokensOut,
+                options.toleranceBps ?? DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+            );
+            const deadline = options.deadline ?? (await getDeadline(this.groupToken.runner));
+
+            const receipt = await waitForReceipt(
+                await this.groupToken.mintTokensWithSlippage(minTokensOut, deadline, { value }),
+            );
+            const event = await parseEvent<TokensPurchasedEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensPurchased',
+            );
+
+            return { quote, receipt, event, minTokensOut, deadline };
+        }, this.decoders);
+    }
+
+    // Returns the ERC20 asset backing the token, or the zero address if it is backed by Ether.
+    async getReserveAsset(): Promise<string> {
+        return this.groupToken.getReserveAsset();
+    }
+
+    // Mints tokens backed by an ERC20 reserve asset for a `deposit` of the asset, approving it first
+    // if needed, with the same slippage bounds as `mintWithSlippage`.
+    async mintWithAsset(
+        deposit: bigint,
+        options: SlippageOptions = {},
+    ): Promise<BoundedMintResult> {
+        return withDecodedErrors(async () => {
+            const { quote, minTokensOut, deadline } = await this.boundMint(deposit, options);
+            const sender = await getSignerAddress(this.groupToken.runner);
+            const spender = await this.groupToken.getAddress();
+            const asset = IERC20__factory.connect(
+                await this.groupToken.getReserveAsset(),
+                this.groupToken.runner,
+            );
+            if ((await asset.allowance(sender, spender)) < deposit) {
+                await waitForReceipt(await asset.approve(spender, deposit));
+            }
+
+            const receipt = await waitForReceipt(
+                await this.groupToken.mintTokensWithAsset(deposit, minTokensOut, deadline),
+            );
+            const event = await parseEvent<TokensPurchasedEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensPurchased',
+            );
+
+            return { quote, receipt, event, minTokensOut, deadline };
+        }, this.decoders);
+    }
+
+    // Same as `mintWithAsset`, authorizing the deposit with a signed EIP-2612 permit so no separate
+    // approval transaction is needed. The permit expires with the trade's deadline.
+    async mintWithPermit(
+        deposit: bigint,
+        options: SlippageOptions = {},
+    ): Promise<BoundedMintResult> {
+        return withDecodedErrors(async () => {
+            const { quote, minTokensOut, deadline } = await this.boundMint(deposit, options);
+            await getSignerAddress(this.groupToken.runner);
+            const { v, r, s } = await signPermit(
+                this.groupToken.runner as Signer,
+                await this.groupToken.getReserveAsset(),
+                await this.groupToken.getAddress(),
+                deposit,
+                deadline,
+            );
+
+            const receipt = await waitForReceipt(
+                await this.groupToken.mintTokensWithPermit(
+                    deposit,
+                    minTokensOut,
+                    deadline,
+                    v,
+                    r,
+                    s,
+                ),
+            );
+            const event = await parseEvent<TokensPurchasedEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensPurchased',
+            );
+
+            return { quote, receipt, event, minTokensOut, deadline };
+        }, this.decoders);
+    }
+
+    // Quotes and then burns `amount` of the caller's tokens, returning the parsed `TokensSold` event.
+    async burn(amount: bigint): Promise<BurnResult> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quoteBurn(amount);
+            const sender = await this.approveBurn(amount);
+
+            const receipt = await waitForReceipt(await this.groupToken.burnTokens(amount, sender));
+            const event = await parseEvent<TokensSoldEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensSold',
+            );
+
+            return { quote, receipt, event };
+        }, this.decoders);
+    }
+
+    // Quotes and then burns `amount` of the caller's tokens, reverting on-chain if less than the
+    // quoted ether minus `toleranceBps` would be paid out or the transaction is included after the deadline.
+    async burnWithSlippage(
+        amount: bigint,
+        options: SlippageOptions = {},
+    ): Promise<BoundedBurnResult> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quoteBurn(amount);
+            const minEtherOut = applySlippage(
+                quote.etherOut,
+                options.toleranceBps ?? DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+            );
+            const deadline = options.deadline ?? (await getDeadline(this.groupToken.runner));
+            const sender = await this.approveBurn(amount);
+
+            const receipt = await waitForReceipt(
+                await this.groupToken.burnTokensWithSlippage(amount, sender, minEtherOut, deadline),
+            );
+            const event = await parseEvent<TokensSoldEvent.OutputObject>(
+                this.groupToken,
+                receipt,
+                'TokensSold',
+            );
+
+            return { quote, receipt, event, minEtherOut, deadline };
+        }, this.decoders);
+    }
+
+    // Returns the current total supply and reserve balance the curve prices against.
+    async getCurveState(): Promise<[bigint, bigint]> {
+        return Promise.all([this.groupToken.totalSupply(), this.groupToken.getReserveBalance()]);
+    }
+
+    // Quotes a mint and derives its slippage bounds.
+    private async boundMint(
+        value: bigint,
+        options: SlippageOptions,
+    ): Promise<{ quote: MintQuote; minTokensOut: bigint; deadline: bigint }> {
+        const quote = await this.quoteMint(value);
+        const minTokensOut = applySlippage(
+            quote.tokensOut,
+            options.toleranceBps ?? DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+        );
+        const deadline = options.deadline ?? (await getDeadline(this.groupToken.runner));
+
+        return { quote, minTokensOut, deadline };
+    }
+
+    // Burning goes through `burnFrom`, so the caller's allowance to itself is topped up first.
+    private async approveBurn(amount: bigint): Promise<string> {
+        const sender = await getSignerAddress(this.groupToken.runner);
+
+        const allowance = await this.groupToken.allowance(sender, sender);
+        if (allowance < amount) {
+            await waitForReceipt(await this.groupToken.approve(sender, amount));
+        }
+
+        return sender;
+    }
+}
@@ -0,0 +1,189 @@
+import { BigNumberish, ContractRunner, TransactionReceipt } from 'ethers';
+import {
+    AlphaMarketBase,
+    AlphaMarketBase__factory,
+    GroupMembershipNFT,
+    GroupMembershipNFT__factory,
+    MembershipPricingEngine,
+    MembershipPricingEngine__factory,
+} from '../typechain-types';
+import {
+    MembershipPurchasedEvent,
+    MembershipRenewedEvent,
+    MembershipSoldEvent,
+    MembershipTransferredEvent,
+} from '../typechain-types/contracts/groups/GroupMembershipNFT';
+import { ErrorDecoder, MembershipError, withDecodedErrors } from './errors';
+import { parseEvent } from './events';
+import { calculateBasisPointsPercentage } from './math/utils';
+import { getSignerAddress, waitForReceipt } from './transactions';
+
+export interface PurchaseQuote {
+    cost: bigint;
+    fees: bigint;
+}
+
+export interface SaleQuote {
+    saleReturn: bigint;
+    proceeds: bigint;
+    fees: bigint;
+}
+
+export interface PurchaseResult {
+    quote: PurchaseQuote;
+    receipt: TransactionReceipt;
+    event: MembershipPurchasedEvent.OutputObject;
+}
+
+export interface SaleResult {
+    quote: SaleQuote;
+    receipt: TransactionReceipt;
+    event: MembershipSoldEvent.OutputObject;
+}
+
+export interface RenewalResult {
+    renewalPrice: bigint;
+    receipt: TransactionReceipt;
+    event: MembershipRenewedEvent.OutputObject;
+}
+
+// High level client for buying, selling, renewing and transferring a group's membership NFTs. Tiers default to the
+// base tier.
+export class MembershipClient {
+    private readonly decoders: ErrorDecoder[] = [
+        {
+            contractName: 'GroupMembershipNFT',
+            contractInterface: GroupMembershipNFT__factory.createInterface(),
+            errorClass: MembershipError,
+        },
+        {
+            contractName: 'MembershipPricingEngine',
+            contractInterface: MembershipPricingEngine__factory.createInterface(),
+            errorClass: MembershipError,
+        },
+    ];
+
+    private constructor(
+        readonly membership: GroupMembershipNFT,
+        readonly pricingEngine: MembershipPricingEngine,
+        readonly alphaMarketBase: AlphaMarketBase,
+    ) {}
+
+    // Connects to a membership NFT along with its pricing engine and fee configuration.
+    static async connect(address: string, runner: ContractRunner): Promise<MembershipClient> {
+        const membership = GroupMembershipNFT__factory.connect(address, runner);
+        const [pricingEngineAddress, baseAddress] = await Promise.all([
+            membership.getNFTCurveProxyAddress(),
+            membership.getAlphaMarketBaseAddress(),
+        ]);
+
+        return new MembershipClient(
+            membership,
+            MembershipPricingEngine__factory.connect(pricingEngineAddress, runner),
+            AlphaMarketBase__factory.connect(baseAddress, runner),
+        );
+    }
+
+    // Quotes the price of the next membership of a tier and the protocol fees taken from it.
+    async quotePurchase(tier: BigNumberish = 0): Promise<PurchaseQuote> {
+        const [{ supply }, [, protocolFeePercent]] = await Promise.all([
+            this.membership.getTier(tier),
+            this.alphaMarketBase.getEffectiveFees(this.membership),
+        ]);
+        const cost = await this.pricingEngine.getTierBuyQuote(this.membership, tier, supply, 1);
+
+        return { cost, fees: calculateBasisPointsPercentage(cost, protocolFeePercent) };
+    }
+
+    // Quotes the value returned for selling a single membership of a tier back to the group.
+    async quoteSale(tier: BigNumberish = 0): Promise<SaleQuote> {
+        const [{ supply, reserveBalance }, [, protocolFeePercent]] = await Promise.all([
+            this.membership.getTier(tier),
+            this.alphaMarketBase.getEffectiveFees(this.membership),
+        ]);
+        const saleReturn = await this.pricingEngine.getTierSellQuote(
+            this.membership,
+            tier,
+            supply,
+            reserveBalance,
+            1,
+        );
+        const fees = calculateBasisPointsPercentage(saleReturn, protocolFeePercent);
+
+        return { saleReturn, proceeds: saleReturn - fees, fees };
+    }
+
+    // Quotes and then purchases the next membership of a tier, returning the parsed `MembershipPurchased` event.
+    async purchase(tier: BigNumberish = 0): Promise<PurchaseResult> {
+        return withDecodedErrors(async () => {
+            const quote = await this.quotePurchase(tier);
+            const receipt = await waitForReceipt(
+                await this.membership.purchaseTierMemberships(tier, 1, quote.cost, {
+                    value: quote.cost,
+                }),
+            );
+            const event = await parseEvent<MembershipPurchasedEvent.OutputObject>(
+                this.membership,
+                receipt,
+                'MembershipPurchased',
+            );
+
+            return { quote, receipt, event };
+        }, this.decoders);
+    }
+
+    // Quotes and then sells a membership owned by `owner` (the signer by default), at the value of its tier.
+    async sell(tokenId: BigNumberish, owner?: string): Promise<SaleResult> {
+        return withDecodedErrors(async () => {
+            const { tier } = await this.membership.getMembership(tokenId);
+            const quote = await this.quoteSale(tier);
+            const seller = owner ?? (await getSignerAddress(this.membership.runner));
+            const receipt = await waitForReceipt(
+                await this.membership.sellMembership(seller, tokenId),
+            );
+            const event = await parseEvent<MembershipSoldEvent.OutputObject>(
+                this.membership,
+                receipt,
+                'MembershipSold',
+            );
+
+            return { quote, receipt, event };
+        }, this.decoders);
+    }
+
+    // Renews a membership for the renewal price of its tier, returning the parsed `MembershipRenewed` event.
+    async renew(tokenId: BigNumberish): Promise<RenewalResult> {
+        return withDecodedErrors(async () => {
+            const { tier } = await this.membership.getMembership(tokenId);
+            const { renewalPrice } = (await this.membership.getTier(tier)).settings;
+            const receipt = await waitForReceipt(
+                await this.membership.renewMembership(tokenId, { value: renewalPrice }),
+            );
+            const event = await parseEvent<MembershipRenewedEvent.OutputObject>(
+                this.membership,
+                receipt,
+                'MembershipRenewed',
+            );
+
+            return { renewalPrice, receipt, event };
+        }, this.decoders);
+    }
+
+    async transfer(
+        to: string,
+        tokenId: BigNumberish,
+    ): Promise<{ receipt: TransactionReceipt; event: MembershipTransferredEvent.OutputObject }> {
+        return withDecodedErrors(async () => {
+            const receipt = await waitForReceipt(
+                await this.membership.transferMembership(to, tokenId),
+            );
+            const event = await parseEvent<MembershipTransferredEvent.OutputObject>(
+                this.membership,
+                receipt,
+                'MembershipTransferred',
+            );
+
+            return { receipt, event };
+        }, this.decoders);
+    }
+}
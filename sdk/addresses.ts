@@ -0,0 +1,89 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { addressBook as deployedAddressBook } from './deployments';
+
+// Default location of the Hardhat Ignition deployments folder.
+export const DEFAULT_DEPLOYMENTS_DIR = resolve(__dirname, '../ignition/deployments');
+
+// Ignition future IDs of the contracts deployed by the modules in `ignition/modules`.
+export const DeploymentIds = {
+    treasuryProxy: 'TreasuryModule#ERC1967Proxy',
+    baseProxy: 'BaseModule#ERC1967Proxy',
+    pointsProxy: 'PointsModule#ERC1967Proxy',
+    bondingCurveProxy: 'ProxyModule#ERC1967Proxy',
+    pricingEngineProxy: 'PricingEngineModule#ERC1967Proxy',
+    campaigns: 'CampaignsModule#AlphaCampaigns',
+    groupToken: 'GroupTokenModule#GroupToken',
+    groupFactory: 'GroupFactoryModule#GroupFactory',
+    membershipAuctions: 'MembershipAuctionsModule#MembershipAuctions',
+    communityGovernor: 'CommunityGovernorModule#CommunityGovernor',
+    governanceToken: 'GovernanceModule#AlphaGovernanceToken',
+    timelock: 'GovernanceModule#AlphaTimelock',
+    governor: 'GovernanceModule#AlphaGovernor',
+} as const;
+
+// Addresses keyed by Ignition future ID, as written to `deployed_addresses.json`.
+export type DeployedAddresses = Record<string, string>;
+
+// Reads the `deployed_addresses.json` file written by Ignition for the given chain.
+export function loadDeployedAddresses(
+    chainId: number | bigint,
+    deploymentsDir: string = DEFAULT_DEPLOYMENTS_DIR,
+): DeployedAddresses {
+    const deploymentsFilePath = resolve(deploymentsDir, `chain-${chainId}/deployed_addresses.json`);
+    if (!existsSync(deploymentsFilePath)) {
+        throw new Error(`No deployments found for chainId ${chainId} at ${deploymentsFilePath}`);
+    }
+
+    return JSON.parse(readFileSync(deploymentsFilePath, 'utf-8'));
+}
+
+// Looks up the address of a single Ignition future, e.g. `CampaignsModule#AlphaCampaigns`.
+export function getDeployedAddress(
+    chainId: number | bigint,
+    futureId: string,
+    deploymentsDir: string = DEFAULT_DEPLOYMENTS_DIR,
+): string {
+    const address = loadDeployedAddresses(chainId, deploymentsDir)[futureId];
+    if (!address) {
+        throw new Error(`${futureId} address not found for chainId: ${chainId}`);
+    }
+
+    return address;
+}
+
+// Addresses of the protocol contracts on a chain, written to `addresses.<chainId>.json` by `deploy:alphamarket`.
+export interface AlphaMarketAddresses {
+    chainId: number;
+    treasury: string;
+    alphaMarketBase: string;
+    bondingCurve: string;
+    pricingEngine: string;
+    campaigns: string;
+    // Implementations the proxies above were deployed with
+    implementations: {
+        treasury: string;
+        alphaMarketBase: string;
+        bondingCurve: string;
+        pricingEngine: string;
+    };
+}
+
+// Protocol addresses keyed by chain ID.
+export type AddressBook = Record<number, AlphaMarketAddresses>;
+
+// The address book generated in `sdk/deployments` for every network the protocol was deployed to.
+export const addressBook: AddressBook = deployedAddressBook;
+
+// Looks up the protocol addresses of a chain in the address book.
+export function getAlphaMarketAddresses(
+    chainId: number | bigint,
+    book: AddressBook = addressBook,
+): AlphaMarketAddresses {
+    const addresses = book[Number(chainId)];
+    if (!addresses) {
+        throw new Error(`No AlphaMarket deployment in the address book for chainId: ${chainId}`);
+    }
+
+    return addresses;
+}
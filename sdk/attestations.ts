@@ -0,0 +1,59 @@
+import { SchemaEncoder, SchemaRegistry, ZERO_ADDRESS } from '@ethereum-attestation-service/eas-sdk';
+
+export interface AttestationSchema {
+    // EAS schema string, e.g. `bytes32 contentHash, string contentUri`.
+    schema: string;
+    revocable: boolean;
+}
+
+// The EAS schemas attestations about groups, hosts and campaigns are made against.
+export const AttestationSchemas = {
+    // A piece of content published in a group, identified by its hash and where it can be fetched.
+    groupContent: {
+        schema: 'address group, bytes32 contentHash, string contentUri',
+        revocable: true,
+    },
+    // A host verified as the owner of an off-chain account, attested by the verifier.
+    hostVerification: {
+        schema: 'address group, address host, string platform, string handle',
+        revocable: true,
+    },
+    // Proof that a host delivered the work a campaign was sponsored for.
+    campaignDeliverable: {
+        schema: 'address campaigns, uint256 campaignId, bytes32 deliverableHash, string deliverableUri',
+        revocable: false,
+    },
+} as const satisfies Record<string, AttestationSchema>;
+
+export type AttestationSchemaName = keyof typeof AttestationSchemas;
+
+// UID the SchemaRegistry assigns to `schema`, which does not depend on who registers it.
+export function getSchemaUID(schema: AttestationSchema, resolver: string = ZERO_ADDRESS): string {
+    return SchemaRegistry.getSchemaUID(schema.schema, resolver, schema.revocable);
+}
+
+// Encodes attestation data given as a JSON object keyed by the schema's field names.
+export function encodeAttestationData(schema: string, data: Record<string, unknown>): string {
+    const encoder = new SchemaEncoder(schema);
+    const missing = encoder.schema.filter((item) => !(item.name in data));
+    if (missing.length > 0) {
+        throw new Error(
+            `Missing attestation data for ${missing.map((item) => item.name).join(', ')}`,
+        );
+    }
+
+    return encoder.encodeData(
+        encoder.schema.map((item) => ({
+            name: item.name,
+            type: item.type,
+            value: data[item.name] as string,
+        })),
+    );
+}
+
+// Decodes attestation data into a JSON object keyed by the schema's field names.
+export function decodeAttestationData(schema: string, data: string): Record<string, unknown> {
+    const decoded = new SchemaEncoder(schema).decodeData(data);
+
+    return Object.fromEntries(decoded.map((item) => [item.name, item.value.value]));
+}
@@ -0,0 +1,2 @@
+// Generated by the `deploy:alphamarket` task from the `addresses.<chainId>.json` files in this folder.
+export const addressBook = {};
@@ -0,0 +1,104 @@
+import { ErrorDescription, Interface, isHexString, Result } from 'ethers';
+
+// Base class for custom errors reverted by the Alpha Market contracts.
+export class AlphaMarketError extends Error {
+    constructor(
+        readonly contractName: string,
+        readonly errorName: string,
+        readonly args: Result,
+        readonly selector: string,
+        readonly cause: unknown,
+    ) {
+        super(`${contractName} reverted with ${errorName}(${args.join(', ')})`);
+        this.name = new.target.name;
+    }
+}
+
+// Custom errors from `contracts/erc20-curve/Errors.sol` and the bonding curve.
+export class GroupTokenError extends AlphaMarketError {}
+
+// Custom errors from `contracts/campaigns/Errors.sol`.
+export class CampaignsError extends AlphaMarketError {}
+
+// Custom errors from `contracts/groups/Errors.sol` and the pricing engine.
+export class MembershipError extends AlphaMarketError {}
+
+type AlphaMarketErrorClass = new (
+    contractName: string,
+    errorName: string,
+    args: Result,
+    selector: string,
+    cause: unknown,
+) => AlphaMarketError;
+
+// Pairs a contract interface with the error class its custom errors decode to.
+export interface ErrorDecoder {
+    contractName: string;
+    contractInterface: Interface;
+    errorClass: AlphaMarketErrorClass;
+}
+
+// Walks the nested error objects thrown by ethers and Hardhat to find the raw revert data.
+export function getRevertData(error: unknown): string | undefined {
+    const visited = new Set<unknown>();
+    const queue = [error];
+
+    while (queue.length > 0) {
+        const current = queue.shift();
+        if (current === null || typeof current !== 'object' || visited.has(current)) {
+            continue;
+        }
+        visited.add(current);
+
+        const { data, error: inner, info, cause } = current as Record<string, unknown>;
+        if (typeof data === 'string' && isHexString(data) && data.length >= 10) {
+            return data;
+        }
+        queue.push(data, inner, info, cause);
+    }
+
+    return undefined;
+}
+
+// Decodes a thrown error into a typed error if its revert data matches one of the decoders.
+export function decodeContractError(
+    error: unknown,
+    decoders: ErrorDecoder[],
+): AlphaMarketError | undefined {
+    const data = getRevertData(error);
+    if (data === undefined) {
+        return undefined;
+    }
+
+    for (const { contractName, contractInterface, errorClass } of decoders) {
+        let description: ErrorDescription | null = null;
+        try {
+            description = contractInterface.parseError(data);
+        } catch {
+            continue;
+        }
+        if (description) {
+            return new errorClass(
+                contractName,
+                description.name,
+                description.args,
+                description.selector,
+                error,
+            );
+        }
+    }
+
+    return undefined;
+}
+
+// Runs a contract interaction and rethrows any known custom error as its typed counterpart.
+export async function withDecodedErrors<T>(
+    action: () => Promise<T>,
+    decoders: ErrorDecoder[],
+): Promise<T> {
+    try {
+        return await action();
+    } catch (error) {
+        throw decodeContractError(error, decoders) ?? error;
+    }
+}
@@ -0,0 +1,30 @@
+import { BaseContract, LogDescription, TransactionReceipt } from 'ethers';
+
+// Parses every log in a receipt emitted by `contract` with the given event name.
+export async function parseEvents<T>(
+    contract: BaseContract,
+    receipt: TransactionReceipt,
+    eventName: string,
+): Promise<T[]> {
+    const address = (await contract.getAddress()).toLowerCase();
+
+    return receipt.logs
+        .filter((log) => log.address.toLowerCase() === address)
+        .map((log) => contract.interface.parseLog(log))
+        .filter((log): log is LogDescription => log !== null && log.name === eventName)
+        .map((log) => log.args.toObject() as T);
+}
+
+// Parses the single event with the given name from a receipt, throwing if it was not emitted.
+export async function parseEvent<T>(
+    contract: BaseContract,
+    receipt: TransactionReceipt,
+    eventName: string,
+): Promise<T> {
+    const [event] = await parseEvents<T>(contract, receipt, eventName);
+    if (event === undefined) {
+        throw new Error(`${eventName} was not emitted in transaction ${receipt.hash}`);
+    }
+
+    return event;
+}
@@ -0,0 +1,18 @@
+export * from './addresses';
+export * from './errors';
+export * from './events';
+export * from './slippage';
+export * from './transactions';
+export * from './permit';
+export * from './timelock';
+export * from './math/utils';
+export * from './GroupTokenClient';
+export * from './CampaignsClient';
+export * from './MembershipClient';
+export * as bancorFormula from './math/bancorFormula';
+export * as exponentialBondingCurve from './math/exponentialBondingCurve';
+export * as bondingCurve from './math/bondingCurve';
+export * as curveMath from './math/curveMath';
+export * as membershipPricing from './math/membershipPricing';
+export * from './math/curveShapes';
+export * from './attestations';
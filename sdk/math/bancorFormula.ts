@@ -0,0 +1,494 @@
+// BigInt replica of `contracts/erc20-curve/utils/BancorFormula.sol`.
+// Every intermediate step uses the same integer operations as the contract, including checked
+// arithmetic, so results match the on-chain formula bit for bit and reverts surface as errors.
+
+// Thrown wherever the contract would revert (failed `require`, overflow or division by zero).
+export class BancorMathError extends Error {
+    constructor(reason: string) {
+        super(`BancorFormula reverted: ${reason}`);
+        this.name = 'BancorMathError';
+    }
+}
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+const ONE = 1n;
+export const MAX_WEIGHT = 1000000n;
+const MIN_PRECISION = 32;
+const MAX_PRECISION = 127;
+
+const FIXED_1 = 0x080000000000000000000000000000000n;
+const FIXED_2 = 0x100000000000000000000000000000000n;
+const MAX_NUM = 0x200000000000000000000000000000000n;
+
+const LN2_NUMERATOR = 0x3f80fe03f80fe03f80fe03f80fe03f8n;
+const LN2_DENOMINATOR = 0x5b9de1d10bf4103d647b0955897ba80n;
+
+const OPT_LOG_MAX_VAL = 0x15bf0a8b1457695355fb8ac404e7a79e3n;
+const OPT_EXP_MAX_VAL = 0x800000000000000000000000000000000n;
+
+// `maxExpArray[32]` to `maxExpArray[127]`; lower precisions are never used.
+const MAX_EXP_ARRAY: bigint[] = [
+    0x1c35fedd14ffffffffffffffffffffffffn,
+    0x1b0ce43b323fffffffffffffffffffffffn,
+    0x19f0028ec1ffffffffffffffffffffffffn,
+    0x18ded91f0e7fffffffffffffffffffffffn,
+    0x17d8ec7f0417ffffffffffffffffffffffn,
+    0x16ddc6556cdbffffffffffffffffffffffn,
+    0x15ecf52776a1ffffffffffffffffffffffn,
+    0x15060c256cb2ffffffffffffffffffffffn,
+    0x1428a2f98d72ffffffffffffffffffffffn,
+    0x13545598e5c23fffffffffffffffffffffn,
+    0x1288c4161ce1dfffffffffffffffffffffn,
+    0x11c592761c666fffffffffffffffffffffn,
+    0x110a688680a757ffffffffffffffffffffn,
+    0x1056f1b5bedf77ffffffffffffffffffffn,
+    0x0faadceceeff8bffffffffffffffffffffn,
+    0x0f05dc6b27edadffffffffffffffffffffn,
+    0x0e67a5a25da4107fffffffffffffffffffn,
+    0x0dcff115b14eedffffffffffffffffffffn,
+    0x0d3e7a392431239fffffffffffffffffffn,
+    0x0cb2ff529eb71e4fffffffffffffffffffn,
+    0x0c2d415c3db974afffffffffffffffffffn,
+    0x0bad03e7d883f69bffffffffffffffffffn,
+    0x0b320d03b2c343d5ffffffffffffffffffn,
+    0x0abc25204e02828dffffffffffffffffffn,
+    0x0a4b16f74ee4bb207fffffffffffffffffn,
+    0x09deaf736ac1f569ffffffffffffffffffn,
+    0x0976bd9952c7aa957fffffffffffffffffn,
+    0x09131271922eaa606fffffffffffffffffn,
+    0x08b380f3558668c46fffffffffffffffffn,
+    0x0857ddf0117efa215bffffffffffffffffn,
+    0x07ffffffffffffffffffffffffffffffffn,
+    0x07abbf6f6abb9d087fffffffffffffffffn,
+    0x075af62cbac95f7dfa7fffffffffffffffn,
+    0x070d7fb7452e187ac13fffffffffffffffn,
+    0x06c3390ecc8af379295fffffffffffffffn,
+    0x067c00a3b07ffc01fd6fffffffffffffffn,
+    0x0637b647c39cbb9d3d27ffffffffffffffn,
+    0x05f63b1fc104dbd39587ffffffffffffffn,
+    0x05b771955b36e12f7235ffffffffffffffn,
+    0x057b3d49dda84556d6f6ffffffffffffffn,
+    0x054183095b2c8ececf30ffffffffffffffn,
+    0x050a28be635ca2b888f77fffffffffffffn,
+    0x04d5156639708c9db33c3fffffffffffffn,
+    0x04a23105873875bd52dfdfffffffffffffn,
+    0x0471649d87199aa990756fffffffffffffn,
+    0x04429a21a029d4c1457cfbffffffffffffn,
+    0x0415bc6d6fb7dd71af2cb3ffffffffffffn,
+    0x03eab73b3bbfe282243ce1ffffffffffffn,
+    0x03c1771ac9fb6b4c18e229ffffffffffffn,
+    0x0399e96897690418f785257fffffffffffn,
+    0x0373fc456c53bb779bf0ea9fffffffffffn,
+    0x034f9e8e490c48e67e6ab8bfffffffffffn,
+    0x032cbfd4a7adc790560b3337ffffffffffn,
+    0x030b50570f6e5d2acca94613ffffffffffn,
+    0x02eb40f9f620fda6b56c2861ffffffffffn,
+    0x02cc8340ecb0d0f520a6af58ffffffffffn,
+    0x02af09481380a0a35cf1ba02ffffffffffn,
+    0x0292c5bdd3b92ec810287b1b3fffffffffn,
+    0x0277abdcdab07d5a77ac6d6b9fffffffffn,
+    0x025daf6654b1eaa55fd64df5efffffffffn,
+    0x0244c49c648baa98192dce88b7ffffffffn,
+    0x022ce03cd5619a311b2471268bffffffffn,
+    0x0215f77c045fbe885654a44a0fffffffffn,
+    0x01ffffffffffffffffffffffffffffffffn,
+    0x01eaefdbdaaee7421fc4d3ede5ffffffffn,
+    0x01d6bd8b2eb257df7e8ca57b09bfffffffn,
+    0x01c35fedd14b861eb0443f7f133fffffffn,
+    0x01b0ce43b322bcde4a56e8ada5afffffffn,
+    0x019f0028ec1fff007f5a195a39dfffffffn,
+    0x018ded91f0e72ee74f49b15ba527ffffffn,
+    0x017d8ec7f04136f4e5615fd41a63ffffffn,
+    0x016ddc6556cdb84bdc8d12d22e6fffffffn,
+    0x015ecf52776a1155b5bd8395814f7fffffn,
+    0x015060c256cb23b3b3cc3754cf40ffffffn,
+    0x01428a2f98d728ae223ddab715be3fffffn,
+    0x013545598e5c23276ccf0ede68034fffffn,
+    0x01288c4161ce1d6f54b7f61081194fffffn,
+    0x011c592761c666aa641d5a01a40f17ffffn,
+    0x0110a688680a7530515f3e6e6cfdcdffffn,
+    0x01056f1b5bedf75c6bcb2ce8aed428ffffn,
+    0x00faadceceeff8a0890f3875f008277fffn,
+    0x00f05dc6b27edad306388a600f6ba0bfffn,
+    0x00e67a5a25da41063de1495d5b18cdbfffn,
+    0x00dcff115b14eedde6fc3aa5353f2e4fffn,
+    0x00d3e7a3924312399f9aae2e0f868f8fffn,
+    0x00cb2ff529eb71e41582cccd5a1ee26fffn,
+    0x00c2d415c3db974ab32a51840c0b67edffn,
+    0x00bad03e7d883f69ad5b0a186184e06bffn,
+    0x00b320d03b2c343d4829abd6075f0cc5ffn,
+    0x00abc25204e02828d73c6e80bcdb1a95bfn,
+    0x00a4b16f74ee4bb2040a1ec6c15fbbf2dfn,
+    0x009deaf736ac1f569deb1b5ae3f36c130fn,
+    0x00976bd9952c7aa957f5937d790ef65037n,
+    0x009131271922eaa6064b73a22d0bd4f2bfn,
+    0x008b380f3558668c46c91c49a2f8e967b9n,
+    0x00857ddf0117efa215952912839f6473e6n,
+];
+
+// Coefficients of the maclaurin summation in `generalExp`, from x^2 to x^33.
+const GENERAL_EXP_COEFFICIENTS: bigint[] = [
+    0x3442c4e6074a82f1797f72ac0000000n, // x^02 * (33! / 02!)
+    0x116b96f757c380fb287fd0e40000000n, // x^03 * (33! / 03!)
+    0x045ae5bdd5f0e03eca1ff4390000000n, // x^04 * (33! / 04!)
+    0x00defabf91302cd95b9ffda50000000n, // x^05 * (33! / 05!)
+    0x002529ca9832b22439efff9b8000000n, // x^06 * (33! / 06!)
+    0x00054f1cf12bd04e516b6da88000000n, // x^07 * (33! / 07!)
+    0x0000a9e39e257a09ca2d6db51000000n, // x^08 * (33! / 08!)
+    0x000012e066e7b839fa050c309000000n, // x^09 * (33! / 09!)
+    0x000001e33d7d926c329a1ad1a800000n, // x^10 * (33! / 10!)
+    0x0000002bee513bdb4a6b19b5f800000n, // x^11 * (33! / 11!)
+    0x00000003a9316fa79b88eccf2a00000n, // x^12 * (33! / 12!)
+    0x0000000048177ebe1fa812375200000n, // x^13 * (33! / 13!)
+    0x0000000005263fe90242dcbacf00000n, // x^14 * (33! / 14!)
+    0x000000000057e22099c030d94100000n, // x^15 * (33! / 15!)
+    0x0000000000057e22099c030d9410000n, // x^16 * (33! / 16!)
+    0x00000000000052b6b54569976310000n, // x^17 * (33! / 17!)
+    0x00000000000004985f67696bf748000n, // x^18 * (33! / 18!)
+    0x000000000000003dea12ea99e498000n, // x^19 * (33! / 19!)
+    0x00000000000000031880f2214b6e000n, // x^20 * (33! / 20!)
+    0x000000000000000025bcff56eb36000n, // x^21 * (33! / 21!)
+    0x000000000000000001b722e10ab1000n, // x^22 * (33! / 22!)
+    0x0000000000000000001317c70077000n, // x^23 * (33! / 23!)
+    0x00000000000000000000cba84aafa00n, // x^24 * (33! / 24!)
+    0x00000000000000000000082573a0a00n, // x^25 * (33! / 25!)
+    0x00000000000000000000005035ad900n, // x^26 * (33! / 26!)
+    0x000000000000000000000002f881b00n, // x^27 * (33! / 27!)
+    0x0000000000000000000000001b29340n, // x^28 * (33! / 28!)
+    0x00000000000000000000000000efc40n, // x^29 * (33! / 29!)
+    0x0000000000000000000000000007fe0n, // x^30 * (33! / 30!)
+    0x0000000000000000000000000000420n, // x^31 * (33! / 31!)
+    0x0000000000000000000000000000021n, // x^32 * (33! / 32!)
+    0x0000000000000000000000000000001n, // x^33 * (33! / 33!)
+];
+
+// Coefficients of the taylor series in `optimalExp`, from y^2 to y^20.
+const OPTIMAL_EXP_COEFFICIENTS: bigint[] = [
+    0x10e1b3be415a0000n, // y^02 * (20! / 02!)
+    0x05a0913f6b1e0000n, // y^03 * (20! / 03!)
+    0x0168244fdac78000n, // y^04 * (20! / 04!)
+    0x004807432bc18000n, // y^05 * (20! / 05!)
+    0x000c0135dca04000n, // y^06 * (20! / 06!)
+    0x0001b707b1cdc000n, // y^07 * (20! / 07!)
+    0x000036e0f639b800n, // y^08 * (20! / 08!)
+    0x00000618fee9f800n, // y^09 * (20! / 09!)
+    0x0000009c197dcc00n, // y^10 * (20! / 10!)
+    0x0000000e30dce400n, // y^11 * (20! / 11!)
+    0x000000012ebd1300n, // y^12 * (20! / 12!)
+    0x0000000017499f00n, // y^13 * (20! / 13!)
+    0x0000000001a9d480n, // y^14 * (20! / 14!)
+    0x00000000001c6380n, // y^15 * (20! / 15!)
+    0x000000000001c638n, // y^16 * (20! / 16!)
+    0x0000000000001ab8n, // y^17 * (20! / 17!)
+    0x000000000000017cn, // y^18 * (20! / 18!)
+    0x0000000000000014n, // y^19 * (20! / 19!)
+    0x0000000000000001n, // y^20 * (20! / 20!)
+];
+
+function require(condition: boolean, reason: string): void {
+    if (!condition) {
+        throw new BancorMathError(reason);
+    }
+}
+
+function checked(value: bigint): bigint {
+    require(value >= 0n && value <= MAX_UINT256, 'arithmetic overflow or underflow');
+    return value;
+}
+
+function add(x: bigint, y: bigint): bigint {
+    return checked(x + y);
+}
+
+function sub(x: bigint, y: bigint): bigint {
+    return checked(x - y);
+}
+
+function mul(x: bigint, y: bigint): bigint {
+    return checked(x * y);
+}
+
+function div(x: bigint, y: bigint): bigint {
+    require(y !== 0n, 'division by zero');
+    return x / y;
+}
+
+// Solidity shifts are unchecked and silently truncate to 256 bits.
+function shl(x: bigint, bits: number): bigint {
+    return (x << BigInt(bits)) & MAX_UINT256;
+}
+
+function shr(x: bigint, bits: number): bigint {
+    return x >> BigInt(bits);
+}
+
+function validWeight(weight: bigint): boolean {
+    return weight > 0n && weight <= MAX_WEIGHT;
+}
+
+// Return = _supply * ((1 + _depositAmount / _connectorBalance) ^ (_connectorWeight / 1000000) - 1)
+export function calculatePurchaseReturn(
+    supply: bigint,
+    connectorBalance: bigint,
+    connectorWeight: bigint,
+    depositAmount: bigint,
+): bigint {
+    require(supply > 0n && connectorBalance > 0n && validWeight(connectorWeight), 'invalid input');
+
+    if (depositAmount === 0n) {
+        return 0n;
+    }
+
+    if (connectorWeight === MAX_WEIGHT) {
+        return div(mul(supply, depositAmount), connectorBalance);
+    }
+
+    const baseN = add(depositAmount, connectorBalance);
+    const [result, precision] = power(baseN, connectorBalance, connectorWeight, MAX_WEIGHT);
+    const temp = shr(mul(supply, result), precision);
+    return sub(temp, supply);
+}
+
+// Return = _connectorBalance * (1 - (1 - _sellAmount / _supply) ^ (1 / (_connectorWeight / 1000000)))
+export function calculateSaleReturn(
+    supply: bigint,
+    connectorBalance: bigint,
+    connectorWeight: bigint,
+    sellAmount: bigint,
+): bigint {
+    require(supply > 0n &&
+        connectorBalance > 0n &&
+        validWeight(connectorWeight) &&
+        sellAmount <= supply, 'invalid input');
+
+    if (sellAmount === 0n) {
+        return 0n;
+    }
+
+    if (sellAmount === supply) {
+        return connectorBalance;
+    }
+
+    if (connectorWeight === MAX_WEIGHT) {
+        return div(mul(connectorBalance, sellAmount), supply);
+    }
+
+    const baseD = sub(supply, sellAmount);
+    const [result, precision] = power(supply, baseD, MAX_WEIGHT, connectorWeight);
+    const temp1 = mul(connectorBalance, result);
+    const temp2 = shl(connectorBalance, precision);
+    return div(sub(temp1, temp2), result);
+}
+
+// Approximates (_baseN / _baseD) ^ (_expN / _expD) * 2 ^ precision, returning the precision used.
+export function power(baseN: bigint, baseD: bigint, expN: bigint, expD: bigint): [bigint, number] {
+    require(baseN < MAX_NUM, 'base too large');
+
+    const base = div(mul(baseN, FIXED_1), baseD);
+    const baseLog = base < OPT_LOG_MAX_VAL ? optimalLog(base) : generalLog(base);
+
+    const baseLogTimesExp = div(mul(baseLog, expN), expD);
+    if (baseLogTimesExp < OPT_EXP_MAX_VAL) {
+        return [optimalExp(baseLogTimesExp), MAX_PRECISION];
+    }
+
+    const precision = findPositionInMaxExpArray(baseLogTimesExp);
+    return [generalExp(shr(baseLogTimesExp, MAX_PRECISION - precision), precision), precision];
+}
+
+// Computes log(x / FIXED_1) * FIXED_1, assuming x >= FIXED_1.
+function generalLog(x: bigint): bigint {
+    let res = 0n;
+
+    if (x >= FIXED_2) {
+        const count = floorLog2(div(x, FIXED_1));
+        x = shr(x, count);
+        res = mul(BigInt(count), FIXED_1);
+    }
+
+    if (x > FIXED_1) {
+        for (let i = MAX_PRECISION; i > 0; --i) {
+            x = div(mul(x, x), FIXED_1);
+            if (x >= FIXED_2) {
+                x = shr(x, 1);
+                res = add(res, shl(ONE, i - 1));
+            }
+        }
+    }
+
+    return div(mul(res, LN2_NUMERATOR), LN2_DENOMINATOR);
+}
+
+// Computes the largest integer smaller than or equal to the binary logarithm of the input.
+function floorLog2(n: bigint): number {
+    let res = 0;
+
+    if (n < 256n) {
+        while (n > 1n) {
+            n = shr(n, 1);
+            res += 1;
+        }
+    } else {
+        for (let s = 128; s > 0; s >>= 1) {
+            if (n >= shl(ONE, s)) {
+                n = shr(n, s);
+                res |= s;
+            }
+        }
+    }
+
+    return res;
+}
+
+function maxExp(precision: number): bigint {
+    return MAX_EXP_ARRAY[precision - MIN_PRECISION];
+}
+
+// Finds the highest precision whose maximum exponent is larger than or equal to x.
+function findPositionInMaxExpArray(x: bigint): number {
+    let lo = MIN_PRECISION;
+    let hi = MAX_PRECISION;
+
+    while (lo + 1 < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (maxExp(mid) >= x) {
+            lo = mid;
+        } else {
+            hi = mid;
+        }
+    }
+
+    if (maxExp(hi) >= x) {
+        return hi;
+    }
+    if (maxExp(lo) >= x) {
+        return lo;
+    }
+
+    throw new BancorMathError('exponent too large');
+}
+
+// Returns e ^ (x / 2 ^ precision) * 2 ^ precision via maclaurin summation.
+function generalExp(x: bigint, precision: number): bigint {
+    let xi = x;
+    let res = 0n;
+
+    for (const coefficient of GENERAL_EXP_COEFFICIENTS) {
+        xi = shr(mul(xi, x), precision);
+        res = add(res, mul(xi, coefficient));
+    }
+
+    // divide by 33! and then add x^1 / 1! + x^0 / 0!
+    return add(add(div(res, 0x688589cc0e9505e2f2fee5580000000n), x), shl(ONE, precision));
+}
+
+// Pairs of [e ^ 2 ^ -n * FIXED_1, 2 ^ -n * FIXED_1] used to reduce the input of `optimalLog`.
+const OPTIMAL_LOG_TERMS: [bigint, bigint][] = [
+    [0xd3094c70f034de4b96ff7d5b6f99fcd8n, 0x40000000000000000000000000000000n],
+    [0xa45af1e1f40c333b3de1db4dd55f29a7n, 0x20000000000000000000000000000000n],
+    [0x910b022db7ae67ce76b441c27035c6a1n, 0x10000000000000000000000000000000n],
+    [0x88415abbe9a76bead8d00cf112e4d4a8n, 0x08000000000000000000000000000000n],
+    [0x84102b00893f64c705e841d5d4064bd3n, 0x04000000000000000000000000000000n],
+    [0x8204055aaef1c8bd5c3259f4822735a2n, 0x02000000000000000000000000000000n],
+    [0x810100ab00222d861931c15e39b44e99n, 0x01000000000000000000000000000000n],
+    [0x808040155aabbbe9451521693554f733n, 0x00800000000000000000000000000000n],
+];
+
+// Pairs of [numerator, denominator] for the taylor series of log(1 + y) in `optimalLog`.
+const OPTIMAL_LOG_SERIES: [bigint, bigint][] = [
+    [0x100000000000000000000000000000000n, 0x100000000000000000000000000000000n],
+    [0x0aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaan, 0x200000000000000000000000000000000n],
+    [0x099999999999999999999999999999999n, 0x300000000000000000000000000000000n],
+    [0x092492492492492492492492492492492n, 0x400000000000000000000000000000000n],
+    [0x08e38e38e38e38e38e38e38e38e38e38en, 0x500000000000000000000000000000000n],
+    [0x08ba2e8ba2e8ba2e8ba2e8ba2e8ba2e8bn, 0x600000000000000000000000000000000n],
+    [0x089d89d89d89d89d89d89d89d89d89d89n, 0x700000000000000000000000000000000n],
+    [0x088888888888888888888888888888888n, 0x800000000000000000000000000000000n],
+];
+
+// Returns log(x / FIXED_1) * FIXED_1 for FIXED_1 <= x < OPT_LOG_MAX_VAL.
+function optimalLog(x: bigint): bigint {
+    let res = 0n;
+
+    for (const [threshold, term] of OPTIMAL_LOG_TERMS) {
+        if (x >= threshold) {
+            res = add(res, term);
+            x = div(mul(x, FIXED_1), threshold);
+        }
+    }
+
+    const y = sub(x, FIXED_1);
+    let z = y;
+    const w = div(mul(y, y), FIXED_1);
+    for (let i = 0; i < OPTIMAL_LOG_SERIES.length; i++) {
+        const [numerator, denominator] = OPTIMAL_LOG_SERIES[i];
+        res = add(res, div(mul(z, sub(numerator, y)), denominator));
+        if (i < OPTIMAL_LOG_SERIES.length - 1) {
+            z = div(mul(z, w), FIXED_1);
+        }
+    }
+
+    return res;
+}
+
+// Triples of [bit, numerator, denominator] multiplying `optimalExp` by e ^ 2 ^ n for each set bit.
+const OPTIMAL_EXP_TERMS: [bigint, bigint, bigint][] = [
+    [
+        0x010000000000000000000000000000000n,
+        0x1c3d6a24ed82218787d624d3e5eba95f9n,
+        0x18ebef9eac820ae8682b9793ac6d1e776n,
+    ],
+    [
+        0x020000000000000000000000000000000n,
+        0x18ebef9eac820ae8682b9793ac6d1e778n,
+        0x1368b2fc6f9609fe7aceb46aa619baed4n,
+    ],
+    [
+        0x040000000000000000000000000000000n,
+        0x1368b2fc6f9609fe7aceb46aa619baed5n,
+        0x0bc5ab1b16779be3575bd8f0520a9f21fn,
+    ],
+    [
+        0x080000000000000000000000000000000n,
+        0x0bc5ab1b16779be3575bd8f0520a9f21en,
+        0x0454aaa8efe072e7f6ddbab84b40a55c9n,
+    ],
+    [
+        0x100000000000000000000000000000000n,
+        0x0454aaa8efe072e7f6ddbab84b40a55c5n,
+        0x00960aadc109e7a3bf4578099615711ean,
+    ],
+    [
+        0x200000000000000000000000000000000n,
+        0x00960aadc109e7a3bf4578099615711d7n,
+        0x0002bf84208204f5977f9a8cf01fdce3dn,
+    ],
+    [
+        0x400000000000000000000000000000000n,
+        0x0002bf84208204f5977f9a8cf01fdc307n,
+        0x0000003c6ab775dd0b95b4cbee7e65d11n,
+    ],
+];
+
+// Returns e ^ (x / FIXED_1) * FIXED_1 for 0 <= x < OPT_EXP_MAX_VAL.
+function optimalExp(x: bigint): bigint {
+    let res = 0n;
+
+    const y = x % 0x10000000000000000000000000000000n; // get the input modulo 2^(-3)
+    let z = y;
+    for (const coefficient of OPTIMAL_EXP_COEFFICIENTS) {
+        z = div(mul(z, y), FIXED_1);
+        res = add(res, mul(z, coefficient));
+    }
+    // divide by 20! and then add y^1 / 1! + y^0 / 0!
+    res = add(add(div(res, 0x21c3677c82b40000n), y), FIXED_1);
+
+    for (const [bit, numerator, denominator] of OPTIMAL_EXP_TERMS) {
+        if ((x & bit) !== 0n) {
+            res = div(mul(res, numerator), denominator);
+        }
+    }
+
+    return res;
+}
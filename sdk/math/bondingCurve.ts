@@ -0,0 +1,99 @@
+// Off-chain replica of the pricing functions in `contracts/erc20-curve/BondingCurve.sol`, shared by the
+// linear, logarithmic and decaying curves. Each shape supplies its reserve function and spot price.
+import { ceilDiv } from './curveMath';
+import { PurchaseReturn, SaleReturn } from './exponentialBondingCurve';
+import { BASIS_POINTS_PRECISION, calculateBasisPointsPercentage, PRECISION } from './utils';
+
+export interface CurveShape {
+    protocolFeePercent: bigint;
+    // The reserve needed to back `supply` tokens, mirroring `_reserveAt`.
+    reserveAt(supply: bigint): bigint;
+    // The marginal price of a whole token, mirroring `_spotPrice`.
+    spotPrice(supply: bigint): bigint;
+    // Closed form replacement for the bounded search, mirroring an overridden `_calculatePurchaseReturn`.
+    purchaseReturn?(currentSupply: bigint, deposit: bigint): bigint;
+}
+
+// Mirrors `BondingCurve._calculatePurchaseReturn`, including its doubling and binary search.
+export function searchPurchaseReturn(shape: CurveShape, currentSupply: bigint, deposit: bigint) {
+    if (deposit === 0n) {
+        return 0n;
+    }
+    const target = shape.reserveAt(currentSupply) + deposit;
+
+    let low = 0n;
+    let high = PRECISION;
+    while (shape.reserveAt(currentSupply + high) <= target) {
+        low = high;
+        high *= 2n;
+    }
+
+    while (high - low > 1n) {
+        const mid = (low + high) / 2n;
+        if (shape.reserveAt(currentSupply + mid) <= target) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    return low;
+}
+
+// Mirrors `BondingCurve.getPurchaseReturn`.
+export function getPurchaseReturn(
+    shape: CurveShape,
+    currentSupply: bigint,
+    reserveTokensReceived: bigint,
+): PurchaseReturn {
+    const fees = calculateBasisPointsPercentage(reserveTokensReceived, shape.protocolFeePercent);
+    const deposit = reserveTokensReceived - fees;
+    const purchaseReturn = shape.purchaseReturn
+        ? shape.purchaseReturn(currentSupply, deposit)
+        : searchPurchaseReturn(shape, currentSupply, deposit);
+
+    return { purchaseReturn, fees };
+}
+
+// Mirrors `BondingCurve.getSaleReturn`, capped by the reserve balance.
+export function getSaleReturn(
+    shape: CurveShape,
+    currentSupply: bigint,
+    reserveTokenBalance: bigint,
+    tokensToBurn: bigint,
+): SaleReturn {
+    if (tokensToBurn > currentSupply) {
+        throw new RangeError('BondingCurve: sale exceeds supply');
+    }
+    const reserveBefore = shape.reserveAt(currentSupply);
+    const reserveAfter = shape.reserveAt(currentSupply - tokensToBurn);
+    let saleValue = reserveBefore > reserveAfter ? reserveBefore - reserveAfter : 0n;
+    if (saleValue > reserveTokenBalance) {
+        saleValue = reserveTokenBalance;
+    }
+    const fees = calculateBasisPointsPercentage(saleValue, shape.protocolFeePercent);
+
+    return { saleValue, fees };
+}
+
+// Mirrors `BondingCurve.getSpotPrice`.
+export function getSpotPrice(shape: CurveShape, currentSupply: bigint): bigint {
+    return shape.spotPrice(currentSupply);
+}
+
+// Mirrors `BondingCurve.getMintCost`.
+export function getMintCost(
+    shape: CurveShape,
+    currentSupply: bigint,
+): { depositAmount: bigint; fees: bigint } {
+    const cost = shape.reserveAt(currentSupply + PRECISION) - shape.reserveAt(currentSupply);
+    const depositAmount = ceilDiv(
+        cost * BASIS_POINTS_PRECISION,
+        BASIS_POINTS_PRECISION - shape.protocolFeePercent,
+    );
+
+    return {
+        depositAmount,
+        fees: calculateBasisPointsPercentage(depositAmount, shape.protocolFeePercent),
+    };
+}
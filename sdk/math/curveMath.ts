@@ -0,0 +1,73 @@
+// BigInt replica of `contracts/erc20-curve/utils/CurveMath.sol` and the OpenZeppelin `Math` helpers
+// the curve shapes use. All values are in 1e18 format.
+import { PRECISION } from './utils';
+
+const LN2 = 693147180559945309n;
+const E = 2718281828459045235n;
+const MAX_EXPONENT = 42n * PRECISION;
+
+// Mirrors `Math.log2`, the index of the most significant bit.
+export function log2(value: bigint): bigint {
+    return value <= 0n ? 0n : BigInt(value.toString(2).length - 1);
+}
+
+// Mirrors `Math.sqrt`, rounded down.
+export function sqrt(value: bigint): bigint {
+    if (value < 2n) {
+        return value;
+    }
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+    }
+    return x;
+}
+
+// Mirrors `Math.ceilDiv`.
+export function ceilDiv(a: bigint, b: bigint): bigint {
+    return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+// Mirrors `CurveMath.ln`; throws where the contract reverts for inputs below one.
+export function ln(x: bigint): bigint {
+    if (x < PRECISION) {
+        throw new RangeError('CurveMath: logarithm input below one');
+    }
+
+    const n = log2(x / PRECISION);
+    let y = x >> n;
+    let result = n * PRECISION;
+    for (let delta = PRECISION / 2n; delta > 0n; delta /= 2n) {
+        y = (y * y) / PRECISION;
+        if (y >= 2n * PRECISION) {
+            result += delta;
+            y /= 2n;
+        }
+    }
+
+    return (result * LN2) / PRECISION;
+}
+
+// Mirrors `CurveMath.expNeg`, e^-x.
+export function expNeg(x: bigint): bigint {
+    if (x >= MAX_EXPONENT) {
+        return 0n;
+    }
+
+    let integerPart = PRECISION;
+    for (let i = 0n; i < x / PRECISION; i++) {
+        integerPart = (integerPart * E) / PRECISION;
+    }
+
+    const fraction = x % PRECISION;
+    let term = PRECISION;
+    let fractionalPart = PRECISION;
+    for (let i = 1n; term > 0n; i++) {
+        term = (term * fraction) / (PRECISION * i);
+        fractionalPart += term;
+    }
+
+    return (PRECISION * PRECISION) / ((integerPart * fractionalPart) / PRECISION);
+}
@@ -0,0 +1,100 @@
+// Off-chain replicas of the curve shapes in `contracts/erc20-curve`, for use with `./bondingCurve`.
+import { CurveShape } from './bondingCurve';
+import { expNeg, ln, sqrt } from './curveMath';
+import { PRECISION } from './utils';
+
+// The curve settings a quote depends on, as returned by `LinearBondingCurve`'s getters.
+export interface LinearCurveParams {
+    protocolFeePercent: bigint;
+    initialPrice: bigint;
+    slope: bigint;
+}
+
+// The curve settings a quote depends on, as returned by `LogarithmicBondingCurve`'s getters.
+export interface LogarithmicCurveParams {
+    protocolFeePercent: bigint;
+    priceScale: bigint;
+    supplyScale: bigint;
+}
+
+// The curve settings a quote depends on, as returned by `DecayingBondingCurve`'s getters.
+export interface DecayingCurveParams {
+    protocolFeePercent: bigint;
+    initialPrice: bigint;
+    maxPrice: bigint;
+    decaySupply: bigint;
+}
+
+// Mirrors `LinearBondingCurve`: price = initialPrice + slope * supply.
+export function linearCurve({
+    protocolFeePercent,
+    initialPrice,
+    slope,
+}: LinearCurveParams): CurveShape {
+    return {
+        protocolFeePercent,
+        reserveAt: (supply) =>
+            (supply * (2n * initialPrice * PRECISION + slope * supply)) /
+            (2n * PRECISION * PRECISION),
+        spotPrice: (supply) => initialPrice + (slope * supply) / PRECISION,
+        purchaseReturn: (currentSupply, deposit) => {
+            if (slope === 0n) {
+                return (deposit * PRECISION) / initialPrice;
+            }
+            const scaledPrice = initialPrice * PRECISION + slope * currentSupply;
+            const discriminant =
+                scaledPrice * scaledPrice + 2n * slope * deposit * PRECISION * PRECISION;
+
+            return (sqrt(discriminant) - scaledPrice) / slope;
+        },
+    };
+}
+
+// Mirrors `LogarithmicBondingCurve`: price = priceScale * ln(1 + supply / supplyScale).
+export function logarithmicCurve({
+    protocolFeePercent,
+    priceScale,
+    supplyScale,
+}: LogarithmicCurveParams): CurveShape {
+    return {
+        protocolFeePercent,
+        reserveAt: (supply) => {
+            const shifted = supply + supplyScale;
+            const area = shifted * ln((shifted * PRECISION) / supplyScale);
+            if (area <= supply * PRECISION) {
+                return 0n;
+            }
+
+            return (priceScale * (area - supply * PRECISION)) / (PRECISION * PRECISION);
+        },
+        spotPrice: (supply) =>
+            (priceScale * ln(((supply + supplyScale) * PRECISION) / supplyScale)) / PRECISION,
+    };
+}
+
+// Mirrors `DecayingBondingCurve`: price = maxPrice - (maxPrice - initialPrice) * e^(-supply / decaySupply).
+export function decayingCurve({
+    protocolFeePercent,
+    initialPrice,
+    maxPrice,
+    decaySupply,
+}: DecayingCurveParams): CurveShape {
+    return {
+        protocolFeePercent,
+        reserveAt: (supply) => {
+            const decayed = PRECISION - expNeg((supply * PRECISION) / decaySupply);
+            const ceiling = maxPrice * supply * PRECISION;
+            const discount = (maxPrice - initialPrice) * decaySupply * decayed;
+            if (ceiling <= discount) {
+                return 0n;
+            }
+
+            return (ceiling - discount) / (PRECISION * PRECISION);
+        },
+        spotPrice: (supply) => {
+            const remaining = expNeg((supply * PRECISION) / decaySupply);
+
+            return maxPrice - ((maxPrice - initialPrice) * remaining) / PRECISION;
+        },
+    };
+}
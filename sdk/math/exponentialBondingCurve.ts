@@ -0,0 +1,95 @@
+// Off-chain replica of the pricing functions in `contracts/erc20-curve/ExponentialBondingCurve.sol`.
+import { calculatePurchaseReturn, calculateSaleReturn } from './bancorFormula';
+import { calculateBasisPointsPercentage, PRECISION } from './utils';
+
+// The curve settings a quote depends on, as returned by the curve's getters.
+export interface ExponentialCurveParams {
+    reserveRatio: bigint;
+    protocolFeePercent: bigint;
+}
+
+export interface PurchaseReturn {
+    purchaseReturn: bigint;
+    fees: bigint;
+}
+
+export interface SaleReturn {
+    saleValue: bigint;
+    fees: bigint;
+}
+
+// Mirrors `ExponentialBondingCurve.getPurchaseReturn`.
+export function getPurchaseReturn(
+    params: ExponentialCurveParams,
+    currentSupply: bigint,
+    reserveTokenBalance: bigint,
+    reserveTokensReceived: bigint,
+): PurchaseReturn {
+    const fees = calculateBasisPointsPercentage(reserveTokensReceived, params.protocolFeePercent);
+    const purchaseReturn = calculatePurchaseReturn(
+        currentSupply,
+        reserveTokenBalance,
+        params.reserveRatio,
+        reserveTokensReceived - fees,
+    );
+
+    return { purchaseReturn, fees };
+}
+
+// Mirrors `ExponentialBondingCurve.getSaleReturn`.
+export function getSaleReturn(
+    params: ExponentialCurveParams,
+    currentSupply: bigint,
+    reserveTokenBalance: bigint,
+    tokensToBurn: bigint,
+): SaleReturn {
+    const saleValue = calculateSaleReturn(
+        currentSupply,
+        reserveTokenBalance,
+        params.reserveRatio,
+        tokensToBurn,
+    );
+    const fees = calculateBasisPointsPercentage(saleValue, params.protocolFeePercent);
+
+    return { saleValue, fees };
+}
+
+// Mirrors `ExponentialBondingCurve.getMintCost`, including its binary search, without any RPC calls.
+export function getMintCost(
+    params: ExponentialCurveParams,
+    currentSupply: bigint,
+    reserveTokenBalance: bigint,
+): { depositAmount: bigint; fees: bigint } {
+    let low = 0n;
+    let high = reserveTokenBalance * 10n;
+    let fees = 0n;
+
+    while (high - low > 1n) {
+        const mid = (low + high) / 2n;
+        const quote = getPurchaseReturn(params, currentSupply, reserveTokenBalance, mid);
+        fees = quote.fees;
+        if (quote.purchaseReturn < PRECISION) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    return { depositAmount: high, fees };
+}
+
+// Mirrors `ExponentialBondingCurve.getTokenPrice`.
+export function getTokenPrice(
+    params: ExponentialCurveParams,
+    currentSupply: bigint,
+    reserveTokenBalance: bigint,
+): { tokenPrice: bigint; fees: bigint } {
+    const { saleValue, fees } = getSaleReturn(
+        params,
+        currentSupply,
+        reserveTokenBalance,
+        PRECISION,
+    );
+
+    return { tokenPrice: saleValue, fees };
+}
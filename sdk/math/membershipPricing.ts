@@ -0,0 +1,101 @@
+// Off-chain replica of the pricing models in `contracts/groups/MembershipPricingEngine.sol`.
+import { log2 } from './curveMath';
+import { BASIS_POINTS_PRECISION, PRECISION } from './utils';
+
+// Mirrors `MembershipPricingEngine.PricingModel`.
+export enum PricingModel {
+    Quadratic,
+    Linear,
+    Logarithmic,
+    FlatWithCap,
+}
+
+// Mirrors `MembershipPricingEngine.PricingParams`. A `maxSupply` of zero leaves the supply uncapped.
+export interface PricingParams {
+    model: PricingModel;
+    initialCost: bigint;
+    slope: bigint;
+    maxSupply: bigint;
+}
+
+// Thrown wherever the engine would revert.
+export class MembershipPricingError extends Error {
+    constructor(reason: string) {
+        super(`MembershipPricingEngine reverted: ${reason}`);
+        this.name = 'MembershipPricingError';
+    }
+}
+
+// Mirrors `MembershipPricingEngine._getDefaultPricing`, used by groups that have not selected a pricing.
+export function getDefaultPricing(initialCost: bigint, scalingFactor: bigint): PricingParams {
+    return {
+        model: PricingModel.Quadratic,
+        initialCost,
+        slope: (scalingFactor * PRECISION) / BASIS_POINTS_PRECISION,
+        maxSupply: 0n,
+    };
+}
+
+// Mirrors `MembershipPricingEngine._getPrice`, the price of the membership minted at `supply`.
+export function getPrice(params: PricingParams, supply: bigint): bigint {
+    switch (params.model) {
+        case PricingModel.Quadratic:
+            return params.initialCost + params.slope * supply * supply;
+        case PricingModel.Linear:
+            return params.initialCost + params.slope * supply;
+        case PricingModel.Logarithmic:
+            return params.initialCost + params.slope * log2(supply + 1n);
+        default:
+            return params.initialCost;
+    }
+}
+
+// Mirrors `MembershipPricingEngine._getCumulativeCost`, the cost of minting the first `supply` memberships.
+export function getCumulativeCost(params: PricingParams, supply: bigint): bigint {
+    if (supply === 0n) {
+        return 0n;
+    }
+    const base = params.initialCost * supply;
+    switch (params.model) {
+        case PricingModel.Quadratic:
+            return base + params.slope * (((supply - 1n) * supply * (2n * supply - 1n)) / 6n);
+        case PricingModel.Linear:
+            return base + params.slope * ((supply * (supply - 1n)) / 2n);
+        case PricingModel.Logarithmic: {
+            const log = log2(supply);
+            return base + params.slope * ((supply + 1n) * log + 2n - (2n << log));
+        }
+        default:
+            return base;
+    }
+}
+
+// Mirrors `MembershipPricingEngine.getBuyQuote`, excluding fees.
+export function getBuyQuote(params: PricingParams, currentSupply: bigint, amount: bigint): bigint {
+    if (amount === 0n) {
+        throw new MembershipPricingError('InvalidAmount');
+    }
+    if (params.maxSupply !== 0n && currentSupply + amount > params.maxSupply) {
+        throw new MembershipPricingError('MaxSupplyExceeded');
+    }
+
+    return (
+        getCumulativeCost(params, currentSupply + amount) - getCumulativeCost(params, currentSupply)
+    );
+}
+
+// Mirrors `MembershipPricingEngine.getSellQuote`, excluding fees.
+export function getSellQuote(
+    params: PricingParams,
+    currentSupply: bigint,
+    reserveBalance: bigint,
+    amount: bigint,
+): bigint {
+    if (amount === 0n || amount > currentSupply) {
+        throw new MembershipPricingError('InvalidAmount');
+    }
+    const totalCost = getCumulativeCost(params, currentSupply);
+    const soldCost = totalCost - getCumulativeCost(params, currentSupply - amount);
+
+    return (reserveBalance * soldCost) / totalCost;
+}
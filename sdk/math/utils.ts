@@ -0,0 +1,12 @@
+// Mirrors the constants and helpers in `contracts/Utils.sol`.
+
+// Precision for basis points calculations.
+export const BASIS_POINTS_PRECISION = 10_000n;
+
+// Fixed point precision, also used as the number 1 in curve calculations.
+export const PRECISION = 10n ** 18n;
+
+// Returns `basisPoints` of `amount`, rounded down like `Utils.calculateBasisPointsPercentage`.
+export function calculateBasisPointsPercentage(amount: bigint, basisPoints: bigint): bigint {
+    return (amount * basisPoints) / BASIS_POINTS_PRECISION;
+}
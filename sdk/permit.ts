@@ -0,0 +1,35 @@
+import { Signature, Signer } from 'ethers';
+import { ERC20Permit__factory } from '../typechain-types';
+
+// Signs an EIP-2612 permit letting `spender` transfer `value` of the signer's `token` until `deadline`.
+// The domain is read from the token (EIP-5267), so any OpenZeppelin `ERC20Permit` token is supported.
+export async function signPermit(
+    signer: Signer,
+    token: string,
+    spender: string,
+    value: bigint,
+    deadline: bigint,
+): Promise<Signature> {
+    const owner = await signer.getAddress();
+    const permitToken = ERC20Permit__factory.connect(token, signer);
+    const [[, name, version, chainId, verifyingContract], nonce] = await Promise.all([
+        permitToken.eip712Domain(),
+        permitToken.nonces(owner),
+    ]);
+
+    const signature = await signer.signTypedData(
+        { name, version, chainId, verifyingContract },
+        {
+            Permit: [
+                { name: 'owner', type: 'address' },
+                { name: 'spender', type: 'address' },
+                { name: 'value', type: 'uint256' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'deadline', type: 'uint256' },
+            ],
+        },
+        { owner, spender, value, nonce, deadline },
+    );
+
+    return Signature.from(signature);
+}
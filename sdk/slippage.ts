@@ -0,0 +1,39 @@
+import { ContractRunner } from 'ethers';
+import { BASIS_POINTS_PRECISION, calculateBasisPointsPercentage } from './math/utils';
+
+// Default slippage tolerance applied by the clients: 0.5%.
+export const DEFAULT_SLIPPAGE_TOLERANCE_BPS = 50n;
+
+// Default window after the latest block in which a bounded trade must be included: 20 minutes.
+export const DEFAULT_DEADLINE_SECONDS = 1200n;
+
+export interface SlippageOptions {
+    // Maximum accepted shortfall against the quoted amount, in basis points.
+    toleranceBps?: bigint;
+    // Timestamp after which the transaction reverts. Defaults to the latest block plus 20 minutes.
+    deadline?: bigint;
+}
+
+// Returns the minimum amount to accept for a quoted `amount` given a tolerance in basis points.
+export function applySlippage(amount: bigint, toleranceBps: bigint): bigint {
+    if (toleranceBps < 0n || toleranceBps > BASIS_POINTS_PRECISION) {
+        throw new RangeError(
+            `Slippage tolerance must be between 0 and ${BASIS_POINTS_PRECISION} bps`,
+        );
+    }
+
+    return amount - calculateBasisPointsPercentage(amount, toleranceBps);
+}
+
+// Returns a deadline `seconds` after the latest block, which is what `block.timestamp` is checked against.
+export async function getDeadline(
+    runner: ContractRunner | null,
+    seconds: bigint = DEFAULT_DEADLINE_SECONDS,
+): Promise<bigint> {
+    const block = await runner?.provider?.getBlock('latest');
+    if (!block) {
+        throw new Error('A provider is required to compute a deadline');
+    }
+
+    return BigInt(block.timestamp) + seconds;
+}
@@ -0,0 +1,57 @@
+import { BaseContract, TransactionReceipt } from 'ethers';
+import { TimelockedOwnableUpgradeable__factory } from '../typechain-types';
+import { parseEvent } from './events';
+import { waitForReceipt } from './transactions';
+
+// A change scheduled on a contract inheriting `TimelockedOwnableUpgradeable`.
+export interface ScheduledChange {
+    changeId: string;
+    data: string;
+    readyAt: bigint;
+}
+
+// Encodes a call to a timelocked function, e.g. `encodeChange(base, 'setProtocolFeePercent', [500])`.
+// The change ID of the call is the hash of this calldata.
+export function encodeChange(
+    contract: BaseContract,
+    functionName: string,
+    args: readonly unknown[] = [],
+): string {
+    return contract.interface.encodeFunctionData(functionName, args);
+}
+
+// Schedules a call to a timelocked function, which can be made once the contract's change delay has passed.
+export async function scheduleChange(
+    contract: BaseContract,
+    functionName: string,
+    args: readonly unknown[] = [],
+): Promise<ScheduledChange> {
+    const timelocked = TimelockedOwnableUpgradeable__factory.connect(
+        await contract.getAddress(),
+        contract.runner,
+    );
+    const data = encodeChange(contract, functionName, args);
+    const receipt = await waitForReceipt(await timelocked.scheduleChange(data));
+
+    return parseEvent<ScheduledChange>(timelocked, receipt, 'ChangeScheduled');
+}
+
+// Makes a scheduled call, reverting until its change is ready.
+export async function executeChange(
+    contract: BaseContract,
+    functionName: string,
+    args: readonly unknown[] = [],
+): Promise<TransactionReceipt> {
+    const timelocked = TimelockedOwnableUpgradeable__factory.connect(
+        await contract.getAddress(),
+        contract.runner,
+    );
+    const readyAt = await timelocked.getChangeReadyAt(
+        await timelocked.getChangeId(encodeChange(contract, functionName, args)),
+    );
+    if (readyAt === 0n) {
+        throw new Error(`${functionName} has not been scheduled`);
+    }
+
+    return waitForReceipt(await contract.getFunction(functionName)(...args));
+}
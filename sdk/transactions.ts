@@ -0,0 +1,20 @@
+import { ContractRunner, ContractTransactionResponse, TransactionReceipt } from 'ethers';
+
+// Waits for a transaction to be mined and fails loudly if no receipt was returned.
+export async function waitForReceipt(tx: ContractTransactionResponse): Promise<TransactionReceipt> {
+    const receipt = await tx.wait();
+    if (receipt === null) {
+        throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+
+    return receipt;
+}
+
+// Returns the address of the signer behind a contract runner.
+export async function getSignerAddress(runner: ContractRunner | null): Promise<string> {
+    if (!runner || !('getAddress' in runner) || typeof runner.getAddress !== 'function') {
+        throw new Error('A signer is required to send transactions');
+    }
+
+    return runner.getAddress();
+}
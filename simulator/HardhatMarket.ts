@@ -0,0 +1,119 @@
+import { MaxUint256, Wallet, ZeroAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+    ExponentialBondingCurve,
+    ExponentialBondingCurve__factory,
+    GroupToken,
+    GroupToken__factory,
+} from '../typechain-types';
+import { parseEvent, waitForReceipt } from '../sdk';
+import { BuyResult, Market, MarketParams, MarketState, SellResult } from './market';
+
+// Market of a `GroupToken` deployed with its own AlphaMarketBase and ExponentialBondingCurve on the network of
+// `hre`, meant for the in-process Hardhat network. A single trader account makes every agent's trades.
+export class HardhatMarket implements Market {
+    private constructor(
+        private readonly hre: HardhatRuntimeEnvironment,
+        private readonly groupToken: GroupToken,
+        private readonly trader: string,
+        private readonly bondingCurve: ExponentialBondingCurve,
+        private readonly protocolFeeDestination: string,
+    ) {}
+
+    // Deploys the contracts with the given settings, with fees sent to a fresh address so they can be measured.
+    static async deploy(hre: HardhatRuntimeEnvironment, params: MarketParams) {
+        const [deployer, trader] = await hre.ethers.getSigners();
+        const protocolFeeDestination = Wallet.createRandom().address;
+
+        const alphaMarketBase = await hre.upgrades.deployProxy(
+            await hre.ethers.getContractFactory('AlphaMarketBase', deployer),
+            [
+                deployer.address,
+                protocolFeeDestination,
+                params.protocolFeePercent,
+                params.feeSharePercent,
+            ],
+            { initializer: 'initialize', kind: 'uups' },
+        );
+        const curveProxy = await hre.upgrades.deployProxy(
+            await hre.ethers.getContractFactory('ExponentialBondingCurve', deployer),
+            [
+                deployer.address,
+                await alphaMarketBase.getAddress(),
+                params.initialReserve,
+                params.reserveRatio,
+            ],
+            { initializer: 'initialize', kind: 'uups' },
+        );
+        const groupToken = await new GroupToken__factory(deployer).deploy(
+            'Simulation',
+            'SIM',
+            curveProxy,
+            deployer.address,
+            ZeroAddress,
+            { value: params.initialReserve },
+        );
+        await groupToken.waitForDeployment();
+
+        const tradedToken = groupToken.connect(trader);
+        // Burning goes through `burnFrom`, which spends the trader's allowance to itself
+        await waitForReceipt(await tradedToken.approve(trader.address, MaxUint256));
+
+        return new HardhatMarket(
+            hre,
+            tradedToken,
+            trader.address,
+            ExponentialBondingCurve__factory.connect(await curveProxy.getAddress(), trader),
+            protocolFeeDestination,
+        );
+    }
+
+    async getState(): Promise<MarketState> {
+        const supply = await this.groupToken.totalSupply();
+        const reserve = await this.groupToken.getReserveBalance();
+
+        return {
+            supply,
+            reserve,
+            spotPrice: await this.bondingCurve.getSpotPrice(supply, reserve),
+            protocolFees: await this.hre.ethers.provider.getBalance(this.protocolFeeDestination),
+            collectedFees: await this.groupToken.getCollectedFees(),
+        };
+    }
+
+    async quoteBuy(deposit: bigint): Promise<BuyResult> {
+        const [tokens, fees] = await this.bondingCurve.getPurchaseReturn(
+            this.groupToken,
+            await this.groupToken.totalSupply(),
+            await this.groupToken.getReserveBalance(),
+            deposit,
+        );
+
+        return { tokens, fees };
+    }
+
+    async buy(deposit: bigint): Promise<BuyResult> {
+        const receipt = await waitForReceipt(await this.groupToken.mintTokens({ value: deposit }));
+        const { tokensMinted, fees } = await parseEvent<{ tokensMinted: bigint; fees: bigint }>(
+            this.groupToken,
+            receipt,
+            'TokensPurchased',
+        );
+
+        return { tokens: tokensMinted, fees };
+    }
+
+    async sell(amount: bigint): Promise<SellResult> {
+        const collectedFees = await this.groupToken.getCollectedFees();
+        const receipt = await waitForReceipt(await this.groupToken.burnTokens(amount, this.trader));
+        const { amountReceived, fees } = await parseEvent<{ amountReceived: bigint; fees: bigint }>(
+            this.groupToken,
+            receipt,
+            'TokensSold',
+        );
+
+        const feeShare = (await this.groupToken.getCollectedFees()) - collectedFees;
+
+        return { proceeds: amountReceived, fees, feeShare };
+    }
+}
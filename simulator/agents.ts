@@ -0,0 +1,119 @@
+// Scripted trader populations driven against a market by `runSimulation`.
+
+export type AgentKind = 'buyer' | 'seller' | 'whale';
+
+// A group of agents behaving alike. Buyers buy whenever they act. Sellers buy in the first time they act, then sell
+// half of their tokens each time they act again. Whales buy once at `entryStep` and sell all their tokens at
+// `exitStep`, by default a quarter and three quarters into the simulation.
+export interface AgentSpec {
+    kind: AgentKind;
+    count: number;
+    // Wei deposited per buy, varied by up to 50% either way for buyers and sellers
+    tradeSize: bigint;
+    // Chance of acting at each step, 1 when omitted
+    activity?: number;
+    entryStep?: number;
+    exitStep?: number;
+}
+
+export type Action = { type: 'buy'; deposit: bigint } | { type: 'sell'; amount: bigint };
+
+export interface AgentContext {
+    step: number;
+    steps: number;
+    random: () => number;
+}
+
+export interface Agent {
+    id: string;
+    kind: AgentKind;
+    // Tokens bought and not yet sold, kept up to date by the simulation
+    holdings: bigint;
+    act(context: AgentContext): Action | undefined;
+}
+
+// Buyers and sellers in small sizes with a single whale, sized for the 0.0001 ether initial reserve.
+export const DEFAULT_POPULATION: AgentSpec[] = [
+    { kind: 'buyer', count: 20, tradeSize: 10_000_000_000_000_000n, activity: 0.3 },
+    { kind: 'seller', count: 10, tradeSize: 20_000_000_000_000_000n, activity: 0.2 },
+    { kind: 'whale', count: 1, tradeSize: 5_000_000_000_000_000_000n },
+];
+
+// Returns a deterministic pseudo-random generator of numbers in [0, 1) (mulberry32), so runs are reproducible.
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Returns `amount` scaled by a random factor between 50% and 150%.
+function jitter(amount: bigint, random: () => number): bigint {
+    return (amount * BigInt(50 + Math.floor(random() * 101))) / 100n;
+}
+
+function createAgent(spec: AgentSpec, index: number): Agent {
+    const activity = spec.activity ?? 1;
+    let entered = false;
+    const agent: Agent = {
+        id: `${spec.kind}-${index}`,
+        kind: spec.kind,
+        holdings: 0n,
+        act({ step, steps, random }) {
+            if (spec.kind === 'whale') {
+                if (step === (spec.entryStep ?? Math.floor(steps / 4))) {
+                    return { type: 'buy', deposit: spec.tradeSize };
+                }
+                if (
+                    step === (spec.exitStep ?? Math.floor((steps * 3) / 4)) &&
+                    agent.holdings > 0n
+                ) {
+                    return { type: 'sell', amount: agent.holdings };
+                }
+                return undefined;
+            }
+            if (random() >= activity) {
+                return undefined;
+            }
+            if (spec.kind === 'seller' && entered) {
+                const amount = agent.holdings > 1n ? agent.holdings / 2n : agent.holdings;
+                return amount > 0n ? { type: 'sell', amount } : undefined;
+            }
+            entered = true;
+
+            return { type: 'buy', deposit: jitter(spec.tradeSize, random) };
+        },
+    };
+
+    return agent;
+}
+
+// Creates the agents of a population, identified by their kind and index, e.g. `buyer-0`.
+export function createPopulation(specs: AgentSpec[]): Agent[] {
+    const agents: Agent[] = [];
+    const counts: Partial<Record<AgentKind, number>> = {};
+    for (const spec of specs) {
+        for (let i = 0; i < spec.count; i++) {
+            const index = counts[spec.kind] ?? 0;
+            counts[spec.kind] = index + 1;
+            agents.push(createAgent(spec, index));
+        }
+    }
+
+    return agents;
+}
+
+// Shuffles agents in place (Fisher-Yates), so the order they trade in varies between steps.
+export function shuffle<T>(items: T[], random: () => number): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+
+    return items;
+}
@@ -0,0 +1,5 @@
+export * from './agents';
+export * from './market';
+export * from './HardhatMarket';
+export * from './simulation';
+export * from './reports';
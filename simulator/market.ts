@@ -0,0 +1,102 @@
+import { getPurchaseReturn, getSaleReturn } from '../sdk/math/exponentialBondingCurve';
+import { calculateBasisPointsPercentage, PRECISION } from '../sdk/math/utils';
+import { getTokenSpotPrice } from '../indexer/pricing';
+
+// The curve and fee settings a simulation runs with.
+export interface MarketParams {
+    // Reserve ratio of the ExponentialBondingCurve in ppm
+    reserveRatio: bigint;
+    // Wei the group token is seeded with, for the host's initial token
+    initialReserve: bigint;
+    protocolFeePercent: bigint;
+    feeSharePercent: bigint;
+}
+
+export interface MarketState {
+    supply: bigint;
+    reserve: bigint;
+    // Marginal price of a whole token in wei, excluding fees
+    spotPrice: bigint;
+    // Fees sent to the protocol fee destination so far
+    protocolFees: bigint;
+    // Share of the sale fees kept by the group token so far
+    collectedFees: bigint;
+}
+
+export interface BuyResult {
+    tokens: bigint;
+    fees: bigint;
+}
+
+export interface SellResult {
+    // Wei sent to the seller after fees
+    proceeds: bigint;
+    // Fees sent to the protocol fee destination
+    fees: bigint;
+    // Share of the fees kept by the group token
+    feeShare: bigint;
+}
+
+// A single group token on the ExponentialBondingCurve that agents trade against.
+export interface Market {
+    getState(): Promise<MarketState>;
+    quoteBuy(deposit: bigint): Promise<BuyResult>;
+    buy(deposit: bigint): Promise<BuyResult>;
+    sell(amount: bigint): Promise<SellResult>;
+}
+
+// Off-chain market replicating the accounting of an Ether backed `GroupToken` with the `sdk/math` curve model.
+export class ModelMarket implements Market {
+    private supply = PRECISION;
+    private reserve: bigint;
+    private protocolFees = 0n;
+    private collectedFees = 0n;
+
+    constructor(readonly params: MarketParams) {
+        // The constructor of the group token mints the host's initial token for the initial reserve
+        this.reserve = params.initialReserve;
+    }
+
+    async getState(): Promise<MarketState> {
+        return {
+            supply: this.supply,
+            reserve: this.reserve,
+            spotPrice: getTokenSpotPrice(this.reserve, this.supply, this.params.reserveRatio),
+            protocolFees: this.protocolFees,
+            collectedFees: this.collectedFees,
+        };
+    }
+
+    async quoteBuy(deposit: bigint): Promise<BuyResult> {
+        const { purchaseReturn, fees } = getPurchaseReturn(
+            this.params,
+            this.supply,
+            this.reserve,
+            deposit,
+        );
+
+        return { tokens: purchaseReturn, fees };
+    }
+
+    // Mirrors `GroupToken._mintTokens`.
+    async buy(deposit: bigint): Promise<BuyResult> {
+        const result = await this.quoteBuy(deposit);
+        this.reserve += deposit - result.fees;
+        this.supply += result.tokens;
+        this.protocolFees += result.fees;
+
+        return result;
+    }
+
+    // Mirrors `GroupToken._burnTokens`.
+    async sell(amount: bigint): Promise<SellResult> {
+        const { saleValue, fees } = getSaleReturn(this.params, this.supply, this.reserve, amount);
+        const feeShare = calculateBasisPointsPercentage(fees, this.params.feeSharePercent);
+        this.reserve -= saleValue;
+        this.supply -= amount;
+        this.collectedFees += feeShare;
+        this.protocolFees += fees - feeShare;
+
+        return { proceeds: saleValue - fees, fees: fees - feeShare, feeShare };
+    }
+}
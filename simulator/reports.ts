@@ -0,0 +1,56 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SimulationResult } from './simulation';
+
+type Row = Record<string, bigint | number | string>;
+
+// Formats rows as CSV with a header from the keys of the first row. Amounts are written in wei, unformatted.
+export function toCsv(rows: Row[]): string {
+    if (rows.length === 0) {
+        return '';
+    }
+    const columns = Object.keys(rows[0]);
+    const escape = (value: Row[string]) => {
+        const text = String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [columns, ...rows.map((row) => columns.map((column) => escape(row[column])))]
+        .map((values) => values.join(','))
+        .join('\n')
+        .concat('\n');
+}
+
+// Serializes results as JSON, with bigints as decimal strings.
+export function toJson(results: SimulationResult[]): string {
+    return JSON.stringify(
+        results,
+        (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+        4,
+    );
+}
+
+// Writes the results of a sweep to `dir`: one CSV per report, each row keyed by the settings of its run, and the
+// full results as `report.json`. Returns the paths written.
+export function writeReports(dir: string, results: SimulationResult[]): string[] {
+    mkdirSync(dir, { recursive: true });
+    const withParams = <T extends object>(result: SimulationResult, rows: T[]): Row[] =>
+        rows.map((row) => ({
+            reserveRatio: result.params.reserveRatio,
+            initialReserve: result.params.initialReserve,
+            ...(row as Row),
+        }));
+    const reports: Record<string, string> = {
+        'summary.csv': toCsv(results.flatMap((result) => withParams(result, [result.summary]))),
+        'price-paths.csv': toCsv(results.flatMap((result) => withParams(result, result.pricePath))),
+        'trades.csv': toCsv(results.flatMap((result) => withParams(result, result.trades))),
+        'slippage.csv': toCsv(results.flatMap((result) => withParams(result, result.slippage))),
+        'report.json': toJson(results),
+    };
+
+    return Object.entries(reports).map(([file, contents]) => {
+        const path = join(dir, file);
+        writeFileSync(path, contents);
+        return path;
+    });
+}
@@ -0,0 +1,218 @@
+import { BASIS_POINTS_PRECISION, PRECISION } from '../sdk/math/utils';
+import { AgentKind, AgentSpec, createPopulation, createRandom, shuffle } from './agents';
+import { Market, MarketParams, MarketState } from './market';
+
+export interface SimulationOptions {
+    steps: number;
+    // Seed of the random generator, so runs with the same settings make the same trades
+    seed: number;
+    population: AgentSpec[];
+    // Deposits in wei quoted at the start and end of a run to measure slippage per trade size
+    quoteSizes: bigint[];
+}
+
+export interface TradeRecord {
+    step: number;
+    agent: string;
+    kind: AgentKind;
+    side: 'buy' | 'sell';
+    // Wei deposited for a buy, tokens burnt for a sell
+    amountIn: bigint;
+    // Tokens minted for a buy, wei received for a sell
+    amountOut: bigint;
+    fees: bigint;
+    spotPriceBefore: bigint;
+    spotPriceAfter: bigint;
+    // Execution price before fees relative to the spot price before the trade, in basis points
+    slippage: bigint;
+}
+
+export interface PricePoint extends MarketState {
+    step: number;
+}
+
+export interface SlippageQuote {
+    stage: 'initial' | 'final';
+    tradeSize: bigint;
+    tokens: bigint;
+    slippage: bigint;
+}
+
+export interface SimulationSummary {
+    trades: number;
+    buyVolume: bigint;
+    sellVolume: bigint;
+    initialPrice: bigint;
+    finalPrice: bigint;
+    minPrice: bigint;
+    maxPrice: bigint;
+    finalSupply: bigint;
+    finalReserve: bigint;
+    minReserve: bigint;
+    protocolFeeRevenue: bigint;
+    collectedFees: bigint;
+}
+
+export interface SimulationResult {
+    params: MarketParams;
+    summary: SimulationSummary;
+    pricePath: PricePoint[];
+    trades: TradeRecord[];
+    slippage: SlippageQuote[];
+}
+
+// The values of each setting to sweep, run in every combination.
+export interface ParameterGrid {
+    reserveRatio: bigint[];
+    initialReserve: bigint[];
+}
+
+// Deposits from 0.001 to 10 ether.
+export const DEFAULT_QUOTE_SIZES = [
+    1_000_000_000_000_000n,
+    10_000_000_000_000_000n,
+    100_000_000_000_000_000n,
+    1_000_000_000_000_000_000n,
+    10_000_000_000_000_000_000n,
+];
+
+// Basis points by which `executionPrice` is worse than `spotPrice` for the trader.
+function getSlippage(side: 'buy' | 'sell', executionPrice: bigint, spotPrice: bigint): bigint {
+    if (spotPrice === 0n) {
+        return 0n;
+    }
+    const difference = side === 'buy' ? executionPrice - spotPrice : spotPrice - executionPrice;
+
+    return (difference * BASIS_POINTS_PRECISION) / spotPrice;
+}
+
+// Quotes a buy of each size at the current state of the market.
+async function quoteSlippage(
+    market: Market,
+    stage: SlippageQuote['stage'],
+    quoteSizes: bigint[],
+): Promise<SlippageQuote[]> {
+    const { spotPrice } = await market.getState();
+    const quotes: SlippageQuote[] = [];
+    for (const tradeSize of quoteSizes) {
+        const { tokens, fees } = await market.quoteBuy(tradeSize);
+        const executionPrice = tokens === 0n ? 0n : ((tradeSize - fees) * PRECISION) / tokens;
+        quotes.push({
+            stage,
+            tradeSize,
+            tokens,
+            slippage: getSlippage('buy', executionPrice, spotPrice),
+        });
+    }
+
+    return quotes;
+}
+
+function summarize(pricePath: PricePoint[], trades: TradeRecord[]): SimulationSummary {
+    const prices = pricePath.map(({ spotPrice }) => spotPrice);
+    const reserves = pricePath.map(({ reserve }) => reserve);
+    const min = (values: bigint[]) => values.reduce((a, b) => (b < a ? b : a));
+    const max = (values: bigint[]) => values.reduce((a, b) => (b > a ? b : a));
+    const volume = (side: TradeRecord['side']) =>
+        trades
+            .filter((trade) => trade.side === side)
+            .reduce(
+                (total, trade) => total + (side === 'buy' ? trade.amountIn : trade.amountOut),
+                0n,
+            );
+    const final = pricePath[pricePath.length - 1];
+
+    return {
+        trades: trades.length,
+        buyVolume: volume('buy'),
+        sellVolume: volume('sell'),
+        initialPrice: prices[0],
+        finalPrice: final.spotPrice,
+        minPrice: min(prices),
+        maxPrice: max(prices),
+        finalSupply: final.supply,
+        finalReserve: final.reserve,
+        minReserve: min(reserves),
+        protocolFeeRevenue: final.protocolFees,
+        collectedFees: final.collectedFees,
+    };
+}
+
+// Lets every agent of the population act once per step, in a random order, recording each trade and the state of
+// the market at the start and after every step.
+export async function runSimulation(
+    market: Market,
+    params: MarketParams,
+    { steps, seed, population, quoteSizes }: SimulationOptions,
+): Promise<SimulationResult> {
+    const random = createRandom(seed);
+    const agents = createPopulation(population);
+    const pricePath: PricePoint[] = [{ step: 0, ...(await market.getState()) }];
+    const trades: TradeRecord[] = [];
+    const slippage = await quoteSlippage(market, 'initial', quoteSizes);
+
+    for (let step = 1; step <= steps; step++) {
+        for (const agent of shuffle([...agents], random)) {
+            const action = agent.act({ step, steps, random });
+            if (action === undefined) {
+                continue;
+            }
+            const { spotPrice: spotPriceBefore } = await market.getState();
+
+            let amountIn: bigint;
+            let amountOut: bigint;
+            let fees: bigint;
+            let executionPrice: bigint;
+            if (action.type === 'buy') {
+                const result = await market.buy(action.deposit);
+                agent.holdings += result.tokens;
+                [amountIn, amountOut, fees] = [action.deposit, result.tokens, result.fees];
+                executionPrice =
+                    result.tokens === 0n ? 0n : ((amountIn - fees) * PRECISION) / result.tokens;
+            } else {
+                const result = await market.sell(action.amount);
+                agent.holdings -= action.amount;
+                [amountIn, amountOut, fees] = [action.amount, result.proceeds, result.fees];
+                // The sale value is split between the seller, the protocol and the group token
+                const saleValue = result.proceeds + result.fees + result.feeShare;
+                executionPrice = (saleValue * PRECISION) / amountIn;
+            }
+
+            const { spotPrice: spotPriceAfter } = await market.getState();
+            trades.push({
+                step,
+                agent: agent.id,
+                kind: agent.kind,
+                side: action.type,
+                amountIn,
+                amountOut,
+                fees,
+                spotPriceBefore,
+                spotPriceAfter,
+                slippage: getSlippage(action.type, executionPrice, spotPriceBefore),
+            });
+        }
+        pricePath.push({ step, ...(await market.getState()) });
+    }
+    slippage.push(...(await quoteSlippage(market, 'final', quoteSizes)));
+
+    return { params, summary: summarize(pricePath, trades), pricePath, trades, slippage };
+}
+
+// Runs the simulation on a new market for every combination of the grid, keeping the other settings of `base`.
+export async function sweep(
+    createMarket: (params: MarketParams) => Promise<Market>,
+    base: MarketParams,
+    grid: ParameterGrid,
+    options: SimulationOptions,
+): Promise<SimulationResult[]> {
+    const results: SimulationResult[] = [];
+    for (const reserveRatio of grid.reserveRatio) {
+        for (const initialReserve of grid.initialReserve) {
+            const params = { ...base, reserveRatio, initialReserve };
+            results.push(await runSimulation(await createMarket(params), params, options));
+        }
+    }
+
+    return results;
+}
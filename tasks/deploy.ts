@@ -0,0 +1,227 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { format, resolveConfig } from 'prettier';
+import { dataSlice, getAddress, isAddress } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { NetworkConfig } from '../global';
+import { getNetworkConfig } from '../helper-hardhat.config';
+import { AddressBook, AlphaMarketAddresses, getAlphaMarketAddresses } from '../sdk/addresses';
+
+// Deploys the protocol through the `AlphaMarketModule` and records its addresses in the SDK address book, e.g.
+// npx hardhat deploy:alphamarket --network arbitrumSepolia
+// The create2 strategy deploys through the CreateX factory with the salt configured in `hardhat.config.ts`, so
+// contracts with the same constructor arguments get the same address on every network.
+
+// Default folder of the address book, imported by the SDK.
+const DEFAULT_ADDRESS_BOOK_DIR = resolve(__dirname, '../sdk/deployments');
+
+// Storage slot of the implementation of an ERC1967 proxy, `keccak256('eip1967.proxy.implementation') - 1`.
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// A value read from a deployed contract by `deploy:verify`, with the value the config expects.
+export interface ConfigCheck {
+    contract: string;
+    property: string;
+    expected: string;
+    actual: string;
+}
+
+// Formats a generated file with the repository's Prettier config, wherever the file is written.
+async function formatFile(filePath: string, contents: string) {
+    const options = await resolveConfig(__filename);
+    return format(contents, { ...options, filepath: filePath });
+}
+
+// Reads the `addresses.<chainId>.json` files of an address book folder.
+function readAddressBook(dir: string): AddressBook {
+    const addressBook: AddressBook = {};
+    if (!existsSync(dir)) {
+        return addressBook;
+    }
+    for (const file of readdirSync(dir).filter((name) => /^addresses\.\d+\.json$/.test(name))) {
+        const chainAddresses: AlphaMarketAddresses = JSON.parse(
+            readFileSync(join(dir, file), 'utf-8'),
+        );
+        addressBook[chainAddresses.chainId] = chainAddresses;
+    }
+
+    return addressBook;
+}
+
+// Writes `addresses.<chainId>.json`, then regenerates the TypeScript address book from every chain in the folder.
+async function writeAddressBook(dir: string, addresses: AlphaMarketAddresses) {
+    mkdirSync(dir, { recursive: true });
+    const addressesPath = join(dir, `addresses.${addresses.chainId}.json`);
+    writeFileSync(addressesPath, await formatFile(addressesPath, JSON.stringify(addresses)));
+
+    const addressBook = readAddressBook(dir);
+    const indexPath = join(dir, 'index.ts');
+    const index = [
+        '// Generated by the `deploy:alphamarket` task from the `addresses.<chainId>.json` files in this folder.',
+        `export const addressBook = ${JSON.stringify(addressBook)};`,
+    ].join('\n');
+    writeFileSync(indexPath, await formatFile(indexPath, index));
+}
+
+// Formats addresses in their checksummed form, so they compare equal to the ones read on chain.
+function formatValue(value: unknown) {
+    return typeof value === 'string' && isAddress(value) ? getAddress(value) : String(value);
+}
+
+// Reads the settings of the deployed contracts along with the values expected from the network config and the
+// address book. Calls that fail, e.g. as there is no contract at an address, are reported as the actual value.
+async function readConfigChecks(
+    hre: HardhatRuntimeEnvironment,
+    addresses: AlphaMarketAddresses,
+    config: NetworkConfig,
+): Promise<ConfigCheck[]> {
+    const owner = config.owner ?? (await hre.ethers.getSigners())[0].address;
+    // Address and the values expected from the getters of each contract
+    const expectations: Record<string, [string, Record<string, unknown>]> = {
+        AlphaMarketTreasury: [addresses.treasury, { owner }],
+        AlphaMarketBase: [
+            addresses.alphaMarketBase,
+            {
+                owner,
+                getProtocolFeeDestination: addresses.treasury,
+                getProtocolFeePercent: config.protocolFeePercent,
+                getFeeSharePercent: config.feeSharePercent,
+            },
+        ],
+        ExponentialBondingCurve: [
+            addresses.bondingCurve,
+            {
+                owner,
+                getAlphaMarketBase: addresses.alphaMarketBase,
+                getInitialReserve: config.initialReserve,
+                getReserveRatio: config.reserveRatio,
+            },
+        ],
+        MembershipPricingEngine: [
+            addresses.pricingEngine,
+            {
+                owner,
+                getInitialCost: config.membershipInitialCost,
+                getScalingFactor: config.membershipScalingFactor,
+            },
+        ],
+        AlphaCampaigns: [
+            addresses.campaigns,
+            { getAlphaMarketBaseAddress: addresses.alphaMarketBase },
+        ],
+    };
+    const implementations: Record<string, keyof AlphaMarketAddresses['implementations']> = {
+        AlphaMarketTreasury: 'treasury',
+        AlphaMarketBase: 'alphaMarketBase',
+        ExponentialBondingCurve: 'bondingCurve',
+        MembershipPricingEngine: 'pricingEngine',
+    };
+
+    const checks: ConfigCheck[] = [];
+    const check = async (
+        contract: string,
+        property: string,
+        expected: unknown,
+        read: () => Promise<unknown>,
+    ) => {
+        const actual = await read().catch(
+            (error: Error & { shortMessage?: string }) =>
+                `call failed: ${error.shortMessage ?? error.message}`,
+        );
+        checks.push({
+            contract,
+            property,
+            expected: formatValue(expected),
+            actual: formatValue(actual),
+        });
+    };
+    for (const [contract, [address, getters]] of Object.entries(expectations)) {
+        const instance = await hre.ethers.getContractAt(contract, address);
+        for (const [getter, expected] of Object.entries(getters)) {
+            await check(contract, getter, expected, () => instance.getFunction(getter)());
+        }
+        const key = implementations[contract];
+        if (key !== undefined) {
+            await check(contract, 'implementation', addresses.implementations[key], async () =>
+                dataSlice(await hre.ethers.provider.getStorage(address, IMPLEMENTATION_SLOT), 12),
+            );
+        }
+    }
+
+    return checks;
+}
+
+task(
+    'deploy:alphamarket',
+    'Deploys the protocol contracts and writes their addresses to the address book',
+)
+    .addOptionalParam('strategy', 'Ignition strategy, create2 or basic', 'create2')
+    .addOptionalParam('out', 'Folder of the address book', DEFAULT_ADDRESS_BOOK_DIR)
+    .setAction(
+        async (
+            { strategy, out }: { strategy: 'create2' | 'basic'; out: string },
+            hre,
+        ): Promise<AlphaMarketAddresses> => {
+            // Fail before deploying anything if the network config is invalid
+            getNetworkConfig(hre.network.name);
+            // The modules import the Hardhat runtime, which is not available while the config loads
+            const { default: AlphaMarketModule } = await import(
+                '../ignition/modules/alphamarket/AlphaMarket'
+            );
+
+            const { treasury, alphaMarketBase, bondingCurve, pricingEngine, campaigns } =
+                await hre.ignition.deploy(AlphaMarketModule, { strategy });
+            const proxies = {
+                treasury: await treasury.getAddress(),
+                alphaMarketBase: await alphaMarketBase.getAddress(),
+                bondingCurve: await bondingCurve.getAddress(),
+                pricingEngine: await pricingEngine.getAddress(),
+            };
+            const implementations = { ...proxies };
+            for (const [name, proxy] of Object.entries(proxies)) {
+                implementations[name as keyof typeof proxies] =
+                    await hre.upgrades.erc1967.getImplementationAddress(proxy);
+            }
+
+            const addresses: AlphaMarketAddresses = {
+                chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+                ...proxies,
+                campaigns: await campaigns.getAddress(),
+                implementations,
+            };
+            await writeAddressBook(out, addresses);
+            console.log(`Deployed AlphaMarket to chain ${addresses.chainId}:`, addresses);
+
+            return addresses;
+        },
+    );
+
+task(
+    'deploy:verify',
+    'Checks the deployed contracts against the network config and the address book',
+)
+    .addOptionalParam('book', 'Folder of the address book', DEFAULT_ADDRESS_BOOK_DIR)
+    .setAction(async ({ book }: { book: string }, hre): Promise<ConfigCheck[]> => {
+        const config = getNetworkConfig(hre.network.name);
+        const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+        const addresses = getAlphaMarketAddresses(chainId, readAddressBook(book));
+
+        const checks = await readConfigChecks(hre, addresses, config);
+        const mismatches = checks.filter(({ expected, actual }) => expected !== actual);
+        for (const { contract, property, expected, actual } of checks) {
+            const result = expected === actual ? 'ok' : `MISMATCH, expected ${expected}`;
+            console.log(`${contract}.${property}: ${actual} (${result})`);
+        }
+        // Failing the task makes the command exit with a non-zero code
+        if (mismatches.length > 0) {
+            const properties = mismatches.map(
+                ({ contract, property }) => `${contract}.${property}`,
+            );
+            throw new Error(
+                `${mismatches.length} deployed values differ from the config of ${hre.network.name}: ${properties.join(', ')}`,
+            );
+        }
+
+        return checks;
+    });
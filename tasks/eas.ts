@@ -0,0 +1,197 @@
+import {
+    EAS,
+    SchemaRegistry,
+    ZERO_ADDRESS,
+    ZERO_BYTES32,
+} from '@ethereum-attestation-service/eas-sdk';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { easConfig } from '../helper-hardhat.config';
+import {
+    AttestationSchema,
+    AttestationSchemaName,
+    AttestationSchemas,
+    decodeAttestationData,
+    encodeAttestationData,
+    getSchemaUID,
+} from '../sdk/attestations';
+
+// Attestation tasks against the EAS deployment configured for the network in `easConfig`, e.g.
+// npx hardhat eas:register-schema --name groupContent --network arbitrumSepolia
+// npx hardhat eas:attest --name groupContent --recipient 0x... --data '{"group":"0x...", ...}' --network ...
+// npx hardhat eas:fetch --uid 0x... --name groupContent --network arbitrumSepolia
+
+interface SchemaArgs {
+    name?: string;
+    schema?: string;
+    revocable?: boolean;
+    resolver: string;
+}
+
+// Resolves a project schema by `--name`, or a custom `--schema` string.
+function getSchema({ name, schema, revocable }: Omit<SchemaArgs, 'resolver'>): AttestationSchema {
+    if (name !== undefined) {
+        if (!(name in AttestationSchemas)) {
+            throw new Error(
+                `Unknown schema ${name}, expected one of ${Object.keys(AttestationSchemas).join(', ')}`,
+            );
+        }
+        const projectSchema = AttestationSchemas[name as AttestationSchemaName];
+        return { schema: projectSchema.schema, revocable: revocable ?? projectSchema.revocable };
+    }
+    if (schema === undefined) {
+        throw new Error('Pass either --name or --schema');
+    }
+
+    return { schema, revocable: revocable ?? true };
+}
+
+function getEASAddress(hre: HardhatRuntimeEnvironment, override?: string): string {
+    const address = override ?? easConfig[hre.network.name]?.eas;
+    if (!address) {
+        throw new Error(`No EAS contract configured for ${hre.network.name}, pass --eas`);
+    }
+
+    return address;
+}
+
+function getRegistryAddress(hre: HardhatRuntimeEnvironment, override?: string): string {
+    const address = override ?? easConfig[hre.network.name]?.schemaRegistry;
+    if (!address) {
+        throw new Error(`No SchemaRegistry configured for ${hre.network.name}, pass --registry`);
+    }
+
+    return address;
+}
+
+task('eas:schemas', 'Lists the project attestation schemas and their UIDs').setAction(async () => {
+    for (const [name, schema] of Object.entries(AttestationSchemas)) {
+        console.log(`${name}: ${getSchemaUID(schema)}`);
+        console.log(`    ${schema.schema} (${schema.revocable ? 'revocable' : 'irrevocable'})`);
+    }
+});
+
+task('eas:register-schema', 'Registers an attestation schema and returns its UID')
+    .addOptionalParam('name', 'Name of a project schema, e.g. groupContent')
+    .addOptionalParam('schema', 'Custom schema string, e.g. "bytes32 contentHash, string uri"')
+    .addOptionalParam('revocable', 'Whether attestations can be revoked', undefined, types.boolean)
+    .addOptionalParam('resolver', 'Address of the schema resolver', ZERO_ADDRESS)
+    .addOptionalParam('registry', 'SchemaRegistry address overriding the network config')
+    .setAction(async (args: SchemaArgs & { registry?: string }, hre): Promise<string> => {
+        const schema = getSchema(args);
+        const [signer] = await hre.ethers.getSigners();
+        const registry = new SchemaRegistry(getRegistryAddress(hre, args.registry));
+        registry.connect(signer);
+
+        const uid = getSchemaUID(schema, args.resolver);
+        const existing = await registry.getSchema({ uid }).catch(() => undefined);
+        if (existing?.uid === uid) {
+            console.log(`Schema already registered with UID ${uid}`);
+            return uid;
+        }
+
+        const transaction = await registry.register({
+            schema: schema.schema,
+            resolverAddress: args.resolver,
+            revocable: schema.revocable,
+        });
+        const registeredUID = await transaction.wait();
+        console.log(`Registered schema with UID ${registeredUID}`);
+
+        return registeredUID;
+    });
+
+task('eas:attest', 'Creates an attestation and returns its UID')
+    .addOptionalParam('name', 'Name of a project schema, e.g. groupContent')
+    .addOptionalParam('schema', 'Custom schema string the data is encoded with')
+    .addOptionalParam('schemaUid', 'UID of the schema, derived from the schema when omitted')
+    .addOptionalParam(
+        'revocable',
+        'Whether the attestation can be revoked',
+        undefined,
+        types.boolean,
+    )
+    .addOptionalParam('resolver', 'Address of the schema resolver', ZERO_ADDRESS)
+    .addOptionalParam('recipient', 'Address the attestation is about', ZERO_ADDRESS)
+    .addOptionalParam('refUid', 'UID of an attestation this one references', ZERO_BYTES32)
+    .addOptionalParam('expiration', 'Expiration timestamp, or 0 for none', 0, types.int)
+    .addParam('data', 'Attestation data as JSON keyed by the schema field names')
+    .addOptionalParam('eas', 'EAS address overriding the network config')
+    .setAction(
+        async (
+            args: SchemaArgs & {
+                schemaUid?: string;
+                recipient: string;
+                refUid: string;
+                expiration: number;
+                data: string;
+                eas?: string;
+            },
+            hre,
+        ): Promise<string> => {
+            const schema = getSchema(args);
+            const [signer] = await hre.ethers.getSigners();
+            const eas = new EAS(getEASAddress(hre, args.eas));
+            eas.connect(signer);
+
+            const transaction = await eas.attest({
+                schema: args.schemaUid ?? getSchemaUID(schema, args.resolver),
+                data: {
+                    recipient: args.recipient,
+                    expirationTime: BigInt(args.expiration),
+                    revocable: schema.revocable,
+                    refUID: args.refUid,
+                    data: encodeAttestationData(schema.schema, JSON.parse(args.data)),
+                },
+            });
+            const uid = await transaction.wait();
+            console.log(`Created attestation with UID ${uid}`);
+
+            return uid;
+        },
+    );
+
+task('eas:fetch', 'Fetches an attestation, decoding its data when the schema is given')
+    .addParam('uid', 'UID of the attestation')
+    .addOptionalParam('name', 'Name of the project schema the attestation was made against')
+    .addOptionalParam('schema', 'Custom schema string the attestation was made against')
+    .addOptionalParam('eas', 'EAS address overriding the network config')
+    .setAction(async (args: Omit<SchemaArgs, 'resolver'> & { uid: string; eas?: string }, hre) => {
+        const eas = new EAS(getEASAddress(hre, args.eas));
+        eas.connect(hre.ethers.provider);
+
+        const {
+            uid,
+            schema,
+            time,
+            expirationTime,
+            revocationTime,
+            refUID,
+            recipient,
+            attester,
+            revocable,
+            data,
+        } = await eas.getAttestation(args.uid);
+        if (uid === ZERO_BYTES32) {
+            throw new Error(`Attestation ${args.uid} not found`);
+        }
+        const attestation = {
+            uid,
+            schema,
+            time,
+            expirationTime,
+            revocationTime,
+            refUID,
+            recipient,
+            attester,
+            revocable,
+            data,
+            decodedData:
+                args.name !== undefined || args.schema !== undefined
+                    ? decodeAttestationData(getSchema(args).schema, data)
+                    : undefined,
+        };
+        console.log(attestation);
+
+        return attestation;
+    });
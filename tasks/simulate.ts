@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { getNetworkConfig } from '../helper-hardhat.config';
+import type { AgentSpec } from '../simulator';
+
+// Sweeps curve settings with a population of scripted traders and writes CSV and JSON reports of each run, e.g.
+// npx hardhat simulate:market --reserve-ratios 250000,500000,750000 --initial-reserves 100000000000000
+// npx hardhat simulate:market --backend hardhat --steps 50 --population population.json
+// The model backend replicates the contracts off-chain, while the hardhat backend deploys a group token for every
+// run on the in-process Hardhat network. Fees and the default settings come from the network config.
+
+interface SimulateArgs {
+    backend: 'model' | 'hardhat';
+    reserveRatios?: string;
+    initialReserves?: string;
+    steps: number;
+    seed: number;
+    population?: string;
+    out: string;
+}
+
+// Parses a comma separated list of integers, e.g. `250000,500000`.
+function parseList(list: string): bigint[] {
+    return list.split(',').map((value) => BigInt(value.trim()));
+}
+
+task('simulate:market', 'Simulates traders on group tokens for a grid of curve settings')
+    .addOptionalParam('backend', 'Market the agents trade on, model or hardhat', 'model')
+    .addOptionalParam('reserveRatios', 'Comma separated reserve ratios in ppm')
+    .addOptionalParam('initialReserves', 'Comma separated initial reserves in wei')
+    .addOptionalParam('steps', 'Number of steps each agent may trade at', 100, types.int)
+    .addOptionalParam('seed', 'Seed of the random generator', 1, types.int)
+    .addOptionalParam('population', 'JSON file of agent specs, amounts in wei as strings')
+    .addOptionalParam('out', 'Folder the reports are written to', 'simulations')
+    .setAction(async (args: SimulateArgs, hre) => {
+        const config = getNetworkConfig(hre.network.name);
+        if (args.backend === 'hardhat' && hre.network.name !== 'hardhat') {
+            throw new Error('The hardhat backend only runs on the in-process hardhat network');
+        }
+        if (args.backend !== 'model' && args.backend !== 'hardhat') {
+            throw new Error(`Unknown backend ${args.backend}, expected model or hardhat`);
+        }
+        // The simulator imports the contract types, which are not available while the config loads
+        const {
+            DEFAULT_POPULATION,
+            DEFAULT_QUOTE_SIZES,
+            HardhatMarket,
+            ModelMarket,
+            sweep,
+            writeReports,
+        } = await import('../simulator');
+
+        const population: AgentSpec[] =
+            args.population === undefined
+                ? DEFAULT_POPULATION
+                : JSON.parse(readFileSync(args.population, 'utf-8'), (key, value) =>
+                      key === 'tradeSize' ? BigInt(value) : value,
+                  );
+        const results = await sweep(
+            (params) =>
+                args.backend === 'hardhat'
+                    ? HardhatMarket.deploy(hre, params)
+                    : Promise.resolve(new ModelMarket(params)),
+            {
+                reserveRatio: config.reserveRatio,
+                initialReserve: config.initialReserve,
+                protocolFeePercent: config.protocolFeePercent,
+                feeSharePercent: config.feeSharePercent,
+            },
+            {
+                reserveRatio: parseList(args.reserveRatios ?? config.reserveRatio.toString()),
+                initialReserve: parseList(args.initialReserves ?? config.initialReserve.toString()),
+            },
+            { steps: args.steps, seed: args.seed, population, quoteSizes: DEFAULT_QUOTE_SIZES },
+        );
+
+        for (const { params, summary } of results) {
+            console.log(
+                `reserveRatio ${params.reserveRatio}, initialReserve ${params.initialReserve}: ` +
+                    `${summary.trades} trades, final price ${summary.finalPrice}, ` +
+                    `protocol fees ${summary.protocolFeeRevenue}`,
+            );
+        }
+        for (const path of writeReports(args.out, results)) {
+            console.log(`Wrote ${path}`);
+        }
+
+        return results;
+    });
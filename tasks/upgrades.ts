@@ -0,0 +1,129 @@
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import UpgradeModule, { ScheduleUpgradeModule } from '../ignition/modules/upgrades/Upgrade';
+
+// Upgrade tasks for the UUPS proxies, which check the storage layout of the new implementation against the one the
+// proxy runs before deploying it, e.g.
+// npx hardhat upgrade:validate --proxy 0x... --contract AlphaMarketBase --network arbitrumSepolia
+// npx hardhat upgrade:proxy --proxy 0x... --contract AlphaMarketBase --call initializeV2 --args '[2]' --network ...
+// Proxies deployed by the Ignition modules are unknown to the upgrades plugin, so their first upgrade passes
+// `--reference`, the name of the contract they currently run, to register its storage layout.
+
+interface ValidateArgs {
+    proxy: string;
+    contract: string;
+    reference?: string;
+}
+
+interface UpgradeArgs extends ValidateArgs {
+    call?: string;
+    args: string;
+}
+
+export interface UpgradeResult {
+    implementation: string;
+    upgraded: boolean;
+    // The timestamp from which the upgrade of a timelocked proxy can be made, zero for other proxies
+    readyAt: bigint;
+}
+
+// Checks that `contract` is upgrade safe and that its storage layout extends the one of the proxy's implementation.
+async function validateUpgrade(hre: HardhatRuntimeEnvironment, args: ValidateArgs) {
+    if (args.reference !== undefined) {
+        await hre.upgrades.forceImport(
+            args.proxy,
+            await hre.ethers.getContractFactory(args.reference),
+            { kind: 'uups' },
+        );
+    }
+    const factory = await hre.ethers.getContractFactory(args.contract);
+    await hre.upgrades.validateUpgrade(args.proxy, factory, { kind: 'uups' });
+
+    return factory;
+}
+
+// Returns the proxy as a `TimelockedOwnableUpgradeable` contract, or undefined if it does not inherit it.
+async function getTimelocked(hre: HardhatRuntimeEnvironment, proxy: string) {
+    const timelocked = await hre.ethers.getContractAt('TimelockedOwnableUpgradeable', proxy);
+
+    return timelocked.getChangeDelay().then(
+        () => timelocked,
+        () => undefined,
+    );
+}
+
+task('upgrade:validate', 'Validates the upgrade of a proxy to a contract without deploying it')
+    .addParam('proxy', 'Address of the proxy')
+    .addParam('contract', 'Name of the contract to upgrade to')
+    .addOptionalParam('reference', 'Name of the contract the proxy runs, if unknown to the plugin')
+    .setAction(async (args: ValidateArgs, hre) => {
+        await validateUpgrade(hre, args);
+        console.log(`${args.contract} is a valid upgrade of ${args.proxy}`);
+    });
+
+task('upgrade:proxy', 'Validates and deploys a new implementation, then upgrades a proxy to it')
+    .addParam('proxy', 'Address of the proxy')
+    .addParam('contract', 'Name of the contract to upgrade to')
+    .addOptionalParam('reference', 'Name of the contract the proxy runs, if unknown to the plugin')
+    .addOptionalParam('call', 'Function of the new implementation to call during the upgrade')
+    .addOptionalParam('args', 'Arguments of the call as a JSON array', '[]')
+    .setAction(async (args: UpgradeArgs, hre): Promise<UpgradeResult> => {
+        const { proxy } = args;
+        const factory = await validateUpgrade(hre, args);
+        const implementation = (await hre.upgrades.prepareUpgrade(proxy, factory, {
+            kind: 'uups',
+        })) as string;
+        const data =
+            args.call === undefined
+                ? '0x'
+                : factory.interface.encodeFunctionData(args.call, JSON.parse(args.args));
+        const upgradeData = factory.interface.encodeFunctionData('upgradeToAndCall', [
+            implementation,
+            data,
+        ]);
+
+        // Proxies owned by the DAO are upgraded through a proposal making these calls
+        const [signer] = await hre.ethers.getSigners();
+        const owner = await (await hre.ethers.getContractAt('OwnableUpgradeable', proxy)).owner();
+        const timelocked = await getTimelocked(hre, proxy);
+        if (owner !== signer.address) {
+            console.log(`${proxy} is owned by ${owner}, which has to make the upgrade:`);
+            if (timelocked !== undefined) {
+                const scheduleData = timelocked.interface.encodeFunctionData('scheduleChange', [
+                    upgradeData,
+                ]);
+                console.log(`    ${proxy}.scheduleChange: ${scheduleData}`);
+            }
+            console.log(`    ${proxy}.upgradeToAndCall: ${upgradeData}`);
+            return { implementation, upgraded: false, readyAt: 0n };
+        }
+
+        const parameters = { proxy, implementation, data };
+        const deploymentId = `upgrade-${proxy}-${implementation}`;
+        let readyAt = 0n;
+        if (timelocked !== undefined) {
+            const changeId = await timelocked.getChangeId(upgradeData);
+            if ((await timelocked.getChangeReadyAt(changeId)) === 0n) {
+                await hre.ignition.deploy(ScheduleUpgradeModule, {
+                    parameters: { ScheduleUpgradeModule: parameters },
+                    deploymentId,
+                });
+            }
+            readyAt = await timelocked.getChangeReadyAt(changeId);
+
+            const { timestamp } = (await hre.ethers.provider.getBlock('latest'))!;
+            if (readyAt > timestamp) {
+                const date = new Date(Number(readyAt) * 1000).toISOString();
+                console.log(`Scheduled the upgrade of ${proxy}, run the task again from ${date}`);
+                return { implementation, upgraded: false, readyAt };
+            }
+        }
+
+        await hre.ignition.deploy(UpgradeModule, {
+            parameters: { UpgradeModule: parameters },
+            deploymentId,
+        });
+        console.log(`Upgraded ${proxy} to ${args.contract} at ${implementation}`);
+
+        return { implementation, upgraded: true, readyAt };
+    });
@@ -1,10 +1,12 @@
 import { expect } from 'chai';
-import { ethers, upgrades } from 'hardhat';
+import { ethers, run, upgrades } from 'hardhat';
 import { AddressLike, BigNumberish, Signer } from 'ethers';
 import { AlphaCampaigns } from '../typechain-types';
 import { AlphaMarketBase } from '../typechain-types';
 import { AlphaMarketTreasury } from '../typechain-types';
 import { $Utils } from '../typechain-types/contracts-exposed/Utils.sol/$Utils';
+import { attestDeliverable, hashDeliverable } from '../scripts/deliverables';
+import { AttestationSchemas, getSchemaUID } from '../sdk';
 
 describe('AlphaCampaigns', function () {
     let alphaCampaigns: AlphaCampaigns;
@@ -54,8 +56,10 @@ describe('AlphaCampaigns', function () {
 
         // Deploy the AlphaCampaigns contract
         const AlphaCampaignsFactory = await ethers.getContractFactory('AlphaCampaigns');
-        alphaCampaigns =
-            await AlphaCampaignsFactory.connect(protocol).deploy(alphaMarketBaseAddress);
+        alphaCampaigns = await AlphaCampaignsFactory.connect(protocol).deploy(
+            alphaMarketBaseAddress,
+            ethers.ZeroAddress,
+        );
 
         // Deploy the Utils contract
         const UtilsFactory = await ethers.getContractFactory('$Utils');
@@ -261,8 +265,8 @@ describe('AlphaCampaigns', function () {
         });
 
         // Reject the sponsor request
-        expect(
-            await alphaCampaigns.connect(host).rejectSponsor(campaignId, await brand.getAddress()),
+        await expect(
+            alphaCampaigns.connect(host).rejectSponsor(campaignId, await brand.getAddress()),
         )
             .to.emit(alphaCampaigns, 'SponsorRejected')
             .withArgs(campaignId, await brand.getAddress(), slotPrice);
@@ -318,8 +322,8 @@ describe('AlphaCampaigns', function () {
         });
 
         // Accept the sponsor request
-        expect(
-            await alphaCampaigns.connect(host).acceptSponsor(campaignId, await brand.getAddress()),
+        await expect(
+            alphaCampaigns.connect(host).acceptSponsor(campaignId, await brand.getAddress()),
         )
             .to.emit(alphaCampaigns, 'SponsorAccepted')
             .withArgs(campaignId, await brand.getAddress(), slotPrice);
@@ -471,7 +475,7 @@ describe('AlphaCampaigns', function () {
         const withdrawFundsTx = await alphaCampaigns.connect(host).withdrawFunds(campaignId);
         const withdrawFundsReceipt = await withdrawFundsTx.wait(); // Wait for the transaction to complete
         const withdrawFundsGasUsed = withdrawFundsReceipt!.gasUsed * withdrawFundsTx.gasPrice; // Gas cost for withdrawing funds
-        expect(withdrawFundsTx)
+        await expect(withdrawFundsTx)
             .to.emit(alphaCampaigns, 'FundsWithdrawn')
             .withArgs(campaignId, completedCampaign.totalRaised);
 
@@ -512,15 +516,20 @@ describe('AlphaCampaigns', function () {
             expectedHostBalance,
         );
 
-        // Check treasury can withdraw protocol fees
+        // Check the protocol can release its share of the fees
         const treasuryBalance = await ethers.provider.getBalance(alphaMarketTreasuryAddress);
         const protocolBalance = await ethers.provider.getBalance(protocolAddress);
-        const treasuryWithdrawTx = await alphaMarketTreasury.connect(protocol).withdraw();
+        expect(
+            await alphaMarketTreasury.getReleasable(ethers.ZeroAddress, protocolAddress),
+        ).to.equal(treasuryBalance);
+        const treasuryWithdrawTx = await alphaMarketTreasury
+            .connect(protocol)
+            .release(ethers.ZeroAddress, protocolAddress);
         const treasuryWithdrawReceipt = await treasuryWithdrawTx.wait();
         const treasuryWithdrawGasUsed =
             treasuryWithdrawReceipt!.gasUsed * treasuryWithdrawTx.gasPrice;
 
-        const filter = alphaMarketTreasury.filters.Withdrawal();
+        const filter = alphaMarketTreasury.filters.PaymentReleased();
         const events = await alphaMarketTreasury.queryFilter(
             filter,
             treasuryWithdrawReceipt!.blockNumber,
@@ -558,4 +567,521 @@ describe('AlphaCampaigns', function () {
         ).to.equal(0);
         expect(await alphaCampaigns.getCampaignSponsors(campaignId)).to.deep.equal([]);
     });
+    describe('Escrow', function () {
+        let brandAddress: string;
+        let fanAddress: string;
+        let escrowCampaignId: bigint;
+
+        // Creates a campaign that is open for `duration` seconds from the latest block.
+        async function createOpenCampaign(slots: number, duration = 3600) {
+            const latest = (await ethers.provider.getBlock('latest'))!.timestamp;
+            const tx = await alphaCampaigns.createCampaign(
+                latest + duration,
+                slotPrice,
+                hostAddress,
+                slots,
+            );
+            const events = await alphaCampaigns.queryFilter(
+                alphaCampaigns.filters.CampaignCreated(),
+                tx.blockNumber!,
+            );
+
+            return events[0].args.campaignId;
+        }
+
+        beforeEach(async function () {
+            brandAddress = await brand.getAddress();
+            fanAddress = await fan.getAddress();
+            escrowCampaignId = await createOpenCampaign(2);
+        });
+
+        it('Should only allow the host to accept or reject sponsors', async function () {
+            await alphaCampaigns
+                .connect(brand)
+                .requestToSponsor(escrowCampaignId, brandAddress, { value: slotPrice });
+
+            for (const signer of [protocol, brand, fan]) {
+                await expect(
+                    alphaCampaigns.connect(signer).acceptSponsor(escrowCampaignId, brandAddress),
+                ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__OnlyHost');
+                await expect(
+                    alphaCampaigns.connect(signer).rejectSponsor(escrowCampaignId, brandAddress),
+                ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__OnlyHost');
+            }
+        });
+
+        it('Should keep a sponsor overpayment withdrawable after acceptance', async function () {
+            const deposit = BigInt(slotPrice) * 3n;
+            await alphaCampaigns
+                .connect(brand)
+                .requestToSponsor(escrowCampaignId, brandAddress, { value: deposit });
+            await alphaCampaigns.connect(host).acceptSponsor(escrowCampaignId, brandAddress);
+
+            expect(
+                await alphaCampaigns.getSponsorAcceptedFunds(escrowCampaignId, brandAddress),
+            ).to.equal(slotPrice);
+            await expect(
+                alphaCampaigns.connect(brand).withdrawSponsorFunds(escrowCampaignId),
+            ).to.changeEtherBalances(
+                [alphaCampaigns, brand],
+                [-(deposit - BigInt(slotPrice)), deposit - BigInt(slotPrice)],
+            );
+        });
+
+        it('Should allow a rejected sponsor to withdraw their funds', async function () {
+            await alphaCampaigns
+                .connect(brand)
+                .requestToSponsor(escrowCampaignId, brandAddress, { value: slotPrice });
+            await alphaCampaigns.connect(host).rejectSponsor(escrowCampaignId, brandAddress);
+
+            await expect(
+                alphaCampaigns.connect(brand).withdrawSponsorFunds(escrowCampaignId),
+            ).to.changeEtherBalances([alphaCampaigns, brand], [-BigInt(slotPrice), slotPrice]);
+        });
+
+        it('Should return exactly the escrowed funds to each sponsor when the campaign is ended', async function () {
+            // The brand deposits more than the slot price so the excess is already pending
+            const deposit = BigInt(slotPrice) + 1000n;
+            await alphaCampaigns
+                .connect(brand)
+                .requestToSponsor(escrowCampaignId, brandAddress, { value: deposit });
+            await alphaCampaigns.connect(host).acceptSponsor(escrowCampaignId, brandAddress);
+
+            await expect(alphaCampaigns.connect(host).endCampaign(escrowCampaignId))
+                .to.emit(alphaCampaigns, 'CampaignEnded')
+                .withArgs(escrowCampaignId);
+
+            expect(await alphaCampaigns.getCampaignStatus(escrowCampaignId)).to.equal(2);
+            expect(await alphaCampaigns.getCampaignTotalRaised(escrowCampaignId)).to.equal(0);
+            expect(
+                await alphaCampaigns.getSponsorPendingFunds(escrowCampaignId, brandAddress),
+            ).to.equal(deposit);
+            await expect(
+                alphaCampaigns.connect(brand).withdrawSponsorFunds(escrowCampaignId),
+            ).to.changeEtherBalances([alphaCampaigns, brand], [-deposit, deposit]);
+            await expect(
+                alphaCampaigns.connect(host).withdrawFunds(escrowCampaignId),
+            ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__NoFundsToWithdraw');
+        });
+
+        it('Should refund tips to fans when the campaign is ended', async function () {
+            const tipAmount = ethers.parseEther('0.05');
+            await alphaCampaigns.connect(fan).tipCampaign(escrowCampaignId, { value: tipAmount });
+
+            // Tips are only refundable once the host ends the campaign
+            await expect(
+                alphaCampaigns.connect(fan).withdrawTipRefund(escrowCampaignId),
+            ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__CampaignNotEnded');
+
+            await alphaCampaigns.connect(host).endCampaign(escrowCampaignId);
+            expect(await alphaCampaigns.getFanTips(escrowCampaignId, fanAddress)).to.equal(
+                tipAmount,
+            );
+
+            const refund = alphaCampaigns.connect(fan).withdrawTipRefund(escrowCampaignId);
+            await expect(refund)
+                .to.emit(alphaCampaigns, 'TipRefunded')
+                .withArgs(escrowCampaignId, fanAddress, tipAmount);
+            await expect(refund).to.changeEtherBalances(
+                [alphaCampaigns, fan],
+                [-tipAmount, tipAmount],
+            );
+            expect(await alphaCampaigns.getCampaignTips(escrowCampaignId)).to.equal(0);
+
+            await expect(
+                alphaCampaigns.connect(fan).withdrawTipRefund(escrowCampaignId),
+            ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__NoFundsToWithdraw');
+        });
+
+        it('Should not allow an ended campaign to be completed or ended again', async function () {
+            await alphaCampaigns.connect(host).endCampaign(escrowCampaignId);
+
+            await expect(
+                alphaCampaigns.connect(host).endCampaign(escrowCampaignId),
+            ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__CampaignOver');
+            await expect(
+                alphaCampaigns.connect(host).completeCampaign(escrowCampaignId),
+            ).to.be.revertedWithCustomError(alphaCampaigns, 'AlphaCampaigns__CampaignOver');
+        });
+
+        it('Should hold exactly the sum of all claimable balances', async function () {
+            const signers = (await ethers.getSigners()).slice(2, 8);
+            const accounts = await Promise.all(signers.map((signer) => signer.getAddress()));
+            const campaignIds = [
+                escrowCampaignId,
+                await createOpenCampaign(1),
+                await createOpenCampaign(3),
+            ];
+
+            // Deterministic pseudo random sequence so failures are reproducible
+            let seed = 0x5eed;
+            const random = (max: number) => {
+                seed = (seed * 1103515245 + 12345) % 2 ** 31;
+                return seed % max;
+            };
+
+            // Every wei held by the contract belongs to the host, a sponsor or a refundable fan
+            async function expectSolvent() {
+                let claimable = 0n;
+                for (const id of campaignIds) {
+                    claimable += await alphaCampaigns.getCampaignTotalRaised(id);
+                    if ((await alphaCampaigns.getCampaignStatus(id)) === 2n) {
+                        claimable += await alphaCampaigns.getCampaignTips(id);
+                    }
+                    for (const account of accounts) {
+                        claimable += await alphaCampaigns.getSponsorPendingFunds(id, account);
+                    }
+                }
+                expect(await ethers.provider.getBalance(alphaCampaigns)).to.equal(claimable);
+            }
+
+            for (let step = 0; step < 60; step++) {
+                const id = campaignIds[random(campaignIds.length)];
+                const index = random(signers.length);
+                const actor = alphaCampaigns.connect(signers[index]);
+                const amount = BigInt(slotPrice) + BigInt(random(3)) * 1000n;
+                const action = random(step === 40 ? 1 : 8);
+
+                // Reverted actions are expected as the sequence is random, they must not break solvency
+                const actions = [
+                    () => alphaCampaigns.connect(host).endCampaign(id),
+                    () => actor.requestToSponsor(id, accounts[index], { value: amount }),
+                    () => actor.requestToSponsor(id, accounts[index], { value: amount }),
+                    () => alphaCampaigns.connect(host).acceptSponsor(id, accounts[index]),
+                    () => alphaCampaigns.connect(host).rejectSponsor(id, accounts[index]),
+                    () => actor.tipCampaign(id, { value: amount }),
+                    () => actor.withdrawSponsorFunds(id),
+                    () => actor.withdrawTipRefund(id),
+                ];
+                await actions[action]().catch(() => undefined);
+                await expectSolvent();
+            }
+
+            // Once every campaign is over, everyone can claim and the contract is drained
+            await ethers.provider.send('evm_increaseTime', [3600]);
+            await ethers.provider.send('evm_mine', []);
+            for (const id of campaignIds) {
+                await alphaCampaigns
+                    .connect(host)
+                    .withdrawFunds(id)
+                    .catch(() => undefined);
+                for (const signer of signers) {
+                    await alphaCampaigns
+                        .connect(signer)
+                        .withdrawSponsorFunds(id)
+                        .catch(() => undefined);
+                    await alphaCampaigns
+                        .connect(signer)
+                        .withdrawTipRefund(id)
+                        .catch(() => undefined);
+                }
+                await expectSolvent();
+            }
+            expect(await ethers.provider.getBalance(alphaCampaigns)).to.equal(0);
+        });
+    });
+
+    describe('Deliverables', function () {
+        const disputeWindow = 86400;
+        let deliverableCampaigns: AlphaCampaigns;
+        let deliverableCampaignsAddress: string;
+        let easAddress: string;
+        let registryAddress: string;
+        let brandAddress: string;
+        let verifier: Signer;
+        let verifierAddress: string;
+        let deliverableCampaignId: bigint;
+
+        // Advances the chain by `seconds`.
+        async function increaseTime(seconds: number) {
+            await ethers.provider.send('evm_increaseTime', [seconds]);
+            await ethers.provider.send('evm_mine', []);
+        }
+
+        // Attests a deliverable of `id` as the campaign's verifier and returns the attestation UID.
+        async function attest(
+            id: BigNumberish,
+            campaigns = deliverableCampaignsAddress,
+            attester = verifier,
+        ) {
+            return attestDeliverable(attester, easAddress, {
+                campaigns,
+                campaignId: id,
+                deliverableHash: hashDeliverable('sponsored video'),
+                deliverableUri: 'ipfs://video',
+            });
+        }
+
+        beforeEach(async function () {
+            brandAddress = await brand.getAddress();
+            verifier = (await ethers.getSigners())[4];
+            verifierAddress = await verifier.getAddress();
+
+            // Deploy the SchemaRegistry and EAS contracts and register the deliverable schema
+            const registry = await (await ethers.getContractFactory('SchemaRegistry')).deploy();
+            registryAddress = await registry.getAddress();
+            const eas = await (await ethers.getContractFactory('EAS')).deploy(registryAddress);
+            easAddress = await eas.getAddress();
+            await run('eas:register-schema', {
+                name: 'campaignDeliverable',
+                registry: registryAddress,
+            });
+
+            // Deploy an AlphaCampaigns contract reading attestations from EAS
+            deliverableCampaigns = await (
+                await ethers.getContractFactory('AlphaCampaigns')
+            ).deploy(alphaMarketBaseAddress, easAddress);
+            deliverableCampaignsAddress = await deliverableCampaigns.getAddress();
+
+            // Create a deliverable campaign with one accepted sponsor and a tip
+            const latest = (await ethers.provider.getBlock('latest'))!.timestamp;
+            const tx = await deliverableCampaigns.createDeliverableCampaign(
+                latest + 3600,
+                slotPrice,
+                hostAddress,
+                2,
+                disputeWindow,
+                verifierAddress,
+            );
+            const events = await deliverableCampaigns.queryFilter(
+                deliverableCampaigns.filters.CampaignCreated(),
+                tx.blockNumber!,
+            );
+            deliverableCampaignId = events[0].args.campaignId;
+            await deliverableCampaigns
+                .connect(brand)
+                .requestToSponsor(deliverableCampaignId, brandAddress, { value: slotPrice });
+            await deliverableCampaigns
+                .connect(host)
+                .acceptSponsor(deliverableCampaignId, brandAddress);
+            await deliverableCampaigns
+                .connect(fan)
+                .tipCampaign(deliverableCampaignId, { value: 1000n });
+        });
+
+        it('Should use the deliverable schema of the SDK', async function () {
+            expect(await deliverableCampaigns.DELIVERABLE_SCHEMA()).to.equal(
+                AttestationSchemas.campaignDeliverable.schema,
+            );
+            expect(await deliverableCampaigns.DELIVERABLE_SCHEMA_UID()).to.equal(
+                getSchemaUID(AttestationSchemas.campaignDeliverable),
+            );
+            expect(await deliverableCampaigns.getEASAddress()).to.equal(easAddress);
+        });
+
+        it('Should only release tips to the host until the deliverable is settled', async function () {
+            expect(
+                await deliverableCampaigns.getLockedSponsorFunds(deliverableCampaignId),
+            ).to.equal(slotPrice);
+            await increaseTime(3600);
+
+            await expect(deliverableCampaigns.connect(host).withdrawFunds(deliverableCampaignId))
+                .to.emit(deliverableCampaigns, 'FundsWithdrawn')
+                .withArgs(deliverableCampaignId, 1000n);
+            expect(
+                await deliverableCampaigns.getCampaignTotalRaised(deliverableCampaignId),
+            ).to.equal(slotPrice);
+            await expect(
+                deliverableCampaigns.connect(host).withdrawFunds(deliverableCampaignId),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__SponsorFundsLocked',
+            );
+        });
+
+        it("Should release a sponsor's funds once they sign off the deliverable", async function () {
+            await expect(
+                deliverableCampaigns.connect(brand).approveDeliverable(deliverableCampaignId),
+            )
+                .to.emit(deliverableCampaigns, 'DeliverableApproved')
+                .withArgs(deliverableCampaignId, brandAddress, slotPrice);
+            await expect(
+                deliverableCampaigns.connect(brand).approveDeliverable(deliverableCampaignId),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__DeliverableAlreadyApproved',
+            );
+            await expect(
+                deliverableCampaigns.connect(fan).approveDeliverable(deliverableCampaignId),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__SponsorDoesNotExist',
+            );
+            await increaseTime(3600);
+
+            const totalRaised = BigInt(slotPrice) + 1000n;
+            const protocolFee = await utils.$calculateBasisPointsPercentage(totalRaised, 1000);
+            await expect(
+                deliverableCampaigns.connect(host).withdrawFunds(deliverableCampaignId),
+            ).to.changeEtherBalances(
+                [deliverableCampaigns, host, alphaMarketTreasury],
+                [-totalRaised, totalRaised - protocolFee, protocolFee],
+            );
+        });
+
+        it('Should release sponsor funds once the dispute window after an attested deliverable passes', async function () {
+            await increaseTime(3600);
+            const uid = await attest(deliverableCampaignId);
+
+            await expect(
+                deliverableCampaigns.connect(host).submitDeliverable(deliverableCampaignId, uid),
+            )
+                .to.emit(deliverableCampaigns, 'DeliverableSubmitted')
+                .withArgs(deliverableCampaignId, uid, verifierAddress);
+            const deliverable =
+                await deliverableCampaigns.getCampaignDeliverable(deliverableCampaignId);
+            expect(deliverable.attestationUID).to.equal(uid);
+            expect(deliverable.attester).to.equal(verifierAddress);
+            expect(await deliverableCampaigns.isDisputable(deliverableCampaignId)).to.be.true;
+            await expect(
+                deliverableCampaigns.connect(host).submitDeliverable(deliverableCampaignId, uid),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__DeliverableAlreadySubmitted',
+            );
+
+            await increaseTime(disputeWindow + 1);
+            expect(await deliverableCampaigns.isDisputable(deliverableCampaignId)).to.be.false;
+            expect(
+                await deliverableCampaigns.getLockedSponsorFunds(deliverableCampaignId),
+            ).to.equal(0);
+            await expect(
+                deliverableCampaigns.connect(brand).reclaimSponsorship(deliverableCampaignId),
+            ).to.be.revertedWithCustomError(deliverableCampaigns, 'AlphaCampaigns__NotDisputable');
+            await expect(
+                deliverableCampaigns.connect(host).withdrawFunds(deliverableCampaignId),
+            ).to.changeEtherBalance(deliverableCampaigns, -(BigInt(slotPrice) + 1000n));
+        });
+
+        it('Should let sponsors reclaim their funds during the dispute window', async function () {
+            await increaseTime(3600);
+            await deliverableCampaigns
+                .connect(host)
+                .submitDeliverable(deliverableCampaignId, await attest(deliverableCampaignId));
+
+            await expect(
+                deliverableCampaigns.connect(brand).reclaimSponsorship(deliverableCampaignId),
+            )
+                .to.emit(deliverableCampaigns, 'SponsorshipReclaimed')
+                .withArgs(deliverableCampaignId, brandAddress, slotPrice);
+            await expect(
+                deliverableCampaigns.connect(brand).withdrawSponsorFunds(deliverableCampaignId),
+            ).to.changeEtherBalance(brand, slotPrice);
+
+            // Only the tip is left for the host once the window passes
+            await increaseTime(disputeWindow + 1);
+            await expect(
+                deliverableCampaigns.connect(host).withdrawFunds(deliverableCampaignId),
+            ).to.changeEtherBalance(deliverableCampaigns, -1000n);
+        });
+
+        it('Should let sponsors reclaim their funds when no deliverable was submitted in time', async function () {
+            await increaseTime(3600);
+            expect(await deliverableCampaigns.isDisputable(deliverableCampaignId)).to.be.false;
+            await expect(
+                deliverableCampaigns.connect(brand).reclaimSponsorship(deliverableCampaignId),
+            ).to.be.revertedWithCustomError(deliverableCampaigns, 'AlphaCampaigns__NotDisputable');
+
+            await increaseTime(disputeWindow);
+            await expect(
+                deliverableCampaigns
+                    .connect(host)
+                    .submitDeliverable(deliverableCampaignId, await attest(deliverableCampaignId)),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__DeliveryDeadlinePassed',
+            );
+            await deliverableCampaigns.connect(brand).reclaimSponsorship(deliverableCampaignId);
+            expect(
+                await deliverableCampaigns.getSponsorPendingFunds(
+                    deliverableCampaignId,
+                    brandAddress,
+                ),
+            ).to.equal(slotPrice);
+            expect(
+                await deliverableCampaigns.getLockedSponsorFunds(deliverableCampaignId),
+            ).to.equal(0);
+        });
+
+        it("Should reject attestations that do not prove the campaign's deliverable", async function () {
+            const uid = await attest(deliverableCampaignId);
+            await expect(
+                deliverableCampaigns.connect(host).submitDeliverable(deliverableCampaignId, uid),
+            ).to.be.revertedWithCustomError(
+                deliverableCampaigns,
+                'AlphaCampaigns__CampaignNotOver',
+            );
+            await increaseTime(3600);
+            await expect(
+                deliverableCampaigns.connect(brand).submitDeliverable(deliverableCampaignId, uid),
+            ).to.be.revertedWithCustomError(deliverableCampaigns, 'AlphaCampaigns__OnlyHost');
+
+            // Attestations of another campaign or contract or by another attester, unknown UIDs and other schemas
+            // are rejected
+            await run('eas:register-schema', { name: 'groupContent', registry: registryAddress });
+            const invalid = [
+                await attest(deliverableCampaignId, deliverableCampaignsAddress, host),
+                await attest(deliverableCampaignId, deliverableCampaignsAddress, brand),
+                await attest(deliverableCampaignId + 1n),
+                await attest(deliverableCampaignId, await alphaCampaigns.getAddress()),
+                ethers.id('unknown'),
+                await run('eas:attest', {
+                    name: 'groupContent',
+                    data: JSON.stringify({
+                        group: deliverableCampaignsAddress,
+                        contentHash: hashDeliverable('sponsored video'),
+                        contentUri: 'ipfs://video',
+                    }),
+                    eas: easAddress,
+                }),
+            ];
+            for (const invalidUid of invalid) {
+                await expect(
+                    deliverableCampaigns
+                        .connect(host)
+                        .submitDeliverable(deliverableCampaignId, invalidUid),
+                ).to.be.revertedWithCustomError(
+                    deliverableCampaigns,
+                    'AlphaCampaigns__InvalidAttestation',
+                );
+            }
+        });
+
+        it('Should require an attester other than the host', async function () {
+            const latest = (await ethers.provider.getBlock('latest'))!.timestamp;
+            for (const attester of [ethers.ZeroAddress, hostAddress]) {
+                await expect(
+                    deliverableCampaigns.createDeliverableCampaign(
+                        latest + 3600,
+                        slotPrice,
+                        hostAddress,
+                        2,
+                        disputeWindow,
+                        attester,
+                    ),
+                ).to.be.revertedWithCustomError(
+                    deliverableCampaigns,
+                    'AlphaCampaigns__InvalidAttester',
+                );
+            }
+        });
+
+        it('Should not apply deliverable rules to regular campaigns', async function () {
+            await expect(
+                alphaCampaigns.connect(host).submitDeliverable(campaignId, ethers.ZeroHash),
+            ).to.be.revertedWithCustomError(
+                alphaCampaigns,
+                'AlphaCampaigns__NotDeliverableCampaign',
+            );
+            await expect(
+                alphaCampaigns.connect(brand).reclaimSponsorship(campaignId),
+            ).to.be.revertedWithCustomError(
+                alphaCampaigns,
+                'AlphaCampaigns__NotDeliverableCampaign',
+            );
+            expect(
+                (await alphaCampaigns.getCampaignDeliverable(campaignId)).disputeWindow,
+            ).to.equal(0);
+        });
+    });
 });
@@ -1,8 +1,16 @@
 import { expect } from 'chai';
 import { ethers, upgrades } from 'hardhat';
 import { AddressLike, Signer } from 'ethers';
-import { AlphaMarketBase } from '../typechain-types';
-import { AlphaMarketTreasury } from '../typechain-types';
+import {
+    AlphaCampaigns,
+    AlphaMarketBase,
+    AlphaMarketTreasury,
+    ExponentialBondingCurve,
+    GroupFactory,
+    GroupMembershipNFT,
+    GroupToken,
+} from '../typechain-types';
+import { scheduleChange } from '../sdk';
 
 describe('AlphaMarketBase', function () {
     let alphaMarketBase: AlphaMarketBase;
@@ -40,6 +48,51 @@ describe('AlphaMarketBase', function () {
         )) as unknown as AlphaMarketBase;
     });
 
+    // Moves past the change delay, so the changes scheduled so far can be made.
+    async function passChangeDelay() {
+        await ethers.provider.send('evm_increaseTime', [
+            Number(await alphaMarketBase.getChangeDelay()),
+        ]);
+        await ethers.provider.send('evm_mine', []);
+    }
+
+    // Creates a group hosted by the user, with a curve and pricing engine reading fees from AlphaMarketBase.
+    async function createGroup() {
+        const initialReserve = ethers.parseEther('0.0001');
+        const bondingCurve = (await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocolAddress, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+        const pricingEngine = await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocolAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        );
+
+        // Create a group through the GroupFactory contract
+        const groupFactory = (await (
+            await ethers.getContractFactory('GroupFactory')
+        ).deploy(
+            bondingCurve,
+            alphaMarketBase,
+            pricingEngine,
+            protocolAddress,
+        )) as unknown as GroupFactory;
+        await groupFactory
+            .connect(user)
+            .createGroup('Group', 'GRP', 'Members', 'MBR', ethers.parseEther('1'), 1000, {
+                value: await groupFactory.getInitialReserve(),
+            });
+        const group = await groupFactory.getGroup(0);
+
+        return {
+            bondingCurve,
+            groupToken: await ethers.getContractAt('GroupToken', group.groupToken),
+            membership: await ethers.getContractAt('GroupMembershipNFT', group.membership),
+        };
+    }
+
     it('Should intialize the contract correctly', async function () {
         expect(await alphaMarketBase.owner()).to.equal(protocolAddress);
         expect(await alphaMarketBase.getProtocolFeeDestination()).to.equal(
@@ -47,10 +100,13 @@ describe('AlphaMarketBase', function () {
         );
         expect(await alphaMarketBase.getProtocolFeePercent()).to.equal(1000);
         expect(await alphaMarketBase.getFeeSharePercent()).to.equal(0);
+        expect(await alphaMarketBase.getChangeDelay()).to.equal(2 * 24 * 60 * 60);
     });
 
     it('Should update the protocol fee destination correctly', async function () {
         const newTreasury = ethers.Wallet.createRandom();
+        await scheduleChange(alphaMarketBase, 'setProtocolFeeDestination', [newTreasury.address]);
+        await passChangeDelay();
         expect(await alphaMarketBase.setProtocolFeeDestination(newTreasury.address))
             .to.emit(alphaMarketBase, 'ProtocolFeeDestinationUpdated')
             .withArgs(newTreasury.address);
@@ -58,6 +114,8 @@ describe('AlphaMarketBase', function () {
     });
 
     it('Should update the protocol fee percent correctly', async function () {
+        await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [500]);
+        await passChangeDelay();
         expect(await alphaMarketBase.setProtocolFeePercent(500))
             .to.emit(alphaMarketBase, 'ProtocolFeePercentUpdated')
             .withArgs(500);
@@ -65,6 +123,8 @@ describe('AlphaMarketBase', function () {
     });
 
     it('Should update the fee share percent correctly', async function () {
+        await scheduleChange(alphaMarketBase, 'setFeeSharePercent', [100]);
+        await passChangeDelay();
         expect(await alphaMarketBase.setFeeSharePercent(100))
             .to.emit(alphaMarketBase, 'FeeSharePercentUpdated')
             .withArgs(100);
@@ -89,4 +149,610 @@ describe('AlphaMarketBase', function () {
             .to.be.revertedWithCustomError(alphaMarketBase, 'OwnableUnauthorizedAccount')
             .withArgs(userAddress);
     });
+
+    it('Should cap the protocol fee percent', async function () {
+        const maxProtocolFeePercent = await alphaMarketBase.getMaxProtocolFeePercent();
+        await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [maxProtocolFeePercent]);
+        await passChangeDelay();
+        await alphaMarketBase.setProtocolFeePercent(maxProtocolFeePercent);
+        await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [
+            maxProtocolFeePercent + 1n,
+        ]);
+        await passChangeDelay();
+
+        await expect(
+            alphaMarketBase.setProtocolFeePercent(maxProtocolFeePercent + 1n),
+        ).to.be.revertedWithCustomError(
+            alphaMarketBase,
+            'AlphaMarketBase__ProtocolFeePercentTooHigh',
+        );
+        await expect(
+            upgrades.deployProxy(
+                await ethers.getContractFactory('AlphaMarketBase'),
+                [protocolAddress, alphaMarketTreasuryAddress, maxProtocolFeePercent + 1n, 0],
+                { initializer: 'initialize' },
+            ),
+        ).to.be.revertedWithCustomError(
+            alphaMarketBase,
+            'AlphaMarketBase__ProtocolFeePercentTooHigh',
+        );
+    });
+
+    it('Should not allow a fee share above 100%', async function () {
+        await scheduleChange(alphaMarketBase, 'setFeeSharePercent', [10000]);
+        await passChangeDelay();
+        await alphaMarketBase.setFeeSharePercent(10000);
+        await scheduleChange(alphaMarketBase, 'setFeeSharePercent', [10001]);
+        await passChangeDelay();
+
+        await expect(alphaMarketBase.setFeeSharePercent(10001)).to.be.revertedWithCustomError(
+            alphaMarketBase,
+            'AlphaMarketBase__FeeSharePercentTooHigh',
+        );
+    });
+
+    describe('Timelocked changes', function () {
+        const changeDelay = 3600;
+
+        beforeEach(async function () {
+            await scheduleChange(alphaMarketBase, 'setChangeDelay', [changeDelay]);
+            await passChangeDelay();
+            await alphaMarketBase.setChangeDelay(changeDelay);
+        });
+
+        it('Should only make a scheduled change once its delay has passed', async function () {
+            const data = alphaMarketBase.interface.encodeFunctionData('setProtocolFeePercent', [
+                500,
+            ]);
+            const changeId = ethers.keccak256(data);
+            expect(await alphaMarketBase.getChangeDelay()).to.equal(changeDelay);
+            await expect(alphaMarketBase.setProtocolFeePercent(500)).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+
+            const { readyAt } = await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [
+                500,
+            ]);
+            expect(readyAt).to.equal(
+                BigInt((await ethers.provider.getBlock('latest'))!.timestamp + changeDelay),
+            );
+            expect(await alphaMarketBase.getPendingChanges()).to.deep.equal([changeId]);
+            expect(await alphaMarketBase.getChangeReadyAt(changeId)).to.equal(readyAt);
+            await expect(alphaMarketBase.setProtocolFeePercent(500))
+                .to.be.revertedWithCustomError(alphaMarketBase, 'TimelockedOwnable__ChangeNotReady')
+                .withArgs(readyAt);
+
+            await ethers.provider.send('evm_increaseTime', [changeDelay]);
+            await expect(alphaMarketBase.setProtocolFeePercent(500))
+                .to.emit(alphaMarketBase, 'ChangeExecuted')
+                .withArgs(changeId);
+            expect(await alphaMarketBase.getProtocolFeePercent()).to.equal(500);
+            expect(await alphaMarketBase.getPendingChanges()).to.deep.equal([]);
+            expect(await alphaMarketBase.getChangeReadyAt(changeId)).to.equal(0);
+        });
+
+        it('Should only allow the exact call that was scheduled', async function () {
+            await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [500]);
+            await ethers.provider.send('evm_increaseTime', [changeDelay]);
+
+            await expect(alphaMarketBase.setProtocolFeePercent(600)).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+            await expect(
+                scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [500]),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeAlreadyScheduled',
+            );
+        });
+
+        it('Should cancel pending changes', async function () {
+            const { changeId } = await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [
+                500,
+            ]);
+            await expect(alphaMarketBase.connect(user).cancelChange(changeId))
+                .to.be.revertedWithCustomError(alphaMarketBase, 'OwnableUnauthorizedAccount')
+                .withArgs(userAddress);
+
+            await expect(alphaMarketBase.cancelChange(changeId))
+                .to.emit(alphaMarketBase, 'ChangeCancelled')
+                .withArgs(changeId);
+            expect(await alphaMarketBase.getPendingChanges()).to.deep.equal([]);
+
+            await ethers.provider.send('evm_increaseTime', [changeDelay]);
+            await expect(alphaMarketBase.setProtocolFeePercent(500)).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+            await expect(alphaMarketBase.cancelChange(changeId)).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+        });
+
+        it('Should only let the owner schedule changes', async function () {
+            await expect(
+                alphaMarketBase
+                    .connect(user)
+                    .scheduleChange(
+                        alphaMarketBase.interface.encodeFunctionData('setProtocolFeePercent', [0]),
+                    ),
+            )
+                .to.be.revertedWithCustomError(alphaMarketBase, 'OwnableUnauthorizedAccount')
+                .withArgs(userAddress);
+        });
+
+        it('Should cap the change delay', async function () {
+            const maxChangeDelay = await alphaMarketBase.getMaxChangeDelay();
+            await scheduleChange(alphaMarketBase, 'setChangeDelay', [maxChangeDelay + 1n]);
+            await ethers.provider.send('evm_increaseTime', [changeDelay]);
+
+            await expect(
+                alphaMarketBase.setChangeDelay(maxChangeDelay + 1n),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeDelayTooLong',
+            );
+        });
+
+        it('Should only upgrade to a scheduled implementation', async function () {
+            const AlphaMarketBaseFactory = await ethers.getContractFactory('AlphaMarketBase');
+            await expect(
+                upgrades.upgradeProxy(alphaMarketBase, AlphaMarketBaseFactory, {
+                    redeployImplementation: 'always',
+                }),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+
+            const implementation = await upgrades.prepareUpgrade(
+                alphaMarketBase,
+                AlphaMarketBaseFactory,
+                { redeployImplementation: 'always' },
+            );
+            await scheduleChange(alphaMarketBase, 'upgradeToAndCall', [implementation, '0x']);
+            await ethers.provider.send('evm_increaseTime', [changeDelay]);
+            await alphaMarketBase.upgradeToAndCall(implementation as string, '0x');
+
+            expect(
+                await upgrades.erc1967.getImplementationAddress(await alphaMarketBase.getAddress()),
+            ).to.equal(implementation);
+        });
+
+        it('Should transfer ownership in two steps', async function () {
+            await alphaMarketBase.transferOwnership(userAddress);
+            expect(await alphaMarketBase.owner()).to.equal(protocolAddress);
+            expect(await alphaMarketBase.pendingOwner()).to.equal(userAddress);
+
+            await expect(alphaMarketBase.connect(user).acceptOwnership())
+                .to.emit(alphaMarketBase, 'OwnershipTransferred')
+                .withArgs(protocolAddress, userAddress);
+            expect(await alphaMarketBase.owner()).to.equal(userAddress);
+            expect(await alphaMarketBase.pendingOwner()).to.equal(ethers.ZeroAddress);
+        });
+    });
+
+    describe('Guardian', function () {
+        let groupToken: GroupToken;
+        let membership: GroupMembershipNFT;
+        let guardian: Signer;
+
+        beforeEach(async function () {
+            guardian = (await ethers.getSigners())[2];
+            ({ groupToken, membership } = await createGroup());
+        });
+
+        it('Should default to the owner until a guardian is set', async function () {
+            expect(await alphaMarketBase.getGuardian()).to.equal(protocolAddress);
+
+            await scheduleChange(alphaMarketBase, 'setGuardian', [await guardian.getAddress()]);
+            await passChangeDelay();
+            await expect(alphaMarketBase.setGuardian(await guardian.getAddress()))
+                .to.emit(alphaMarketBase, 'GuardianUpdated')
+                .withArgs(await guardian.getAddress());
+            expect(await alphaMarketBase.getGuardian()).to.equal(await guardian.getAddress());
+            await expect(
+                alphaMarketBase.connect(user).setGuardian(userAddress),
+            ).to.be.revertedWithCustomError(alphaMarketBase, 'OwnableUnauthorizedAccount');
+        });
+
+        it('Should let only the guardian pause group token trading', async function () {
+            await scheduleChange(alphaMarketBase, 'setGuardian', [await guardian.getAddress()]);
+            await passChangeDelay();
+            await alphaMarketBase.setGuardian(await guardian.getAddress());
+            await expect(groupToken.pause()).to.be.revertedWithCustomError(
+                groupToken,
+                'GroupToken__OnlyGuardian',
+            );
+            await expect(groupToken.connect(user).pause()).to.be.revertedWithCustomError(
+                groupToken,
+                'GroupToken__OnlyGuardian',
+            );
+
+            await groupToken.connect(user).mintTokens({ value: ethers.parseEther('0.01') });
+            await groupToken.connect(guardian).pause();
+            await expect(
+                groupToken.connect(user).mintTokens({ value: ethers.parseEther('0.01') }),
+            ).to.be.revertedWithCustomError(groupToken, 'EnforcedPause');
+            const tokens = await groupToken.balanceOf(userAddress);
+            await groupToken.connect(user).approve(userAddress, tokens);
+            await expect(
+                groupToken.connect(user).burnTokens(tokens, userAddress),
+            ).to.be.revertedWithCustomError(groupToken, 'EnforcedPause');
+
+            // Transfers are not trading and stay open
+            await groupToken.connect(user).transfer(protocolAddress, 1);
+
+            await groupToken.connect(guardian).unpause();
+            await groupToken.connect(user).burnTokens(tokens / 2n, userAddress);
+        });
+
+        it('Should let only the guardian pause membership trading', async function () {
+            const engine = await ethers.getContractAt(
+                'MembershipPricingEngine',
+                await membership.getNFTCurveProxyAddress(),
+            );
+            await expect(membership.connect(user).pause()).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__OnlyGuardian',
+            );
+
+            await membership.pause();
+            await expect(
+                membership
+                    .connect(user)
+                    .purchaseMembership({ value: await engine.getMembershipCost(1) }),
+            ).to.be.revertedWithCustomError(membership, 'EnforcedPause');
+
+            await membership.unpause();
+            await membership
+                .connect(user)
+                .purchaseMembership({ value: await engine.getMembershipCost(1) });
+            expect(await membership.balanceOf(userAddress)).to.equal(2);
+        });
+    });
+
+    describe('Fee semantics', function () {
+        const protocolFeePercent = 750n;
+        const feeSharePercent = 2000n;
+        let feeDestination: Signer;
+        let bondingCurve: ExponentialBondingCurve;
+        let groupToken: GroupToken;
+        let membership: GroupMembershipNFT;
+
+        // The basis points semantics every fee path is expected to share
+        function bps(amount: bigint, basisPoints: bigint) {
+            return (amount * basisPoints) / 10000n;
+        }
+
+        beforeEach(async function () {
+            feeDestination = (await ethers.getSigners())[2];
+            const feeDestinationAddress = await feeDestination.getAddress();
+            await scheduleChange(alphaMarketBase, 'setProtocolFeeDestination', [
+                feeDestinationAddress,
+            ]);
+            await passChangeDelay();
+            await alphaMarketBase.setProtocolFeeDestination(feeDestinationAddress);
+            await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [protocolFeePercent]);
+            await passChangeDelay();
+            await alphaMarketBase.setProtocolFeePercent(protocolFeePercent);
+            await scheduleChange(alphaMarketBase, 'setFeeSharePercent', [feeSharePercent]);
+            await passChangeDelay();
+            await alphaMarketBase.setFeeSharePercent(feeSharePercent);
+            ({ bondingCurve, groupToken, membership } = await createGroup());
+        });
+
+        it('Should read the curve fees from the AlphaMarketBase contract', async function () {
+            expect(await bondingCurve.getAlphaMarketBase()).to.equal(
+                await alphaMarketBase.getAddress(),
+            );
+            expect(await bondingCurve.getProtocolFeePercent(groupToken)).to.equal(
+                protocolFeePercent,
+            );
+            expect(await bondingCurve.getFeeSharePercent(groupToken)).to.equal(feeSharePercent);
+            expect(await bondingCurve.getProtocolFeeDestination()).to.equal(
+                await feeDestination.getAddress(),
+            );
+        });
+
+        it('Should charge group token purchases and sales in basis points', async function () {
+            const value = ethers.parseEther('1');
+            const fees = bps(value, protocolFeePercent);
+            await expect(groupToken.connect(user).mintTokens({ value })).to.changeEtherBalance(
+                feeDestination,
+                fees,
+            );
+
+            // The fee share of sales stays in the token for the host
+            const tokens = await groupToken.balanceOf(userAddress);
+            const [saleValue, saleFees] = await bondingCurve.getSaleReturn(
+                groupToken,
+                await groupToken.totalSupply(),
+                await groupToken.getReserveBalance(),
+                tokens,
+            );
+            expect(saleFees).to.equal(bps(saleValue, protocolFeePercent));
+            const feeShare = bps(saleFees, feeSharePercent);
+
+            await groupToken.connect(user).approve(userAddress, tokens);
+            await expect(
+                groupToken.connect(user).burnTokens(tokens, userAddress),
+            ).to.changeEtherBalance(feeDestination, saleFees - feeShare);
+            expect(await groupToken.getCollectedFees()).to.equal(feeShare);
+        });
+
+        it('Should charge membership purchases in basis points', async function () {
+            const engine = await ethers.getContractAt(
+                'MembershipPricingEngine',
+                await membership.getNFTCurveProxyAddress(),
+            );
+            const cost = await engine.getMembershipCost(1);
+            const fees = bps(cost, protocolFeePercent);
+
+            await expect(membership.connect(user).purchaseMembership({ value: cost }))
+                .to.emit(membership, 'MembershipPurchased')
+                .withArgs(userAddress, cost, fees - bps(fees, feeSharePercent), 1);
+        });
+
+        it('Should charge campaign withdrawals in basis points', async function () {
+            const alphaCampaigns = (await (
+                await ethers.getContractFactory('AlphaCampaigns')
+            ).deploy(alphaMarketBase, ethers.ZeroAddress)) as unknown as AlphaCampaigns;
+            const deadline = (await ethers.provider.getBlock('latest'))!.timestamp + 3600;
+            await alphaCampaigns.createCampaign(deadline, ethers.parseEther('0.1'), userAddress, 1);
+            const campaignId = (
+                await alphaCampaigns.queryFilter(alphaCampaigns.filters.CampaignCreated())
+            )[0].args.campaignId;
+
+            const tip = ethers.parseEther('1');
+            await alphaCampaigns.tipCampaign(campaignId, { value: tip });
+            await ethers.provider.send('evm_increaseTime', [3601]);
+
+            await expect(
+                alphaCampaigns.connect(user).withdrawFunds(campaignId),
+            ).to.changeEtherBalance(feeDestination, bps(tip, protocolFeePercent));
+        });
+
+        it('Should charge a group token the fees of its fee schedule', async function () {
+            const tiers = [{ volumeThreshold: 0, protocolFeePercent: 250, feeSharePercent: 5000 }];
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                await groupToken.getAddress(),
+                tiers,
+            ]);
+            await passChangeDelay();
+            await alphaMarketBase.setFeeSchedule(await groupToken.getAddress(), tiers);
+            expect(await alphaMarketBase.getEffectiveFees(membership)).to.deep.equal([
+                0n,
+                protocolFeePercent,
+                feeSharePercent,
+            ]);
+
+            expect(await bondingCurve.getProtocolFeePercent(groupToken)).to.equal(250);
+            expect(await bondingCurve.getFeeSharePercent(groupToken)).to.equal(5000);
+            expect(await bondingCurve.getProtocolFeePercent(membership)).to.equal(
+                protocolFeePercent,
+            );
+
+            // Quotes made from an account follow the schedule of the token they are for
+            const value = ethers.parseEther('1');
+            const [tokensOut, fees] = await bondingCurve
+                .connect(user)
+                .getPurchaseReturn(
+                    groupToken,
+                    await groupToken.totalSupply(),
+                    await groupToken.getReserveBalance(),
+                    value,
+                );
+            expect(fees).to.equal(bps(value, 250n));
+            const mint = groupToken.connect(user).mintTokens({ value });
+            await expect(mint)
+                .to.emit(alphaMarketBase, 'FeeTierApplied')
+                .withArgs(await groupToken.getAddress(), 0, value, 250, 5000);
+            await expect(mint)
+                .to.emit(groupToken, 'TokensPurchased')
+                .withArgs(userAddress, value, fees, tokensOut);
+            await expect(mint).to.changeEtherBalance(feeDestination, fees);
+
+            const tokens = await groupToken.balanceOf(userAddress);
+            await groupToken.connect(user).approve(userAddress, tokens);
+            const [, saleFees] = await bondingCurve
+                .connect(user)
+                .getSaleReturn(
+                    groupToken,
+                    await groupToken.totalSupply(),
+                    await groupToken.getReserveBalance(),
+                    tokens,
+                );
+            expect(saleFees).to.be.greaterThan(0n);
+            await groupToken.connect(user).burnTokens(tokens, userAddress);
+            expect(await groupToken.getCollectedFees()).to.equal(bps(saleFees, 5000n));
+        });
+
+        it('Should reduce the fees of a membership above its volume threshold', async function () {
+            const engine = await ethers.getContractAt(
+                'MembershipPricingEngine',
+                await membership.getNFTCurveProxyAddress(),
+            );
+            const cost = await engine.getMembershipCost(1);
+            const tiers = [
+                { volumeThreshold: 0, protocolFeePercent, feeSharePercent },
+                { volumeThreshold: cost, protocolFeePercent: 100, feeSharePercent: 0 },
+            ];
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                await membership.getAddress(),
+                tiers,
+            ]);
+            await passChangeDelay();
+            await alphaMarketBase.setFeeSchedule(await membership.getAddress(), tiers);
+
+            await expect(membership.connect(user).purchaseMembership({ value: cost }))
+                .to.emit(alphaMarketBase, 'FeeTierApplied')
+                .withArgs(
+                    await membership.getAddress(),
+                    0,
+                    cost,
+                    protocolFeePercent,
+                    feeSharePercent,
+                );
+
+            const nextCost = await engine.getMembershipCost(2);
+            await expect(membership.connect(user).purchaseMembership({ value: nextCost }))
+                .to.emit(membership, 'MembershipPurchased')
+                .withArgs(userAddress, nextCost, bps(nextCost, 100n), 2);
+            expect(await alphaMarketBase.getRecordedVolume(membership)).to.equal(cost + nextCost);
+            expect((await alphaMarketBase.getEffectiveFees(membership))[0]).to.equal(1);
+        });
+    });
+
+    describe('Fee schedules', function () {
+        it('Should set and remove the fee schedule of a contract', async function () {
+            const tiers = [
+                { volumeThreshold: 0n, protocolFeePercent: 500n, feeSharePercent: 0n },
+                {
+                    volumeThreshold: ethers.parseEther('10'),
+                    protocolFeePercent: 250n,
+                    feeSharePercent: 0n,
+                },
+            ];
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [userAddress, tiers]);
+            await passChangeDelay();
+            await expect(alphaMarketBase.setFeeSchedule(userAddress, tiers))
+                .to.emit(alphaMarketBase, 'FeeScheduleUpdated')
+                .withArgs(userAddress, tiers.map(Object.values));
+            expect(await alphaMarketBase.getFeeSchedule(userAddress)).to.deep.equal(
+                tiers.map(Object.values),
+            );
+            expect(await alphaMarketBase.getEffectiveFees(userAddress)).to.deep.equal([
+                0n,
+                500n,
+                0n,
+            ]);
+
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [userAddress, []]);
+            await passChangeDelay();
+            await alphaMarketBase.setFeeSchedule(userAddress, []);
+            expect(await alphaMarketBase.getFeeSchedule(userAddress)).to.be.empty;
+            expect(await alphaMarketBase.getEffectiveFees(userAddress)).to.deep.equal([
+                0n,
+                1000n,
+                0n,
+            ]);
+        });
+
+        it('Should only accept tiers starting at zero volume in ascending order', async function () {
+            const tier = (
+                volumeThreshold: bigint,
+                protocolFeePercent = 500n,
+                feeSharePercent = 0n,
+            ) => ({
+                volumeThreshold,
+                protocolFeePercent,
+                feeSharePercent,
+            });
+
+            for (const tiers of [[tier(1n)], [tier(0n), tier(5n), tier(5n)]]) {
+                await scheduleChange(alphaMarketBase, 'setFeeSchedule', [userAddress, tiers]);
+                await passChangeDelay();
+                await expect(
+                    alphaMarketBase.setFeeSchedule(userAddress, tiers),
+                ).to.be.revertedWithCustomError(
+                    alphaMarketBase,
+                    'AlphaMarketBase__InvalidFeeSchedule',
+                );
+            }
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                userAddress,
+                [tier(0n, 1001n)],
+            ]);
+            await passChangeDelay();
+            await expect(
+                alphaMarketBase.setFeeSchedule(userAddress, [tier(0n, 1001n)]),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'AlphaMarketBase__ProtocolFeePercentTooHigh',
+            );
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                userAddress,
+                [tier(0n, 500n, 10001n)],
+            ]);
+            await passChangeDelay();
+            await expect(
+                alphaMarketBase.setFeeSchedule(userAddress, [tier(0n, 500n, 10001n)]),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'AlphaMarketBase__FeeSharePercentTooHigh',
+            );
+            await expect(
+                alphaMarketBase.connect(user).setFeeSchedule(userAddress, [tier(0n)]),
+            ).to.be.revertedWithCustomError(alphaMarketBase, 'OwnableUnauthorizedAccount');
+        });
+
+        it('Should not set a fee schedule that was not scheduled', async function () {
+            const tiers = [{ volumeThreshold: 0n, protocolFeePercent: 0n, feeSharePercent: 0n }];
+            await expect(
+                alphaMarketBase.setFeeSchedule(userAddress, tiers),
+            ).to.be.revertedWithCustomError(
+                alphaMarketBase,
+                'TimelockedOwnable__ChangeNotScheduled',
+            );
+        });
+    });
+
+    describe('Curve migration', function () {
+        it('Should migrate a curve that stored its own fees to AlphaMarketBase', async function () {
+            // Deploy a curve proxy with the storage layout from before fees moved to AlphaMarketBase
+            const legacyCurve = await upgrades.deployProxy(
+                await ethers.getContractFactory('LegacyExponentialBondingCurve'),
+                [protocolAddress, protocolAddress, 500, 0, ethers.parseEther('0.0001'), 500000],
+                { initializer: 'initialize' },
+            );
+            expect(await legacyCurve.getProtocolFeePercent()).to.equal(500);
+
+            // Upgrade it, switching to the AlphaMarketBase fees in the same transaction
+            const bondingCurve = (await upgrades.upgradeProxy(
+                legacyCurve,
+                await ethers.getContractFactory('ExponentialBondingCurve'),
+                {
+                    call: {
+                        fn: 'migrateToAlphaMarketBase',
+                        args: [await alphaMarketBase.getAddress()],
+                    },
+                },
+            )) as unknown as ExponentialBondingCurve;
+
+            expect(await bondingCurve.owner()).to.equal(protocolAddress);
+            expect(await bondingCurve.getInitialReserve()).to.equal(ethers.parseEther('0.0001'));
+            expect(await bondingCurve.getReserveRatio()).to.equal(500000);
+            expect(await bondingCurve.getAlphaMarketBase()).to.equal(
+                await alphaMarketBase.getAddress(),
+            );
+            expect(await bondingCurve.getProtocolFeePercent(ethers.ZeroAddress)).to.equal(1000);
+            expect(await bondingCurve.getProtocolFeeDestination()).to.equal(
+                alphaMarketTreasuryAddress,
+            );
+            await expect(
+                bondingCurve.migrateToAlphaMarketBase(alphaMarketTreasuryAddress),
+            ).to.be.revertedWithCustomError(bondingCurve, 'InvalidInitialization');
+        });
+
+        it('Should not migrate curves initialized with AlphaMarketBase', async function () {
+            const bondingCurve = (await upgrades.deployProxy(
+                await ethers.getContractFactory('ExponentialBondingCurve'),
+                [
+                    protocolAddress,
+                    await alphaMarketBase.getAddress(),
+                    ethers.parseEther('0.0001'),
+                    500000,
+                ],
+                { initializer: 'initialize' },
+            )) as unknown as ExponentialBondingCurve;
+
+            await expect(
+                bondingCurve.migrateToAlphaMarketBase(alphaMarketTreasuryAddress),
+            ).to.be.revertedWithCustomError(bondingCurve, 'InvalidInitialization');
+        });
+    });
 });
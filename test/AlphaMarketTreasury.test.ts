@@ -0,0 +1,374 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaMarketTreasury,
+    ExponentialBondingCurve,
+    GroupToken,
+    MockERC20,
+} from '../typechain-types';
+import MockERC20Module from '../ignition/modules/mocks/MockERC20';
+import ReserveAssetGroupTokenModule from '../ignition/modules/erc20-curve/ReserveAssetGroupToken';
+
+// Mirrors AlphaMarketTreasury.SourceKind
+enum SourceKind {
+    Other,
+    GroupToken,
+    GroupMembershipNFT,
+    AlphaCampaigns,
+}
+
+// Builds a split from the protocol, host and community shares in basis points
+function split(protocolShare: number, hostShare: number, communityShare: number) {
+    return { protocolShare, hostShare, communityShare };
+}
+
+describe('AlphaMarketTreasury', function () {
+    let treasury: AlphaMarketTreasury;
+    let treasuryAddress: string;
+    let protocol: Signer;
+    let protocolAddress: string;
+    let source: Signer;
+    let sourceAddress: string;
+    let host: Signer;
+    let hostAddress: string;
+    let communityPoolAddress: string;
+    const amount = ethers.parseEther('1');
+
+    beforeEach(async function () {
+        // Create signers for testing, the source stands in for a fee paying contract
+        const [protocolSigner, sourceSigner, hostSigner, communityPool] = await ethers.getSigners();
+        protocol = protocolSigner;
+        protocolAddress = await protocol.getAddress();
+        source = sourceSigner;
+        sourceAddress = await source.getAddress();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        communityPoolAddress = await communityPool.getAddress();
+
+        // Deploy the AlphaMarketTreasury contract
+        const AlphaMarketTreasuryFactory = await ethers.getContractFactory('AlphaMarketTreasury');
+        treasury = (await upgrades.deployProxy(AlphaMarketTreasuryFactory, [protocolAddress], {
+            initializer: 'initialize',
+        })) as unknown as AlphaMarketTreasury;
+        treasuryAddress = await treasury.getAddress();
+    });
+
+    it('Should credit everything to the owner by default', async function () {
+        expect(await treasury.getProtocolPayee()).to.equal(protocolAddress);
+        expect(await treasury.getCommunityPool()).to.equal(protocolAddress);
+        expect(await treasury.getSplit(SourceKind.GroupToken)).to.deep.equal([10000n, 0n, 0n]);
+
+        await expect(source.sendTransaction({ to: treasuryAddress, value: amount }))
+            .to.emit(treasury, 'RevenueReceived')
+            .withArgs(sourceAddress, SourceKind.Other, ethers.ZeroAddress, amount);
+        expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(amount);
+        expect(await treasury.getSourceRevenue(sourceAddress, ethers.ZeroAddress)).to.equal(amount);
+        expect(await treasury.getKindRevenue(SourceKind.Other, ethers.ZeroAddress)).to.equal(
+            amount,
+        );
+    });
+
+    it('Should split revenue between the protocol, host and community pool', async function () {
+        await treasury.setPayees(protocolAddress, communityPoolAddress);
+        await expect(treasury.setSplit(SourceKind.GroupMembershipNFT, split(5000, 3000, 2000)))
+            .to.emit(treasury, 'SplitUpdated')
+            .withArgs(SourceKind.GroupMembershipNFT, 5000, 3000, 2000);
+        await expect(treasury.setSource(sourceAddress, SourceKind.GroupMembershipNFT, hostAddress))
+            .to.emit(treasury, 'SourceUpdated')
+            .withArgs(sourceAddress, SourceKind.GroupMembershipNFT, hostAddress);
+
+        await source.sendTransaction({ to: treasuryAddress, value: amount });
+
+        expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(
+            (amount * 5000n) / 10000n,
+        );
+        expect(await treasury.getReleasable(ethers.ZeroAddress, hostAddress)).to.equal(
+            (amount * 3000n) / 10000n,
+        );
+        expect(await treasury.getReleasable(ethers.ZeroAddress, communityPoolAddress)).to.equal(
+            (amount * 2000n) / 10000n,
+        );
+        expect(
+            await treasury.getKindRevenue(SourceKind.GroupMembershipNFT, ethers.ZeroAddress),
+        ).to.equal(amount);
+        expect(await treasury.getTotalReleasable(ethers.ZeroAddress)).to.equal(amount);
+    });
+
+    it('Should credit the host share to the protocol when the source has no host', async function () {
+        await treasury.setPayees(protocolAddress, communityPoolAddress);
+        await treasury.setSplit(SourceKind.AlphaCampaigns, split(5000, 3000, 2000));
+        await treasury.setSource(sourceAddress, SourceKind.AlphaCampaigns, ethers.ZeroAddress);
+
+        await treasury.connect(source).deposit(ethers.ZeroAddress, amount, { value: amount });
+
+        expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(
+            (amount * 8000n) / 10000n,
+        );
+        expect(await treasury.getReleasable(ethers.ZeroAddress, communityPoolAddress)).to.equal(
+            (amount * 2000n) / 10000n,
+        );
+    });
+
+    it('Should release a payee share to the payee', async function () {
+        await source.sendTransaction({ to: treasuryAddress, value: amount });
+
+        // Anyone can release a payee's share, which is always sent to the payee
+        const release = treasury.connect(source).release(ethers.ZeroAddress, protocolAddress);
+        await expect(release)
+            .to.emit(treasury, 'PaymentReleased')
+            .withArgs(protocolAddress, ethers.ZeroAddress, amount);
+        await expect(release).to.changeEtherBalances([treasury, protocol], [-amount, amount]);
+        expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(0);
+        expect(await treasury.getReleased(ethers.ZeroAddress, protocolAddress)).to.equal(amount);
+
+        await expect(
+            treasury.release(ethers.ZeroAddress, protocolAddress),
+        ).to.be.revertedWithCustomError(treasury, 'AlphaMarketTreasury__NothingToRelease');
+    });
+
+    it('Should sync Ether held before the treasury accounted for its revenue', async function () {
+        await source.sendTransaction({ to: treasuryAddress, value: amount });
+        await ethers.provider.send('hardhat_setBalance', [
+            treasuryAddress,
+            ethers.toQuantity(amount * 3n),
+        ]);
+
+        await expect(treasury.sync(ethers.ZeroAddress))
+            .to.emit(treasury, 'RevenueReceived')
+            .withArgs(ethers.ZeroAddress, SourceKind.Other, ethers.ZeroAddress, amount * 2n);
+        expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(
+            amount * 3n,
+        );
+        await expect(treasury.sync(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+            treasury,
+            'AlphaMarketTreasury__AmountMustBeGreaterThanZero',
+        );
+    });
+
+    it('Should only let the owner configure valid splits and payees', async function () {
+        await expect(
+            treasury.setSplit(SourceKind.GroupToken, split(5000, 3000, 1000)),
+        ).to.be.revertedWithCustomError(treasury, 'AlphaMarketTreasury__InvalidSplit');
+        await expect(
+            treasury.setPayees(ethers.ZeroAddress, communityPoolAddress),
+        ).to.be.revertedWithCustomError(treasury, 'AlphaMarketTreasury__AddressCannotBeZero');
+        await expect(
+            treasury.connect(source).setSplit(SourceKind.GroupToken, split(0, 10000, 0)),
+        ).to.be.revertedWithCustomError(treasury, 'OwnableUnauthorizedAccount');
+        await expect(
+            treasury.connect(source).setSource(sourceAddress, SourceKind.GroupToken, sourceAddress),
+        ).to.be.revertedWithCustomError(treasury, 'OwnableUnauthorizedAccount');
+    });
+
+    describe('ERC20 revenue', function () {
+        let asset: MockERC20;
+
+        beforeEach(async function () {
+            // Deploy a mock stablecoin and fund the source
+            ({ mockERC20: asset } = (await ignition.deploy(MockERC20Module)) as unknown as {
+                mockERC20: MockERC20;
+            });
+            await asset.mint(sourceAddress, amount);
+            await treasury.setPayees(protocolAddress, communityPoolAddress);
+            await treasury.setSplit(SourceKind.Other, split(9000, 0, 1000));
+        });
+
+        it('Should split deposited tokens and release them', async function () {
+            await asset.connect(source).approve(treasuryAddress, amount);
+            await expect(treasury.connect(source).deposit(asset, amount))
+                .to.emit(treasury, 'RevenueReceived')
+                .withArgs(sourceAddress, SourceKind.Other, await asset.getAddress(), amount);
+
+            await expect(treasury.release(asset, communityPoolAddress)).to.changeTokenBalances(
+                asset,
+                [treasuryAddress, communityPoolAddress],
+                [-amount / 10n, amount / 10n],
+            );
+            expect(await treasury.getReleasable(asset, protocolAddress)).to.equal(
+                amount - amount / 10n,
+            );
+            expect(await treasury.getReleasable(ethers.ZeroAddress, protocolAddress)).to.equal(0);
+        });
+
+        it('Should reject Ether sent with a token deposit', async function () {
+            await asset.connect(source).approve(treasuryAddress, amount);
+            await expect(
+                treasury.connect(source).deposit(asset, amount, { value: 1 }),
+            ).to.be.revertedWithCustomError(
+                treasury,
+                'AlphaMarketTreasury__IncorrectAmountOfEtherSent',
+            );
+        });
+
+        it('Should sync tokens transferred without a deposit', async function () {
+            await asset.connect(source).transfer(treasuryAddress, amount);
+
+            await expect(treasury.sync(asset))
+                .to.emit(treasury, 'RevenueReceived')
+                .withArgs(ethers.ZeroAddress, SourceKind.Other, await asset.getAddress(), amount);
+            expect(await treasury.getTotalReleasable(asset)).to.equal(amount);
+            await expect(treasury.sync(asset)).to.be.revertedWithCustomError(
+                treasury,
+                'AlphaMarketTreasury__AmountMustBeGreaterThanZero',
+            );
+        });
+    });
+
+    describe('GroupToken collected fees', function () {
+        let bondingCurve: ExponentialBondingCurve;
+        const initialReserve = ethers.parseEther('0.0001');
+
+        beforeEach(async function () {
+            // Send fees to the treasury and share half of the sale fees with the group
+            const alphaMarketBase = await upgrades.deployProxy(
+                await ethers.getContractFactory('AlphaMarketBase'),
+                [protocolAddress, treasuryAddress, 1000, 5000],
+                { initializer: 'initialize' },
+            );
+
+            // Deploy a curve reading its fees from the AlphaMarketBase contract
+            const ExponentialBondingCurveFactory =
+                await ethers.getContractFactory('ExponentialBondingCurve');
+            bondingCurve = (await upgrades.deployProxy(
+                ExponentialBondingCurveFactory,
+                [protocolAddress, await alphaMarketBase.getAddress(), initialReserve, 500000],
+                { initializer: 'initialize' },
+            )) as unknown as ExponentialBondingCurve;
+        });
+
+        it('Should release the collected fees of an Ether backed token to the host', async function () {
+            const GroupTokenFactory = await ethers.getContractFactory('GroupToken');
+            const groupToken = (await GroupTokenFactory.deploy(
+                'Group',
+                'GRP',
+                await bondingCurve.getAddress(),
+                hostAddress,
+                ethers.ZeroAddress,
+                { value: initialReserve },
+            )) as unknown as GroupToken;
+            await treasury.setSource(groupToken, SourceKind.GroupToken, hostAddress);
+
+            // Trade to collect fees
+            await groupToken.connect(source).mintTokens({ value: ethers.parseEther('0.01') });
+            const tokens = await groupToken.balanceOf(sourceAddress);
+            await groupToken.connect(source).approve(sourceAddress, tokens);
+            await groupToken.connect(source).burnTokens(tokens, sourceAddress);
+            const collectedFees = await groupToken.getCollectedFees();
+            expect(collectedFees).to.be.greaterThan(0);
+
+            const release = groupToken.releaseCollectedFees();
+            await expect(release)
+                .to.emit(groupToken, 'CollectedFeesReleased')
+                .withArgs(treasuryAddress, collectedFees);
+            await expect(release)
+                .to.emit(treasury, 'HostFeesReceived')
+                .withArgs(
+                    await groupToken.getAddress(),
+                    hostAddress,
+                    ethers.ZeroAddress,
+                    collectedFees,
+                );
+            expect(await groupToken.getCollectedFees()).to.equal(0);
+            expect(await treasury.getReleasable(ethers.ZeroAddress, hostAddress)).to.equal(
+                collectedFees,
+            );
+            expect(
+                await treasury.getKindRevenue(SourceKind.GroupToken, ethers.ZeroAddress),
+            ).to.equal(await treasury.getSourceRevenue(groupToken, ethers.ZeroAddress));
+
+            await expect(groupToken.releaseCollectedFees()).to.be.revertedWithCustomError(
+                groupToken,
+                'GroupToken__AmountMustBeGreaterThanZero',
+            );
+        });
+
+        it('Should release the collected fees of an asset backed token to the host', async function () {
+            const { mockERC20: asset } = (await ignition.deploy(MockERC20Module)) as unknown as {
+                mockERC20: MockERC20;
+            };
+            await bondingCurve.setAssetInitialReserve(asset, 100_000n);
+            const { groupToken } = (await ignition.deploy(ReserveAssetGroupTokenModule, {
+                parameters: {
+                    ReserveAssetGroupTokenModule: {
+                        bondingCurve: await bondingCurve.getAddress(),
+                        reserveAsset: await asset.getAddress(),
+                        host: hostAddress,
+                    },
+                },
+            })) as unknown as { groupToken: GroupToken };
+            await treasury.setSource(groupToken, SourceKind.GroupToken, hostAddress);
+
+            // Trade to collect fees
+            const deposit = 10_000_000n;
+            await asset.mint(sourceAddress, deposit);
+            await asset.connect(source).approve(groupToken, deposit);
+            await groupToken.connect(source).mintTokensWithAsset(deposit, 0, ethers.MaxUint256);
+            const tokens = await groupToken.balanceOf(sourceAddress);
+            await groupToken.connect(source).approve(sourceAddress, tokens);
+            await groupToken.connect(source).burnTokens(tokens, sourceAddress);
+            const collectedFees = await groupToken.getCollectedFees();
+
+            // The protocol fees in the asset are deposited as revenue of the token
+            const protocolFees = await asset.balanceOf(treasury);
+            expect(protocolFees).to.be.greaterThan(0);
+            expect(await treasury.getSourceRevenue(groupToken, asset)).to.equal(protocolFees);
+            expect(await treasury.getKindRevenue(SourceKind.GroupToken, asset)).to.equal(
+                protocolFees,
+            );
+
+            await expect(groupToken.releaseCollectedFees()).to.changeTokenBalances(
+                asset,
+                [groupToken, treasury],
+                [-collectedFees, collectedFees],
+            );
+            expect(await treasury.getReleasable(asset, hostAddress)).to.equal(collectedFees);
+            await expect(treasury.release(asset, hostAddress)).to.changeTokenBalance(
+                asset,
+                host,
+                collectedFees,
+            );
+        });
+
+        it('Should send the collected fees to the host when the fee destination is an account', async function () {
+            const alphaMarketBase = await upgrades.deployProxy(
+                await ethers.getContractFactory('AlphaMarketBase'),
+                [protocolAddress, protocolAddress, 1000, 5000],
+                { initializer: 'initialize' },
+            );
+            const accountCurve = await upgrades.deployProxy(
+                await ethers.getContractFactory('ExponentialBondingCurve'),
+                [protocolAddress, await alphaMarketBase.getAddress(), initialReserve, 500000],
+                { initializer: 'initialize' },
+            );
+            const groupToken = (await (
+                await ethers.getContractFactory('GroupToken')
+            ).deploy(
+                'Group',
+                'GRP',
+                await accountCurve.getAddress(),
+                hostAddress,
+                ethers.ZeroAddress,
+                {
+                    value: initialReserve,
+                },
+            )) as unknown as GroupToken;
+
+            // Trade to collect fees
+            await groupToken.connect(source).mintTokens({ value: ethers.parseEther('0.01') });
+            const tokens = await groupToken.balanceOf(sourceAddress);
+            await groupToken.connect(source).approve(sourceAddress, tokens);
+            await groupToken.connect(source).burnTokens(tokens, sourceAddress);
+            const collectedFees = await groupToken.getCollectedFees();
+
+            const release = groupToken.releaseCollectedFees();
+            await expect(release)
+                .to.emit(groupToken, 'CollectedFeesReleased')
+                .withArgs(hostAddress, collectedFees);
+            await expect(release).to.changeEtherBalances(
+                [groupToken, host],
+                [-collectedFees, collectedFees],
+            );
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { ethers, run } from 'hardhat';
+import { Signer } from 'ethers';
+import { AttestationSchemas, encodeAttestationData, getSchemaUID } from '../sdk';
+
+describe('Attestation tasks', function () {
+    let easAddress: string;
+    let registryAddress: string;
+    let host: Signer;
+    let hostAddress: string;
+    const group = '0x00000000000000000000000000000000000000aa';
+    const contentHash = ethers.id('first post');
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [, hostSigner] = await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+
+        // Deploy the SchemaRegistry and EAS contracts
+        const registry = await (await ethers.getContractFactory('SchemaRegistry')).deploy();
+        registryAddress = await registry.getAddress();
+        const eas = await (await ethers.getContractFactory('EAS')).deploy(registryAddress);
+        easAddress = await eas.getAddress();
+    });
+
+    // Registers a project schema through the task and returns its UID.
+    async function registerSchema(name: string): Promise<string> {
+        return run('eas:register-schema', { name, registry: registryAddress });
+    }
+
+    describe('eas:register-schema', function () {
+        it('Should register the project schemas at their deterministic UIDs', async function () {
+            for (const [name, schema] of Object.entries(AttestationSchemas)) {
+                expect(await registerSchema(name)).to.equal(getSchemaUID(schema));
+            }
+
+            const registry = await ethers.getContractAt('SchemaRegistry', registryAddress);
+            const record = await registry.getSchema(
+                getSchemaUID(AttestationSchemas.campaignDeliverable),
+            );
+            expect(record.schema).to.equal(AttestationSchemas.campaignDeliverable.schema);
+            expect(record.revocable).to.be.false;
+        });
+
+        it('Should skip schemas that are already registered', async function () {
+            const uid = await registerSchema('groupContent');
+
+            expect(await registerSchema('groupContent')).to.equal(uid);
+        });
+
+        it('Should register custom schemas', async function () {
+            const uid = await run('eas:register-schema', {
+                schema: 'string note',
+                revocable: false,
+                registry: registryAddress,
+            });
+
+            expect(uid).to.equal(getSchemaUID({ schema: 'string note', revocable: false }));
+        });
+
+        it('Should reject unknown schema names and unconfigured networks', async function () {
+            await expect(registerSchema('unknown')).to.be.rejectedWith('Unknown schema unknown');
+            await expect(run('eas:register-schema', { name: 'groupContent' })).to.be.rejectedWith(
+                'No SchemaRegistry configured for hardhat',
+            );
+        });
+    });
+
+    describe('eas:attest', function () {
+        it('Should attest group content and fetch it back decoded', async function () {
+            await registerSchema('groupContent');
+
+            const uid = await run('eas:attest', {
+                name: 'groupContent',
+                recipient: hostAddress,
+                data: JSON.stringify({ group, contentHash, contentUri: 'ipfs://post' }),
+                eas: easAddress,
+            });
+            const attestation = await run('eas:fetch', {
+                uid,
+                name: 'groupContent',
+                eas: easAddress,
+            });
+
+            expect(attestation.recipient).to.equal(hostAddress);
+            expect(attestation.schema).to.equal(getSchemaUID(AttestationSchemas.groupContent));
+            expect(attestation.revocable).to.be.true;
+            expect(attestation.decodedData).to.deep.equal({
+                group: ethers.getAddress(group),
+                contentHash,
+                contentUri: 'ipfs://post',
+            });
+        });
+
+        it('Should link a deliverable proof to a host verification by refUID', async function () {
+            await registerSchema('hostVerification');
+            await registerSchema('campaignDeliverable');
+
+            const verification = await run('eas:attest', {
+                name: 'hostVerification',
+                recipient: hostAddress,
+                data: JSON.stringify({ group, host: hostAddress, platform: 'x', handle: '@host' }),
+                eas: easAddress,
+            });
+            const deliverable = await run('eas:attest', {
+                name: 'campaignDeliverable',
+                refUid: verification,
+                data: JSON.stringify({
+                    campaigns: group,
+                    campaignId: '42',
+                    deliverableHash: contentHash,
+                    deliverableUri: 'https://example.com/video',
+                }),
+                eas: easAddress,
+            });
+
+            const eas = await ethers.getContractAt('EAS', easAddress);
+            const attestation = await eas.getAttestation(deliverable);
+            expect(attestation.refUID).to.equal(verification);
+            expect(attestation.revocable).to.be.false;
+            expect(attestation.data).to.equal(
+                encodeAttestationData(AttestationSchemas.campaignDeliverable.schema, {
+                    campaigns: group,
+                    campaignId: 42n,
+                    deliverableHash: contentHash,
+                    deliverableUri: 'https://example.com/video',
+                }),
+            );
+        });
+
+        it('Should reject data missing schema fields', async function () {
+            await registerSchema('groupContent');
+
+            await expect(
+                run('eas:attest', {
+                    name: 'groupContent',
+                    data: JSON.stringify({ group }),
+                    eas: easAddress,
+                }),
+            ).to.be.rejectedWith('Missing attestation data for contentHash, contentUri');
+        });
+
+        it('Should fail to fetch unknown attestations', async function () {
+            await expect(
+                run('eas:fetch', { uid: ethers.ZeroHash.replace(/0$/, '1'), eas: easAddress }),
+            ).to.be.rejectedWith('not found');
+        });
+    });
+});
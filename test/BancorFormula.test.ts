@@ -0,0 +1,248 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { AlphaMarketBase, ExponentialBondingCurve } from '../typechain-types';
+import {
+    BancorMathError,
+    calculatePurchaseReturn,
+    calculateSaleReturn,
+    MAX_WEIGHT,
+} from '../sdk/math/bancorFormula';
+import {
+    ExponentialCurveParams,
+    getMintCost,
+    getPurchaseReturn,
+    getSaleReturn,
+} from '../sdk/math/exponentialBondingCurve';
+import { calculateBasisPointsPercentage } from '../sdk/math/utils';
+import { executeChange, scheduleChange } from '../sdk';
+
+// Deterministic generator so any failing tuple can be reproduced from the seed.
+function createRandom(seed: number) {
+    let state = seed >>> 0;
+    const next32 = (): bigint => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return BigInt((t ^ (t >>> 14)) >>> 0);
+    };
+    const bits = (count: number): bigint => {
+        let value = 0n;
+        for (let i = 0; i < count; i += 32) {
+            value = (value << 32n) | next32();
+        }
+        return value & ((1n << BigInt(count)) - 1n);
+    };
+    // Log-uniform values so every magnitude (and therefore every branch of `power`) is exercised.
+    const magnitude = (maxBits: number): bigint => {
+        const count = 1 + Number(next32() % BigInt(maxBits));
+        return bits(count) | (1n << BigInt(count - 1));
+    };
+    const below = (max: bigint): bigint => (max === 0n ? 0n : bits(256) % max);
+
+    return { magnitude, below };
+}
+
+type Outcome<T> = T | 'revert';
+
+function offChain<T>(calculate: () => T): Outcome<T> {
+    try {
+        return calculate();
+    } catch (error) {
+        if (error instanceof BancorMathError) {
+            return 'revert';
+        }
+        throw error;
+    }
+}
+
+async function onChain<T>(calculate: () => Promise<T>): Promise<Outcome<T>> {
+    try {
+        return await calculate();
+    } catch {
+        return 'revert';
+    }
+}
+
+describe('BancorFormula off-chain replica', function () {
+    // Thousands of eth_calls against the in-process network.
+    this.timeout(600000);
+
+    const samples = 1000;
+    let alphaMarketBase: AlphaMarketBase;
+    let bondingCurve: ExponentialBondingCurve;
+
+    before(async function () {
+        const [protocol] = await ethers.getSigners();
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 500, 0],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+        const ExponentialBondingCurveFactory =
+            await ethers.getContractFactory('ExponentialBondingCurve');
+        bondingCurve = (await upgrades.deployProxy(
+            ExponentialBondingCurveFactory,
+            [
+                protocol.address,
+                await alphaMarketBase.getAddress(),
+                ethers.parseEther('0.0001'),
+                500000,
+            ],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+    });
+
+    // Sets the protocol fee and reserve ratio through their timelocked setters, waiting out the change delay.
+    async function setCurveParams({ protocolFeePercent, reserveRatio }: ExponentialCurveParams) {
+        await scheduleChange(alphaMarketBase, 'setProtocolFeePercent', [protocolFeePercent]);
+        await scheduleChange(bondingCurve, 'setReserveRatio', [reserveRatio]);
+        await ethers.provider.send('evm_increaseTime', [
+            Number(await alphaMarketBase.getChangeDelay()),
+        ]);
+        await executeChange(alphaMarketBase, 'setProtocolFeePercent', [protocolFeePercent]);
+        await executeChange(bondingCurve, 'setReserveRatio', [reserveRatio]);
+    }
+
+    it('Should match calculatePurchaseReturn for random inputs', async function () {
+        const random = createRandom(1);
+        let reverts = 0;
+
+        for (let i = 0; i < samples; i++) {
+            const supply = random.magnitude(160);
+            const reserve = random.magnitude(160);
+            const ratio = 1n + random.below(MAX_WEIGHT);
+            const amount = random.magnitude(160);
+
+            const expected = await onChain(() =>
+                bondingCurve.calculatePurchaseReturn(supply, reserve, ratio, amount),
+            );
+            const actual = offChain(() => calculatePurchaseReturn(supply, reserve, ratio, amount));
+            if (expected === 'revert') reverts++;
+
+            expect(actual, `(${supply}, ${reserve}, ${ratio}, ${amount})`).to.equal(expected);
+        }
+
+        // Make sure the fuzzer exercises both successful and reverting inputs.
+        expect(reverts).to.be.greaterThan(0).and.lessThan(samples);
+    });
+
+    it('Should match calculateSaleReturn for random inputs', async function () {
+        const random = createRandom(2);
+        let reverts = 0;
+
+        for (let i = 0; i < samples; i++) {
+            const supply = random.magnitude(160);
+            const reserve = random.magnitude(160);
+            const ratio = 1n + random.below(MAX_WEIGHT);
+            // Mostly partial sales, plus full sales and oversells to cover the edge branches.
+            const roll = random.below(20n);
+            const amount = roll === 0n ? supply : roll === 1n ? supply + 1n : random.below(supply);
+
+            const expected = await onChain(() =>
+                bondingCurve.calculateSaleReturn(supply, reserve, ratio, amount),
+            );
+            const actual = offChain(() => calculateSaleReturn(supply, reserve, ratio, amount));
+            if (expected === 'revert') reverts++;
+
+            expect(actual, `(${supply}, ${reserve}, ${ratio}, ${amount})`).to.equal(expected);
+        }
+
+        expect(reverts).to.be.greaterThan(0).and.lessThan(samples);
+    });
+
+    it('Should match the reserve ratio edge weights', async function () {
+        const random = createRandom(3);
+
+        for (const ratio of [1n, 2n, MAX_WEIGHT - 1n, MAX_WEIGHT]) {
+            for (let i = 0; i < 50; i++) {
+                const supply = random.magnitude(128);
+                const reserve = random.magnitude(128);
+                const amount = random.magnitude(128);
+                const sellAmount = random.below(supply);
+
+                expect(
+                    offChain(() => calculatePurchaseReturn(supply, reserve, ratio, amount)),
+                ).to.equal(
+                    await onChain(() =>
+                        bondingCurve.calculatePurchaseReturn(supply, reserve, ratio, amount),
+                    ),
+                );
+                expect(
+                    offChain(() => calculateSaleReturn(supply, reserve, ratio, sellAmount)),
+                ).to.equal(
+                    await onChain(() =>
+                        bondingCurve.calculateSaleReturn(supply, reserve, ratio, sellAmount),
+                    ),
+                );
+            }
+        }
+    });
+
+    it('Should match the curve quotes including protocol fees', async function () {
+        const random = createRandom(4);
+        const maxProtocolFeePercent = await alphaMarketBase.getMaxProtocolFeePercent();
+
+        for (let i = 0; i < 200; i++) {
+            const protocolFeePercent = random.below(maxProtocolFeePercent + 1n);
+            const reserveRatio = 1n + random.below(MAX_WEIGHT);
+            const params: ExponentialCurveParams = { reserveRatio, protocolFeePercent };
+            await setCurveParams(params);
+
+            // Realistic ranges for a group token: up to ~1M tokens and ~1M ether.
+            const supply = ethers.parseEther('1') + random.below(10n ** 24n);
+            const reserve = ethers.parseEther('0.0001') + random.below(10n ** 24n);
+            const value = random.magnitude(80);
+            const tokens = random.below(supply);
+
+            const expectedPurchase = await onChain(async () => {
+                const [purchaseReturn, fees] = await bondingCurve.getPurchaseReturn(
+                    ethers.ZeroAddress,
+                    supply,
+                    reserve,
+                    value,
+                );
+                return { purchaseReturn, fees };
+            });
+            expect(offChain(() => getPurchaseReturn(params, supply, reserve, value))).to.deep.equal(
+                expectedPurchase,
+            );
+
+            const expectedSale = await onChain(async () => {
+                const [saleValue, fees] = await bondingCurve.getSaleReturn(
+                    ethers.ZeroAddress,
+                    supply,
+                    reserve,
+                    tokens,
+                );
+                return { saleValue, fees };
+            });
+            expect(offChain(() => getSaleReturn(params, supply, reserve, tokens))).to.deep.equal(
+                expectedSale,
+            );
+            if (expectedSale !== 'revert') {
+                expect(expectedSale.fees).to.equal(
+                    calculateBasisPointsPercentage(expectedSale.saleValue, protocolFeePercent),
+                );
+            }
+        }
+    });
+
+    it('Should replicate the getMintCost binary search', async function () {
+        const random = createRandom(5);
+        const params: ExponentialCurveParams = { reserveRatio: 500000n, protocolFeePercent: 500n };
+        await setCurveParams(params);
+
+        for (let i = 0; i < 20; i++) {
+            const supply = ethers.parseEther('1') + random.below(10n ** 21n);
+            const reserve = ethers.parseEther('0.0001') + random.below(10n ** 19n);
+
+            const [depositAmount, fees] = await bondingCurve.getMintCost(
+                ethers.ZeroAddress,
+                supply,
+                reserve,
+            );
+            expect(getMintCost(params, supply, reserve)).to.deep.equal({ depositAmount, fees });
+        }
+    });
+});
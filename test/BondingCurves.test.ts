@@ -0,0 +1,359 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import {
+    DecayingBondingCurve,
+    GroupToken,
+    LinearBondingCurve,
+    LogarithmicBondingCurve,
+} from '../typechain-types';
+import { $CurveMath } from '../typechain-types/contracts-exposed/erc20-curve/utils/CurveMath.sol/$CurveMath';
+import {
+    CurveShape,
+    getMintCost,
+    getPurchaseReturn,
+    getSaleReturn,
+    getSpotPrice,
+} from '../sdk/math/bondingCurve';
+import { decayingCurve, linearCurve, logarithmicCurve } from '../sdk/math/curveShapes';
+import LinearCurveModule from '../ignition/modules/erc20-curve/LinearBondingCurve';
+import LogCurveModule from '../ignition/modules/erc20-curve/LogarithmicBondingCurve';
+import DecayingCurveModule from '../ignition/modules/erc20-curve/DecayingBondingCurve';
+
+// Deterministic generator so any failing quote can be reproduced from the seed.
+function createRandom(seed: number) {
+    let state = BigInt(seed);
+    return (max: bigint): bigint => {
+        state = (state * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+        return ((state >> 16n) * (state >> 16n)) % max;
+    };
+}
+
+describe('Bonding curve shapes', function () {
+    const protocolFeePercent = 500n;
+    const initialReserve = ethers.parseEther('0.0001');
+    let linear: LinearBondingCurve;
+    let logarithmic: LogarithmicBondingCurve;
+    let decaying: DecayingBondingCurve;
+    let curves: {
+        name: string;
+        contract: LinearBondingCurve | LogarithmicBondingCurve | DecayingBondingCurve;
+        shape: CurveShape;
+    }[];
+
+    beforeEach(async function () {
+        const [protocol] = await ethers.getSigners();
+
+        // Deploy the AlphaMarketBase contract the curves read fees from
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, protocolFeePercent, 0],
+            { initializer: 'initialize' },
+        );
+        const common = [protocol.address, await alphaMarketBase.getAddress(), initialReserve];
+
+        // Deploy the LinearBondingCurve contract
+        linear = (await upgrades.deployProxy(
+            await ethers.getContractFactory('LinearBondingCurve'),
+            [...common, ethers.parseEther('0.0001'), ethers.parseEther('0.00001')],
+            { initializer: 'initialize' },
+        )) as unknown as LinearBondingCurve;
+
+        // Deploy the LogarithmicBondingCurve contract
+        logarithmic = (await upgrades.deployProxy(
+            await ethers.getContractFactory('LogarithmicBondingCurve'),
+            [...common, ethers.parseEther('0.0001'), ethers.parseEther('10')],
+            { initializer: 'initialize' },
+        )) as unknown as LogarithmicBondingCurve;
+
+        // Deploy the DecayingBondingCurve contract
+        decaying = (await upgrades.deployProxy(
+            await ethers.getContractFactory('DecayingBondingCurve'),
+            [
+                ...common,
+                ethers.parseEther('0.00001'),
+                ethers.parseEther('0.001'),
+                ethers.parseEther('1000'),
+            ],
+            { initializer: 'initialize' },
+        )) as unknown as DecayingBondingCurve;
+
+        curves = [
+            {
+                name: 'LinearBondingCurve',
+                contract: linear,
+                shape: linearCurve({
+                    protocolFeePercent,
+                    initialPrice: await linear.getInitialPrice(),
+                    slope: await linear.getSlope(),
+                }),
+            },
+            {
+                name: 'LogarithmicBondingCurve',
+                contract: logarithmic,
+                shape: logarithmicCurve({
+                    protocolFeePercent,
+                    priceScale: await logarithmic.getPriceScale(),
+                    supplyScale: await logarithmic.getSupplyScale(),
+                }),
+            },
+            {
+                name: 'DecayingBondingCurve',
+                contract: decaying,
+                shape: decayingCurve({
+                    protocolFeePercent,
+                    initialPrice: await decaying.getInitialPrice(),
+                    maxPrice: await decaying.getMaxPrice(),
+                    decaySupply: await decaying.getDecaySupply(),
+                }),
+            },
+        ];
+    });
+
+    it('Should match the off-chain models for random quotes', async function () {
+        const random = createRandom(7);
+
+        for (const { name, contract, shape } of curves) {
+            for (let i = 0; i < 25; i++) {
+                const supply = random(10n ** 24n);
+                const reserve = random(10n ** 22n);
+                const value = random(10n ** 21n);
+                const tokens = random(supply + 1n);
+                const context = `${name}(${supply}, ${reserve}, ${value}, ${tokens})`;
+
+                const [purchaseReturn, purchaseFees] = await contract.getPurchaseReturn(
+                    ethers.ZeroAddress,
+                    supply,
+                    reserve,
+                    value,
+                );
+                expect(getPurchaseReturn(shape, supply, value), context).to.deep.equal({
+                    purchaseReturn,
+                    fees: purchaseFees,
+                });
+
+                const [saleValue, saleFees] = await contract.getSaleReturn(
+                    ethers.ZeroAddress,
+                    supply,
+                    reserve,
+                    tokens,
+                );
+                expect(getSaleReturn(shape, supply, reserve, tokens), context).to.deep.equal({
+                    saleValue,
+                    fees: saleFees,
+                });
+
+                expect(getSpotPrice(shape, supply), context).to.equal(
+                    await contract.getSpotPrice(supply, reserve),
+                );
+
+                const [depositAmount, fees] = await contract.getMintCost(
+                    ethers.ZeroAddress,
+                    supply,
+                    reserve,
+                );
+                expect(getMintCost(shape, supply), context).to.deep.equal({ depositAmount, fees });
+            }
+        }
+    });
+
+    it('Should raise the spot price as the supply grows', async function () {
+        for (const { shape } of curves) {
+            let previous = 0n;
+            for (let supply = 0n; supply <= 10n ** 24n; supply = supply * 10n + 10n ** 18n) {
+                const price = getSpotPrice(shape, supply);
+                expect(price).to.be.greaterThanOrEqual(previous);
+                previous = price;
+            }
+        }
+    });
+
+    it('Should mint at least one token for the quoted mint cost', async function () {
+        for (const { name, contract } of curves) {
+            for (const supply of [10n ** 18n, 10n ** 21n, 10n ** 24n]) {
+                const [depositAmount] = await contract.getMintCost(ethers.ZeroAddress, supply, 0);
+                const [purchaseReturn] = await contract.getPurchaseReturn(
+                    ethers.ZeroAddress,
+                    supply,
+                    0,
+                    depositAmount,
+                );
+
+                expect(purchaseReturn, `${name}(${supply})`).to.be.closeTo(10n ** 18n, 10n ** 9n);
+            }
+        }
+    });
+
+    it('Should never pay out more for a sale than the purchase that minted it', async function () {
+        const random = createRandom(11);
+
+        for (const { shape } of curves) {
+            for (let i = 0; i < 50; i++) {
+                const supply = random(10n ** 24n);
+                const deposit = random(10n ** 21n);
+                const { purchaseReturn, fees } = getPurchaseReturn(shape, supply, deposit);
+                const { saleValue } = getSaleReturn(
+                    shape,
+                    supply + purchaseReturn,
+                    2n ** 128n,
+                    purchaseReturn,
+                );
+
+                expect(saleValue).to.be.lessThanOrEqual(deposit - fees);
+            }
+        }
+    });
+
+    it('Should cap sales at the reserve balance', async function () {
+        for (const { contract } of curves) {
+            const [saleValue, fees] = await contract.getSaleReturn(
+                ethers.ZeroAddress,
+                10n ** 24n,
+                1000n,
+                10n ** 24n,
+            );
+
+            expect(saleValue).to.equal(1000n);
+            expect(fees).to.equal(50n);
+            await expect(
+                contract.getSaleReturn(
+                    ethers.ZeroAddress,
+                    10n ** 18n,
+                    initialReserve,
+                    10n ** 18n + 1n,
+                ),
+            ).to.be.revertedWithCustomError(contract, 'BondingCurve__SaleExceedsSupply');
+        }
+    });
+
+    it('Should reject invalid curve parameters', async function () {
+        await expect(linear.setCurveParameters(0, 0)).to.be.revertedWithCustomError(
+            linear,
+            'LinearBondingCurve__CurveCannotBeFlatAtZero',
+        );
+        await expect(logarithmic.setCurveParameters(1, 0)).to.be.revertedWithCustomError(
+            logarithmic,
+            'LogarithmicBondingCurve__CurveParametersCannotBeZero',
+        );
+        await expect(decaying.setCurveParameters(2, 1, 1)).to.be.revertedWithCustomError(
+            decaying,
+            'DecayingBondingCurve__InvalidCurveParameters',
+        );
+
+        const [, stranger] = await ethers.getSigners();
+        await expect(linear.connect(stranger).setCurveParameters(1, 1))
+            .to.be.revertedWithCustomError(linear, 'OwnableUnauthorizedAccount')
+            .withArgs(stranger.address);
+    });
+
+    it('Should only back GroupTokens with Ether', async function () {
+        const [, host] = await ethers.getSigners();
+        const asset = await (await ethers.getContractFactory('MockERC20')).deploy('USD', 'USD', 6);
+
+        for (const { contract } of curves) {
+            expect(await contract.getAssetInitialReserve(asset)).to.equal(0);
+            expect(await contract.getAssetInitialReserve(ethers.ZeroAddress)).to.equal(
+                initialReserve,
+            );
+            await expect(
+                (await ethers.getContractFactory('GroupToken')).deploy(
+                    'Group',
+                    'GRP',
+                    await contract.getAddress(),
+                    host.address,
+                    await asset.getAddress(),
+                ),
+            ).to.be.revertedWithCustomError(
+                await ethers.getContractFactory('GroupToken'),
+                'GroupToken__UnsupportedReserveAsset',
+            );
+        }
+    });
+
+    it('Should let a GroupToken mint and burn against any curve', async function () {
+        const [, host, fan] = await ethers.getSigners();
+
+        for (const { contract } of curves) {
+            // Deploy a GroupToken priced by the curve
+            const groupToken = (await (
+                await ethers.getContractFactory('GroupToken')
+            ).deploy(
+                'Group',
+                'GRP',
+                await contract.getAddress(),
+                host.address,
+                ethers.ZeroAddress,
+                {
+                    value: initialReserve,
+                },
+            )) as GroupToken;
+
+            const supply = await groupToken.totalSupply();
+            const [expectedTokens] = await contract.getPurchaseReturn(
+                groupToken,
+                supply,
+                initialReserve,
+                ethers.parseEther('1'),
+            );
+            await groupToken.connect(fan).mintTokens({ value: ethers.parseEther('1') });
+            const minted = await groupToken.balanceOf(fan.address);
+            expect(minted).to.equal(expectedTokens);
+
+            // Selling everything back never drains more than the token holds
+            await groupToken.connect(fan).approve(fan.address, minted);
+            await groupToken.connect(fan).burnTokens(minted, fan.address);
+            expect(await groupToken.balanceOf(fan.address)).to.equal(0);
+            expect(await ethers.provider.getBalance(groupToken)).to.be.greaterThanOrEqual(
+                await groupToken.getReserveBalance(),
+            );
+        }
+    });
+
+    it('Should deploy each curve through its Ignition module', async function () {
+        const { linearCurveInstance } = await ignition.deploy(LinearCurveModule, {
+            parameters: { LinearCurveModule: { slope: 42n } },
+        });
+        const { logCurveInstance } = await ignition.deploy(LogCurveModule);
+        const { decayingCurveInstance } = await ignition.deploy(DecayingCurveModule);
+
+        expect(await linearCurveInstance.getSlope()).to.equal(42n);
+        expect(await logCurveInstance.getSupplyScale()).to.equal(ethers.parseEther('1'));
+        expect(await decayingCurveInstance.getMaxPrice()).to.equal(ethers.parseEther('0.001'));
+        expect(await linearCurveInstance.getInitialReserve()).to.equal(initialReserve);
+    });
+
+    describe('CurveMath', function () {
+        let curveMath: $CurveMath;
+
+        beforeEach(async function () {
+            curveMath = (await (
+                await ethers.getContractFactory('$CurveMath')
+            ).deploy()) as $CurveMath;
+        });
+
+        it('Should approximate the natural logarithm', async function () {
+            expect(await curveMath.$ln(ethers.parseEther('1'))).to.equal(0);
+            expect(await curveMath.$ln(ethers.parseEther('2'))).to.be.closeTo(
+                693147180559945309n,
+                10n,
+            );
+            expect(await curveMath.$ln(2718281828459045235n)).to.be.closeTo(10n ** 18n, 10n);
+            await expect(curveMath.$ln(10n ** 18n - 1n)).to.be.revertedWithCustomError(
+                curveMath,
+                'CurveMath__LogarithmInputBelowOne',
+            );
+        });
+
+        it('Should approximate the negative exponential', async function () {
+            expect(await curveMath.$expNeg(0)).to.equal(10n ** 18n);
+            expect(await curveMath.$expNeg(ethers.parseEther('1'))).to.be.closeTo(
+                367879441171442321n,
+                10n,
+            );
+            expect(await curveMath.$expNeg(ethers.parseEther('2.5'))).to.be.closeTo(
+                82084998623898795n,
+                10n,
+            );
+            expect(await curveMath.$expNeg(ethers.parseEther('42'))).to.equal(0);
+        });
+    });
+});
@@ -0,0 +1,541 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { CommunityGovernor, GroupFactory, GroupMembershipNFT } from '../typechain-types';
+
+describe('CommunityGovernor', function () {
+    let communityGovernor: CommunityGovernor;
+    let membership: GroupMembershipNFT;
+    let host: Signer;
+    let hostAddress: string;
+    let alice: Signer;
+    let aliceAddress: string;
+    let bob: Signer;
+    let bobAddress: string;
+    let outsider: Signer;
+    let outsiderAddress: string;
+    const settings = {
+        quorumPercent: 5000n,
+        approvalPercent: 6000n,
+        proposalThreshold: 1n,
+        votingDelay: 3600n,
+        votingPeriod: 3n * 24n * 3600n,
+        executionDelay: 24n * 3600n,
+    };
+
+    enum ProposalState {
+        Active,
+        Defeated,
+        Succeeded,
+        Executed,
+        Cancelled,
+    }
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, aliceSigner, bobSigner, outsiderSigner] =
+            await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        alice = aliceSigner;
+        aliceAddress = await alice.getAddress();
+        bob = bobSigner;
+        bobAddress = await bob.getAddress();
+        outsider = outsiderSigner;
+        outsiderAddress = await outsider.getAddress();
+
+        // Deploy the shared contracts and the GroupFactory
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 500, 1000],
+            { initializer: 'initialize' },
+        );
+        const bondingCurve = await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [
+                protocol.address,
+                await alphaMarketBase.getAddress(),
+                ethers.parseEther('0.0001'),
+                500000,
+            ],
+            { initializer: 'initialize' },
+        );
+        const pricingEngine = await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocol.address, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        );
+        communityGovernor = await (await ethers.getContractFactory('CommunityGovernor')).deploy();
+        const groupFactory = (await (
+            await ethers.getContractFactory('GroupFactory')
+        ).deploy(
+            bondingCurve,
+            alphaMarketBase,
+            pricingEngine,
+            communityGovernor,
+        )) as unknown as GroupFactory;
+
+        // Create a group splitting 20% of the membership reserve past 0.05 ETH into the community reserve
+        await groupFactory
+            .connect(host)
+            .createGroup('Group', 'GRP', 'Members', 'MBR', ethers.parseEther('0.05'), 2000, {
+                value: await groupFactory.getInitialReserve(),
+            });
+        membership = await ethers.getContractAt(
+            'GroupMembershipNFT',
+            (await groupFactory.getGroup(0)).membership,
+        );
+
+        // The host holds one membership, Alice three and Bob two
+        await buyMemberships(alice, 3n);
+        await buyMemberships(bob, 2n);
+    });
+
+    // Buys `amount` memberships for `signer` at their quoted cost.
+    async function buyMemberships(signer: Signer, amount: bigint) {
+        const cost = await (
+            await ethers.getContractAt(
+                'MembershipPricingEngine',
+                await membership.getNFTCurveProxyAddress(),
+            )
+        ).getBuyQuote(membership, await membership.getCurrentSupply(), amount);
+        await membership.connect(signer).purchaseMemberships(amount, cost, { value: cost });
+    }
+
+    // Configures the group, has Alice propose paying `amount` to the outsider and waits for the vote to open.
+    async function propose(amount: bigint) {
+        await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+        await communityGovernor
+            .connect(alice)
+            .propose(membership, [outsiderAddress], [amount], 'Sponsor the outsider');
+        await increaseTime(settings.votingDelay);
+
+        return (await communityGovernor.getProposalCount()) - 1n;
+    }
+
+    // Moves the chain past `seconds`.
+    async function increaseTime(seconds: bigint) {
+        await ethers.provider.send('evm_increaseTime', [Number(seconds)]);
+        await ethers.provider.send('evm_mine', []);
+    }
+
+    describe('setGovernanceSettings', function () {
+        it('Should let the host set the governance settings of their group', async function () {
+            await expect(
+                communityGovernor.connect(host).setGovernanceSettings(membership, settings),
+            )
+                .to.emit(communityGovernor, 'GovernanceSettingsUpdated')
+                .withArgs(await membership.getAddress(), Object.values(settings));
+
+            expect(await communityGovernor.getGovernanceSettings(membership)).to.deep.equal(
+                Object.values(settings),
+            );
+        });
+
+        it('Should revert if the caller is not the host', async function () {
+            await expect(
+                communityGovernor.connect(alice).setGovernanceSettings(membership, settings),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__OnlyHost');
+        });
+
+        it('Should revert if the settings are invalid', async function () {
+            for (const invalid of [
+                { ...settings, quorumPercent: 10001n },
+                { ...settings, approvalPercent: 0n },
+                { ...settings, approvalPercent: 10001n },
+                { ...settings, votingPeriod: 0n },
+            ]) {
+                await expect(
+                    communityGovernor.connect(host).setGovernanceSettings(membership, invalid),
+                ).to.be.revertedWithCustomError(
+                    communityGovernor,
+                    'CommunityGovernor__InvalidGovernanceSettings',
+                );
+            }
+        });
+    });
+
+    describe('propose', function () {
+        it('Should snapshot the votes and copy the settings into the proposal', async function () {
+            const reserve = await membership.getCommunityReserveBalance();
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+
+            await expect(
+                communityGovernor
+                    .connect(alice)
+                    .propose(membership, [outsiderAddress, bobAddress], [1n, 2n], 'Split'),
+            ).to.emit(communityGovernor, 'ProposalCreated');
+            const block = await ethers.provider.getBlock('latest');
+            const proposal = await communityGovernor.getProposal(0);
+
+            expect(reserve).to.be.greaterThan(0n);
+            expect(proposal.membership).to.equal(await membership.getAddress());
+            expect(proposal.proposer).to.equal(aliceAddress);
+            expect(proposal.snapshot).to.equal(block!.number - 1);
+            expect(proposal.voteStart).to.equal(BigInt(block!.timestamp) + settings.votingDelay);
+            expect(proposal.voteEnd).to.equal(proposal.voteStart + settings.votingPeriod);
+            expect(proposal.executableAt).to.equal(proposal.voteEnd + settings.executionDelay);
+            expect(proposal.quorumPercent).to.equal(settings.quorumPercent);
+            expect(proposal.approvalPercent).to.equal(settings.approvalPercent);
+            expect(proposal.recipients).to.deep.equal([outsiderAddress, bobAddress]);
+            expect(proposal.amounts).to.deep.equal([1n, 2n]);
+            expect(await communityGovernor.getProposalState(0)).to.equal(ProposalState.Active);
+            expect(await communityGovernor.getCommittedReserve(membership)).to.equal(3n);
+        });
+
+        it('Should revert until the host configures the governance of the group', async function () {
+            await expect(
+                communityGovernor.connect(alice).propose(membership, [outsiderAddress], [1n], ''),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__GovernanceNotConfigured',
+            );
+        });
+
+        it('Should revert if the proposer is not a member', async function () {
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+
+            await expect(
+                communityGovernor
+                    .connect(outsider)
+                    .propose(membership, [outsiderAddress], [1n], ''),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__NotAMember');
+        });
+
+        it('Should only count the memberships held before the block of the proposal', async function () {
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+            // Mine a purchase and a proposal of the buyer in the same block
+            const cost = await (
+                await ethers.getContractAt(
+                    'MembershipPricingEngine',
+                    await membership.getNFTCurveProxyAddress(),
+                )
+            ).getBuyQuote(membership, await membership.getCurrentSupply(), 1);
+            await ethers.provider.send('evm_setAutomine', [false]);
+            await membership.connect(outsider).purchaseMemberships(1, cost, { value: cost });
+            const proposal = await communityGovernor
+                .connect(outsider)
+                .propose(membership, [outsiderAddress], [1n], '', { gasLimit: 500000 });
+            await ethers.provider.send('evm_mine', []);
+            await ethers.provider.send('evm_setAutomine', [true]);
+
+            const receipt = await ethers.provider.getTransactionReceipt(proposal.hash);
+            expect(receipt!.status).to.equal(0);
+            expect(await membership.balanceOf(outsiderAddress)).to.equal(1);
+            await expect(
+                communityGovernor
+                    .connect(outsider)
+                    .propose(membership, [outsiderAddress], [1n], ''),
+            ).to.emit(communityGovernor, 'ProposalCreated');
+        });
+
+        it('Should revert if the proposer holds fewer memberships than the threshold', async function () {
+            await communityGovernor
+                .connect(host)
+                .setGovernanceSettings(membership, { ...settings, proposalThreshold: 3n });
+
+            await expect(
+                communityGovernor.connect(bob).propose(membership, [outsiderAddress], [1n], ''),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__BelowProposalThreshold',
+            );
+            await expect(
+                communityGovernor.connect(alice).propose(membership, [outsiderAddress], [1n], ''),
+            ).to.emit(communityGovernor, 'ProposalCreated');
+        });
+
+        it('Should not commit the same community reserve to several proposals', async function () {
+            const reserve = await membership.getCommunityReserveBalance();
+            const proposalId = await propose(reserve);
+            expect(await communityGovernor.getCommittedReserve(membership)).to.equal(reserve);
+
+            await expect(
+                communityGovernor.connect(bob).propose(membership, [bobAddress], [1n], ''),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__InsufficientCommunityReserve',
+            );
+
+            // Nobody votes, so anyone can cancel the defeated proposal to release its reserve
+            await expect(
+                communityGovernor.connect(bob).cancelProposal(proposalId),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__OnlyProposer');
+            await increaseTime(settings.votingPeriod);
+            await communityGovernor.connect(bob).cancelProposal(proposalId);
+            expect(await communityGovernor.getCommittedReserve(membership)).to.equal(0);
+            await expect(
+                communityGovernor.connect(bob).propose(membership, [bobAddress], [reserve], ''),
+            ).to.emit(communityGovernor, 'ProposalCreated');
+        });
+
+        it('Should revert if the disbursements are invalid', async function () {
+            const reserve = await membership.getCommunityReserveBalance();
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+
+            for (const [recipients, amounts] of [
+                [[], []],
+                [[outsiderAddress], [1n, 2n]],
+                [[ethers.ZeroAddress], [1n]],
+                [[outsiderAddress], [0n]],
+            ] as [string[], bigint[]][]) {
+                await expect(
+                    communityGovernor.connect(alice).propose(membership, recipients, amounts, ''),
+                ).to.be.revertedWithCustomError(
+                    communityGovernor,
+                    'CommunityGovernor__InvalidProposal',
+                );
+            }
+            await expect(
+                communityGovernor
+                    .connect(alice)
+                    .propose(membership, [outsiderAddress, bobAddress], [reserve, 1n], ''),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__InsufficientCommunityReserve',
+            );
+        });
+
+        it('Should revert for groups governed by another contract', async function () {
+            const otherGovernor = await (
+                await ethers.getContractFactory('CommunityGovernor')
+            ).deploy();
+            await otherGovernor.connect(host).setGovernanceSettings(membership, settings);
+
+            await expect(
+                otherGovernor.connect(alice).propose(membership, [outsiderAddress], [1n], ''),
+            ).to.be.revertedWithCustomError(otherGovernor, 'CommunityGovernor__NotTheGovernor');
+        });
+    });
+
+    describe('castVote', function () {
+        it('Should count the memberships held at the snapshot and still held', async function () {
+            const proposalId = await propose(1n);
+            await membership.connect(alice).transferFrom(aliceAddress, outsiderAddress, 1);
+            await buyMemberships(outsider, 1n);
+
+            await expect(communityGovernor.connect(alice).castVote(proposalId, true))
+                .to.emit(communityGovernor, 'VoteCast')
+                .withArgs(proposalId, aliceAddress, true, 2);
+            await communityGovernor.connect(bob).castVote(proposalId, false);
+            await expect(
+                communityGovernor.connect(outsider).castVote(proposalId, true),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__NoVotingPower');
+            await expect(
+                communityGovernor.connect(alice).castVote(proposalId, false),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__AlreadyVoted');
+
+            const proposal = await communityGovernor.getProposal(proposalId);
+            expect(proposal.forVotes).to.equal(2);
+            expect(proposal.againstVotes).to.equal(2);
+            expect(await communityGovernor.getHasVoted(proposalId, aliceAddress)).to.be.true;
+            expect(await communityGovernor.getHasVoted(proposalId, outsiderAddress)).to.be.false;
+        });
+
+        it('Should only open voting once the voting delay is over', async function () {
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+            await communityGovernor.connect(alice).propose(membership, [outsiderAddress], [1n], '');
+
+            await expect(
+                communityGovernor.connect(alice).castVote(0, true),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__VotingNotStarted',
+            );
+            await increaseTime(settings.votingDelay);
+            await expect(communityGovernor.connect(alice).castVote(0, true)).to.emit(
+                communityGovernor,
+                'VoteCast',
+            );
+        });
+
+        it('Should not count memberships that expired since the snapshot', async function () {
+            // The outsider holds a membership of a tier expiring before the vote opens
+            const duration = settings.votingDelay / 2n;
+            await membership
+                .connect(host)
+                .addTier(
+                    { name: 'Day pass', benefits: '', duration, renewalPrice: 1n },
+                    { model: 0n, initialCost: 0n, slope: 0n, maxSupply: 0n },
+                );
+            const cost = await (
+                await ethers.getContractAt(
+                    'MembershipPricingEngine',
+                    await membership.getNFTCurveProxyAddress(),
+                )
+            ).getTierBuyQuote(membership, 1, 0, 1);
+            const tokenId = await membership.getCurrentSupply();
+            await membership.connect(outsider).purchaseTierMemberships(1, 1, cost, { value: cost });
+            const proposalId = await propose(1n);
+
+            const { snapshot } = await communityGovernor.getProposal(proposalId);
+            expect(await membership.getPastBalance(outsiderAddress, snapshot)).to.equal(1);
+            await expect(
+                communityGovernor.connect(outsider).castVote(proposalId, true),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__NoVotingPower');
+            await membership.connect(outsider).renewMembership(tokenId, { value: 1n });
+            await expect(communityGovernor.connect(outsider).castVote(proposalId, true))
+                .to.emit(communityGovernor, 'VoteCast')
+                .withArgs(proposalId, outsiderAddress, true, 1);
+        });
+
+        it('Should revert once voting is closed or for unknown proposals', async function () {
+            const proposalId = await propose(1n);
+            await increaseTime(settings.votingPeriod);
+
+            await expect(
+                communityGovernor.connect(alice).castVote(proposalId, true),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__VotingClosed');
+            await expect(
+                communityGovernor.connect(alice).castVote(proposalId + 1n, true),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__ProposalDoesNotExist',
+            );
+        });
+    });
+
+    describe('getProposalState', function () {
+        it('Should defeat proposals below the quorum', async function () {
+            const proposalId = await propose(1n);
+            // Bob's 2 votes out of 6 memberships miss the 50% quorum
+            await communityGovernor.connect(bob).castVote(proposalId, true);
+            await increaseTime(settings.votingPeriod);
+
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Defeated,
+            );
+        });
+
+        it('Should not count expired memberships towards the quorum', async function () {
+            // The outsider holds four memberships of a tier that expires before the proposal
+            const duration = 3600n;
+            await membership
+                .connect(host)
+                .addTier(
+                    { name: 'Day pass', benefits: '', duration, renewalPrice: 1n },
+                    { model: 0n, initialCost: 0n, slope: 0n, maxSupply: 0n },
+                );
+            const cost = await (
+                await ethers.getContractAt(
+                    'MembershipPricingEngine',
+                    await membership.getNFTCurveProxyAddress(),
+                )
+            ).getTierBuyQuote(membership, 1, 0, 4);
+            await membership.connect(outsider).purchaseTierMemberships(1, 4, cost, { value: cost });
+            await increaseTime(duration);
+            expect(await membership.getActiveSupply()).to.equal(6);
+
+            // Alice's 3 votes reach the 50% quorum of the 6 memberships that have not expired
+            const proposalId = await propose(1n);
+            const { snapshot, activeSupply } = await communityGovernor.getProposal(proposalId);
+            expect(await membership.getPastTotalSupply(snapshot)).to.equal(10);
+            expect(activeSupply).to.equal(6);
+            await communityGovernor.connect(alice).castVote(proposalId, true);
+            await increaseTime(settings.votingPeriod);
+
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Succeeded,
+            );
+        });
+
+        it('Should defeat proposals below the approval threshold', async function () {
+            const proposalId = await propose(1n);
+            // Every membership votes, but only 3 of the 6 votes are in favour
+            await communityGovernor.connect(alice).castVote(proposalId, true);
+            await communityGovernor.connect(bob).castVote(proposalId, false);
+            await communityGovernor.connect(host).castVote(proposalId, false);
+            await increaseTime(settings.votingPeriod);
+
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Defeated,
+            );
+        });
+
+        it('Should pass proposals reaching the quorum and the approval threshold', async function () {
+            const proposalId = await propose(1n);
+            await communityGovernor.connect(alice).castVote(proposalId, true);
+            await communityGovernor.connect(bob).castVote(proposalId, false);
+
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Active,
+            );
+            await increaseTime(settings.votingPeriod);
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Succeeded,
+            );
+        });
+    });
+
+    describe('executeProposal', function () {
+        it('Should disburse the community reserve once the execution delay is over', async function () {
+            const reserve = await membership.getCommunityReserveBalance();
+            const amounts = [reserve / 4n, reserve / 2n];
+            await communityGovernor.connect(host).setGovernanceSettings(membership, settings);
+            await communityGovernor
+                .connect(alice)
+                .propose(membership, [outsiderAddress, bobAddress], amounts, 'Grants');
+            await increaseTime(settings.votingDelay);
+            await communityGovernor.connect(alice).castVote(0, true);
+            await communityGovernor.connect(host).castVote(0, true);
+            await increaseTime(settings.votingPeriod);
+
+            await expect(communityGovernor.executeProposal(0)).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__ExecutionDelayNotOver',
+            );
+            await increaseTime(settings.executionDelay);
+
+            const execution = communityGovernor.connect(outsider).executeProposal(0);
+            await expect(execution).to.emit(communityGovernor, 'ProposalExecuted').withArgs(0);
+            await expect(execution).to.changeEtherBalances(
+                [membership, outsider, bob],
+                [-(amounts[0] + amounts[1]), amounts[0], amounts[1]],
+            );
+            expect(await membership.getCommunityReserveBalance()).to.equal(
+                reserve - amounts[0] - amounts[1],
+            );
+            expect(await communityGovernor.getProposalState(0)).to.equal(ProposalState.Executed);
+            expect(await communityGovernor.getCommittedReserve(membership)).to.equal(0);
+            await expect(communityGovernor.executeProposal(0)).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__ProposalNotSucceeded',
+            );
+        });
+    });
+
+    describe('cancelProposal', function () {
+        it('Should let the proposer cancel their proposal', async function () {
+            const proposalId = await propose(1n);
+            await communityGovernor.connect(alice).castVote(proposalId, true);
+
+            await expect(
+                communityGovernor.connect(bob).cancelProposal(proposalId),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__OnlyProposer');
+            await expect(communityGovernor.connect(alice).cancelProposal(proposalId))
+                .to.emit(communityGovernor, 'ProposalCancelled')
+                .withArgs(proposalId);
+            expect(await communityGovernor.getProposalState(proposalId)).to.equal(
+                ProposalState.Cancelled,
+            );
+            expect(await communityGovernor.getCommittedReserve(membership)).to.equal(0);
+
+            await expect(
+                communityGovernor.connect(bob).castVote(proposalId, true),
+            ).to.be.revertedWithCustomError(communityGovernor, 'CommunityGovernor__VotingClosed');
+            await increaseTime(settings.votingPeriod + settings.executionDelay);
+            await expect(
+                communityGovernor.executeProposal(proposalId),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__ProposalNotSucceeded',
+            );
+            await expect(
+                communityGovernor.connect(alice).cancelProposal(proposalId),
+            ).to.be.revertedWithCustomError(
+                communityGovernor,
+                'CommunityGovernor__ProposalFinalized',
+            );
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getNetworkConfig, networkConfig } from '../helper-hardhat.config';
+import { AlphaMarketAddresses, getAlphaMarketAddresses, scheduleChange } from '../sdk';
+import { ConfigCheck } from '../tasks/deploy';
+
+// Address of the CreateX factory the create2 strategy deploys through.
+const CREATE_X_ADDRESS = '0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed';
+
+describe('Deployment', function () {
+    let addresses: AlphaMarketAddresses;
+    let addressBookDir: string;
+    let deployerAddress: string;
+
+    // The whole protocol is deployed once, as CREATE2 addresses can only be used once per chain
+    before(async function () {
+        deployerAddress = await (await ethers.getSigners())[0].getAddress();
+        addressBookDir = mkdtempSync(join(tmpdir(), 'address-book-'));
+        addresses = await hre.run('deploy:alphamarket', { out: addressBookDir });
+    });
+
+    describe('deploy:alphamarket', function () {
+        it('Should wire the treasury, base, curve, pricing engine and campaigns together', async function () {
+            const config = getNetworkConfig('hardhat');
+            const alphaMarketBase = await ethers.getContractAt(
+                'AlphaMarketBase',
+                addresses.alphaMarketBase,
+            );
+            const bondingCurve = await ethers.getContractAt(
+                'ExponentialBondingCurve',
+                addresses.bondingCurve,
+            );
+            const pricingEngine = await ethers.getContractAt(
+                'MembershipPricingEngine',
+                addresses.pricingEngine,
+            );
+            const campaigns = await ethers.getContractAt('AlphaCampaigns', addresses.campaigns);
+
+            expect(await alphaMarketBase.getProtocolFeeDestination()).to.equal(addresses.treasury);
+            expect(await alphaMarketBase.getProtocolFeePercent()).to.equal(
+                config.protocolFeePercent,
+            );
+            expect(await bondingCurve.getAlphaMarketBase()).to.equal(addresses.alphaMarketBase);
+            expect(await bondingCurve.getReserveRatio()).to.equal(config.reserveRatio);
+            expect(await pricingEngine.getInitialCost()).to.equal(config.membershipInitialCost);
+            expect(await campaigns.getAlphaMarketBaseAddress()).to.equal(addresses.alphaMarketBase);
+        });
+
+        it('Should make the deployer own the contracts when the network has no owner', async function () {
+            for (const [name, address] of [
+                ['AlphaMarketTreasury', addresses.treasury],
+                ['AlphaMarketBase', addresses.alphaMarketBase],
+                ['ExponentialBondingCurve', addresses.bondingCurve],
+                ['MembershipPricingEngine', addresses.pricingEngine],
+            ]) {
+                const contract = await ethers.getContractAt('OwnableUpgradeable', address);
+                expect(await contract.owner(), name).to.equal(deployerAddress);
+            }
+        });
+
+        it('Should deploy the implementations to their CREATE2 addresses', async function () {
+            const salt = hre.config.ignition.strategyConfig!.create2!.salt as string;
+            // CreateX hashes salts that are not bound to a sender or chain
+            const guardedSalt = ethers.keccak256(
+                ethers.AbiCoder.defaultAbiCoder().encode(['bytes32'], [salt]),
+            );
+            const { bytecode } = await hre.artifacts.readArtifact('AlphaMarketTreasury');
+
+            expect(addresses.implementations.treasury).to.equal(
+                ethers.getCreate2Address(CREATE_X_ADDRESS, guardedSalt, ethers.keccak256(bytecode)),
+            );
+            expect(
+                await hre.upgrades.erc1967.getImplementationAddress(addresses.alphaMarketBase),
+            ).to.equal(addresses.implementations.alphaMarketBase);
+        });
+
+        it('Should write the addresses to the address book', async function () {
+            const chainId = Number((await ethers.provider.getNetwork()).chainId);
+            const addressesPath = join(addressBookDir, `addresses.${chainId}.json`);
+            expect(existsSync(addressesPath)).to.be.true;
+            const written: AlphaMarketAddresses = JSON.parse(readFileSync(addressesPath, 'utf-8'));
+
+            expect(written).to.deep.equal(addresses);
+            expect(getAlphaMarketAddresses(chainId, { [chainId]: written })).to.deep.equal(
+                addresses,
+            );
+            const index = readFileSync(join(addressBookDir, 'index.ts'), 'utf-8');
+            expect(index).to.contain('export const addressBook');
+            expect(index).to.contain(addresses.campaigns);
+        });
+    });
+
+    describe('deploy:verify', function () {
+        it('Should pass when the deployment matches the config and the address book', async function () {
+            const checks: ConfigCheck[] = await hre.run('deploy:verify', { book: addressBookDir });
+
+            expect(checks).to.deep.include({
+                contract: 'AlphaMarketBase',
+                property: 'implementation',
+                expected: addresses.implementations.alphaMarketBase,
+                actual: addresses.implementations.alphaMarketBase,
+            });
+            for (const { contract, property, expected, actual } of checks) {
+                expect(actual, `${contract}.${property}`).to.equal(expected);
+            }
+        });
+
+        it('Should fail when deployed values were changed from the config', async function () {
+            const snapshot = await ethers.provider.send('evm_snapshot', []);
+            const alphaMarketBase = await ethers.getContractAt(
+                'AlphaMarketBase',
+                addresses.alphaMarketBase,
+            );
+            const bondingCurve = await ethers.getContractAt(
+                'ExponentialBondingCurve',
+                addresses.bondingCurve,
+            );
+            await scheduleChange(alphaMarketBase, 'setFeeSharePercent', [100]);
+            await scheduleChange(bondingCurve, 'setReserveRatio', [250000]);
+            await ethers.provider.send('evm_increaseTime', [
+                Number(await alphaMarketBase.getChangeDelay()),
+            ]);
+            await alphaMarketBase.setFeeSharePercent(100);
+            await bondingCurve.setReserveRatio(250000);
+
+            await expect(hre.run('deploy:verify', { book: addressBookDir })).to.be.rejectedWith(
+                /2 deployed values differ from the config of hardhat: AlphaMarketBase.getFeeSharePercent, ExponentialBondingCurve.getReserveRatio$/,
+            );
+            await ethers.provider.send('evm_revert', [snapshot]);
+        });
+
+        it('Should fail when the address book does not match the deployment', async function () {
+            const misconfiguredDir = mkdtempSync(join(tmpdir(), 'address-book-'));
+            const misconfigured: AlphaMarketAddresses = {
+                ...addresses,
+                pricingEngine: ethers.Wallet.createRandom().address,
+                implementations: {
+                    ...addresses.implementations,
+                    alphaMarketBase: addresses.implementations.treasury,
+                },
+            };
+            writeFileSync(
+                join(misconfiguredDir, `addresses.${misconfigured.chainId}.json`),
+                JSON.stringify(misconfigured),
+            );
+
+            await expect(hre.run('deploy:verify', { book: misconfiguredDir })).to.be.rejectedWith(
+                /AlphaMarketBase.implementation, MembershipPricingEngine.owner, MembershipPricingEngine.getInitialCost/,
+            );
+        });
+
+        it('Should fail on chains missing from the address book', async function () {
+            await expect(
+                hre.run('deploy:verify', { book: mkdtempSync(join(tmpdir(), 'address-book-')) }),
+            ).to.be.rejectedWith(
+                /No AlphaMarket deployment in the address book for chainId: 31337/,
+            );
+        });
+    });
+
+    describe('Network config', function () {
+        it('Should reject networks without a config', function () {
+            expect(() => getNetworkConfig('unknown')).to.throw(/No network config for unknown/);
+        });
+
+        it('Should reject settings the contracts would revert on', function () {
+            const configs = {
+                broken: {
+                    ...networkConfig.hardhat,
+                    owner: '0x1234',
+                    protocolFeePercent: 2000n,
+                    reserveRatio: 0n,
+                },
+            };
+
+            expect(() => getNetworkConfig('broken', configs)).to.throw(
+                /owner 0x1234 .*; protocolFeePercent must be between 0 and 1000; reserveRatio/,
+            );
+        });
+    });
+});
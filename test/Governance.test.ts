@@ -0,0 +1,236 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaGovernanceToken,
+    AlphaGovernor,
+    AlphaMarketBase,
+    AlphaTimelock,
+    ExponentialBondingCurve,
+    MembershipPricingEngine,
+} from '../typechain-types';
+import GovernanceModule from '../ignition/modules/governance/Governance';
+
+describe('Governance', function () {
+    let token: AlphaGovernanceToken;
+    let timelock: AlphaTimelock;
+    let governor: AlphaGovernor;
+    let bondingCurve: ExponentialBondingCurve;
+    let alphaMarketBase: AlphaMarketBase;
+    let pricingEngine: MembershipPricingEngine;
+    let deployer: Signer;
+    let voter: Signer;
+    const initialSupply = ethers.parseEther('1000000');
+    const minDelay = 3600;
+    const votingDelay = 10;
+    const votingPeriod = 100;
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [deployerSigner, voterSigner] = await ethers.getSigners();
+        deployer = deployerSigner;
+        voter = voterSigner;
+        const deployerAddress = await deployer.getAddress();
+
+        // Deploy the protocol contracts owned by the deployer
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [deployerAddress, deployerAddress, 1000, 0],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+        bondingCurve = (await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [
+                deployerAddress,
+                await alphaMarketBase.getAddress(),
+                ethers.parseEther('0.0001'),
+                500000,
+            ],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [deployerAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+
+        // Deploy the governance contracts and hand the protocol contracts over to the timelock
+        const deployment = await ignition.deploy(GovernanceModule, {
+            parameters: {
+                GovernanceModule: {
+                    bondingCurve: await bondingCurve.getAddress(),
+                    alphaMarketBase: await alphaMarketBase.getAddress(),
+                    pricingEngine: await pricingEngine.getAddress(),
+                    initialSupply,
+                    minDelay,
+                    votingDelay,
+                    votingPeriod,
+                },
+            },
+        });
+        token = deployment.token as unknown as AlphaGovernanceToken;
+        timelock = deployment.timelock as unknown as AlphaTimelock;
+        governor = deployment.governor as unknown as AlphaGovernor;
+
+        // Give the voter a majority of the supply and activate their voting power
+        await token.transfer(await voter.getAddress(), (initialSupply * 3n) / 4n);
+        await token.connect(voter).delegate(await voter.getAddress());
+    });
+
+    // Mines `blocks` empty blocks.
+    async function mine(blocks: number) {
+        await ethers.provider.send('hardhat_mine', [ethers.toQuantity(blocks)]);
+    }
+
+    describe('Deployment', function () {
+        it('Should transfer ownership of the protocol contracts to the timelock', async function () {
+            const timelockAddress = await timelock.getAddress();
+
+            expect(await bondingCurve.owner()).to.equal(timelockAddress);
+            expect(await alphaMarketBase.owner()).to.equal(timelockAddress);
+            expect(await pricingEngine.owner()).to.equal(timelockAddress);
+            expect(await token.owner()).to.equal(timelockAddress);
+            expect(await bondingCurve.pendingOwner()).to.equal(ethers.ZeroAddress);
+            expect(await timelock.getMinDelay()).to.equal(minDelay);
+            await expect(bondingCurve.setReserveRatio(1)).to.be.revertedWithCustomError(
+                bondingCurve,
+                'OwnableUnauthorizedAccount',
+            );
+        });
+
+        it('Should only let the governor queue proposals on the timelock', async function () {
+            const governorAddress = await governor.getAddress();
+
+            expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), governorAddress)).to.be
+                .true;
+            expect(await timelock.hasRole(await timelock.CANCELLER_ROLE(), governorAddress)).to.be
+                .true;
+            expect(await timelock.hasRole(await timelock.EXECUTOR_ROLE(), ethers.ZeroAddress)).to.be
+                .true;
+            expect(
+                await timelock.hasRole(
+                    await timelock.DEFAULT_ADMIN_ROLE(),
+                    await deployer.getAddress(),
+                ),
+            ).to.be.false;
+            for (const role of [
+                await timelock.PROPOSER_ROLE(),
+                await timelock.CANCELLER_ROLE(),
+                await timelock.EXECUTOR_ROLE(),
+            ]) {
+                expect(await timelock.hasRole(role, await deployer.getAddress())).to.be.false;
+            }
+            expect(await token.balanceOf(await deployer.getAddress())).to.equal(initialSupply / 4n);
+        });
+    });
+
+    describe('Proposals', function () {
+        const newReserveRatio = 250000;
+        const description = 'Lower the reserve ratio to 25%';
+        let targets: string[];
+        let calldatas: string[];
+        let data: string;
+
+        // The curve has a change delay, so a first proposal schedules the change and a second one makes it
+        beforeEach(async function () {
+            const bondingCurveAddress = await bondingCurve.getAddress();
+            data = bondingCurve.interface.encodeFunctionData('setReserveRatio', [newReserveRatio]);
+            targets = [bondingCurveAddress];
+            calldatas = [bondingCurve.interface.encodeFunctionData('scheduleChange', [data])];
+        });
+
+        // Passes a proposal making a single call to the curve and executes it.
+        async function passProposal(calldata: string, proposalDescription: string) {
+            const target = await bondingCurve.getAddress();
+            const descriptionHash = ethers.id(proposalDescription);
+            await governor.connect(voter).propose([target], [0], [calldata], proposalDescription);
+            const proposalId = await governor.hashProposal(
+                [target],
+                [0],
+                [calldata],
+                descriptionHash,
+            );
+            await mine(votingDelay + 1);
+            await governor.connect(voter).castVote(proposalId, 1);
+            await mine(votingPeriod);
+            await governor.queue([target], [0], [calldata], descriptionHash);
+            await ethers.provider.send('evm_increaseTime', [minDelay]);
+
+            return governor.execute([target], [0], [calldata], descriptionHash);
+        }
+
+        it('Should change the reserve ratio through propose, vote, queue and execute', async function () {
+            const descriptionHash = ethers.id(description);
+            await governor.connect(voter).propose(targets, [0], calldatas, description);
+            const proposalId = await governor.hashProposal(
+                targets,
+                [0],
+                calldatas,
+                descriptionHash,
+            );
+            expect(await governor.state(proposalId)).to.equal(0); // Pending
+
+            await mine(votingDelay + 1);
+            await governor.connect(voter).castVote(proposalId, 1);
+            await mine(votingPeriod);
+            expect(await governor.state(proposalId)).to.equal(4); // Succeeded
+
+            await governor.queue(targets, [0], calldatas, descriptionHash);
+            expect(await governor.state(proposalId)).to.equal(5); // Queued
+            await expect(
+                governor.execute(targets, [0], calldatas, descriptionHash),
+            ).to.be.revertedWithCustomError(timelock, 'TimelockUnexpectedOperationState');
+
+            await ethers.provider.send('evm_increaseTime', [minDelay]);
+            await expect(governor.execute(targets, [0], calldatas, descriptionHash)).to.emit(
+                bondingCurve,
+                'ChangeScheduled',
+            );
+            expect(await governor.state(proposalId)).to.equal(7); // Executed
+
+            await ethers.provider.send('evm_increaseTime', [
+                Number(await bondingCurve.getChangeDelay()),
+            ]);
+            await expect(passProposal(data, 'Make the reserve ratio change'))
+                .to.emit(bondingCurve, 'ReserveRatioUpdated')
+                .withArgs(newReserveRatio);
+            expect(await bondingCurve.getReserveRatio()).to.equal(newReserveRatio);
+        });
+
+        it('Should defeat proposals that miss quorum', async function () {
+            const descriptionHash = ethers.id(description);
+            await governor.connect(voter).propose(targets, [0], calldatas, description);
+            const proposalId = await governor.hashProposal(
+                targets,
+                [0],
+                calldatas,
+                descriptionHash,
+            );
+
+            await mine(votingDelay + votingPeriod + 1);
+
+            expect(await governor.state(proposalId)).to.equal(3); // Defeated
+            await expect(
+                governor.queue(targets, [0], calldatas, descriptionHash),
+            ).to.be.revertedWithCustomError(governor, 'GovernorUnexpectedProposalState');
+        });
+    });
+
+    describe('Governance token', function () {
+        it('Should only let the timelock mint up to the cap', async function () {
+            await expect(token.mint(await deployer.getAddress(), 1)).to.be.revertedWithCustomError(
+                token,
+                'OwnableUnauthorizedAccount',
+            );
+            expect(await token.cap()).to.equal(ethers.parseEther('1000000000'));
+        });
+
+        it('Should track delegated voting power', async function () {
+            const voterAddress = await voter.getAddress();
+            expect(await token.getVotes(voterAddress)).to.equal((initialSupply * 3n) / 4n);
+
+            await token.connect(voter).transfer(await deployer.getAddress(), initialSupply / 4n);
+            expect(await token.getVotes(voterAddress)).to.equal(initialSupply / 2n);
+        });
+    });
+});
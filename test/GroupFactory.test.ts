@@ -0,0 +1,325 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { GroupFactory } from '../typechain-types';
+import GroupFactoryModule from '../ignition/modules/groups/GroupFactory';
+
+describe('GroupFactory', function () {
+    let groupFactory: GroupFactory;
+    let bondingCurveAddress: string;
+    let alphaMarketBaseAddress: string;
+    let pricingEngineAddress: string;
+    let communityGovernorAddress: string;
+    let host: Signer;
+    let hostAddress: string;
+    let otherHost: Signer;
+    const initialReserve = ethers.parseEther('0.0001');
+    const membershipCost = ethers.parseEther('0.01');
+    const reserveSplitThreshold = ethers.parseEther('1');
+    const reserveSplitPercent = 1000;
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, otherHostSigner] = await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        otherHost = otherHostSigner;
+
+        // Deploy the AlphaMarketBase contract
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 1000, 0],
+            { initializer: 'initialize' },
+        );
+        alphaMarketBaseAddress = await alphaMarketBase.getAddress();
+
+        // Deploy the ExponentialBondingCurve contract
+        const bondingCurve = await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocol.address, alphaMarketBaseAddress, initialReserve, 500000],
+            { initializer: 'initialize' },
+        );
+        bondingCurveAddress = await bondingCurve.getAddress();
+
+        // Deploy the MembershipPricingEngine contract
+        const pricingEngine = await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocol.address, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        );
+        pricingEngineAddress = await pricingEngine.getAddress();
+
+        // Deploy the CommunityGovernor and GroupFactory contracts
+        const communityGovernor = await (
+            await ethers.getContractFactory('CommunityGovernor')
+        ).deploy();
+        communityGovernorAddress = await communityGovernor.getAddress();
+        const GroupFactoryFactory = await ethers.getContractFactory('GroupFactory');
+        groupFactory = await GroupFactoryFactory.deploy(
+            bondingCurveAddress,
+            alphaMarketBaseAddress,
+            pricingEngineAddress,
+            communityGovernorAddress,
+        );
+    });
+
+    // Creates a group for `signer` seeded with the curve's initial reserve and the host's first membership.
+    async function createGroup(signer: Signer, name: string) {
+        return groupFactory
+            .connect(signer)
+            .createGroup(
+                name,
+                name,
+                `${name} Membership`,
+                `${name}M`,
+                reserveSplitThreshold,
+                reserveSplitPercent,
+                { value: initialReserve + membershipCost },
+            );
+    }
+
+    describe('Deployment', function () {
+        it('Should set the shared contract addresses', async function () {
+            expect(await groupFactory.getBondingCurveProxyAddress()).to.equal(bondingCurveAddress);
+            expect(await groupFactory.getAlphaMarketBaseAddress()).to.equal(alphaMarketBaseAddress);
+            expect(await groupFactory.getPricingEngineAddress()).to.equal(pricingEngineAddress);
+            expect(await groupFactory.getCommunityGovernorAddress()).to.equal(
+                communityGovernorAddress,
+            );
+            expect(await groupFactory.getMembershipInitialCost()).to.equal(membershipCost);
+            expect(await groupFactory.getInitialReserve()).to.equal(
+                initialReserve + membershipCost,
+            );
+        });
+
+        it('Should revert if a shared contract address is zero', async function () {
+            const GroupFactoryFactory = await ethers.getContractFactory('GroupFactory');
+
+            await expect(
+                GroupFactoryFactory.deploy(
+                    ethers.ZeroAddress,
+                    alphaMarketBaseAddress,
+                    pricingEngineAddress,
+                    communityGovernorAddress,
+                ),
+            ).to.be.revertedWithCustomError(groupFactory, 'GroupFactory__AddressCannotBeZero');
+            await expect(
+                GroupFactoryFactory.deploy(
+                    bondingCurveAddress,
+                    alphaMarketBaseAddress,
+                    pricingEngineAddress,
+                    ethers.ZeroAddress,
+                ),
+            ).to.be.revertedWithCustomError(groupFactory, 'GroupFactory__AddressCannotBeZero');
+        });
+
+        it('Should only let the factory deploy groups through its deployers', async function () {
+            const groupDeployer = await ethers.getContractAt(
+                'GroupDeployer',
+                await groupFactory.getGroupDeployerAddress(),
+            );
+
+            await expect(
+                groupDeployer.deployGroupToken(
+                    'Alpha',
+                    'A',
+                    bondingCurveAddress,
+                    hostAddress,
+                    ethers.ZeroAddress,
+                    { value: initialReserve },
+                ),
+            ).to.be.revertedWithCustomError(groupDeployer, 'GroupDeployer__OnlyFactory');
+
+            const membershipDeployer = await ethers.getContractAt(
+                'MembershipDeployer',
+                await groupFactory.getMembershipDeployerAddress(),
+            );
+            await expect(
+                membershipDeployer.deployMembership(
+                    'Alpha Membership',
+                    'AM',
+                    alphaMarketBaseAddress,
+                    pricingEngineAddress,
+                    hostAddress,
+                    communityGovernorAddress,
+                    reserveSplitThreshold,
+                    reserveSplitPercent,
+                    { value: membershipCost },
+                ),
+            ).to.be.revertedWithCustomError(membershipDeployer, 'MembershipDeployer__OnlyFactory');
+        });
+
+        it('Should deploy through the Ignition module', async function () {
+            const { groupFactory: deployed, communityGovernor } = await ignition.deploy(
+                GroupFactoryModule,
+                {
+                    parameters: {
+                        GroupFactoryModule: {
+                            bondingCurve: bondingCurveAddress,
+                            alphaMarketBase: alphaMarketBaseAddress,
+                            pricingEngine: pricingEngineAddress,
+                        },
+                    },
+                },
+            );
+
+            expect(await deployed.getBondingCurveProxyAddress()).to.equal(bondingCurveAddress);
+            expect(await deployed.getPricingEngineAddress()).to.equal(pricingEngineAddress);
+            expect(await deployed.getCommunityGovernorAddress()).to.equal(
+                await communityGovernor.getAddress(),
+            );
+        });
+    });
+
+    describe('createGroup', function () {
+        it('Should deploy a group token and membership pair for the host', async function () {
+            await expect(createGroup(host, 'Alpha')).to.emit(groupFactory, 'GroupCreated');
+
+            const group = await groupFactory.getGroup(0);
+            const groupToken = await ethers.getContractAt('GroupToken', group.groupToken);
+            const membership = await ethers.getContractAt('GroupMembershipNFT', group.membership);
+
+            expect(group.host).to.equal(hostAddress);
+            expect(await groupToken.name()).to.equal('Alpha');
+            expect(await groupToken.balanceOf(hostAddress)).to.equal(ethers.parseEther('1'));
+            expect(await groupToken.getReserveBalance()).to.equal(initialReserve);
+            expect(await groupToken.getBondingCurveProxyAddress()).to.equal(bondingCurveAddress);
+            expect(await membership.name()).to.equal('Alpha Membership');
+            expect(await membership.hasRole(await membership.HOST_ROLE(), hostAddress)).to.be.true;
+            expect(await membership.getAlphaMarketBaseAddress()).to.equal(alphaMarketBaseAddress);
+            expect(await membership.getNFTCurveProxyAddress()).to.equal(pricingEngineAddress);
+            expect(await membership.getCommunityGovernorAddress()).to.equal(
+                communityGovernorAddress,
+            );
+            expect(await membership.ownerOf(0)).to.equal(hostAddress);
+            expect(await membership.getCurrentSupply()).to.equal(1);
+            expect(await membership.getReserveBalance()).to.equal(membershipCost);
+        });
+
+        it('Should emit the GroupCreated event with the deployed addresses', async function () {
+            const receipt = await (await createGroup(host, 'Alpha')).wait();
+            const group = await groupFactory.getGroup(0);
+
+            await expect(receipt)
+                .to.emit(groupFactory, 'GroupCreated')
+                .withArgs(0, hostAddress, group.groupToken, group.membership);
+        });
+
+        it('Should revert if the Ether sent is not the initial reserve', async function () {
+            for (const value of [initialReserve, initialReserve + membershipCost + 1n]) {
+                await expect(
+                    groupFactory
+                        .connect(host)
+                        .createGroup(
+                            'Alpha',
+                            'A',
+                            'Alpha Membership',
+                            'AM',
+                            reserveSplitThreshold,
+                            1000,
+                            { value },
+                        ),
+                ).to.be.revertedWithCustomError(
+                    groupFactory,
+                    'GroupFactory__IncorrectAmountOfEtherSent',
+                );
+            }
+        });
+    });
+
+    describe('createGroupWithReserveAsset', function () {
+        const assetInitialReserve = 100_000n;
+
+        it("Should seed the group token with the curve's initial reserve for the asset", async function () {
+            // Deploy a mock stablecoin and let the curve price tokens backed by it
+            const asset = await (
+                await ethers.getContractFactory('MockERC20')
+            ).deploy('Mock USD', 'mUSD', 6);
+            const bondingCurve = await ethers.getContractAt(
+                'ExponentialBondingCurve',
+                bondingCurveAddress,
+            );
+            await bondingCurve.setAssetInitialReserve(asset, assetInitialReserve);
+            await asset.mint(hostAddress, assetInitialReserve);
+            await asset.connect(host).approve(groupFactory, assetInitialReserve);
+
+            await expect(
+                groupFactory
+                    .connect(host)
+                    .createGroupWithReserveAsset(
+                        'Alpha',
+                        'A',
+                        'Alpha Membership',
+                        'AM',
+                        reserveSplitThreshold,
+                        reserveSplitPercent,
+                        asset,
+                        { value: membershipCost },
+                    ),
+            ).to.emit(groupFactory, 'GroupCreated');
+
+            const group = await groupFactory.getGroup(0);
+            const groupToken = await ethers.getContractAt('GroupToken', group.groupToken);
+            expect(await groupFactory.getAssetInitialReserve(asset)).to.equal(assetInitialReserve);
+            expect(await groupToken.getReserveAsset()).to.equal(await asset.getAddress());
+            expect(await groupToken.getReserveBalance()).to.equal(assetInitialReserve);
+            expect(await groupToken.balanceOf(hostAddress)).to.equal(ethers.parseEther('1'));
+            expect(await asset.balanceOf(groupToken)).to.equal(assetInitialReserve);
+            expect(await asset.balanceOf(groupFactory)).to.equal(0);
+        });
+
+        it('Should revert for assets the curve does not support', async function () {
+            const asset = await (
+                await ethers.getContractFactory('MockERC20')
+            ).deploy('Mock USD', 'mUSD', 6);
+            const groupToken = await ethers.getContractFactory('GroupToken');
+
+            await expect(
+                groupFactory
+                    .connect(host)
+                    .createGroupWithReserveAsset(
+                        'Alpha',
+                        'A',
+                        'Alpha Membership',
+                        'AM',
+                        reserveSplitThreshold,
+                        reserveSplitPercent,
+                        asset,
+                        { value: membershipCost },
+                    ),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__UnsupportedReserveAsset');
+        });
+    });
+
+    describe('Registry', function () {
+        beforeEach(async function () {
+            await createGroup(host, 'Alpha');
+            await createGroup(otherHost, 'Beta');
+            await createGroup(host, 'Gamma');
+        });
+
+        it('Should enumerate every group', async function () {
+            expect(await groupFactory.getGroupCount()).to.equal(3);
+            expect((await groupFactory.getGroup(1)).host).to.equal(await otherHost.getAddress());
+        });
+
+        it('Should enumerate the groups of each host', async function () {
+            expect(await groupFactory.getHostGroupCount(hostAddress)).to.equal(2);
+            expect(await groupFactory.getHostGroupIds(hostAddress)).to.deep.equal([0n, 2n]);
+
+            const group = await groupFactory.getHostGroupAt(hostAddress, 1);
+            const groupToken = await ethers.getContractAt('GroupToken', group.groupToken);
+            expect(await groupToken.name()).to.equal('Gamma');
+        });
+
+        it('Should revert for groups that do not exist', async function () {
+            await expect(groupFactory.getGroup(3)).to.be.revertedWithCustomError(
+                groupFactory,
+                'GroupFactory__GroupDoesNotExist',
+            );
+            await expect(
+                groupFactory.getHostGroupAt(await otherHost.getAddress(), 1),
+            ).to.be.revertedWithCustomError(groupFactory, 'GroupFactory__GroupDoesNotExist');
+        });
+    });
+});
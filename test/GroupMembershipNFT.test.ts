@@ -0,0 +1,652 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { GroupMembershipNFT, MembershipPricingEngine } from '../typechain-types';
+
+describe('GroupMembershipNFT', function () {
+    let pricingEngine: MembershipPricingEngine;
+    let membership: GroupMembershipNFT;
+    let host: Signer;
+    let hostAddress: string;
+    let user: Signer;
+    let userAddress: string;
+    let auctioneer: Signer;
+    let governor: Signer;
+    let feeDestination: string;
+    const protocolFeePercent = 500n;
+    const feeSharePercent = 1000n;
+    const initialCost = ethers.parseEther('0.01');
+    const month = 30n * 24n * 3600n;
+    const gold = {
+        name: 'Gold',
+        benefits: 'Early access to every drop',
+        duration: month,
+        renewalPrice: ethers.parseEther('0.05'),
+    };
+    const goldPricing = {
+        model: 1n,
+        initialCost: ethers.parseEther('0.1'),
+        slope: ethers.parseEther('0.01'),
+        maxSupply: 0n,
+    };
+
+    function bps(amount: bigint, basisPoints: bigint) {
+        return (amount * basisPoints) / 10000n;
+    }
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, userSigner, auctioneerSigner, treasury, governorSigner] =
+            await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        user = userSigner;
+        userAddress = await user.getAddress();
+        auctioneer = auctioneerSigner;
+        governor = governorSigner;
+        feeDestination = await treasury.getAddress();
+
+        // Deploy the AlphaMarketBase and MembershipPricingEngine contracts
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, feeDestination, protocolFeePercent, feeSharePercent],
+            { initializer: 'initialize' },
+        );
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocol.address, initialCost, 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+
+        // Deploy the GroupMembershipNFT contract, splitting the reserve past 0.05 ETH
+        membership = await (
+            await ethers.getContractFactory('GroupMembershipNFT')
+        ).deploy(
+            'Membership',
+            'MBR',
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            hostAddress,
+            await governor.getAddress(),
+            ethers.parseEther('0.05'),
+            1000,
+        );
+        await membership.mintGenesisMembership(hostAddress, { value: initialCost });
+        await membership
+            .connect(host)
+            .grantRole(await membership.AUCTIONEER_ROLE(), await auctioneer.getAddress());
+    });
+
+    // Returns the cost of the next `amount` memberships of the tier.
+    async function quote(amount: bigint, tier = 0n) {
+        const { supply } = await membership.getTier(tier);
+        return pricingEngine.getTierBuyQuote(membership, tier, supply, amount);
+    }
+
+    // Adds the gold tier and buys `amount` of its memberships for the user.
+    async function buyGold(amount: bigint) {
+        if ((await membership.getTierCount()) === 1n) {
+            await membership.connect(host).addTier(gold, goldPricing);
+        }
+        const cost = await quote(amount, 1n);
+        await membership.connect(user).purchaseTierMemberships(1, amount, cost, { value: cost });
+    }
+
+    // Moves the chain past `seconds`.
+    async function increaseTime(seconds: bigint) {
+        await ethers.provider.send('evm_increaseTime', [Number(seconds)]);
+        await ethers.provider.send('evm_mine', []);
+    }
+
+    // Returns the JSON metadata of the membership.
+    async function metadata(tokenId: bigint) {
+        const uri = await membership.tokenURI(tokenId);
+        const prefix = 'data:application/json;base64,';
+        expect(uri.startsWith(prefix)).to.be.true;
+
+        return JSON.parse(Buffer.from(uri.slice(prefix.length), 'base64').toString());
+    }
+
+    describe('Genesis', function () {
+        it('Should mint the first membership to the host', async function () {
+            expect(await membership.ownerOf(0)).to.equal(hostAddress);
+            expect(await membership.hasRole(await membership.FAN_ROLE(), hostAddress)).to.be.true;
+            expect(await membership.getCurrentSupply()).to.equal(1);
+            expect(await membership.getNextTokenId()).to.equal(1);
+            expect(await membership.getReserveBalance()).to.equal(initialCost);
+            expect(await ethers.provider.getBalance(membership)).to.equal(initialCost);
+        });
+
+        it('Should revert unless the first membership is paid exactly', async function () {
+            const pending = await (
+                await ethers.getContractFactory('GroupMembershipNFT')
+            ).deploy(
+                'Membership',
+                'MBR',
+                await membership.getAlphaMarketBaseAddress(),
+                await pricingEngine.getAddress(),
+                hostAddress,
+                await governor.getAddress(),
+                ethers.parseEther('0.05'),
+                1000,
+            );
+            for (const value of [0n, initialCost - 1n, initialCost + 1n]) {
+                await expect(
+                    pending.mintGenesisMembership(hostAddress, { value }),
+                ).to.be.revertedWithCustomError(
+                    membership,
+                    'GroupNFTMembership__IncorrectAmountOfEtherSent',
+                );
+            }
+        });
+
+        it('Should keep the group paused until the genesis membership is minted once to the host', async function () {
+            const pending = await (
+                await ethers.getContractFactory('GroupMembershipNFT')
+            ).deploy(
+                'Membership',
+                'MBR',
+                await membership.getAlphaMarketBaseAddress(),
+                await pricingEngine.getAddress(),
+                hostAddress,
+                await governor.getAddress(),
+                ethers.parseEther('0.05'),
+                1000,
+            );
+            await expect(
+                pending.connect(user).purchaseMembership({ value: initialCost }),
+            ).to.be.revertedWithCustomError(pending, 'EnforcedPause');
+            await expect(
+                pending.mintGenesisMembership(userAddress, { value: initialCost }),
+            ).to.be.revertedWithCustomError(pending, 'AccessControlUnauthorizedAccount');
+
+            await pending.connect(user).mintGenesisMembership(hostAddress, { value: initialCost });
+            expect(await pending.ownerOf(0)).to.equal(hostAddress);
+            expect(await pending.paused()).to.be.false;
+            await expect(
+                pending.mintGenesisMembership(hostAddress, { value: initialCost }),
+            ).to.be.revertedWithCustomError(pending, 'GroupNFTMembership__GenesisAlreadyMinted');
+        });
+    });
+
+    describe('purchaseMembership', function () {
+        it('Should only send the protocol fees to the fee destination', async function () {
+            const cost = await quote(1n);
+            const fees = bps(cost, protocolFeePercent);
+            const feeShare = bps(fees, feeSharePercent);
+
+            const purchase = membership.connect(user).purchaseMembership({ value: cost });
+            await expect(purchase)
+                .to.emit(membership, 'MembershipPurchased')
+                .withArgs(userAddress, cost, fees - feeShare, 1);
+            await expect(purchase).to.changeEtherBalances(
+                [user, feeDestination, membership],
+                [-cost, fees - feeShare, cost - fees + feeShare],
+            );
+
+            expect(await membership.ownerOf(1)).to.equal(userAddress);
+            expect(await membership.getReserveBalance()).to.equal(initialCost + cost - fees);
+            expect(await membership.getHostReserveBalance()).to.equal(feeShare);
+        });
+
+        it('Should refund the Ether sent above the cost', async function () {
+            const cost = await quote(1n);
+            const fees = bps(cost, protocolFeePercent);
+
+            await expect(
+                membership
+                    .connect(user)
+                    .purchaseMembership({ value: cost + ethers.parseEther('1') }),
+            ).to.changeEtherBalances(
+                [user, feeDestination],
+                [-cost, fees - bps(fees, feeSharePercent)],
+            );
+        });
+
+        it('Should revert if the Ether sent does not cover the cost', async function () {
+            await expect(
+                membership.connect(user).purchaseMembership({ value: (await quote(1n)) - 1n }),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__InsufficientFundingForTransaction',
+            );
+        });
+    });
+
+    describe('purchaseMemberships', function () {
+        it('Should mint several memberships for their quoted cost', async function () {
+            const cost = await quote(3n);
+            const prices = await Promise.all(
+                [1n, 2n, 3n].map((supply) => pricingEngine.getPrice(membership, supply)),
+            );
+            const protocolFees = prices.map((price) => {
+                const fees = bps(price, protocolFeePercent);
+                return fees - bps(fees, feeSharePercent);
+            });
+
+            const purchase = membership
+                .connect(user)
+                .purchaseMemberships(3, cost, { value: cost + ethers.parseEther('1') });
+            await expect(purchase)
+                .to.emit(membership, 'MembershipPurchased')
+                .withArgs(userAddress, prices[2], protocolFees[2], 3);
+            const totalFees = protocolFees.reduce((total, fees) => total + fees);
+            await expect(purchase).to.changeEtherBalances(
+                [user, feeDestination, membership],
+                [-cost, totalFees, cost - totalFees],
+            );
+
+            expect(await membership.balanceOf(userAddress)).to.equal(3);
+            expect(await membership.ownerOf(3)).to.equal(userAddress);
+            expect(await membership.getCurrentSupply()).to.equal(4);
+        });
+
+        it('Should revert if the memberships cost more than the max cost', async function () {
+            const cost = await quote(3n);
+
+            await expect(
+                membership.connect(user).purchaseMemberships(3, cost - 1n, { value: cost }),
+            ).to.be.revertedWithCustomError(membership, 'GroupNFTMembership__MaxCostExceeded');
+            await expect(
+                membership.connect(user).purchaseMemberships(3, cost, { value: cost - 1n }),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__InsufficientFundingForTransaction',
+            );
+            await expect(
+                membership.connect(user).purchaseMemberships(0, cost, { value: cost }),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidAmount',
+            );
+        });
+    });
+
+    describe('sellMembership', function () {
+        it('Should only let the owner or an approved account sell a membership', async function () {
+            await membership.connect(user).purchaseMembership({ value: await quote(1n) });
+            const auctioneerAddress = await auctioneer.getAddress();
+
+            for (const owner of [auctioneerAddress, userAddress]) {
+                await expect(
+                    membership.connect(auctioneer).sellMembership(owner, 1),
+                ).to.be.revertedWithCustomError(
+                    membership,
+                    'GroupNFTMembership__UnauthorizedSeller',
+                );
+            }
+
+            await membership.connect(user).approve(auctioneerAddress, 1);
+            const { supply, reserveBalance } = await membership.getTier(0);
+            const saleReturn = await pricingEngine.getTierSellQuote(
+                membership,
+                0,
+                supply,
+                reserveBalance,
+                1,
+            );
+            await expect(
+                membership.connect(auctioneer).sellMembership(userAddress, 1),
+            ).to.changeEtherBalances(
+                [user, auctioneer],
+                [saleReturn - bps(saleReturn, protocolFeePercent), 0],
+            );
+        });
+    });
+
+    describe('Community reserve', function () {
+        it('Should only let the community governor disburse the community reserve', async function () {
+            const cost = await quote(5n);
+            await membership.connect(user).purchaseMemberships(5, cost, { value: cost });
+            const reserve = await membership.getCommunityReserveBalance();
+            expect(reserve).to.be.greaterThan(0n);
+
+            await expect(
+                membership.connect(host).disburseCommunityReserve(hostAddress, reserve),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__OnlyCommunityGovernor',
+            );
+            await expect(
+                membership.connect(governor).disburseCommunityReserve(userAddress, reserve + 1n),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__InsufficientCommunityReserve',
+            );
+
+            const disbursement = membership
+                .connect(governor)
+                .disburseCommunityReserve(userAddress, reserve);
+            await expect(disbursement)
+                .to.emit(membership, 'CommunityReserveDisbursed')
+                .withArgs(userAddress, reserve);
+            await expect(disbursement).to.changeEtherBalances(
+                [membership, user],
+                [-reserve, reserve],
+            );
+            expect(await membership.getCommunityReserveBalance()).to.equal(0);
+        });
+
+        it('Should snapshot the memberships held at past blocks', async function () {
+            const genesisBlock = await ethers.provider.getBlockNumber();
+            await membership.connect(user).purchaseMembership({ value: await quote(1n) });
+            const purchaseBlock = await ethers.provider.getBlockNumber();
+            await membership.connect(user).transferFrom(userAddress, hostAddress, 1);
+            const transferBlock = await ethers.provider.getBlockNumber();
+            await membership.connect(host).sellMembership(hostAddress, 0);
+            const saleBlock = await ethers.provider.getBlockNumber();
+            await ethers.provider.send('evm_mine', []);
+
+            const balances = async (blockNumber: number) => [
+                await membership.getPastBalance(hostAddress, blockNumber),
+                await membership.getPastBalance(userAddress, blockNumber),
+                await membership.getPastTotalSupply(blockNumber),
+            ];
+            expect(await balances(genesisBlock)).to.deep.equal([1n, 0n, 1n]);
+            expect(await balances(purchaseBlock)).to.deep.equal([1n, 1n, 2n]);
+            expect(await balances(transferBlock)).to.deep.equal([2n, 0n, 2n]);
+            expect(await balances(saleBlock)).to.deep.equal([1n, 0n, 1n]);
+
+            await expect(
+                membership.getPastTotalSupply(await ethers.provider.getBlockNumber()),
+            ).to.be.revertedWithCustomError(membership, 'GroupNFTMembership__FutureLookup');
+        });
+    });
+
+    describe('Tiers', function () {
+        it('Should let the host add tiers with their own pricing', async function () {
+            await expect(membership.connect(host).addTier(gold, goldPricing))
+                .to.emit(membership, 'TierUpdated')
+                .withArgs(1)
+                .and.to.emit(pricingEngine, 'TierPricingUpdated');
+
+            const tier = await membership.getTier(1);
+            expect(await membership.getTierCount()).to.equal(2);
+            expect(tier.settings).to.deep.equal(Object.values(gold));
+            expect(tier.supply).to.equal(0);
+            expect(await pricingEngine.getTierPricing(membership, 1)).to.deep.equal(
+                Object.values(goldPricing),
+            );
+            expect((await membership.getTier(0)).settings.name).to.equal('Member');
+
+            await expect(
+                membership.connect(user).addTier(gold, goldPricing),
+            ).to.be.revertedWithCustomError(membership, 'AccessControlUnauthorizedAccount');
+        });
+
+        it('Should mint and sell each tier against its own supply and reserve', async function () {
+            await buyGold(2n);
+            const goldTier = await membership.getTier(1);
+            const baseReserve = (await membership.getTier(0)).reserveBalance;
+
+            expect(goldTier.supply).to.equal(2);
+            expect(await membership.getCurrentSupply()).to.equal(3);
+            expect(await membership.getReserveBalance()).to.equal(
+                baseReserve + goldTier.reserveBalance,
+            );
+            expect((await membership.getMembership(2)).tier).to.equal(1);
+
+            const saleReturn = await pricingEngine.getTierSellQuote(
+                membership,
+                1,
+                goldTier.supply,
+                goldTier.reserveBalance,
+                1,
+            );
+            await expect(
+                membership.connect(user).sellMembership(userAddress, 2),
+            ).to.changeEtherBalance(user, saleReturn - bps(saleReturn, protocolFeePercent));
+            expect((await membership.getTier(1)).supply).to.equal(1);
+            expect((await membership.getTier(0)).reserveBalance).to.equal(baseReserve);
+        });
+
+        it('Should price tiers without their own pricing like the base tier', async function () {
+            await membership.connect(host).addTier(gold, { ...goldPricing, initialCost: 0n });
+            expect(await quote(3n, 1n)).to.equal(await pricingEngine.getBuyQuote(membership, 0, 3));
+
+            await membership.connect(host).setTierPricing(1, goldPricing);
+            expect(await quote(1n, 1n)).to.equal(goldPricing.initialCost);
+            await expect(
+                membership.connect(host).setTierPricing(0, goldPricing),
+            ).to.be.revertedWithCustomError(pricingEngine, 'MembershipPricingEngine__InvalidTier');
+        });
+
+        it('Should revert for tiers that do not exist or break the metadata', async function () {
+            await expect(
+                membership.connect(user).purchaseTierMemberships(1, 1, initialCost, {
+                    value: initialCost,
+                }),
+            ).to.be.revertedWithCustomError(membership, 'GroupNFTMembership__TierDoesNotExist');
+            await expect(
+                membership.connect(host).updateTier(1, gold),
+            ).to.be.revertedWithCustomError(membership, 'GroupNFTMembership__TierDoesNotExist');
+
+            for (const settings of [
+                { ...gold, name: '' },
+                { ...gold, name: 'Gold "VIP"' },
+                { ...gold, benefits: 'Line\nbreak' },
+                { ...gold, benefits: 'C:\\' },
+            ]) {
+                await expect(
+                    membership.connect(host).updateTier(0, settings),
+                ).to.be.revertedWithCustomError(membership, 'GroupNFTMembership__InvalidMetadata');
+            }
+        });
+    });
+
+    describe('Renewals', function () {
+        it('Should expire memberships of tiers with a duration', async function () {
+            await buyGold(1n);
+            const { timestamp } = (await ethers.provider.getBlock('latest'))!;
+
+            expect((await membership.getMembership(1)).expiresAt).to.equal(
+                BigInt(timestamp) + month,
+            );
+            expect((await membership.getMembership(0)).expiresAt).to.equal(0);
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.true;
+            expect(await membership.isActiveMember(userAddress, 0)).to.be.false;
+
+            await increaseTime(month);
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.false;
+            expect(await membership.isActiveMember(hostAddress, 0)).to.be.true;
+        });
+
+        it('Should give the fan role to accounts holding a membership that has not expired', async function () {
+            const fanRole = await membership.FAN_ROLE();
+            const auctioneerAddress = await auctioneer.getAddress();
+            await buyGold(3n);
+            expect(await membership.hasRole(fanRole, userAddress)).to.be.true;
+            expect(await membership.getActiveBalance(userAddress)).to.equal(3);
+
+            // Selling or transferring a membership keeps the role while others remain
+            await membership.connect(user).sellMembership(userAddress, 3);
+            await membership.connect(user).transferFrom(userAddress, auctioneerAddress, 2);
+            expect(await membership.hasRole(fanRole, userAddress)).to.be.true;
+            expect(await membership.hasRole(fanRole, auctioneerAddress)).to.be.true;
+
+            await increaseTime(month);
+            expect(await membership.hasRole(fanRole, userAddress)).to.be.false;
+            expect(await membership.hasRole(fanRole, auctioneerAddress)).to.be.false;
+            expect(await membership.getActiveBalance(userAddress)).to.equal(0);
+            expect(await membership.hasRole(fanRole, hostAddress)).to.be.true;
+
+            await membership.connect(user).renewMembership(1, { value: gold.renewalPrice });
+            expect(await membership.hasRole(fanRole, userAddress)).to.be.true;
+            expect(await membership.getActiveBalance(userAddress)).to.equal(1);
+        });
+
+        it('Should extend memberships for the renewal price, paying the host reserve', async function () {
+            await buyGold(1n);
+            const { expiresAt } = await membership.getMembership(1);
+            const hostReserve = await membership.getHostReserveBalance();
+            const fees = bps(gold.renewalPrice, protocolFeePercent);
+            const protocolFees = fees - bps(fees, feeSharePercent);
+
+            await expect(
+                membership.connect(user).renewMembership(1, { value: gold.renewalPrice - 1n }),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__IncorrectAmountOfEtherSent',
+            );
+            const renewal = membership
+                .connect(host)
+                .renewMembership(1, { value: gold.renewalPrice });
+            await expect(renewal)
+                .to.emit(membership, 'MembershipRenewed')
+                .withArgs(1, hostAddress, gold.renewalPrice, expiresAt + month);
+            await expect(renewal).to.changeEtherBalances(
+                [host, feeDestination, membership],
+                [-gold.renewalPrice, protocolFees, gold.renewalPrice - protocolFees],
+            );
+            expect(await membership.getHostReserveBalance()).to.equal(
+                hostReserve + gold.renewalPrice - protocolFees,
+            );
+
+            // Expired memberships are renewed from the time of the renewal
+            await increaseTime(3n * month);
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.false;
+            await membership.connect(user).renewMembership(1, { value: gold.renewalPrice });
+            const { timestamp } = (await ethers.provider.getBlock('latest'))!;
+            expect((await membership.getMembership(1)).expiresAt).to.equal(
+                BigInt(timestamp) + month,
+            );
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.true;
+        });
+
+        it('Should revert renewing memberships that never expire', async function () {
+            await membership.connect(host).updateTier(0, gold);
+
+            await expect(
+                membership.connect(host).renewMembership(0, { value: gold.renewalPrice }),
+            ).to.be.revertedWithCustomError(
+                membership,
+                'GroupNFTMembership__MembershipDoesNotExpire',
+            );
+            await expect(
+                membership.renewMembership(1, { value: gold.renewalPrice }),
+            ).to.be.revertedWithCustomError(membership, 'ERC721NonexistentToken');
+        });
+
+        it('Should follow memberships through transfers', async function () {
+            await buyGold(2n);
+            await membership.connect(user).transferFrom(userAddress, hostAddress, 1);
+
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.true;
+            expect(await membership.isActiveMember(hostAddress, 1)).to.be.true;
+            await membership.connect(user).transferFrom(userAddress, hostAddress, 2);
+            expect(await membership.isActiveMember(userAddress, 1)).to.be.false;
+
+            await membership.connect(host).sellMembership(hostAddress, 1);
+            await membership.connect(host).sellMembership(hostAddress, 2);
+            expect(await membership.isActiveMember(hostAddress, 1)).to.be.false;
+            expect(await membership.isActiveMember(hostAddress, 0)).to.be.true;
+        });
+    });
+
+    describe('tokenURI', function () {
+        it('Should describe the tier, benefits and expiry of the membership', async function () {
+            await buyGold(1n);
+            const { expiresAt } = await membership.getMembership(1);
+
+            expect(await metadata(0n)).to.deep.equal({
+                name: 'Member #0',
+                description: '',
+                attributes: [
+                    { trait_type: 'Tier', value: 'Member' },
+                    { trait_type: 'Status', value: 'Active' },
+                ],
+            });
+            expect(await metadata(1n)).to.deep.equal({
+                name: 'Gold #1',
+                description: gold.benefits,
+                attributes: [
+                    { trait_type: 'Tier', value: 'Gold' },
+                    { trait_type: 'Status', value: 'Active' },
+                    { display_type: 'date', trait_type: 'Expires', value: Number(expiresAt) },
+                ],
+            });
+
+            await increaseTime(month);
+            expect((await metadata(1n)).attributes[1].value).to.equal('Expired');
+            await expect(membership.tokenURI(2)).to.be.revertedWithCustomError(
+                membership,
+                'ERC721NonexistentToken',
+            );
+        });
+    });
+
+    describe('Conservation', function () {
+        // Checks the contract holds exactly the host, membership and community reserves.
+        async function expectConserved(operation: string) {
+            const reserves =
+                (await membership.getHostReserveBalance()) +
+                (await membership.getReserveBalance()) +
+                (await membership.getCommunityReserveBalance());
+
+            expect(await ethers.provider.getBalance(membership), operation).to.equal(reserves);
+        }
+
+        it('Should hold exactly its reserves after every operation', async function () {
+            const sold = new Set<bigint>();
+            await expectConserved('genesis');
+            await membership.connect(host).addTier(gold, goldPricing);
+
+            for (let round = 1n; round <= 4n; round++) {
+                await membership
+                    .connect(user)
+                    .purchaseMembership({ value: (await quote(1n)) + round });
+                await expectConserved(`purchase ${round}`);
+
+                const cost = await quote(round);
+                await membership
+                    .connect(user)
+                    .purchaseMemberships(round, cost, { value: cost + ethers.parseEther('0.1') });
+                await expectConserved(`batch purchase ${round}`);
+
+                await membership.connect(auctioneer).mintAuctionedMembership(userAddress, {
+                    value: ethers.parseEther('0.02') * round,
+                });
+                await expectConserved(`auction ${round}`);
+
+                await buyGold(round);
+                await expectConserved(`gold purchase ${round}`);
+
+                await membership
+                    .connect(user)
+                    .renewMembership((await membership.getNextTokenId()) - 1n, {
+                        value: gold.renewalPrice,
+                    });
+                await expectConserved(`renewal ${round}`);
+
+                const tokenId = (await membership.getNextTokenId()) - 1n;
+                await membership.connect(user).sellMembership(userAddress, tokenId);
+                sold.add(tokenId);
+                await expectConserved(`sale ${round}`);
+
+                await membership.connect(host).withdrawHostReserveBalance(hostAddress);
+                await expectConserved(`withdrawal ${round}`);
+
+                const disbursement = (await membership.getCommunityReserveBalance()) / 2n;
+                await membership
+                    .connect(governor)
+                    .disburseCommunityReserve(userAddress, disbursement);
+                await expectConserved(`disbursement ${round}`);
+            }
+
+            expect(await membership.getCommunityReserveBalance()).to.be.greaterThan(0n);
+            await membership.connect(host).sellMembership(hostAddress, 0);
+            await expectConserved('genesis sale');
+
+            // Selling every membership empties the membership reserve.
+            for (let tokenId = 1n; tokenId < (await membership.getNextTokenId()); tokenId++) {
+                if (!sold.has(tokenId)) {
+                    await membership.connect(user).sellMembership(userAddress, tokenId);
+                    await expectConserved(`sale of ${tokenId}`);
+                }
+            }
+            expect(await membership.getCurrentSupply()).to.equal(0);
+            expect(await membership.getReserveBalance()).to.equal(0);
+            expect((await membership.getTier(1)).reserveBalance).to.equal(0);
+        });
+    });
+});
@@ -0,0 +1,341 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { ExponentialBondingCurve, GroupToken, MockERC20 } from '../typechain-types';
+import { applySlippage, getDeadline, GroupTokenClient, GroupTokenError } from '../sdk';
+import MockERC20Module from '../ignition/modules/mocks/MockERC20';
+import ReserveAssetGroupTokenModule from '../ignition/modules/erc20-curve/ReserveAssetGroupToken';
+
+describe('GroupToken', function () {
+    let bondingCurve: ExponentialBondingCurve;
+    let groupToken: GroupToken;
+    let host: Signer;
+    let user: Signer;
+    let userAddress: string;
+    const initialReserve = ethers.parseEther('0.0001');
+    const value = ethers.parseEther('0.01');
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, userSigner] = await ethers.getSigners();
+        host = hostSigner;
+        user = userSigner;
+        userAddress = await user.getAddress();
+
+        // Deploy the AlphaMarketBase contract
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 1000, 0],
+            { initializer: 'initialize' },
+        );
+
+        // Deploy the ExponentialBondingCurve contract
+        const ExponentialBondingCurveFactory =
+            await ethers.getContractFactory('ExponentialBondingCurve');
+        bondingCurve = (await upgrades.deployProxy(
+            ExponentialBondingCurveFactory,
+            [protocol.address, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+
+        // Deploy the GroupToken contract
+        const GroupTokenFactory = await ethers.getContractFactory('GroupToken');
+        groupToken = await GroupTokenFactory.deploy(
+            'Group',
+            'GRP',
+            await bondingCurve.getAddress(),
+            await host.getAddress(),
+            ethers.ZeroAddress,
+            { value: initialReserve },
+        );
+    });
+
+    // Quotes the tokens minted for `amount` wei at the current curve state.
+    async function quoteMint(amount: bigint) {
+        const [tokensOut] = await bondingCurve.getPurchaseReturn(
+            groupToken,
+            await groupToken.totalSupply(),
+            await groupToken.getReserveBalance(),
+            amount,
+        );
+        return tokensOut;
+    }
+
+    // Quotes the ether paid to the seller after fees for burning `amount` tokens.
+    async function quoteBurn(amount: bigint) {
+        const [saleValue, fees] = await bondingCurve.getSaleReturn(
+            groupToken,
+            await groupToken.totalSupply(),
+            await groupToken.getReserveBalance(),
+            amount,
+        );
+        return saleValue - fees;
+    }
+
+    describe('mintTokensWithSlippage', function () {
+        it('Should mint when the quoted amount meets the minimum', async function () {
+            const tokensOut = await quoteMint(value);
+            const deadline = await getDeadline(ethers.provider);
+
+            await expect(
+                groupToken.connect(user).mintTokensWithSlippage(tokensOut, deadline, { value }),
+            )
+                .to.emit(groupToken, 'TokensPurchased')
+                .withArgs(userAddress, value, value / 10n, tokensOut);
+            expect(await groupToken.balanceOf(userAddress)).to.equal(tokensOut);
+        });
+
+        it('Should revert when the price moves past the minimum tokens out', async function () {
+            const tokensOut = await quoteMint(value);
+            const deadline = await getDeadline(ethers.provider);
+
+            // Another buyer front-runs the transaction and moves the price up the curve.
+            await groupToken.connect(host).mintTokens({ value: ethers.parseEther('0.1') });
+
+            await expect(
+                groupToken.connect(user).mintTokensWithSlippage(tokensOut, deadline, { value }),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__MinimumTokensOutNotMet');
+        });
+
+        it('Should revert after the deadline', async function () {
+            const deadline = await getDeadline(ethers.provider, 60n);
+            await ethers.provider.send('evm_increaseTime', [61]);
+            await ethers.provider.send('evm_mine', []);
+
+            await expect(
+                groupToken.connect(user).mintTokensWithSlippage(0, deadline, { value }),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__TransactionExpired');
+        });
+    });
+
+    describe('burnTokensWithSlippage', function () {
+        let tokens: bigint;
+
+        beforeEach(async function () {
+            await groupToken.connect(user).mintTokens({ value });
+            tokens = await groupToken.balanceOf(userAddress);
+            await groupToken.connect(user).approve(userAddress, tokens);
+        });
+
+        it('Should burn when the quoted ether meets the minimum', async function () {
+            const etherOut = await quoteBurn(tokens);
+            const deadline = await getDeadline(ethers.provider);
+
+            await expect(
+                groupToken
+                    .connect(user)
+                    .burnTokensWithSlippage(tokens, userAddress, etherOut, deadline),
+            ).to.changeEtherBalance(user, etherOut);
+            expect(await groupToken.balanceOf(userAddress)).to.equal(0);
+        });
+
+        it('Should revert when the price moves past the minimum ether out', async function () {
+            const etherOut = await quoteBurn(tokens);
+            const deadline = await getDeadline(ethers.provider);
+
+            // The host sells first and moves the price down the curve.
+            const hostAddress = await host.getAddress();
+            const hostTokens = await groupToken.balanceOf(hostAddress);
+            await groupToken.connect(host).approve(hostAddress, hostTokens);
+            await groupToken.connect(host).burnTokens(hostTokens / 2n, hostAddress);
+
+            await expect(
+                groupToken
+                    .connect(user)
+                    .burnTokensWithSlippage(tokens, userAddress, etherOut, deadline),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__MinimumEtherOutNotMet');
+        });
+
+        it('Should revert after the deadline', async function () {
+            const deadline = await getDeadline(ethers.provider, 60n);
+            await ethers.provider.send('evm_increaseTime', [61]);
+            await ethers.provider.send('evm_mine', []);
+
+            await expect(
+                groupToken.connect(user).burnTokensWithSlippage(tokens, userAddress, 0, deadline),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__TransactionExpired');
+        });
+    });
+
+    describe('GroupTokenClient slippage bounds', function () {
+        it('Should derive the minimum outputs from the quote and tolerance', async function () {
+            const client = await GroupTokenClient.connect(await groupToken.getAddress(), user);
+
+            const minted = await client.mintWithSlippage(value, { toleranceBps: 100n });
+            expect(minted.minTokensOut).to.equal(applySlippage(minted.quote.tokensOut, 100n));
+            expect(minted.event.tokensMinted).to.equal(minted.quote.tokensOut);
+
+            const burnt = await client.burnWithSlippage(minted.event.tokensMinted, {
+                toleranceBps: 100n,
+            });
+            expect(burnt.minEtherOut).to.equal(applySlippage(burnt.quote.etherOut, 100n));
+            expect(burnt.event.amountReceived).to.equal(burnt.quote.etherOut);
+        });
+
+        it('Should surface an expired deadline as a typed error', async function () {
+            const client = await GroupTokenClient.connect(await groupToken.getAddress(), user);
+            const deadline = await getDeadline(ethers.provider, 0n);
+
+            const error = await client.mintWithSlippage(value, { deadline }).catch((e) => e);
+
+            expect(error).to.be.instanceOf(GroupTokenError);
+            expect(error.errorName).to.equal('GroupToken__TransactionExpired');
+        });
+
+        it('Should reject tolerances outside of the basis points range', function () {
+            expect(() => applySlippage(1000n, 10001n)).to.throw(RangeError);
+            expect(applySlippage(1000n, 50n)).to.equal(995n);
+        });
+    });
+
+    describe('ERC20 reserve asset', function () {
+        let asset: MockERC20;
+        let assetGroupToken: GroupToken;
+        let protocolAddress: string;
+        const assetInitialReserve = 100_000n;
+        const deposit = 10_000_000n;
+
+        beforeEach(async function () {
+            protocolAddress = await (await ethers.getSigners())[0].getAddress();
+
+            // Deploy a mock stablecoin and let the curve price tokens backed by it
+            ({ mockERC20: asset } = (await ignition.deploy(MockERC20Module)) as unknown as {
+                mockERC20: MockERC20;
+            });
+            await bondingCurve.setAssetInitialReserve(asset, assetInitialReserve);
+            await asset.mint(userAddress, deposit * 10n);
+
+            // Deploy and seed a group token backed by the asset
+            ({ groupToken: assetGroupToken } = (await ignition.deploy(
+                ReserveAssetGroupTokenModule,
+                {
+                    parameters: {
+                        ReserveAssetGroupTokenModule: {
+                            bondingCurve: await bondingCurve.getAddress(),
+                            reserveAsset: await asset.getAddress(),
+                            host: await host.getAddress(),
+                        },
+                    },
+                },
+            )) as unknown as { groupToken: GroupToken });
+        });
+
+        it("Should seed the reserve with the curve's initial reserve for the asset", async function () {
+            expect(await bondingCurve.getAssetInitialReserve(asset)).to.equal(assetInitialReserve);
+            expect(await bondingCurve.getAssetInitialReserve(ethers.ZeroAddress)).to.equal(
+                initialReserve,
+            );
+            expect(await assetGroupToken.getReserveAsset()).to.equal(await asset.getAddress());
+            expect(await assetGroupToken.getReserveBalance()).to.equal(assetInitialReserve);
+            expect(await asset.balanceOf(assetGroupToken)).to.equal(assetInitialReserve);
+            expect(await assetGroupToken.balanceOf(host)).to.equal(ethers.parseEther('1'));
+
+            await asset.approve(assetGroupToken, assetInitialReserve);
+            await expect(assetGroupToken.seedReserve()).to.be.revertedWithCustomError(
+                assetGroupToken,
+                'GroupToken__ReserveAlreadySeeded',
+            );
+        });
+
+        it('Should only accept the reserve asset the token was created with', async function () {
+            const GroupTokenFactory = await ethers.getContractFactory('GroupToken');
+            const bondingCurveAddress = await bondingCurve.getAddress();
+            const hostAddress = await host.getAddress();
+
+            await expect(
+                GroupTokenFactory.deploy(
+                    'Group',
+                    'GRP',
+                    bondingCurveAddress,
+                    hostAddress,
+                    userAddress,
+                ),
+            ).to.be.revertedWithCustomError(assetGroupToken, 'GroupToken__UnsupportedReserveAsset');
+            await expect(
+                GroupTokenFactory.deploy('Group', 'GRP', bondingCurveAddress, hostAddress, asset, {
+                    value: initialReserve,
+                }),
+            ).to.be.revertedWithCustomError(
+                assetGroupToken,
+                'GroupToken__IncorrectAmountOfEtherSent',
+            );
+            await expect(
+                assetGroupToken.connect(user).mintTokens({ value }),
+            ).to.be.revertedWithCustomError(assetGroupToken, 'GroupToken__IncorrectReserveAsset');
+            await expect(
+                groupToken
+                    .connect(user)
+                    .mintTokensWithAsset(deposit, 0, await getDeadline(groupToken.runner)),
+            ).to.be.revertedWithCustomError(groupToken, 'GroupToken__IncorrectReserveAsset');
+            await expect(groupToken.seedReserve()).to.be.revertedWithCustomError(
+                groupToken,
+                'GroupToken__IncorrectReserveAsset',
+            );
+
+            // Tokens cannot be minted before the reserve is seeded
+            const unseeded = await GroupTokenFactory.deploy(
+                'Group',
+                'GRP',
+                bondingCurveAddress,
+                hostAddress,
+                asset,
+            );
+            await asset.connect(user).approve(unseeded, deposit);
+            await expect(
+                unseeded
+                    .connect(user)
+                    .mintTokensWithAsset(deposit, 0, await getDeadline(groupToken.runner)),
+            ).to.be.revertedWithCustomError(unseeded, 'GroupToken__ReserveNotSeeded');
+        });
+
+        it('Should mint for an approved deposit and pay fees in the asset', async function () {
+            const [tokensOut, fees] = await bondingCurve.getPurchaseReturn(
+                assetGroupToken,
+                await assetGroupToken.totalSupply(),
+                assetInitialReserve,
+                deposit,
+            );
+            await asset.connect(user).approve(assetGroupToken, deposit);
+
+            const mint = assetGroupToken
+                .connect(user)
+                .mintTokensWithAsset(deposit, tokensOut, await getDeadline(groupToken.runner));
+
+            await expect(mint)
+                .to.emit(assetGroupToken, 'TokensPurchased')
+                .withArgs(userAddress, deposit, fees, tokensOut);
+            await expect(mint).to.changeTokenBalances(
+                asset,
+                [user, assetGroupToken, protocolAddress],
+                [-deposit, deposit - fees, fees],
+            );
+            expect(await assetGroupToken.getReserveBalance()).to.equal(
+                assetInitialReserve + deposit - fees,
+            );
+        });
+
+        it('Should mint with a permit instead of an approval', async function () {
+            const client = await GroupTokenClient.connect(await assetGroupToken.getAddress(), user);
+
+            const { quote, event } = await client.mintWithPermit(deposit);
+
+            expect(event.tokensMinted).to.equal(quote.tokensOut);
+            expect(await assetGroupToken.balanceOf(userAddress)).to.equal(quote.tokensOut);
+            expect(await asset.allowance(userAddress, assetGroupToken)).to.equal(0);
+            expect(await asset.nonces(userAddress)).to.equal(1);
+        });
+
+        it('Should pay sales out in the asset', async function () {
+            const client = await GroupTokenClient.connect(await assetGroupToken.getAddress(), user);
+            const { event: minted } = await client.mintWithAsset(deposit);
+            const balance = await asset.balanceOf(userAddress);
+
+            const { quote } = await client.burn(minted.tokensMinted);
+
+            expect(await asset.balanceOf(userAddress)).to.equal(balance + quote.etherOut);
+            expect(await asset.balanceOf(assetGroupToken)).to.equal(
+                await assetGroupToken.getReserveBalance(),
+            );
+        });
+    });
+});
@@ -0,0 +1,307 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaCampaigns,
+    AlphaMarketBase,
+    ExponentialBondingCurve,
+    GroupFactory,
+    GroupMembershipNFT,
+    GroupToken,
+} from '../typechain-types';
+import { EventIndexer, getTokenSpotPrice, IndexerDatabase } from '../indexer';
+import { scheduleChange } from '../sdk';
+
+describe('EventIndexer', function () {
+    let groupFactory: GroupFactory;
+    let alphaMarketBase: AlphaMarketBase;
+    let bondingCurve: ExponentialBondingCurve;
+    let groupToken: GroupToken;
+    let membership: GroupMembershipNFT;
+    let alphaCampaigns: AlphaCampaigns;
+    let host: Signer;
+    let hostAddress: string;
+    let fan: Signer;
+    let fanAddress: string;
+    let db: IndexerDatabase;
+    let indexer: EventIndexer;
+    const initialReserve = ethers.parseEther('0.0001');
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, fanSigner] = await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        fan = fanSigner;
+        fanAddress = await fan.getAddress();
+        const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+        // Deploy the AlphaMarketBase, ExponentialBondingCurve and MembershipPricingEngine contracts
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 1000, 0],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+        bondingCurve = (await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocol.address, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+        const pricingEngine = await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocol.address, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        );
+
+        // Deploy the GroupFactory and AlphaCampaigns contracts
+        groupFactory = await (
+            await ethers.getContractFactory('GroupFactory')
+        ).deploy(
+            await bondingCurve.getAddress(),
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            protocol.address,
+        );
+        alphaCampaigns = await (
+            await ethers.getContractFactory('AlphaCampaigns')
+        ).deploy(await alphaMarketBase.getAddress(), ethers.ZeroAddress);
+
+        // Launch a group through the factory so the indexer has to discover it
+        await groupFactory
+            .connect(host)
+            .createGroup('Alpha', 'A', 'Alpha Membership', 'AM', ethers.parseEther('1'), 1000, {
+                value: await groupFactory.getInitialReserve(),
+            });
+        const group = await groupFactory.getGroup(0);
+        groupToken = await ethers.getContractAt('GroupToken', group.groupToken);
+        membership = await ethers.getContractAt('GroupMembershipNFT', group.membership);
+
+        db = new IndexerDatabase(':memory:', [60, 3600]);
+        indexer = new EventIndexer(
+            ethers.provider,
+            db,
+            {
+                campaigns: [await alphaCampaigns.getAddress()],
+                groupFactories: [await groupFactory.getAddress()],
+                alphaMarketBases: [await alphaMarketBase.getAddress()],
+            },
+            { startBlock, batchSize: 5 },
+        );
+    });
+
+    afterEach(function () {
+        db.close();
+    });
+
+    // Mints group tokens for `signer` and returns the amount minted.
+    async function mint(signer: Signer, value: bigint) {
+        const before = await groupToken.balanceOf(await signer.getAddress());
+        await groupToken.connect(signer).mintTokens({ value });
+        return (await groupToken.balanceOf(await signer.getAddress())) - before;
+    }
+
+    describe('Backfill', function () {
+        it('Should discover groups created by the factory', async function () {
+            await indexer.backfill();
+
+            const markets = db.getMarkets();
+            expect(markets.map((market) => market.address)).to.have.members([
+                await groupToken.getAddress(),
+                await membership.getAddress(),
+            ]);
+            expect(markets.every((market) => market.host === hostAddress)).to.be.true;
+        });
+
+        it('Should index trades priced from the reserve and supply', async function () {
+            const minted = await mint(fan, ethers.parseEther('0.01'));
+            await groupToken.connect(fan).approve(fanAddress, minted);
+            await groupToken.connect(fan).burnTokens(minted / 2n, fanAddress);
+
+            await indexer.backfill();
+
+            const trades = db.getTrades(await groupToken.getAddress());
+            expect(trades.map((trade) => trade.side)).to.deep.equal(['buy', 'sell']);
+            expect(trades[0].trader).to.equal(fanAddress);
+            expect(trades[0].quantity).to.equal(minted);
+
+            const reserve = await groupToken.getReserveBalance();
+            const supply = await groupToken.totalSupply();
+            expect(trades[1].reserve).to.equal(reserve);
+            expect(trades[1].supply).to.equal(supply);
+            expect(trades[1].price).to.equal(
+                getTokenSpotPrice(reserve, supply, await bondingCurve.getReserveRatio()),
+            );
+        });
+
+        it('Should record the fee tier applied to each trade', async function () {
+            const tiers = [
+                { volumeThreshold: 0, protocolFeePercent: 1000, feeSharePercent: 0 },
+                {
+                    volumeThreshold: ethers.parseEther('0.01'),
+                    protocolFeePercent: 500,
+                    feeSharePercent: 0,
+                },
+            ];
+            await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                await groupToken.getAddress(),
+                tiers,
+            ]);
+            await ethers.provider.send('evm_increaseTime', [
+                Number(await alphaMarketBase.getChangeDelay()),
+            ]);
+            await alphaMarketBase.setFeeSchedule(await groupToken.getAddress(), tiers);
+            await mint(fan, ethers.parseEther('0.01'));
+            await mint(fan, ethers.parseEther('0.01'));
+
+            await indexer.backfill();
+
+            const trades = db.getTrades(await groupToken.getAddress());
+            const feeTiers = trades.map((trade) => db.getTradeFeeTier(trade)!);
+            expect(feeTiers.map((feeTier) => feeTier.tier)).to.deep.equal([0, 1]);
+            expect(feeTiers.map((feeTier) => feeTier.protocolFeePercent)).to.deep.equal([
+                1000, 500,
+            ]);
+            expect(trades[1].fees).to.equal(ethers.parseEther('0.0005'));
+            expect(db.getFeeTiers(await groupToken.getAddress())).to.have.lengthOf(2);
+        });
+
+        it('Should aggregate trades into OHLC candles', async function () {
+            // Start at the top of the hour so every trade lands in the same hourly candle.
+            const latest = (await ethers.provider.getBlock('latest'))!.timestamp;
+            await ethers.provider.send('evm_setNextBlockTimestamp', [
+                Math.ceil((latest + 1) / 3600) * 3600,
+            ]);
+            await mint(fan, ethers.parseEther('0.01'));
+            await mint(host, ethers.parseEther('0.02'));
+            await mint(fan, ethers.parseEther('0.01'));
+
+            await indexer.backfill();
+
+            const trades = db.getTrades(await groupToken.getAddress());
+            const candles = db.getCandles(await groupToken.getAddress(), 3600);
+            const prices = trades.map((trade) => trade.price);
+            const volume = trades.reduce((total, trade) => total + trade.value, 0n);
+
+            expect(candles).to.have.length(1);
+            expect(candles[0].open).to.equal(prices[0]);
+            expect(candles[0].close).to.equal(prices[2]);
+            expect(candles[0].high).to.equal(prices.reduce((a, b) => (a > b ? a : b)));
+            expect(candles[0].low).to.equal(prices.reduce((a, b) => (a < b ? a : b)));
+            expect(candles[0].volume).to.equal(volume);
+            expect(candles[0].trades).to.equal(3);
+        });
+
+        it('Should track token and membership holder balances', async function () {
+            const minted = await mint(fan, ethers.parseEther('0.01'));
+            await groupToken.connect(fan).transfer(hostAddress, minted / 4n);
+            await membership.connect(fan).purchaseMembership({ value: ethers.parseEther('0.02') });
+
+            await indexer.backfill();
+
+            const tokenAddress = await groupToken.getAddress();
+            expect(db.getBalance(tokenAddress, fanAddress)).to.equal(
+                await groupToken.balanceOf(fanAddress),
+            );
+            expect(db.getBalance(tokenAddress, hostAddress)).to.equal(
+                await groupToken.balanceOf(hostAddress),
+            );
+            expect(db.getBalance(await membership.getAddress(), fanAddress)).to.equal(1n);
+            expect(db.getTrades(await membership.getAddress())[0].side).to.equal('buy');
+        });
+
+        it('Should index campaign sponsorships and tips', async function () {
+            const slotPrice = ethers.parseEther('0.1');
+            const deadline = (await ethers.provider.getBlock('latest'))!.timestamp + 3600;
+            await alphaCampaigns.createCampaign(deadline, slotPrice, hostAddress, 2);
+            const [event] = await alphaCampaigns.queryFilter(
+                alphaCampaigns.filters.CampaignCreated(),
+            );
+            const campaignId = event.args.campaignId;
+
+            await alphaCampaigns.connect(fan).requestToSponsor(campaignId, fanAddress, {
+                value: slotPrice,
+            });
+            await alphaCampaigns.connect(host).acceptSponsor(campaignId, fanAddress);
+            await alphaCampaigns.connect(fan).tipCampaign(campaignId, { value: 1000n });
+
+            await indexer.backfill();
+
+            const campaign = db.getCampaign({
+                campaigns: await alphaCampaigns.getAddress(),
+                campaignId,
+            });
+            expect(campaign?.host).to.equal(hostAddress);
+            expect(campaign?.sponsors).to.equal(1);
+            expect(campaign?.tips).to.equal(1000n);
+            expect(campaign?.totalRaised).to.equal(slotPrice + 1000n);
+            expect(campaign?.slotsAvailable).to.equal(1n);
+            expect(campaign?.status).to.equal('active');
+        });
+    });
+
+    describe('Reorgs', function () {
+        it('Should roll back and re-index blocks whose hash changed', async function () {
+            await mint(fan, ethers.parseEther('0.01'));
+            await indexer.backfill();
+            const snapshot = await ethers.provider.send('evm_snapshot', []);
+
+            // Index a block that is about to be replaced.
+            await mint(fan, ethers.parseEther('0.05'));
+            await indexer.backfill();
+            expect(db.getTrades(await groupToken.getAddress())).to.have.length(2);
+
+            // Replace it with a competing block at the same height.
+            await ethers.provider.send('evm_revert', [snapshot]);
+            await mint(host, ethers.parseEther('0.02'));
+            await indexer.backfill();
+
+            const trades = db.getTrades(await groupToken.getAddress());
+            expect(trades.map((trade) => trade.trader)).to.deep.equal([fanAddress, hostAddress]);
+            expect(db.getBalance(await groupToken.getAddress(), fanAddress)).to.equal(
+                await groupToken.balanceOf(fanAddress),
+            );
+
+            const candles = db.getCandles(await groupToken.getAddress(), 3600);
+            expect(candles.reduce((total, candle) => total + candle.trades, 0)).to.equal(2);
+            expect(candles.at(-1)!.close).to.equal(trades[1].price);
+        });
+
+        it('Should drop groups discovered in reorged blocks', async function () {
+            await indexer.backfill();
+            const snapshot = await ethers.provider.send('evm_snapshot', []);
+
+            await groupFactory
+                .connect(fan)
+                .createGroup('Beta', 'B', 'Beta Membership', 'BM', ethers.parseEther('1'), 1000, {
+                    value: await groupFactory.getInitialReserve(),
+                });
+            await indexer.backfill();
+            expect(db.getMarkets()).to.have.length(4);
+
+            await ethers.provider.send('evm_revert', [snapshot]);
+            await ethers.provider.send('evm_mine', []);
+            await ethers.provider.send('evm_mine', []);
+            await indexer.backfill();
+
+            expect(db.getMarkets()).to.have.length(2);
+        });
+    });
+
+    describe('Tail', function () {
+        it('Should keep indexing new blocks until stopped', async function () {
+            await indexer.backfill();
+            const tail = new EventIndexer(ethers.provider, db, {}, { pollInterval: 10 });
+            const running = tail.tail();
+
+            await mint(fan, ethers.parseEther('0.01'));
+            const head = await ethers.provider.getBlockNumber();
+            while (db.getCursor()! < head) {
+                await new Promise((resolve) => setTimeout(resolve, 10));
+            }
+            tail.stop();
+            await running;
+
+            expect(db.getTrades(await groupToken.getAddress())).to.have.length(1);
+        });
+    });
+});
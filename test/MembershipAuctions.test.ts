@@ -0,0 +1,512 @@
+import { expect } from 'chai';
+import { ethers, ignition, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaMarketBase,
+    GroupMembershipNFT,
+    MembershipAuctions,
+    MembershipPricingEngine,
+} from '../typechain-types';
+import MembershipAuctionsModule from '../ignition/modules/groups/MembershipAuctions';
+import { scheduleChange } from '../sdk';
+
+describe('MembershipAuctions', function () {
+    let alphaMarketBase: AlphaMarketBase;
+    let pricingEngine: MembershipPricingEngine;
+    let membershipAuctions: MembershipAuctions;
+    let membership: GroupMembershipNFT;
+    let protocolAddress: string;
+    let host: Signer;
+    let hostAddress: string;
+    let alice: Signer;
+    let aliceAddress: string;
+    let bob: Signer;
+    let bobAddress: string;
+    const protocolFeePercent = 1000n;
+    const duration = 3600n;
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, aliceSigner, bobSigner] = await ethers.getSigners();
+        protocolAddress = protocol.address;
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        alice = aliceSigner;
+        aliceAddress = await alice.getAddress();
+        bob = bobSigner;
+        bobAddress = await bob.getAddress();
+
+        // Deploy the AlphaMarketBase and MembershipPricingEngine contracts
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocolAddress, protocolAddress, protocolFeePercent, 0],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocolAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+
+        // Deploy the GroupMembershipNFT contract
+        membership = await (
+            await ethers.getContractFactory('GroupMembershipNFT')
+        ).deploy(
+            'Alpha Membership',
+            'AM',
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            hostAddress,
+            protocolAddress,
+            ethers.parseEther('100'),
+            1000,
+        );
+        await membership.mintGenesisMembership(hostAddress, { value: ethers.parseEther('0.01') });
+
+        // Deploy the MembershipAuctions contract and let it mint memberships
+        membershipAuctions = await (await ethers.getContractFactory('MembershipAuctions')).deploy();
+        await membership
+            .connect(host)
+            .grantRole(await membership.AUCTIONEER_ROLE(), await membershipAuctions.getAddress());
+    });
+
+    // Returns a start time a few seconds after the latest block.
+    async function nextStartTime() {
+        return BigInt((await ethers.provider.getBlock('latest'))!.timestamp + 10);
+    }
+
+    // Moves the chain to `timestamp` for the next block.
+    async function setNextTimestamp(timestamp: bigint) {
+        await ethers.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+    }
+
+    describe('Creation', function () {
+        it('Should deploy through the Ignition module', async function () {
+            const { membershipAuctions: deployed } =
+                await ignition.deploy(MembershipAuctionsModule);
+
+            expect(await deployed.getAuctionCount()).to.equal(0);
+        });
+
+        it('Should only let the host create auctions', async function () {
+            const startTime = await nextStartTime();
+
+            await expect(
+                membershipAuctions
+                    .connect(alice)
+                    .createEnglishAuction(
+                        membership,
+                        ethers.parseEther('1'),
+                        500,
+                        startTime,
+                        duration,
+                    ),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__OnlyHost');
+            await expect(
+                membershipAuctions
+                    .connect(host)
+                    .createEnglishAuction(
+                        membership,
+                        ethers.parseEther('1'),
+                        500,
+                        startTime,
+                        duration,
+                    ),
+            )
+                .to.emit(membershipAuctions, 'AuctionCreated')
+                .withArgs(
+                    0,
+                    await membership.getAddress(),
+                    hostAddress,
+                    0,
+                    startTime,
+                    startTime + duration,
+                    ethers.parseEther('1'),
+                    0,
+                );
+            expect(await membershipAuctions.getAuctionCount()).to.equal(1);
+        });
+
+        it('Should require the auctioneer role on the membership contract', async function () {
+            await membership
+                .connect(host)
+                .revokeRole(
+                    await membership.AUCTIONEER_ROLE(),
+                    await membershipAuctions.getAddress(),
+                );
+
+            await expect(
+                membershipAuctions
+                    .connect(host)
+                    .createDutchAuction(membership, 2, 1, await nextStartTime(), duration),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__NotAnAuctioneer',
+            );
+            await expect(
+                membership.connect(alice).mintAuctionedMembership(aliceAddress),
+            ).to.be.revertedWithCustomError(membership, 'AccessControlUnauthorizedAccount');
+        });
+
+        it('Should reject invalid auction parameters', async function () {
+            const startTime = await nextStartTime();
+
+            await expect(
+                membershipAuctions
+                    .connect(host)
+                    .createEnglishAuction(membership, 0, 500, startTime, duration),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__InvalidAuctionParameters',
+            );
+            await expect(
+                membershipAuctions
+                    .connect(host)
+                    .createEnglishAuction(
+                        membership,
+                        ethers.parseEther('1'),
+                        0,
+                        startTime,
+                        duration,
+                    ),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__InvalidAuctionParameters',
+            );
+            await expect(
+                membershipAuctions
+                    .connect(host)
+                    .createDutchAuction(membership, 1, 2, startTime, duration),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__InvalidAuctionParameters',
+            );
+            await expect(
+                membershipAuctions.connect(host).createDutchAuction(membership, 2, 1, startTime, 0),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__InvalidAuctionParameters',
+            );
+        });
+    });
+
+    describe('English auctions', function () {
+        const reservePrice = ethers.parseEther('1');
+        let startTime: bigint;
+
+        beforeEach(async function () {
+            startTime = await nextStartTime();
+            await membershipAuctions
+                .connect(host)
+                .createEnglishAuction(membership, reservePrice, 500, startTime, duration);
+        });
+
+        it('Should only accept bids within the bidding window', async function () {
+            await expect(
+                membershipAuctions.connect(alice).bid(0, { value: reservePrice }),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__AuctionNotStarted',
+            );
+
+            await setNextTimestamp(startTime + duration);
+            await expect(
+                membershipAuctions.connect(alice).bid(0, { value: reservePrice }),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__AuctionOver');
+        });
+
+        it('Should enforce the reserve price and minimum increment', async function () {
+            await setNextTimestamp(startTime);
+            await expect(
+                membershipAuctions.connect(alice).bid(0, { value: reservePrice - 1n }),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__BidTooLow');
+
+            await expect(membershipAuctions.connect(alice).bid(0, { value: reservePrice }))
+                .to.emit(membershipAuctions, 'BidPlaced')
+                .withArgs(0, aliceAddress, reservePrice);
+
+            const minimumBid = await membershipAuctions.getMinimumBid(0);
+            expect(minimumBid).to.equal(ethers.parseEther('1.05'));
+            await expect(
+                membershipAuctions.connect(bob).bid(0, { value: minimumBid - 1n }),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__BidTooLow');
+        });
+
+        it('Should not let a bid equal to the highest bid displace it', async function () {
+            await membershipAuctions
+                .connect(host)
+                .createEnglishAuction(membership, 1, 500, startTime, duration);
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(1, { value: 1 });
+
+            // 5% of a one wei bid rounds down to nothing, so the next bid must still be higher
+            expect(await membershipAuctions.getMinimumBid(1)).to.equal(2);
+            await expect(
+                membershipAuctions.connect(bob).bid(1, { value: 1 }),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__BidTooLow');
+            await membershipAuctions.connect(bob).bid(1, { value: 2 });
+            expect((await membershipAuctions.getAuction(1)).highestBidder).to.equal(bobAddress);
+        });
+
+        it('Should escrow outbid bids for pull refunds', async function () {
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+            await membershipAuctions.connect(bob).bid(0, { value: ethers.parseEther('2') });
+
+            expect(await membershipAuctions.getPendingReturns(aliceAddress)).to.equal(reservePrice);
+            expect(await ethers.provider.getBalance(membershipAuctions)).to.equal(
+                reservePrice + ethers.parseEther('2'),
+            );
+
+            await expect(membershipAuctions.connect(alice).withdrawRefund()).to.changeEtherBalances(
+                [alice, membershipAuctions],
+                [reservePrice, -reservePrice],
+            );
+            expect(await membershipAuctions.getPendingReturns(aliceAddress)).to.equal(0);
+            await expect(
+                membershipAuctions.connect(alice).withdrawRefund(),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__NoFundsToWithdraw',
+            );
+        });
+
+        it('Should mint to the winner and route fees on settlement', async function () {
+            const winningBid = ethers.parseEther('2');
+            const fees = (winningBid * protocolFeePercent) / 10000n;
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+            await membershipAuctions.connect(bob).bid(0, { value: winningBid });
+
+            await expect(membershipAuctions.settleAuction(0)).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__AuctionNotOver',
+            );
+
+            await setNextTimestamp(startTime + duration);
+            const settlement = membershipAuctions.connect(alice).settleAuction(0);
+            await expect(settlement)
+                .to.emit(membershipAuctions, 'AuctionSettled')
+                .withArgs(0, bobAddress, winningBid, fees, 1);
+            await expect(settlement).to.changeEtherBalances(
+                [membershipAuctions, protocolAddress, membership],
+                [-winningBid, fees, winningBid - fees],
+            );
+
+            expect(await membership.ownerOf(1)).to.equal(bobAddress);
+            expect(await membership.hasRole(await membership.FAN_ROLE(), bobAddress)).to.be.true;
+            expect(await membership.getReserveBalance()).to.equal(
+                ethers.parseEther('0.01') + winningBid - fees,
+            );
+            expect(await membership.getCurrentSupply()).to.equal(2);
+            expect(await ethers.provider.getBalance(membershipAuctions)).to.equal(reservePrice);
+
+            await expect(membershipAuctions.settleAuction(0)).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__AuctionAlreadySettled',
+            );
+        });
+
+        it('Should charge the fees of the group fee schedule', async function () {
+            const groupFeePercent = 500n;
+            const groupFeeSharePercent = 2000n;
+            const tiers = [
+                {
+                    volumeThreshold: 0,
+                    protocolFeePercent: groupFeePercent,
+                    feeSharePercent: groupFeeSharePercent,
+                },
+            ];
+            const { readyAt } = await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                await membership.getAddress(),
+                tiers,
+            ]);
+            const fees = (reservePrice * groupFeePercent) / 10000n;
+            const feeShare = (fees * groupFeeSharePercent) / 10000n;
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+
+            // The schedule is set once the auction is over, and applies when it is settled
+            await setNextTimestamp(readyAt);
+            await alphaMarketBase.setFeeSchedule(membership, tiers);
+            const settlement = membershipAuctions.settleAuction(0);
+            await expect(settlement)
+                .to.emit(membershipAuctions, 'AuctionSettled')
+                .withArgs(0, aliceAddress, reservePrice, fees - feeShare, 1);
+            await expect(settlement).to.changeEtherBalances(
+                [protocolAddress, membership],
+                [fees - feeShare, reservePrice - fees + feeShare],
+            );
+
+            expect(await membership.getHostReserveBalance()).to.equal(feeShare);
+            expect(await alphaMarketBase.getRecordedVolume(membership)).to.equal(reservePrice);
+        });
+
+        it('Should refund the winning bid when the group refuses the mint', async function () {
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+            await membership.pause();
+
+            await setNextTimestamp(startTime + duration);
+            await expect(membershipAuctions.settleAuction(0))
+                .to.emit(membershipAuctions, 'AuctionRefunded')
+                .withArgs(0, aliceAddress, reservePrice);
+            expect((await membershipAuctions.getAuction(0)).settled).to.be.true;
+            expect(await membership.getCurrentSupply()).to.equal(1);
+            await expect(membershipAuctions.connect(alice).withdrawRefund()).to.changeEtherBalance(
+                alice,
+                reservePrice,
+            );
+        });
+
+        it('Should refund the winning bid when the auctioneer role was revoked', async function () {
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+            await membership
+                .connect(host)
+                .revokeRole(await membership.AUCTIONEER_ROLE(), membershipAuctions);
+
+            await setNextTimestamp(startTime + duration);
+            await expect(membershipAuctions.settleAuction(0))
+                .to.emit(membershipAuctions, 'AuctionRefunded')
+                .withArgs(0, aliceAddress, reservePrice);
+            expect(await membershipAuctions.getPendingReturns(aliceAddress)).to.equal(reservePrice);
+        });
+
+        it('Should refund the winning bid past the maximum supply of the base tier', async function () {
+            await membership.connect(host).setPricing({
+                model: 3,
+                initialCost: ethers.parseEther('0.01'),
+                slope: 0,
+                maxSupply: 1,
+            });
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+
+            await setNextTimestamp(startTime + duration);
+            await expect(membershipAuctions.settleAuction(0))
+                .to.emit(membershipAuctions, 'AuctionRefunded')
+                .withArgs(0, aliceAddress, reservePrice);
+            expect(await membership.getCurrentSupply()).to.equal(1);
+        });
+
+        it('Should settle without minting when nobody bid', async function () {
+            await setNextTimestamp(startTime + duration);
+            await expect(membershipAuctions.settleAuction(0))
+                .to.emit(membershipAuctions, 'AuctionSettled')
+                .withArgs(0, ethers.ZeroAddress, 0, 0, 0);
+
+            expect(await membership.getCurrentSupply()).to.equal(1);
+        });
+
+        it('Should only let the host cancel an auction without bids', async function () {
+            await expect(
+                membershipAuctions.connect(alice).cancelAuction(0),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__OnlyHost');
+
+            await setNextTimestamp(startTime);
+            await membershipAuctions.connect(alice).bid(0, { value: reservePrice });
+            await expect(
+                membershipAuctions.connect(host).cancelAuction(0),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__AuctionHasBids',
+            );
+
+            await membershipAuctions
+                .connect(host)
+                .createEnglishAuction(
+                    membership,
+                    reservePrice,
+                    500,
+                    await nextStartTime(),
+                    duration,
+                );
+            await expect(membershipAuctions.connect(host).cancelAuction(1))
+                .to.emit(membershipAuctions, 'AuctionCancelled')
+                .withArgs(1);
+            expect((await membershipAuctions.getAuction(1)).settled).to.be.true;
+        });
+    });
+
+    describe('Dutch auctions', function () {
+        const startPrice = ethers.parseEther('2');
+        const endPrice = ethers.parseEther('1');
+        let startTime: bigint;
+
+        beforeEach(async function () {
+            startTime = await nextStartTime();
+            await membershipAuctions
+                .connect(host)
+                .createDutchAuction(membership, startPrice, endPrice, startTime, duration);
+        });
+
+        it('Should decay the price linearly to the floor', async function () {
+            expect(await membershipAuctions.getCurrentPrice(0)).to.equal(startPrice);
+
+            await setNextTimestamp(startTime + duration / 4n);
+            await ethers.provider.send('evm_mine', []);
+            expect(await membershipAuctions.getCurrentPrice(0)).to.equal(ethers.parseEther('1.75'));
+
+            await setNextTimestamp(startTime + duration * 2n);
+            await ethers.provider.send('evm_mine', []);
+            expect(await membershipAuctions.getCurrentPrice(0)).to.equal(endPrice);
+        });
+
+        it('Should sell at the current price and escrow the overpayment', async function () {
+            const price = ethers.parseEther('1.5');
+            const fees = (price * protocolFeePercent) / 10000n;
+            await setNextTimestamp(startTime + duration / 2n);
+
+            const purchase = membershipAuctions.connect(alice).buy(0, { value: startPrice });
+            await expect(purchase)
+                .to.emit(membershipAuctions, 'AuctionSettled')
+                .withArgs(0, aliceAddress, price, fees, 1);
+            await expect(purchase).to.changeEtherBalances(
+                [alice, protocolAddress, membership],
+                [-startPrice, fees, price - fees],
+            );
+
+            expect(await membership.ownerOf(1)).to.equal(aliceAddress);
+            expect(await membershipAuctions.getPendingReturns(aliceAddress)).to.equal(
+                startPrice - price,
+            );
+            await expect(
+                membershipAuctions.connect(bob).buy(0, { value: startPrice }),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__AuctionAlreadySettled',
+            );
+        });
+
+        it('Should revert the purchase when the group refuses the mint', async function () {
+            await membership.pause();
+            await setNextTimestamp(startTime);
+
+            await expect(
+                membershipAuctions.connect(alice).buy(0, { value: startPrice }),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__SettlementFailed',
+            );
+            expect((await membershipAuctions.getAuction(0)).settled).to.be.false;
+        });
+
+        it('Should reject payments below the current price and English-only calls', async function () {
+            await setNextTimestamp(startTime);
+            await expect(
+                membershipAuctions.connect(alice).buy(0, { value: endPrice }),
+            ).to.be.revertedWithCustomError(membershipAuctions, 'MembershipAuctions__BidTooLow');
+            await expect(
+                membershipAuctions.connect(alice).bid(0, { value: startPrice }),
+            ).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__WrongAuctionKind',
+            );
+            await expect(membershipAuctions.settleAuction(0)).to.be.revertedWithCustomError(
+                membershipAuctions,
+                'MembershipAuctions__WrongAuctionKind',
+            );
+        });
+    });
+});
@@ -0,0 +1,442 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { GroupMembershipNFT, MembershipPricingEngine } from '../typechain-types';
+import { membershipPricing } from '../sdk';
+
+const { PricingModel, getBuyQuote, getCumulativeCost, getDefaultPricing, getPrice, getSellQuote } =
+    membershipPricing;
+type PricingParams = membershipPricing.PricingParams;
+
+// Deterministic generator of random bigints in [min, max], so failing cases can be replayed.
+function createRandom(seed: number) {
+    let state = BigInt(seed);
+    return (min: bigint, max: bigint) => {
+        state = (state * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+        return min + ((state >> 16n) % (max - min + 1n));
+    };
+}
+
+// Pricing of every model, with the default quadratic pricing of the engine deployed below.
+const models: Record<string, PricingParams> = {
+    quadratic: getDefaultPricing(ethers.parseEther('0.01'), 100n),
+    linear: {
+        model: PricingModel.Linear,
+        initialCost: ethers.parseEther('0.02'),
+        slope: ethers.parseEther('0.003'),
+        maxSupply: 0n,
+    },
+    logarithmic: {
+        model: PricingModel.Logarithmic,
+        initialCost: ethers.parseEther('0.05'),
+        slope: ethers.parseEther('0.04'),
+        maxSupply: 0n,
+    },
+    flatWithCap: {
+        model: PricingModel.FlatWithCap,
+        initialCost: ethers.parseEther('0.1'),
+        slope: 0n,
+        maxSupply: 500n,
+    },
+};
+
+describe('MembershipPricingEngine', function () {
+    let pricingEngine: MembershipPricingEngine;
+    let membership: GroupMembershipNFT;
+    let protocol: Signer;
+    let host: Signer;
+    let user: Signer;
+    let membershipAddress: string;
+
+    beforeEach(async function () {
+        [protocol, host, user] = await ethers.getSigners();
+        const protocolAddress = await protocol.getAddress();
+
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocolAddress, protocolAddress, 500, 1000],
+            { initializer: 'initialize' },
+        );
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocolAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+        membership = await (
+            await ethers.getContractFactory('GroupMembershipNFT')
+        ).deploy(
+            'Membership',
+            'MBR',
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            await host.getAddress(),
+            protocolAddress,
+            ethers.parseEther('1'),
+            1000,
+        );
+        await membership.mintGenesisMembership(await host.getAddress(), {
+            value: ethers.parseEther('0.01'),
+        });
+        membershipAddress = await membership.getAddress();
+    });
+
+    describe('Pricing models', function () {
+        it('Should keep pricing groups without a model with the quadratic curve', async function () {
+            for (let supply = 0n; supply < 5n; supply++) {
+                const cost =
+                    ethers.parseEther('0.01') + supply * supply * ethers.parseEther('0.01');
+                expect(await pricingEngine.getMembershipCost(supply)).to.equal(cost);
+                expect(await pricingEngine.getBuyQuote(membershipAddress, supply, 1)).to.equal(
+                    cost,
+                );
+            }
+        });
+
+        it('Should quote every model like the reference model', async function () {
+            const random = createRandom(1);
+            for (const [name, params] of Object.entries(models)) {
+                if (params.model !== PricingModel.Quadratic) {
+                    await pricingEngine.setGroupPricing(membershipAddress, params);
+                }
+                expect(await pricingEngine.getGroupPricing(membershipAddress)).to.deep.equal(
+                    Object.values(params),
+                );
+                for (let i = 0; i < 6; i++) {
+                    const supply = random(1n, 300n);
+                    const amount = random(1n, supply);
+                    const reserve = random(0n, ethers.parseEther('1000'));
+
+                    expect(await pricingEngine.getPrice(membershipAddress, supply), name).to.equal(
+                        getPrice(params, supply),
+                    );
+                    expect(
+                        await pricingEngine.getCumulativeCost(membershipAddress, supply),
+                        name,
+                    ).to.equal(getCumulativeCost(params, supply));
+                    expect(
+                        await pricingEngine.getBuyQuote(membershipAddress, supply, amount),
+                        name,
+                    ).to.equal(getBuyQuote(params, supply, amount));
+                    expect(
+                        await pricingEngine.getSellQuote(
+                            membershipAddress,
+                            supply,
+                            reserve,
+                            amount,
+                        ),
+                        name,
+                    ).to.equal(getSellQuote(params, supply, reserve, amount));
+                }
+            }
+        });
+
+        it('Should price N memberships as the sum of their prices', function () {
+            const random = createRandom(2);
+            for (const [name, params] of Object.entries(models)) {
+                for (let i = 0; i < 100; i++) {
+                    const supply = random(0n, 400n);
+                    const amount = random(1n, 100n);
+                    let sum = 0n;
+                    for (let j = 0n; j < amount; j++) {
+                        sum += getPrice(params, supply + j);
+                    }
+
+                    expect(getBuyQuote(params, supply, amount), name).to.equal(sum);
+                }
+            }
+        });
+
+        it('Should return the price paid when the reserve holds the cumulative cost', function () {
+            const random = createRandom(3);
+            for (const [name, params] of Object.entries(models)) {
+                for (let i = 0; i < 100; i++) {
+                    const supply = random(1n, 500n);
+                    const amount = random(1n, supply);
+                    const reserve = getCumulativeCost(params, supply);
+
+                    expect(getSellQuote(params, supply, reserve, amount), name).to.equal(
+                        getBuyQuote(params, supply - amount, amount),
+                    );
+                }
+            }
+        });
+    });
+
+    describe('Selling everything', function () {
+        // Mirrors the membership reserve of GroupMembershipNFT, which moves part of the reserve to the community
+        // reserve past a threshold and so holds less than the cumulative cost of the supply.
+        it('Should never leave the membership reserve negative', function () {
+            const random = createRandom(4);
+            for (const [name, params] of Object.entries(models)) {
+                for (let run = 0; run < 25; run++) {
+                    const threshold = random(0n, ethers.parseEther('5'));
+                    const splitPercent = random(0n, 5000n);
+                    const protocolFeePercent = random(0n, 1000n);
+                    let supply = 0n;
+                    let reserve = 0n;
+
+                    const purchases = random(1n, 60n);
+                    for (let i = 0n; i < purchases; i++) {
+                        const cost = getBuyQuote(params, supply, 1n);
+                        supply += 1n;
+                        reserve += cost - (cost * protocolFeePercent) / 10_000n;
+                        if (reserve >= threshold) {
+                            reserve -= (reserve * splitPercent) / 10_000n;
+                        }
+                    }
+
+                    while (supply > 0n) {
+                        const amount = random(1n, supply);
+                        const value = getSellQuote(params, supply, reserve, amount);
+                        reserve -= value;
+                        supply -= amount;
+
+                        expect(reserve >= 0n, `${name} run ${run}`).to.be.true;
+                    }
+                    expect(reserve, `${name} run ${run}`).to.equal(0n);
+                }
+            }
+        });
+    });
+
+    describe('Edge cases', function () {
+        it('Should reject quotes for no memberships or more memberships than the supply', async function () {
+            await expect(
+                pricingEngine.getSellQuote(membershipAddress, 0, 0, 1),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidAmount',
+            );
+            await expect(
+                pricingEngine.getSellQuote(membershipAddress, 2, ethers.parseEther('1'), 3),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidAmount',
+            );
+            await expect(
+                pricingEngine.getBuyQuote(membershipAddress, 2, 0),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidAmount',
+            );
+            expect(await pricingEngine.getMembershipValue(ethers.parseEther('1'), 0)).to.equal(0);
+        });
+
+        it('Should stop purchases at the cap of the group', async function () {
+            await pricingEngine.setGroupPricing(membershipAddress, models.flatWithCap);
+
+            expect(await pricingEngine.getBuyQuote(membershipAddress, 499, 1)).to.equal(
+                ethers.parseEther('0.1'),
+            );
+            await expect(
+                pricingEngine.getBuyQuote(membershipAddress, 499, 2),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__MaxSupplyExceeded',
+            );
+        });
+
+        it('Should reject uncapped flat pricing and curves without a slope', async function () {
+            for (const params of [
+                { ...models.flatWithCap, maxSupply: 0n },
+                { ...models.linear, slope: 0n },
+            ]) {
+                await expect(
+                    pricingEngine.setGroupPricing(membershipAddress, params),
+                ).to.be.revertedWithCustomError(
+                    pricingEngine,
+                    'MembershipPricingEngine__InvalidPricingParams',
+                );
+            }
+            await expect(pricingEngine.setInitialCost(0)).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidPricingParams',
+            );
+        });
+    });
+
+    describe('setGroupPricing', function () {
+        it('Should let the host select the pricing of its group', async function () {
+            await expect(membership.connect(host).setPricing(models.linear))
+                .to.emit(pricingEngine, 'GroupPricingUpdated')
+                .withArgs(membershipAddress, Object.values(models.linear));
+
+            const cost = getBuyQuote(models.linear, 1n, 1n);
+            await membership.connect(user).purchaseMembership({ value: cost });
+            expect(await pricingEngine.getBuyQuote(membershipAddress, 2, 1)).to.equal(
+                getPrice(models.linear, 2n),
+            );
+        });
+
+        it('Should reset a group to the default pricing', async function () {
+            await pricingEngine.setGroupPricing(membershipAddress, models.logarithmic);
+            await pricingEngine.setGroupPricing(membershipAddress, {
+                ...models.logarithmic,
+                initialCost: 0n,
+            });
+
+            expect(await pricingEngine.getGroupPricing(membershipAddress)).to.deep.equal(
+                Object.values(models.quadratic),
+            );
+        });
+
+        it('Should keep pricing a group that sold memberships when the defaults change', async function () {
+            const cost = getBuyQuote(models.quadratic, 1n, 1n);
+            await membership.connect(user).purchaseMembership({ value: cost });
+            await pricingEngine.setInitialCost(ethers.parseEther('1'));
+            await pricingEngine.setScalingFactor(5000);
+
+            expect(await pricingEngine.getGroupPricing(membershipAddress)).to.deep.equal(
+                Object.values(models.quadratic),
+            );
+            expect(await pricingEngine.getBuyQuote(membershipAddress, 2, 1)).to.equal(
+                getPrice(models.quadratic, 2n),
+            );
+            expect(
+                await pricingEngine.getSellQuote(
+                    membershipAddress,
+                    2,
+                    cost + models.quadratic.initialCost,
+                    1,
+                ),
+            ).to.equal(cost);
+            expect(await pricingEngine.getMembershipCost(0)).to.equal(ethers.parseEther('1'));
+
+            // Storing the defaults again leaves the stored pricing unchanged
+            await pricingEngine.storeDefaultPricing(membershipAddress);
+            expect(await pricingEngine.getGroupPricing(membershipAddress)).to.deep.equal(
+                Object.values(models.quadratic),
+            );
+            await expect(
+                pricingEngine.connect(user).storeDefaultPricing(membershipAddress),
+            ).to.be.revertedWithCustomError(pricingEngine, 'MembershipPricingEngine__Unauthorized');
+        });
+
+        it('Should reject accounts other than the owner and the group', async function () {
+            await expect(
+                pricingEngine.connect(user).setGroupPricing(membershipAddress, models.linear),
+            ).to.be.revertedWithCustomError(pricingEngine, 'MembershipPricingEngine__Unauthorized');
+            await expect(
+                membership.connect(user).setPricing(models.linear),
+            ).to.be.revertedWithCustomError(membership, 'AccessControlUnauthorizedAccount');
+        });
+
+        it('Should lock the group pricing once memberships other than the genesis one are sold', async function () {
+            await membership
+                .connect(user)
+                .purchaseMembership({ value: getBuyQuote(models.quadratic, 1n, 1n) });
+
+            await expect(
+                membership.connect(host).setPricing(models.linear),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__PricingLocked',
+            );
+            await expect(
+                pricingEngine.setGroupPricing(membershipAddress, models.linear),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__PricingLocked',
+            );
+        });
+    });
+
+    describe('setTierPricing', function () {
+        it('Should price each tier with its own pricing, or like its group', async function () {
+            await pricingEngine.setGroupPricing(membershipAddress, models.logarithmic);
+            await expect(pricingEngine.setTierPricing(membershipAddress, 1, models.linear))
+                .to.emit(pricingEngine, 'TierPricingUpdated')
+                .withArgs(membershipAddress, 1, Object.values(models.linear));
+
+            for (const [tier, params] of [
+                [0, models.logarithmic],
+                [1, models.linear],
+                [2, models.logarithmic],
+            ] as [number, PricingParams][]) {
+                expect(await pricingEngine.getTierPricing(membershipAddress, tier)).to.deep.equal(
+                    Object.values(params),
+                );
+                expect(await pricingEngine.getTierPrice(membershipAddress, tier, 7)).to.equal(
+                    getPrice(params, 7n),
+                );
+                expect(await pricingEngine.getTierBuyQuote(membershipAddress, tier, 7, 3)).to.equal(
+                    getBuyQuote(params, 7n, 3n),
+                );
+                expect(
+                    await pricingEngine.getTierSellQuote(
+                        membershipAddress,
+                        tier,
+                        7,
+                        ethers.parseEther('1'),
+                        3,
+                    ),
+                ).to.equal(getSellQuote(params, 7n, ethers.parseEther('1'), 3n));
+            }
+
+            await pricingEngine.setTierPricing(membershipAddress, 1, {
+                ...models.linear,
+                initialCost: 0n,
+            });
+            expect(await pricingEngine.getTierPricing(membershipAddress, 1)).to.deep.equal(
+                Object.values(models.logarithmic),
+            );
+        });
+
+        it('Should reject the base tier, invalid pricing and other accounts', async function () {
+            await expect(
+                pricingEngine.setTierPricing(membershipAddress, 0, models.linear),
+            ).to.be.revertedWithCustomError(pricingEngine, 'MembershipPricingEngine__InvalidTier');
+            await expect(
+                pricingEngine.setTierPricing(membershipAddress, 1, { ...models.linear, slope: 0n }),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__InvalidPricingParams',
+            );
+            await expect(
+                pricingEngine.connect(user).setTierPricing(membershipAddress, 1, models.linear),
+            ).to.be.revertedWithCustomError(pricingEngine, 'MembershipPricingEngine__Unauthorized');
+        });
+
+        it('Should lock the pricing of a tier once it has sold memberships', async function () {
+            const tier = {
+                name: 'Gold',
+                benefits: 'Early access to every drop',
+                duration: 0n,
+                renewalPrice: 0n,
+            };
+            await membership.connect(host).addTier(tier, models.linear);
+            await membership.connect(host).addTier(tier, { ...models.linear, initialCost: 0n });
+            const cost = getBuyQuote(models.linear, 0n, 1n);
+            await membership.connect(user).purchaseTierMemberships(1, 1, cost, { value: cost });
+
+            await expect(
+                membership.connect(host).setTierPricing(1, models.logarithmic),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__PricingLocked',
+            );
+            await expect(
+                pricingEngine.setTierPricing(membershipAddress, 1, {
+                    ...models.linear,
+                    initialCost: 0n,
+                }),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__PricingLocked',
+            );
+            await membership.connect(host).setPricing(models.logarithmic);
+
+            // The second tier is priced like the group, so selling it locks the group pricing too
+            const groupCost = getBuyQuote(models.logarithmic, 0n, 1n);
+            await membership
+                .connect(user)
+                .purchaseTierMemberships(2, 1, groupCost, { value: groupCost });
+            await expect(
+                membership.connect(host).setPricing(models.linear),
+            ).to.be.revertedWithCustomError(
+                pricingEngine,
+                'MembershipPricingEngine__PricingLocked',
+            );
+        });
+    });
+});
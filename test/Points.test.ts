@@ -0,0 +1,290 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaCampaigns,
+    AlphaMarketPoints,
+    GroupMembershipNFT,
+    GroupToken,
+} from '../typechain-types';
+import {
+    buildPointsSnapshot,
+    computeEpochPoints,
+    DEFAULT_POINT_WEIGHTS,
+    EventIndexer,
+    getEpoch,
+    IndexerDatabase,
+} from '../indexer';
+
+describe('AlphaMarketPoints', function () {
+    let points: AlphaMarketPoints;
+    let groupToken: GroupToken;
+    let membership: GroupMembershipNFT;
+    let alphaCampaigns: AlphaCampaigns;
+    let host: Signer;
+    let hostAddress: string;
+    let fan: Signer;
+    let fanAddress: string;
+    let sponsor: Signer;
+    let sponsorAddress: string;
+    let db: IndexerDatabase;
+    let indexer: EventIndexer;
+    let genesis: number;
+    const epochLength = 86400;
+    const initialReserve = ethers.parseEther('0.0001');
+
+    beforeEach(async function () {
+        // Create signers for testing
+        const [protocol, hostSigner, fanSigner, sponsorSigner] = await ethers.getSigners();
+        host = hostSigner;
+        hostAddress = await host.getAddress();
+        fan = fanSigner;
+        fanAddress = await fan.getAddress();
+        sponsor = sponsorSigner;
+        sponsorAddress = await sponsor.getAddress();
+        const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+        // Deploy the AlphaMarketBase, ExponentialBondingCurve and MembershipPricingEngine contracts
+        const alphaMarketBase = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocol.address, protocol.address, 1000, 0],
+            { initializer: 'initialize' },
+        );
+        const bondingCurve = await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocol.address, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        );
+        const pricingEngine = await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocol.address, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        );
+
+        // Deploy the GroupFactory and AlphaCampaigns contracts and launch a group
+        const groupFactory = await (
+            await ethers.getContractFactory('GroupFactory')
+        ).deploy(
+            await bondingCurve.getAddress(),
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            protocol.address,
+        );
+        alphaCampaigns = await (
+            await ethers.getContractFactory('AlphaCampaigns')
+        ).deploy(await alphaMarketBase.getAddress(), ethers.ZeroAddress);
+        await groupFactory
+            .connect(host)
+            .createGroup('Alpha', 'A', 'Alpha Membership', 'AM', ethers.parseEther('1'), 1000, {
+                value: await groupFactory.getInitialReserve(),
+            });
+        const group = await groupFactory.getGroup(0);
+        groupToken = await ethers.getContractAt('GroupToken', group.groupToken);
+        membership = await ethers.getContractAt('GroupMembershipNFT', group.membership);
+
+        // Deploy the AlphaMarketPoints contract with epochs starting after the group launch
+        genesis = (await ethers.provider.getBlock('latest'))!.timestamp + 100;
+        points = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketPoints'),
+            [protocol.address, genesis, epochLength, DEFAULT_POINT_WEIGHTS],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketPoints;
+
+        db = new IndexerDatabase(':memory:', [3600]);
+        indexer = new EventIndexer(
+            ethers.provider,
+            db,
+            {
+                campaigns: [await alphaCampaigns.getAddress()],
+                groupFactories: [await groupFactory.getAddress()],
+            },
+            { startBlock },
+        );
+    });
+
+    afterEach(function () {
+        db.close();
+    });
+
+    // Moves the chain to `offset` seconds after genesis for the next block.
+    async function at(offset: number) {
+        await ethers.provider.send('evm_setNextBlockTimestamp', [genesis + offset]);
+    }
+
+    // Mints, buys a membership, sponsors and tips during the first half of epoch zero.
+    async function interact() {
+        await at(10);
+        await groupToken.connect(fan).mintTokens({ value: ethers.parseEther('1') });
+        await at(epochLength / 2);
+        await membership.connect(fan).purchaseMembership({ value: ethers.parseEther('0.02') });
+
+        const slotPrice = ethers.parseEther('0.1');
+        await at(epochLength / 2 + 100);
+        await alphaCampaigns
+            .connect(host)
+            .createCampaign(genesis + epochLength, slotPrice, host, 1);
+        const [event] = await alphaCampaigns.queryFilter(alphaCampaigns.filters.CampaignCreated());
+        const campaignId = event.args.campaignId;
+        await alphaCampaigns
+            .connect(sponsor)
+            .requestToSponsor(campaignId, sponsorAddress, { value: slotPrice });
+        await alphaCampaigns.connect(host).acceptSponsor(campaignId, sponsorAddress);
+        await alphaCampaigns
+            .connect(fan)
+            .tipCampaign(campaignId, { value: ethers.parseEther('0.01') });
+
+        // Finish epoch one and index everything up to the new head
+        await at(2 * epochLength + 1);
+        await ethers.provider.send('evm_mine', []);
+        await indexer.backfill();
+    }
+
+    describe('Epochs', function () {
+        it('Should only publish the root of a finished epoch once', async function () {
+            const root = ethers.id('root');
+
+            await expect(points.publishEpochRoot(0, root)).to.be.revertedWithCustomError(
+                points,
+                'AlphaMarketPoints__EpochNotOver',
+            );
+
+            await at(epochLength);
+            await expect(points.publishEpochRoot(0, ethers.ZeroHash)).to.be.revertedWithCustomError(
+                points,
+                'AlphaMarketPoints__EpochRootCannotBeZero',
+            );
+            await expect(points.publishEpochRoot(0, root))
+                .to.emit(points, 'EpochRootPublished')
+                .withArgs(0, root);
+            expect(await points.getEpochRoot(0)).to.equal(root);
+            expect(await points.getCurrentEpoch()).to.equal(1);
+            await expect(points.publishEpochRoot(0, root)).to.be.revertedWithCustomError(
+                points,
+                'AlphaMarketPoints__EpochRootAlreadyPublished',
+            );
+        });
+
+        it('Should only let the owner publish roots and update weights', async function () {
+            await at(epochLength);
+            await expect(
+                points.connect(fan).publishEpochRoot(0, ethers.id('root')),
+            ).to.be.revertedWithCustomError(points, 'OwnableUnauthorizedAccount');
+            await expect(
+                points.connect(fan).setPointWeights(DEFAULT_POINT_WEIGHTS),
+            ).to.be.revertedWithCustomError(points, 'OwnableUnauthorizedAccount');
+
+            const weights = { ...DEFAULT_POINT_WEIGHTS, tip: 5000n };
+            await expect(points.setPointWeights(weights)).to.emit(points, 'PointWeightsUpdated');
+            expect((await points.getPointWeights()).tip).to.equal(5000n);
+        });
+    });
+
+    describe('Snapshots', function () {
+        it('Should compute weighted points from indexed events', async function () {
+            await interact();
+
+            const entries = computeEpochPoints(
+                db,
+                getEpoch(0, genesis, epochLength),
+                DEFAULT_POINT_WEIGHTS,
+            );
+            const fanPoints = entries.find((entry) => entry.account === fanAddress)!;
+            const sponsorPoints = entries.find((entry) => entry.account === sponsorAddress)!;
+            const hostPoints = entries.find((entry) => entry.account === hostAddress)!;
+
+            // 1 ETH minted, one membership held for half a day and 0.01 ETH tipped.
+            expect(fanPoints.tokenMint).to.equal(1000n);
+            expect(fanPoints.membershipPurchase).to.equal(100n);
+            expect(fanPoints.membershipHolding).to.equal(5n);
+            expect(fanPoints.tip).to.equal(10n);
+            expect(fanPoints.total).to.equal(1115n);
+            // 0.1 ETH sponsorship.
+            expect(sponsorPoints.sponsorship).to.equal(200n);
+            // The genesis membership held for the whole day.
+            expect(hostPoints.membershipHolding).to.equal(10n);
+            expect(entries.map((entry) => entry.account)).to.deep.equal([
+                fanAddress,
+                sponsorAddress,
+                hostAddress,
+            ]);
+        });
+
+        it('Should keep rewarding memberships held in later epochs', async function () {
+            await interact();
+
+            const entries = computeEpochPoints(
+                db,
+                getEpoch(1, genesis, epochLength),
+                DEFAULT_POINT_WEIGHTS,
+            );
+
+            expect(entries.map((entry) => entry.account)).to.have.members([
+                fanAddress,
+                hostAddress,
+            ]);
+            for (const entry of entries) {
+                expect(entry.membershipHolding).to.equal(10n);
+                expect(entry.total).to.equal(10n);
+            }
+        });
+
+        it('Should store per-epoch leaderboards', async function () {
+            await interact();
+            for (const index of [0, 1]) {
+                const epoch = getEpoch(index, genesis, epochLength);
+                db.savePoints(index, computeEpochPoints(db, epoch, DEFAULT_POINT_WEIGHTS));
+            }
+
+            expect(db.getLeaderboard(0).map((entry) => entry.total)).to.deep.equal([
+                1115n,
+                200n,
+                10n,
+            ]);
+            expect(db.getLeaderboard(0, 1)).to.have.length(1);
+            expect(db.getLeaderboard(1).map((entry) => entry.account)).to.have.members([
+                fanAddress,
+                hostAddress,
+            ]);
+            expect(db.getLeaderboard(2)).to.be.empty;
+        });
+
+        it('Should let accounts claim their points against the published root', async function () {
+            await interact();
+            const entries = computeEpochPoints(
+                db,
+                getEpoch(0, genesis, epochLength),
+                DEFAULT_POINT_WEIGHTS,
+            );
+            const snapshot = buildPointsSnapshot(0, entries);
+            const fanClaim = snapshot.claims[fanAddress];
+
+            await expect(
+                points.claimPoints(0, fanAddress, fanClaim.points, fanClaim.proof),
+            ).to.be.revertedWithCustomError(points, 'AlphaMarketPoints__EpochRootNotPublished');
+            await points.publishEpochRoot(0, snapshot.root);
+
+            await expect(
+                points.claimPoints(0, fanAddress, BigInt(fanClaim.points) + 1n, fanClaim.proof),
+            ).to.be.revertedWithCustomError(points, 'AlphaMarketPoints__InvalidProof');
+            await expect(points.claimPoints(0, fanAddress, fanClaim.points, fanClaim.proof))
+                .to.emit(points, 'PointsClaimed')
+                .withArgs(0, fanAddress, 1115n);
+            const sponsorClaim = snapshot.claims[sponsorAddress];
+            await points
+                .connect(sponsor)
+                .claimPoints(0, sponsorAddress, sponsorClaim.points, sponsorClaim.proof);
+            const hostClaim = snapshot.claims[hostAddress];
+            await points
+                .connect(host)
+                .claimPoints(0, hostAddress, hostClaim.points, hostClaim.proof);
+
+            expect(await points.getPoints(fanAddress)).to.equal(1115n);
+            expect(await points.getPoints(sponsorAddress)).to.equal(200n);
+            expect(await points.getTotalPoints()).to.equal(snapshot.total);
+            expect(await points.isClaimed(0, fanAddress)).to.be.true;
+            await expect(
+                points.claimPoints(0, fanAddress, fanClaim.points, fanClaim.proof),
+            ).to.be.revertedWithCustomError(points, 'AlphaMarketPoints__PointsAlreadyClaimed');
+        });
+    });
+});
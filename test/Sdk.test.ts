@@ -0,0 +1,255 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    AlphaCampaigns,
+    AlphaMarketBase,
+    ExponentialBondingCurve,
+    GroupMembershipNFT,
+    GroupToken,
+    MembershipPricingEngine,
+} from '../typechain-types';
+import {
+    CampaignsClient,
+    CampaignsError,
+    DeploymentIds,
+    GroupTokenClient,
+    GroupTokenError,
+    MembershipClient,
+} from '../sdk';
+
+describe('SDK', function () {
+    let alphaMarketBase: AlphaMarketBase;
+    let bondingCurve: ExponentialBondingCurve;
+    let groupToken: GroupToken;
+    let alphaCampaigns: AlphaCampaigns;
+    let pricingEngine: MembershipPricingEngine;
+    let membership: GroupMembershipNFT;
+    let protocol: Signer;
+    let host: Signer;
+    let user: Signer;
+    const initialReserve = ethers.parseEther('0.0001');
+
+    beforeEach(async function () {
+        [protocol, host, user] = await ethers.getSigners();
+        const protocolAddress = await protocol.getAddress();
+        const hostAddress = await host.getAddress();
+
+        // Deploy the AlphaMarketTreasury and AlphaMarketBase contracts
+        const treasury = await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketTreasury'),
+            [protocolAddress],
+            { initializer: 'initialize' },
+        );
+        const treasuryAddress = await treasury.getAddress();
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocolAddress, treasuryAddress, 1000, 0],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+
+        // Deploy the ExponentialBondingCurve contract and a GroupToken priced against it
+        bondingCurve = (await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocolAddress, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+        groupToken = await (
+            await ethers.getContractFactory('GroupToken')
+        ).deploy('Group', 'GRP', await bondingCurve.getAddress(), hostAddress, ethers.ZeroAddress, {
+            value: initialReserve,
+        });
+
+        // Deploy the AlphaCampaigns contract
+        alphaCampaigns = await (
+            await ethers.getContractFactory('AlphaCampaigns')
+        ).deploy(await alphaMarketBase.getAddress(), ethers.ZeroAddress);
+
+        // Deploy the MembershipPricingEngine and GroupMembershipNFT contracts
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocolAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+        membership = await (
+            await ethers.getContractFactory('GroupMembershipNFT')
+        ).deploy(
+            'Membership',
+            'MBR',
+            await alphaMarketBase.getAddress(),
+            await pricingEngine.getAddress(),
+            hostAddress,
+            protocolAddress,
+            ethers.parseEther('1'),
+            1000,
+        );
+        await membership.mintGenesisMembership(hostAddress, { value: ethers.parseEther('0.01') });
+    });
+
+    describe('GroupTokenClient', function () {
+        it('Should mint the quoted amount of tokens and return the TokensPurchased event', async function () {
+            const client = await GroupTokenClient.connect(await groupToken.getAddress(), user);
+            const value = ethers.parseEther('0.01');
+
+            const quote = await client.quoteMint(value);
+            const { event } = await client.mint(value);
+
+            expect(event.buyer).to.equal(await user.getAddress());
+            expect(event.amountSpent).to.equal(value);
+            expect(event.tokensMinted).to.equal(quote.tokensOut);
+            expect(event.fees).to.equal(quote.fees);
+            expect(await groupToken.balanceOf(await user.getAddress())).to.equal(quote.tokensOut);
+        });
+
+        it('Should burn tokens for the quoted amount of ether', async function () {
+            const client = await GroupTokenClient.connect(await groupToken.getAddress(), user);
+            const { event: purchase } = await client.mint(ethers.parseEther('0.01'));
+
+            const quote = await client.quoteBurn(purchase.tokensMinted);
+            const { event } = await client.burn(purchase.tokensMinted);
+
+            expect(event.seller).to.equal(await user.getAddress());
+            expect(event.amountReceived).to.equal(quote.etherOut);
+            expect(event.tokensBurnt).to.equal(purchase.tokensMinted);
+            expect(await groupToken.balanceOf(await user.getAddress())).to.equal(0);
+        });
+
+        it('Should decode custom errors into typed exceptions', async function () {
+            const client = await GroupTokenClient.connect(await groupToken.getAddress(), user);
+
+            const error = await client.mint(0n).catch((e) => e);
+
+            expect(error).to.be.instanceOf(GroupTokenError);
+            expect(error.contractName).to.equal('GroupToken');
+            expect(error.errorName).to.equal('GroupToken__AmountMustBeGreaterThanZero');
+        });
+
+        it('Should resolve the group token from the Ignition deployed addresses', async function () {
+            const deploymentsDir = mkdtempSync(join(tmpdir(), 'deployments-'));
+            mkdirSync(join(deploymentsDir, 'chain-1337'));
+            writeFileSync(
+                join(deploymentsDir, 'chain-1337/deployed_addresses.json'),
+                JSON.stringify({ [DeploymentIds.groupToken]: await groupToken.getAddress() }),
+            );
+
+            const client = await GroupTokenClient.fromDeployment(user, 1337, deploymentsDir);
+
+            expect(await client.groupToken.getAddress()).to.equal(await groupToken.getAddress());
+            expect(await client.bondingCurve.getAddress()).to.equal(
+                await bondingCurve.getAddress(),
+            );
+        });
+    });
+
+    describe('CampaignsClient', function () {
+        let client: CampaignsClient;
+        let campaignId: bigint;
+        const slotPrice = ethers.parseEther('0.1');
+
+        beforeEach(async function () {
+            client = await CampaignsClient.connect(await alphaCampaigns.getAddress(), host);
+            const deadline = (await ethers.provider.getBlock('latest'))!.timestamp + 3600;
+
+            const { event } = await client.createCampaign({
+                deadline,
+                slotPrice,
+                host: await host.getAddress(),
+                slotsAvailable: 1,
+            });
+            campaignId = event.campaignId;
+        });
+
+        it('Should return the CampaignCreated event with the new campaign ID', async function () {
+            const campaign = await client.getCampaign(campaignId);
+
+            expect(campaign.host).to.equal(await host.getAddress());
+            expect(campaign.slotPrice).to.equal(slotPrice);
+        });
+
+        it('Should run the sponsorship lifecycle and quote the host withdrawal', async function () {
+            const brandClient = await CampaignsClient.connect(
+                await alphaCampaigns.getAddress(),
+                user,
+            );
+            await brandClient.requestToSponsor(campaignId, await user.getAddress(), slotPrice);
+            const { event } = await client.acceptSponsor(campaignId, await user.getAddress());
+            expect(event.sponsor).to.equal(await user.getAddress());
+
+            await ethers.provider.send('evm_increaseTime', [3600]);
+            await ethers.provider.send('evm_mine', []);
+
+            const quote = await client.quoteWithdrawal(campaignId);
+            expect(quote.totalRaised).to.equal(slotPrice);
+            expect(quote.protocolFee).to.equal(slotPrice / 10n);
+
+            const hostBalance = await ethers.provider.getBalance(await host.getAddress());
+            const { receipt } = await client.withdrawFunds(campaignId);
+            const gasCost = receipt.gasUsed * receipt.gasPrice;
+            expect(await ethers.provider.getBalance(await host.getAddress())).to.equal(
+                hostBalance + quote.hostFunds - gasCost,
+            );
+        });
+
+        it('Should surface reverts as typed errors before sending the transaction', async function () {
+            const brandClient = await CampaignsClient.connect(
+                await alphaCampaigns.getAddress(),
+                user,
+            );
+            const nonce = await ethers.provider.getTransactionCount(await user.getAddress());
+
+            const error = await brandClient
+                .requestToSponsor(campaignId, await user.getAddress(), slotPrice / 2n)
+                .catch((e) => e);
+
+            expect(error).to.be.instanceOf(CampaignsError);
+            expect(error.errorName).to.equal('AlphaCampaigns__NotEnoughFundsToSponsor');
+            expect(await ethers.provider.getTransactionCount(await user.getAddress())).to.equal(
+                nonce,
+            );
+        });
+    });
+
+    describe('MembershipClient', function () {
+        it('Should purchase a membership at the quoted cost', async function () {
+            const client = await MembershipClient.connect(await membership.getAddress(), user);
+
+            const quote = await client.quotePurchase();
+            const { event } = await client.purchase();
+
+            expect(quote.cost).to.equal(await pricingEngine.getMembershipCost(1));
+            expect(event.buyer).to.equal(await user.getAddress());
+            expect(event.amountSpent).to.equal(quote.cost);
+            expect(await membership.ownerOf(event.tokensMinted)).to.equal(await user.getAddress());
+        });
+
+        it('Should buy, renew and sell memberships of a tier', async function () {
+            const duration = 30n * 24n * 3600n;
+            const renewalPrice = ethers.parseEther('0.05');
+            await membership
+                .connect(host)
+                .addTier(
+                    { name: 'Gold', benefits: '', duration, renewalPrice },
+                    { model: 1, initialCost: ethers.parseEther('0.1'), slope: 1n, maxSupply: 0n },
+                );
+            const client = await MembershipClient.connect(await membership.getAddress(), user);
+
+            const { quote, event } = await client.purchase(1);
+            expect(quote.cost).to.equal(ethers.parseEther('0.1'));
+            expect((await membership.getMembership(event.tokensMinted)).tier).to.equal(1);
+
+            const { expiresAt } = await membership.getMembership(event.tokensMinted);
+            const renewal = await client.renew(event.tokensMinted);
+            expect(renewal.renewalPrice).to.equal(renewalPrice);
+            expect(renewal.event.expiresAt).to.equal(expiresAt + duration);
+
+            // Selling the only membership of the tier returns its whole reserve
+            const { reserveBalance } = await membership.getTier(1);
+            const sale = await client.sell(event.tokensMinted);
+            expect(sale.quote.saleReturn).to.equal(reserveBalance);
+            expect(sale.event.amountReceived).to.equal(sale.quote.proceeds);
+        });
+    });
+});
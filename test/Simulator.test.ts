@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    AgentSpec,
+    HardhatMarket,
+    MarketParams,
+    ModelMarket,
+    runSimulation,
+    SimulationOptions,
+    SimulationResult,
+    sweep,
+    toCsv,
+    writeReports,
+} from '../simulator';
+
+describe('Simulator', function () {
+    const params: MarketParams = {
+        reserveRatio: 500000n,
+        initialReserve: ethers.parseEther('0.0001'),
+        protocolFeePercent: 500n,
+        feeSharePercent: 2000n,
+    };
+    const population: AgentSpec[] = [
+        { kind: 'buyer', count: 3, tradeSize: ethers.parseEther('0.01'), activity: 0.5 },
+        { kind: 'seller', count: 2, tradeSize: ethers.parseEther('0.02'), activity: 0.5 },
+        { kind: 'whale', count: 1, tradeSize: ethers.parseEther('1'), entryStep: 2, exitStep: 6 },
+    ];
+    const options: SimulationOptions = {
+        steps: 8,
+        seed: 7,
+        population,
+        quoteSizes: [ethers.parseEther('0.01'), ethers.parseEther('0.1'), ethers.parseEther('1')],
+    };
+
+    describe('runSimulation', function () {
+        it('Should make the same trades for the same seed', async function () {
+            const first = await runSimulation(new ModelMarket(params), params, options);
+            const second = await runSimulation(new ModelMarket(params), params, options);
+            const reseeded = await runSimulation(new ModelMarket(params), params, {
+                ...options,
+                seed: 8,
+            });
+
+            expect(first.trades.length).to.be.greaterThan(0);
+            expect(second).to.deep.equal(first);
+            expect(reseeded.trades).to.not.deep.equal(first.trades);
+        });
+
+        it('Should account for every wei deposited', async function () {
+            const { summary, trades } = await runSimulation(
+                new ModelMarket(params),
+                params,
+                options,
+            );
+            const buyFees = trades
+                .filter(({ side }) => side === 'buy')
+                .reduce((total, { fees }) => total + fees, 0n);
+
+            expect(trades.some(({ kind, side }) => kind === 'whale' && side === 'sell')).to.be.true;
+            expect(summary.buyVolume + params.initialReserve).to.equal(
+                summary.finalReserve +
+                    summary.protocolFeeRevenue +
+                    summary.collectedFees +
+                    summary.sellVolume,
+            );
+            expect(summary.protocolFeeRevenue).to.be.greaterThan(buyFees);
+            expect(summary.maxPrice).to.be.greaterThan(summary.initialPrice);
+        });
+
+        it('Should match the contracts on the Hardhat network trade for trade', async function () {
+            const model = await runSimulation(new ModelMarket(params), params, options);
+            const onChain = await runSimulation(
+                await HardhatMarket.deploy(hre, params),
+                params,
+                options,
+            );
+
+            expect(onChain.trades).to.deep.equal(model.trades);
+            expect(onChain.pricePath).to.deep.equal(model.pricePath);
+            expect(onChain.slippage).to.deep.equal(model.slippage);
+            expect(onChain.summary).to.deep.equal(model.summary);
+        });
+
+        it('Should quote more slippage for larger trades', async function () {
+            const { slippage } = await runSimulation(new ModelMarket(params), params, options);
+            const initial = slippage.filter(({ stage }) => stage === 'initial');
+
+            expect(initial).to.have.length(3);
+            expect(initial[1].slippage).to.be.greaterThan(initial[0].slippage);
+            expect(initial[2].slippage).to.be.greaterThan(initial[1].slippage);
+        });
+    });
+
+    describe('Reports', function () {
+        let results: SimulationResult[];
+
+        before(async function () {
+            results = await sweep(
+                async (marketParams) => new ModelMarket(marketParams),
+                params,
+                {
+                    reserveRatio: [250000n, 750000n],
+                    initialReserve: [params.initialReserve, ethers.parseEther('0.01')],
+                },
+                options,
+            );
+        });
+
+        it('Should run every combination of the grid', function () {
+            expect(
+                results.map(({ params: { reserveRatio, initialReserve } }) => [
+                    reserveRatio,
+                    initialReserve,
+                ]),
+            ).to.deep.equal([
+                [250000n, params.initialReserve],
+                [250000n, ethers.parseEther('0.01')],
+                [750000n, params.initialReserve],
+                [750000n, ethers.parseEther('0.01')],
+            ]);
+            // A deeper reserve moves the price less for the same trades
+            expect(results[1].slippage[2].slippage).to.be.lessThan(results[0].slippage[2].slippage);
+        });
+
+        it('Should write CSV reports keyed by the settings of each run', function () {
+            const dir = mkdtempSync(join(tmpdir(), 'simulation-'));
+            writeReports(dir, results);
+
+            const summary = readFileSync(join(dir, 'summary.csv'), 'utf-8').trim().split('\n');
+            expect(summary).to.have.length(5);
+            expect(summary[0]).to.match(/^reserveRatio,initialReserve,trades,buyVolume,/);
+            expect(summary[1]).to.match(new RegExp(`^250000,${params.initialReserve},`));
+            const pricePaths = readFileSync(join(dir, 'price-paths.csv'), 'utf-8')
+                .trim()
+                .split('\n');
+            expect(pricePaths).to.have.length(1 + 4 * (options.steps + 1));
+            expect(pricePaths[0]).to.equal(
+                'reserveRatio,initialReserve,step,supply,reserve,spotPrice,protocolFees,collectedFees',
+            );
+            const report = JSON.parse(readFileSync(join(dir, 'report.json'), 'utf-8'));
+            expect(report).to.have.length(4);
+            expect(report[0].summary.finalReserve).to.equal(
+                results[0].summary.finalReserve.toString(),
+            );
+        });
+
+        it('Should escape CSV values', function () {
+            expect(toCsv([{ a: 'x,y', b: 'say "hi"', c: 1n }])).to.equal(
+                'a,b,c\n"x,y","say ""hi""",1\n',
+            );
+        });
+    });
+
+    describe('simulate:market', function () {
+        it('Should sweep the given settings and write the reports', async function () {
+            const out = mkdtempSync(join(tmpdir(), 'simulation-'));
+            const taskResults: SimulationResult[] = await hre.run('simulate:market', {
+                reserveRatios: '250000,500000',
+                steps: 4,
+                out,
+            });
+
+            expect(taskResults.map(({ params }) => params.reserveRatio)).to.deep.equal([
+                250000n,
+                500000n,
+            ]);
+            expect(readFileSync(join(out, 'trades.csv'), 'utf-8')).to.contain('buyer-0');
+        });
+    });
+});
@@ -0,0 +1,261 @@
+import { expect } from 'chai';
+import hre, { ethers, upgrades } from 'hardhat';
+import { Signer } from 'ethers';
+import {
+    AlphaMarketBase,
+    AlphaMarketBaseV2,
+    AlphaMarketTreasury,
+    AlphaMarketTreasuryV2,
+    ExponentialBondingCurve,
+    ExponentialBondingCurveV2,
+    MembershipPricingEngine,
+    MembershipPricingEngineV2,
+} from '../typechain-types';
+import { scheduleChange } from '../sdk';
+import { UpgradeResult } from '../tasks/upgrades';
+
+describe('Upgrades', function () {
+    let alphaMarketTreasury: AlphaMarketTreasury;
+    let alphaMarketBase: AlphaMarketBase;
+    let bondingCurve: ExponentialBondingCurve;
+    let pricingEngine: MembershipPricingEngine;
+    let protocol: Signer;
+    let protocolAddress: string;
+    const initialReserve = ethers.parseEther('0.0001');
+
+    beforeEach(async function () {
+        [protocol] = await ethers.getSigners();
+        protocolAddress = await protocol.getAddress();
+
+        // Deploy the treasury the way the Ignition modules do, so the upgrades plugin does not know it
+        const treasuryImplementation = await (
+            await ethers.getContractFactory('AlphaMarketTreasury')
+        ).deploy();
+        const treasuryProxy = await (
+            await ethers.getContractFactory('ERC1967Proxy')
+        ).deploy(
+            treasuryImplementation,
+            treasuryImplementation.interface.encodeFunctionData('initialize', [protocolAddress]),
+        );
+        alphaMarketTreasury = await ethers.getContractAt('AlphaMarketTreasury', treasuryProxy);
+
+        alphaMarketBase = (await upgrades.deployProxy(
+            await ethers.getContractFactory('AlphaMarketBase'),
+            [protocolAddress, await alphaMarketTreasury.getAddress(), 500, 1000],
+            { initializer: 'initialize' },
+        )) as unknown as AlphaMarketBase;
+        bondingCurve = (await upgrades.deployProxy(
+            await ethers.getContractFactory('ExponentialBondingCurve'),
+            [protocolAddress, await alphaMarketBase.getAddress(), initialReserve, 500000],
+            { initializer: 'initialize' },
+        )) as unknown as ExponentialBondingCurve;
+        pricingEngine = (await upgrades.deployProxy(
+            await ethers.getContractFactory('MembershipPricingEngine'),
+            [protocolAddress, ethers.parseEther('0.01'), 100],
+            { initializer: 'initialize' },
+        )) as unknown as MembershipPricingEngine;
+    });
+
+    // Upgrades a proxy to the V2 mock of `contract`, initializing it to version 2.
+    async function upgradeToV2(proxy: string, contract: string, reference?: string) {
+        return (await hre.run('upgrade:proxy', {
+            proxy,
+            contract: `${contract}V2`,
+            reference,
+            call: 'initializeV2',
+            args: '[2]',
+        })) as UpgradeResult;
+    }
+
+    // Upgrades a timelocked proxy to the V2 mock of `contract`, scheduling the upgrade and making it once ready.
+    async function upgradeTimelockedToV2(proxy: string, contract: string) {
+        const { readyAt } = await upgradeToV2(proxy, contract);
+        await ethers.provider.send('evm_setNextBlockTimestamp', [Number(readyAt)]);
+        await ethers.provider.send('evm_mine', []);
+
+        return upgradeToV2(proxy, contract);
+    }
+
+    async function getImplementation(proxy: string) {
+        return upgrades.erc1967.getImplementationAddress(proxy);
+    }
+
+    describe('upgrade:proxy', function () {
+        it('Should upgrade AlphaMarketBase to V2 preserving its state', async function () {
+            const proxy = await alphaMarketBase.getAddress();
+            const tiers = [{ volumeThreshold: 0, protocolFeePercent: 250, feeSharePercent: 0 }];
+            const { readyAt } = await scheduleChange(alphaMarketBase, 'setFeeSchedule', [
+                protocolAddress,
+                tiers,
+            ]);
+            await ethers.provider.send('evm_setNextBlockTimestamp', [Number(readyAt)]);
+            await alphaMarketBase.setFeeSchedule(protocolAddress, tiers);
+
+            const { implementation, upgraded } = await upgradeTimelockedToV2(
+                proxy,
+                'AlphaMarketBase',
+            );
+            const upgradedBase = (await ethers.getContractAt(
+                'AlphaMarketBaseV2',
+                proxy,
+            )) as unknown as AlphaMarketBaseV2;
+
+            expect(upgraded).to.be.true;
+            expect(await getImplementation(proxy)).to.equal(implementation);
+            expect(await upgradedBase.getVersion()).to.equal(2);
+            expect(await upgradedBase.owner()).to.equal(protocolAddress);
+            expect(await upgradedBase.getProtocolFeeDestination()).to.equal(
+                await alphaMarketTreasury.getAddress(),
+            );
+            expect(await upgradedBase.getProtocolFeePercent()).to.equal(500);
+            expect(await upgradedBase.getFeeSharePercent()).to.equal(1000);
+            expect((await upgradedBase.getFeeSchedule(protocolAddress)).length).to.equal(1);
+        });
+
+        it('Should upgrade a treasury deployed outside of the plugin against its reference', async function () {
+            const proxy = await alphaMarketTreasury.getAddress();
+            const revenue = ethers.parseEther('1');
+            await alphaMarketTreasury.deposit(ethers.ZeroAddress, revenue, { value: revenue });
+            const protocolPayee = await alphaMarketTreasury.getProtocolPayee();
+            const releasable = await alphaMarketTreasury.getReleasable(
+                ethers.ZeroAddress,
+                protocolPayee,
+            );
+            expect(releasable).to.be.greaterThan(0n);
+
+            await expect(upgradeToV2(proxy, 'AlphaMarketTreasury')).to.be.rejectedWith(
+                /is not registered/,
+            );
+            const { implementation } = await upgradeToV2(
+                proxy,
+                'AlphaMarketTreasury',
+                'AlphaMarketTreasury',
+            );
+            const upgradedTreasury = (await ethers.getContractAt(
+                'AlphaMarketTreasuryV2',
+                proxy,
+            )) as unknown as AlphaMarketTreasuryV2;
+
+            expect(await getImplementation(proxy)).to.equal(implementation);
+            expect(await upgradedTreasury.getVersion()).to.equal(2);
+            expect(await upgradedTreasury.owner()).to.equal(protocolAddress);
+            expect(
+                await upgradedTreasury.getReleasable(ethers.ZeroAddress, protocolPayee),
+            ).to.equal(releasable);
+            expect(await ethers.provider.getBalance(proxy)).to.equal(revenue);
+        });
+
+        it('Should upgrade ExponentialBondingCurve to V2 preserving its state', async function () {
+            const proxy = await bondingCurve.getAddress();
+            const [tokensOut] = await bondingCurve.getPurchaseReturn(
+                ethers.ZeroAddress,
+                ethers.parseEther('1'),
+                initialReserve,
+                ethers.parseEther('0.01'),
+            );
+
+            const { implementation } = await upgradeTimelockedToV2(
+                proxy,
+                'ExponentialBondingCurve',
+            );
+            const upgradedCurve = (await ethers.getContractAt(
+                'ExponentialBondingCurveV2',
+                proxy,
+            )) as unknown as ExponentialBondingCurveV2;
+
+            expect(await getImplementation(proxy)).to.equal(implementation);
+            expect(await upgradedCurve.getVersion()).to.equal(2);
+            expect(await upgradedCurve.getAlphaMarketBase()).to.equal(
+                await alphaMarketBase.getAddress(),
+            );
+            expect(await upgradedCurve.getInitialReserve()).to.equal(initialReserve);
+            expect(await upgradedCurve.getReserveRatio()).to.equal(500000);
+            expect(
+                (
+                    await upgradedCurve.getPurchaseReturn(
+                        ethers.ZeroAddress,
+                        ethers.parseEther('1'),
+                        initialReserve,
+                        ethers.parseEther('0.01'),
+                    )
+                )[0],
+            ).to.equal(tokensOut);
+        });
+
+        it('Should upgrade MembershipPricingEngine to V2 preserving its state', async function () {
+            const proxy = await pricingEngine.getAddress();
+            const cost = await pricingEngine.getMembershipCost(10);
+
+            const { implementation } = await upgradeToV2(proxy, 'MembershipPricingEngine');
+            const upgradedEngine = (await ethers.getContractAt(
+                'MembershipPricingEngineV2',
+                proxy,
+            )) as unknown as MembershipPricingEngineV2;
+
+            expect(await getImplementation(proxy)).to.equal(implementation);
+            expect(await upgradedEngine.getVersion()).to.equal(2);
+            expect(await upgradedEngine.getInitialCost()).to.equal(ethers.parseEther('0.01'));
+            expect(await upgradedEngine.getScalingFactor()).to.equal(100);
+            expect(await upgradedEngine.getMembershipCost(10)).to.equal(cost);
+        });
+
+        it('Should schedule the upgrade of a timelocked proxy until its delay has passed', async function () {
+            const proxy = await alphaMarketBase.getAddress();
+            const previousImplementation = await getImplementation(proxy);
+
+            const scheduled = await upgradeToV2(proxy, 'AlphaMarketBase');
+            expect(scheduled.upgraded).to.be.false;
+            expect(scheduled.readyAt).to.be.greaterThan(0n);
+            expect(await alphaMarketBase.getPendingChanges()).to.have.length(1);
+            expect(await getImplementation(proxy)).to.equal(previousImplementation);
+
+            // Running the task again before the delay has passed keeps waiting
+            expect((await upgradeToV2(proxy, 'AlphaMarketBase')).upgraded).to.be.false;
+
+            await ethers.provider.send('evm_increaseTime', [
+                Number(await alphaMarketBase.getChangeDelay()),
+            ]);
+            await ethers.provider.send('evm_mine', []);
+            const { implementation, upgraded } = await upgradeToV2(proxy, 'AlphaMarketBase');
+            expect(upgraded).to.be.true;
+            expect(implementation).to.equal(scheduled.implementation);
+            expect(await getImplementation(proxy)).to.equal(implementation);
+            expect(await alphaMarketBase.getPendingChanges()).to.have.length(0);
+        });
+
+        it('Should leave proxies owned by another account to their owner', async function () {
+            const proxy = await pricingEngine.getAddress();
+            const previousImplementation = await getImplementation(proxy);
+            await pricingEngine.transferOwnership(ethers.Wallet.createRandom().address);
+
+            const { upgraded } = await upgradeToV2(proxy, 'MembershipPricingEngine');
+
+            expect(upgraded).to.be.false;
+            expect(await getImplementation(proxy)).to.equal(previousImplementation);
+        });
+    });
+
+    describe('upgrade:validate', function () {
+        it('Should accept upgrades extending the storage layout', async function () {
+            await hre.run('upgrade:validate', {
+                proxy: await alphaMarketBase.getAddress(),
+                contract: 'AlphaMarketBaseV2',
+            });
+        });
+
+        it('Should reject upgrades with an incompatible storage layout', async function () {
+            await expect(
+                hre.run('upgrade:validate', {
+                    proxy: await alphaMarketBase.getAddress(),
+                    contract: 'AlphaMarketTreasury',
+                }),
+            ).to.be.rejectedWith(/storage layout/i);
+            await expect(
+                hre.run('upgrade:validate', {
+                    proxy: await bondingCurve.getAddress(),
+                    contract: 'MembershipPricingEngine',
+                }),
+            ).to.be.rejectedWith(/storage layout/i);
+        });
+    });
+});